@@ -9,6 +9,7 @@ import Projects from './pages/Projects';
 import ProjectDetail from './pages/ProjectDetail';
 import AdminUsers from './pages/AdminUsers';
 import AuditLogs from './pages/AuditLogs';
+import EmailLog from './pages/EmailLog';
 import ApiDocs from './pages/ApiDocs';
 import Settings from './pages/Settings';
 
@@ -122,6 +123,7 @@ function AppRoutes() {
         <Route path="projects/:id" element={<ProjectDetail />} />
         <Route path="admin-users" element={<AdminUsers />} />
         <Route path="audit-logs" element={<AuditLogs />} />
+        <Route path="email-log" element={<EmailLog />} />
         <Route path="api-docs" element={<ApiDocs />} />
         <Route path="settings" element={<Settings />} />
       </Route>
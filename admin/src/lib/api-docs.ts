@@ -1,6 +1,6 @@
 // API Documentation Data Structure
 export interface APIEndpoint {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   path: string;
   title: string;
   description: string;
@@ -56,6 +56,17 @@ export const apiEndpoints: APIEndpoint[] = [
           },
         },
       },
+      {
+        status: 200,
+        description: 'Password accepted but MFA is enabled - complete the login at /api/admin/login/mfa',
+        example: {
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: 'admin_mfa_challenge',
+          },
+        },
+      },
       {
         status: 401,
         description: 'Invalid credentials',
@@ -67,6 +78,166 @@ export const apiEndpoints: APIEndpoint[] = [
       },
     ],
   },
+  {
+    method: 'POST',
+    path: '/api/admin/login/mfa',
+    title: 'Admin Login MFA Step',
+    description: 'Complete an admin login that returned mfaRequired. The challenge is valid for 5 minutes, completes one login and is spent after 5 wrong codes; each code is accepted once',
+    category: 'Admin Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        mfaToken: 'string (required)',
+        code: 'string (required) - 6 digits',
+      },
+      example: {
+        mfaToken: 'admin_mfa_challenge',
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Login successful',
+        example: {
+          success: true,
+          data: {
+            sessionToken: 'admin_session_token_here',
+            admin: {
+              id: 'admin-id',
+              email: 'admin@example.com',
+              displayName: 'Admin User',
+              role: 'super_admin',
+            },
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid code or expired challenge',
+        example: {
+          success: false,
+          error: 'Invalid MFA code',
+          code: 'AUTH_ERROR',
+        },
+      },
+      {
+        status: 429,
+        description: 'Too many wrong codes from this IP address',
+        example: {
+          success: false,
+          error: 'Too many failed MFA attempts. Please try again later.',
+          code: 'RATE_LIMIT_ERROR',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/admin/me/mfa',
+    title: 'Get Admin MFA Status',
+    description: 'Check whether MFA is enabled for the current admin',
+    category: 'Admin Auth',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'MFA status',
+        example: {
+          success: true,
+          data: { enabled: false },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/me/mfa/enroll',
+    title: 'Enroll Admin MFA',
+    description: 'Generate a new TOTP secret for the current admin. Requires ENCRYPTION_KEY',
+    category: 'Admin Auth',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Enrolment started',
+        example: {
+          success: true,
+          data: {
+            secret: 'JBSWY3DPEHPK3PXP',
+            otpauthUri: 'otpauth://totp/Auth%20Service%20Admin:admin%40example.com?secret=JBSWY3DPEHPK3PXP',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/me/mfa/verify',
+    title: 'Verify Admin MFA',
+    description: 'Confirm enrolment with a code from the authenticator app and enable MFA',
+    category: 'Admin Auth',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        code: 'string (required) - 6 digits',
+      },
+      example: {
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'MFA enabled',
+        example: {
+          success: true,
+          message: 'MFA enabled successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/me/mfa/disable',
+    title: 'Disable Admin MFA',
+    description: 'Disable MFA for the current admin using a current code',
+    category: 'Admin Auth',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        code: 'string (required) - 6 digits',
+      },
+      example: {
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'MFA disabled',
+        example: {
+          success: true,
+          message: 'MFA disabled successfully',
+        },
+      },
+    ],
+  },
   {
     method: 'POST',
     path: '/api/admin/logout',
@@ -184,6 +355,7 @@ export const apiEndpoints: APIEndpoint[] = [
             description: 'My Application',
             environment: 'production',
             jwtSecret: 'jwt_secret',
+            jwtAlgorithm: 'HS256',
             enabled: true,
           },
         },
@@ -191,366 +363,2013 @@ export const apiEndpoints: APIEndpoint[] = [
     ],
   },
   {
-    method: 'DELETE',
+    method: 'PUT',
     path: '/api/admin/projects/:id',
-    title: 'Delete Project',
-    description: 'Delete a project and all associated data',
+    title: 'Update Project',
+    description: 'Update project settings. Set the email sender fields to null to use the system default provider',
     category: 'Projects',
     authentication: 'Admin Session',
     headers: {
       'X-Admin-Session': 'your_session_token',
     },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        name: 'string (optional)',
+        description: 'string (optional)',
+        enabled: 'boolean (optional)',
+        jwtAlgorithm: 'string (optional) - HS256, RS256, ES256 or EdDSA',
+        siteUrl: 'string (optional)',
+        redirectUrls: 'string[] (optional)',
+        emailProviderId: 'string | null (optional) - email provider used for this project',
+        emailFromName: 'string | null (optional)',
+        emailFromAddress: 'string | null (optional)',
+        emailReplyTo: 'string | null (optional)',
+      },
+      example: {
+        emailProviderId: 'provider-id',
+        emailFromName: 'My App',
+        emailFromAddress: 'noreply@myapp.com',
+        emailReplyTo: 'support@myapp.com',
+      },
+    },
     responses: [
       {
         status: 200,
-        description: 'Project deleted',
+        description: 'Project updated',
         example: {
           success: true,
-          message: 'Project deleted successfully',
+          data: {
+            id: 'project-id',
+            name: 'my-app',
+            emailProviderId: 'provider-id',
+            emailFromName: 'My App',
+            emailFromAddress: 'noreply@myapp.com',
+            emailReplyTo: 'support@myapp.com',
+          },
+          message: 'Project updated successfully',
+        },
+      },
+      {
+        status: 400,
+        description: 'Unknown email provider',
+        example: {
+          success: false,
+          error: 'Email provider not found',
+          code: 'BAD_REQUEST',
         },
       },
     ],
   },
-
-  // User Authentication
   {
-    method: 'POST',
-    path: '/api/auth/:projectId/register',
-    title: 'Register User',
-    description: 'Register a new user in a project',
-    category: 'User Auth',
-    authentication: 'None',
-    requestBody: {
-      type: 'application/json',
-      schema: {
-        email: 'string (required)',
-        password: 'string (required) - min 8 chars',
-        firstName: 'string (optional)',
-        lastName: 'string (optional)',
-      },
-      example: {
-        email: 'user@example.com',
-        password: 'UserPassword123!',
-        firstName: 'John',
-        lastName: 'Doe',
-      },
+    method: 'DELETE',
+    path: '/api/admin/projects/:id',
+    title: 'Delete Project',
+    description: 'Delete a project and all associated data',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
     },
     responses: [
       {
-        status: 201,
-        description: 'User registered successfully',
+        status: 200,
+        description: 'Project deleted',
         example: {
           success: true,
-          data: {
-            user: {
-              id: 'user-id',
-              email: 'user@example.com',
-              displayName: 'John Doe',
-            },
-            accessToken: 'jwt_access_token',
-            refreshToken: 'refresh_token',
-          },
+          message: 'Project deleted successfully',
         },
       },
     ],
   },
   {
-    method: 'POST',
-    path: '/api/auth/:projectId/login',
-    title: 'User Login',
-    description: 'Authenticate a user and receive access tokens',
-    category: 'User Auth',
-    authentication: 'None',
-    requestBody: {
-      type: 'application/json',
-      schema: {
-        email: 'string (required)',
-        password: 'string (required)',
-      },
-      example: {
-        email: 'user@example.com',
-        password: 'UserPassword123!',
-      },
+    method: 'GET',
+    path: '/api/admin/projects/:projectId/signing-keys',
+    title: 'List Signing Keys',
+    description: 'List the project key ring. The newest active key signs new tokens; every key that is not retired is accepted',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
     },
     responses: [
       {
         status: 200,
-        description: 'Login successful',
+        description: 'Signing keys',
         example: {
           success: true,
-          data: {
-            user: {
-              id: 'user-id',
-              email: 'user@example.com',
-              displayName: 'John Doe',
+          data: [
+            {
+              id: 'key-id',
+              kid: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+              algorithm: 'ES256',
+              status: 'active',
+              signing: true,
+              projectSecret: false,
+              createdAt: '2024-01-01T00:00:00Z',
+              activatedAt: '2024-01-01T00:00:00Z',
+              retiredAt: null,
             },
-            accessToken: 'jwt_access_token',
-            refreshToken: 'refresh_token',
-          },
+          ],
         },
       },
     ],
   },
   {
     method: 'POST',
-    path: '/api/auth/:projectId/refresh',
-    title: 'Refresh Access Token',
-    description: 'Get a new access token and refresh token using an existing refresh token. The old refresh token will be revoked.',
-    category: 'User Auth',
-    authentication: 'None',
-    requestBody: {
-      type: 'application/json',
-      schema: {
-        refreshToken: 'string (required)',
-      },
-      example: {
-        refreshToken: 'your_refresh_token_here',
-      },
+    path: '/api/admin/projects/:projectId/signing-keys/rotate',
+    title: 'Schedule Key Rotation',
+    description: 'Create a "next" key for the project algorithm. It is published in the JWKS right away but does not sign until activated',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
     },
     responses: [
       {
         status: 200,
-        description: 'Token refreshed successfully',
+        description: 'Rotation scheduled; returns the updated key ring',
         example: {
           success: true,
-          data: {
-            accessToken: 'new_jwt_access_token',
-            refreshToken: 'new_refresh_token',
-          },
+          data: [],
+          message: 'Key rotation scheduled',
         },
       },
       {
-        status: 401,
-        description: 'Invalid or expired refresh token',
+        status: 409,
+        description: 'A rotation is already scheduled',
         example: {
           success: false,
-          error: 'Invalid refresh token',
-          code: 'AUTH_ERROR',
+          error: 'A key rotation is already scheduled',
+          code: 'CONFLICT_ERROR',
         },
       },
     ],
   },
   {
     method: 'POST',
-    path: '/api/auth/:projectId/logout',
-    title: 'User Logout',
-    description: 'Logout user and revoke refresh token',
+    path: '/api/admin/projects/:projectId/signing-keys/:keyId/activate',
+    title: 'Activate Signing Key',
+    description: 'Start signing new tokens with a scheduled key. The previous key keeps verifying tokens until retired',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Key activated; returns the updated key ring',
+        example: {
+          success: true,
+          data: [],
+          message: 'Signing key activated',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/projects/:projectId/signing-keys/:keyId/retire',
+    title: 'Retire Signing Key',
+    description: 'Stop accepting tokens signed with a key. The key currently signing tokens cannot be retired',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Key retired; returns the updated key ring',
+        example: {
+          success: true,
+          data: [],
+          message: 'Signing key retired',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/admin/projects/:projectId/oauth-clients',
+    title: 'List OAuth Clients',
+    description: 'List the apps registered to sign users in with this project over OpenID Connect',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'OAuth clients',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'row-id',
+              clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ',
+              clientType: 'confidential',
+              name: 'Partner App',
+              redirectUris: ['https://partner.example.com/callback'],
+              allowedScopes: [],
+              skipConsent: false,
+              enabled: true,
+              createdAt: '2024-01-01T00:00:00Z',
+              updatedAt: '2024-01-01T00:00:00Z',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/projects/:projectId/oauth-clients',
+    title: 'Create OAuth Client',
+    description: 'Register an OAuth client. Redirect URIs must be allowed by the project site URL or redirect URLs. Service clients have allowed scopes instead of redirect URIs. Confidential and public clients receive ID tokens, so they require a project signing with RS256, ES256 or EdDSA. The client secret is only returned here',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        name: 'string (required)',
+        clientType: 'confidential | public | service (default: confidential)',
+        redirectUris: 'string[] (required, except for service clients)',
+        allowedScopes: 'string[] (required for service clients only)',
+        skipConsent: 'boolean (default: false)',
+      },
+      example: {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: ['https://partner.example.com/callback'],
+      },
+    },
+    responses: [
+      {
+        status: 201,
+        description: 'Client created',
+        example: {
+          success: true,
+          data: {
+            client: { clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ', name: 'Partner App' },
+            clientSecret: 'shown_once_client_secret',
+          },
+          message: 'OAuth client created successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'PATCH',
+    path: '/api/admin/projects/:projectId/oauth-clients/:clientId',
+    title: 'Update OAuth Client',
+    description: 'Rename, enable or disable a client, or change its redirect URIs, allowed scopes or consent setting',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        name: 'string (optional)',
+        redirectUris: 'string[] (optional)',
+        allowedScopes: 'string[] (optional, service clients only)',
+        skipConsent: 'boolean (optional)',
+        enabled: 'boolean (optional)',
+      },
+      example: {
+        enabled: false,
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Client updated',
+        example: {
+          success: true,
+          data: { clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ', enabled: false },
+          message: 'OAuth client updated successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/projects/:projectId/oauth-clients/:clientId/secret',
+    title: 'Regenerate Client Secret',
+    description: 'Replace a confidential client\'s secret. The previous secret stops working immediately',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'New secret',
+        example: {
+          success: true,
+          data: {
+            client: { clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ' },
+            clientSecret: 'shown_once_client_secret',
+          },
+          message: 'Client secret regenerated',
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/admin/projects/:projectId/oauth-clients/:clientId',
+    title: 'Delete OAuth Client',
+    description: 'Delete a client together with its user consents and pending authorization codes',
+    category: 'Projects',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Client deleted',
+        example: {
+          success: true,
+          message: 'OAuth client deleted successfully',
+        },
+      },
+    ],
+  },
+
+  // User Authentication
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/register',
+    title: 'Register User',
+    description: 'Register a new user in a project',
     category: 'User Auth',
     authentication: 'None',
     requestBody: {
       type: 'application/json',
       schema: {
-        refreshToken: 'string (required)',
+        email: 'string (required)',
+        password: 'string (required) - min 8 chars',
+        firstName: 'string (optional)',
+        lastName: 'string (optional)',
       },
       example: {
-        refreshToken: 'your_refresh_token_here',
+        email: 'user@example.com',
+        password: 'UserPassword123!',
+        firstName: 'John',
+        lastName: 'Doe',
+      },
+    },
+    responses: [
+      {
+        status: 201,
+        description: 'User registered successfully',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/login',
+    title: 'User Login',
+    description: 'Authenticate a user and receive access tokens',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        password: 'string (required)',
+      },
+      example: {
+        email: 'user@example.com',
+        password: 'UserPassword123!',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Login successful',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+          },
+        },
+      },
+      {
+        status: 200,
+        description: 'Password accepted but MFA is enabled - complete the login at /mfa/verify',
+        example: {
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: 'mfa_challenge_token',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/mfa/verify',
+    title: 'Verify MFA Code',
+    description: 'Complete a login that returned mfaRequired using a code from the authenticator app. The challenge is valid for 5 minutes, completes one login and is spent after 5 wrong codes; each code is accepted once',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        mfaToken: 'string (required)',
+        code: 'string (required) - 6 digits',
+      },
+      example: {
+        mfaToken: 'mfa_challenge_token',
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Login successful',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid code or expired challenge',
+        example: {
+          success: false,
+          error: 'Invalid MFA code',
+          code: 'AUTH_ERROR',
+        },
+      },
+      {
+        status: 429,
+        description: 'Too many wrong codes from this IP address',
+        example: {
+          success: false,
+          error: 'Too many failed MFA attempts. Please try again later.',
+          code: 'RATE_LIMIT_ERROR',
+        },
       },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/mfa/factors',
+    title: 'List MFA Factors',
+    description: 'List the authenticated user\'s MFA factors',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'MFA factors',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'factor-id',
+              userId: 'user-id',
+              factorType: 'totp',
+              friendlyName: 'Phone',
+              status: 'verified',
+              createdAt: '2025-11-03 00:00:00',
+              verifiedAt: '2025-11-03 00:01:00',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/mfa/totp/enroll',
+    title: 'Enroll Authenticator App',
+    description: 'Start TOTP enrolment. Render otpauthUri as a QR code, then confirm with a code from the app',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        friendlyName: 'string (optional)',
+      },
+      example: {
+        friendlyName: 'Phone',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Enrolment started',
+        example: {
+          success: true,
+          data: {
+            factorId: 'factor-id',
+            secret: 'JBSWY3DPEHPK3PXP',
+            otpauthUri: 'otpauth://totp/My%20App:user%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=My+App',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/mfa/totp/confirm',
+    title: 'Confirm Authenticator App',
+    description: 'Finish TOTP enrolment. Once confirmed, password logins require an MFA code',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        factorId: 'string (required)',
+        code: 'string (required) - 6 digits',
+      },
+      example: {
+        factorId: 'factor-id',
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'MFA enabled',
+        example: {
+          success: true,
+          data: {
+            id: 'factor-id',
+            factorType: 'totp',
+            status: 'verified',
+          },
+          message: 'MFA enabled successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/:projectId/mfa/factors/:factorId',
+    title: 'Remove MFA Factor',
+    description: 'Remove an MFA factor. A current code is required for verified factors',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        code: 'string (required for verified factors) - 6 digits',
+      },
+      example: {
+        code: '123456',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Factor removed',
+        example: {
+          success: true,
+          message: 'MFA factor removed successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/webauthn/register/options',
+    title: 'Passkey Registration Options',
+    description: 'Get options for navigator.credentials.create(). Binary fields are base64url encoded. The RP ID is the hostname of the project site URL',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Creation options',
+        example: {
+          success: true,
+          data: {
+            challenge: 'base64url-challenge',
+            rp: { id: 'app.example.com', name: 'My App' },
+            user: { id: 'base64url-user-id', name: 'user@example.com', displayName: 'John Doe' },
+            pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -8 }, { type: 'public-key', alg: -257 }],
+            timeout: 300000,
+            attestation: 'none',
+            excludeCredentials: [],
+            authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/webauthn/register/verify',
+    title: 'Verify Passkey Registration',
+    description: 'Store a passkey from the navigator.credentials.create() result. Only "none" attestation is accepted',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        credential: 'object (required) - PublicKeyCredential JSON with base64url fields',
+        name: 'string (optional)',
+      },
+      example: {
+        credential: {
+          id: 'base64url-credential-id',
+          type: 'public-key',
+          response: {
+            clientDataJSON: 'base64url',
+            attestationObject: 'base64url',
+            transports: ['internal', 'hybrid'],
+          },
+        },
+        name: 'MacBook',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Passkey registered',
+        example: {
+          success: true,
+          data: {
+            id: 'passkey-id',
+            credentialId: 'base64url-credential-id',
+            name: 'MacBook',
+            transports: ['internal', 'hybrid'],
+            createdAt: '2024-01-01T00:00:00Z',
+            lastUsedAt: null,
+          },
+          message: 'Passkey registered successfully',
+        },
+      },
+      {
+        status: 409,
+        description: 'Passkey already registered',
+        example: {
+          success: false,
+          error: 'Passkey is already registered',
+          code: 'CONFLICT_ERROR',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/webauthn/login/options',
+    title: 'Passkey Sign-In Options',
+    description: 'Get options for navigator.credentials.get(). Without an email, any discoverable passkey for the site can be used',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (optional)',
+      },
+      example: {
+        email: 'user@example.com',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Request options',
+        example: {
+          success: true,
+          data: {
+            challenge: 'base64url-challenge',
+            rpId: 'app.example.com',
+            timeout: 300000,
+            userVerification: 'preferred',
+            allowCredentials: [{ type: 'public-key', id: 'base64url-credential-id', transports: ['internal'] }],
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/webauthn/login/verify',
+    title: 'Verify Passkey Sign-In',
+    description: 'Verify the navigator.credentials.get() result and return tokens, like a password login',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        credential: 'object (required) - PublicKeyCredential JSON with base64url fields',
+      },
+      example: {
+        credential: {
+          id: 'base64url-credential-id',
+          type: 'public-key',
+          response: {
+            clientDataJSON: 'base64url',
+            authenticatorData: 'base64url',
+            signature: 'base64url',
+            userHandle: 'base64url-user-id',
+          },
+        },
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Sign-in successful',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'eyJhbGc...',
+            refreshToken: 'refresh_token_here',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid passkey response',
+        example: {
+          success: false,
+          error: 'Invalid passkey signature',
+          code: 'AUTH_ERROR',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/webauthn/credentials',
+    title: 'List Passkeys',
+    description: 'List the passkeys registered by the current user',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Passkeys',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'passkey-id',
+              credentialId: 'base64url-credential-id',
+              name: 'MacBook',
+              transports: ['internal'],
+              createdAt: '2024-01-01T00:00:00Z',
+              lastUsedAt: '2024-01-02T00:00:00Z',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/:projectId/webauthn/credentials/:credentialId',
+    title: 'Remove Passkey',
+    description: 'Remove one of the current user\'s passkeys',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Passkey removed',
+        example: {
+          success: true,
+          message: 'Passkey removed successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/refresh',
+    title: 'Refresh Access Token',
+    description: 'Get a new access token and refresh token using an existing refresh token. Each refresh token can be used once; presenting one that was already rotated revokes every token issued from the same sign-in and is recorded as a refresh_token_reuse audit event.',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        refreshToken: 'string (required)',
+      },
+      example: {
+        refreshToken: 'your_refresh_token_here',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Token refreshed successfully',
+        example: {
+          success: true,
+          data: {
+            accessToken: 'new_jwt_access_token',
+            refreshToken: 'new_refresh_token',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid or expired refresh token',
+        example: {
+          success: false,
+          error: 'Invalid refresh token',
+          code: 'AUTH_ERROR',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/logout',
+    title: 'User Logout',
+    description: 'Logout user and revoke refresh token',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        refreshToken: 'string (required)',
+      },
+      example: {
+        refreshToken: 'your_refresh_token_here',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Logout successful',
+        example: {
+          success: true,
+          message: 'Logged out successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/sessions',
+    title: 'List Sessions',
+    description: 'List the current user\'s active sessions. Each sign-in is one session and keeps its ID across refresh token rotations.',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Active sessions, most recently used first',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'session-id',
+              deviceName: null,
+              userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+              ipAddress: '203.0.113.7',
+              lastUsedAt: '2024-01-02T00:00:00Z',
+              expiresAt: '2024-01-09T00:00:00Z',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/:projectId/sessions',
+    title: 'Revoke All Sessions',
+    description: 'Sign the current user out everywhere by revoking all of their refresh tokens. Access tokens already issued are revoked too.',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Sessions revoked',
+        example: {
+          success: true,
+          message: 'All sessions revoked successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/:projectId/sessions/:sessionId',
+    title: 'Revoke Session',
+    description: 'Sign the current user out of one session. Its refresh token and the access tokens issued to it are revoked immediately.',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Session revoked',
+        example: {
+          success: true,
+          message: 'Session revoked successfully',
+        },
+      },
+      {
+        status: 404,
+        description: 'Session not found',
+        example: {
+          success: false,
+          error: 'Session not found',
+          code: 'NOT_FOUND',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/me',
+    title: 'Get Current User',
+    description: 'Get the authenticated user\'s information',
+    category: 'User Auth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'User information',
+        example: {
+          success: true,
+          data: {
+            id: 'user-id',
+            email: 'user@example.com',
+            displayName: 'John Doe',
+            emailVerified: true,
+            status: 'active',
+            createdAt: '2025-11-03T00:00:00Z',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/.well-known/jwks.json',
+    title: 'JSON Web Key Set',
+    description: 'Public keys for verifying access tokens signed with RS256, ES256 or EdDSA. Match the token\'s kid header to a key. Includes scheduled keys so verifiers can cache them before rotation; HS256 keys are never published',
+    category: 'User Auth',
+    authentication: 'None',
+    responses: [
+      {
+        status: 200,
+        description: 'Key set',
+        example: {
+          keys: [
+            {
+              kty: 'EC',
+              crv: 'P-256',
+              x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU',
+              y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0',
+              kid: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+              alg: 'ES256',
+              use: 'sig',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/forgot-password',
+    title: 'Forgot Password',
+    description: 'Request a password reset email',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+      },
+      example: {
+        email: 'user@example.com',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Request processed (always returns success)',
+        example: {
+          success: true,
+          message: 'If an account exists with this email, a password reset link has been sent',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/reset-password',
+    title: 'Reset Password',
+    description: 'Reset user password with token from email',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        token: 'string (required)',
+        newPassword: 'string (required) - min 8 chars',
+      },
+      example: {
+        token: 'reset_token_from_email',
+        newPassword: 'NewPassword123!',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Password reset successfully',
+        example: {
+          success: true,
+          message: 'Password has been reset successfully',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/confirm-email',
+    title: 'Confirm Email',
+    description: 'Confirm user email address with token',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'query',
+      schema: {
+        token: 'string (required)',
+      },
+      example: {
+        token: 'confirmation_token_from_email',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Email confirmed successfully',
+        example: {
+          success: true,
+          message: 'Email confirmed successfully',
+          data: { email: 'user@example.com' },
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/magic-link',
+    title: 'Request Magic Link',
+    description: 'Email a single-use passwordless sign-in link (valid for 15 minutes)',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        redirectTo: 'string (optional) - must match the project siteUrl or redirectUrls allowlist',
+      },
+      example: {
+        email: 'user@example.com',
+        redirectTo: 'https://app.example.com/auth/callback',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Request accepted (always returns success)',
+        example: {
+          success: true,
+          message: 'If an account exists with this email, a sign-in link has been sent',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/magic-link/verify',
+    title: 'Verify Magic Link',
+    description: 'Exchange the token from a magic link for access and refresh tokens',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        token: 'string (required)',
+      },
+      example: {
+        token: 'magic_link_token_from_email',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Sign-in successful',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+            redirectTo: 'https://app.example.com/auth/callback',
+          },
+        },
+      },
+      {
+        status: 200,
+        description: 'Link accepted but MFA is enabled - complete the sign-in at /mfa/verify',
+        example: {
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: 'mfa_challenge_token',
+            redirectTo: 'https://app.example.com/auth/callback',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid, expired or already used link',
+        example: {
+          success: false,
+          error: 'Magic link has expired',
+          code: 'AUTH_ERROR',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/otp',
+    title: 'Request Email Code',
+    description: 'Email a 6-digit one-time code for sign-in or email verification (valid for 10 minutes)',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        purpose: "'login' | 'email_verification' (optional, default 'login')",
+      },
+      example: {
+        email: 'user@example.com',
+        purpose: 'login',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Request accepted (always returns success)',
+        example: {
+          success: true,
+          message: 'If an account exists with this email, a verification code has been sent',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/otp/verify',
+    title: 'Verify Email Code',
+    description: 'Verify a one-time code. Login codes return access and refresh tokens; each code allows 5 attempts',
+    category: 'User Auth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        code: 'string (required) - 6 digits',
+        purpose: "'login' | 'email_verification' (optional, default 'login')",
+      },
+      example: {
+        email: 'user@example.com',
+        code: '123456',
+        purpose: 'login',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Code accepted',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+          },
+        },
+      },
+      {
+        status: 200,
+        description: 'Login code accepted but MFA is enabled - complete the login at /mfa/verify',
+        example: {
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: 'mfa_challenge_token',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Wrong, expired or exhausted code',
+        example: {
+          success: false,
+          error: 'Invalid code',
+          code: 'AUTH_ERROR',
+        },
+      },
+    ],
+  },
+
+  // Admin Users Management
+  {
+    method: 'GET',
+    path: '/api/admin/users',
+    title: 'List Admin Users',
+    description: 'Get list of all admin users',
+    category: 'Admin Users',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Admin users list',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'admin-id',
+              email: 'admin@example.com',
+              displayName: 'Admin User',
+              role: 'super_admin',
+              enabled: true,
+              createdAt: '2025-11-03T00:00:00Z',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/users',
+    title: 'Create Admin User',
+    description: 'Create a new admin user',
+    category: 'Admin Users',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        password: 'string (required) - min 8 chars',
+        displayName: 'string (required)',
+        role: 'string (required) - super_admin | admin | viewer',
+      },
+      example: {
+        email: 'newadmin@example.com',
+        password: 'AdminPass123!',
+        displayName: 'New Admin',
+        role: 'admin',
+      },
+    },
+    responses: [
+      {
+        status: 201,
+        description: 'Admin user created',
+        example: {
+          success: true,
+          data: {
+            id: 'admin-id',
+            email: 'newadmin@example.com',
+            displayName: 'New Admin',
+            role: 'admin',
+          },
+          message: 'Admin user created successfully',
+        },
+      },
+    ],
+  },
+
+  // Project Users Management
+  {
+    method: 'GET',
+    path: '/api/admin/projects/:projectId/users',
+    title: 'List Project Users',
+    description: 'Get list of users in a specific project',
+    category: 'Project Users',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Project users list',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+              emailVerified: true,
+              status: 'active',
+              createdAt: '2025-11-03T00:00:00Z',
+            },
+          ],
+          total: 1,
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/admin/projects/:projectId/users',
+    title: 'Create Project User',
+    description: 'Create a new user in a project',
+    category: 'Project Users',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        email: 'string (required)',
+        password: 'string (required)',
+        firstName: 'string (optional)',
+        lastName: 'string (optional)',
+      },
+      example: {
+        email: 'user@example.com',
+        password: 'UserPass123!',
+        firstName: 'John',
+        lastName: 'Doe',
+      },
+    },
+    responses: [
+      {
+        status: 201,
+        description: 'User created',
+        example: {
+          success: true,
+          data: {
+            id: 'user-id',
+            email: 'user@example.com',
+            displayName: 'John Doe',
+          },
+          message: 'User created successfully',
+        },
+      },
+    ],
+  },
+
+  // OAuth
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/oauth/:provider',
+    title: 'Get OAuth Authorization URL',
+    description: 'Get the OAuth authorization URL for a provider (query: redirect_uri, which must be allowed by the project\'s site URL or redirect URLs). The URL uses PKCE, and the state is an encrypted token that expires after 10 minutes. It binds the project, provider and redirect URI. The response sets an HttpOnly cookie that binds the state to this browser, so call it with credentials. The provider redirects to the OAuth Callback route, which then returns to redirect_uri.',
+    category: 'OAuth',
+    authentication: 'None',
+    responses: [
+      {
+        status: 200,
+        description: 'OAuth URL generated',
+        example: {
+          success: true,
+          data: {
+            authUrl: 'https://oauth-provider.com/authorize?...',
+            state: 'encrypted_state_token',
+          },
+        },
+      },
+      {
+        status: 400,
+        description: 'Redirect URI not allowed',
+        example: {
+          success: false,
+          error: 'Redirect URI is not allowed for this project',
+          code: 'BAD_REQUEST',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/oauth/:provider/callback',
+    title: 'OAuth Callback',
+    description: 'Redirect URI to register with the provider (query: code, state as returned by the provider). Signs in the user linked to the provider account, or creates one. If the email is already registered, the account is linked only when the project links by verified email. Redirects to the app redirect URI with a one-time code that expires after 60 seconds, or with error and error_description, including when the browser is not the one that started the sign-in. Apple posts the same parameters, plus user (name, first sign-in only), as a form to this path.',
+    category: 'OAuth',
+    authentication: 'None',
+    responses: [
+      {
+        status: 302,
+        description: 'Redirect to the app redirect URI with code, or with error and error_description',
+        example: null,
+      },
+      {
+        status: 401,
+        description: 'Invalid or expired state',
+        example: {
+          success: false,
+          error: 'Invalid or expired OAuth state',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/oauth/exchange',
+    title: 'Exchange OAuth Code',
+    description: 'Exchange the one-time code from the OAuth callback redirect for tokens. Each code can be used once, and only with credentials from the browser that started the sign-in (the HttpOnly cookie set when the authorization URL was requested).',
+    category: 'OAuth',
+    authentication: 'None',
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        code: 'string (required)',
+      },
+      example: {
+        code: 'one_time_code',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'OAuth authentication successful',
+        example: {
+          success: true,
+          data: {
+            user: {
+              id: 'user-id',
+              email: 'user@example.com',
+              displayName: 'John Doe',
+            },
+            accessToken: 'jwt_access_token',
+            refreshToken: 'refresh_token',
+          },
+        },
+      },
+      {
+        status: 200,
+        description: 'Code accepted but MFA is enabled - complete the login at /mfa/verify',
+        example: {
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: 'mfa_challenge_token',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Invalid, expired or used code',
+        example: {
+          success: false,
+          error: 'Invalid or expired code',
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/identities',
+    title: 'List Linked Accounts',
+    description: 'List the OAuth provider accounts linked to the current user',
+    category: 'OAuth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Linked accounts',
+        example: {
+          success: true,
+          data: [
+            {
+              id: 'identity-id',
+              provider: 'github',
+              providerUserId: '583231',
+              email: 'user@example.com',
+              createdAt: '2024-01-01T00:00:00Z',
+              lastSignInAt: '2024-01-02T00:00:00Z',
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/identities/:provider',
+    title: 'Link Account',
+    description: 'Start linking a provider account to the current user. Call it with credentials: the response sets an HttpOnly cookie, and the link only completes in this browser. Send the user to the returned URL; the OAuth callback links the account and redirects to redirectUri, or adds error and error_description if the provider account belongs to another user.',
+    category: 'OAuth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    requestBody: {
+      type: 'application/json',
+      schema: {
+        redirectUri: 'string (required) - Must be allowed by the project',
+      },
+      example: {
+        redirectUri: 'https://app.example.com/settings/accounts',
+      },
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'OAuth URL generated',
+        example: {
+          success: true,
+          data: {
+            authUrl: 'https://oauth-provider.com/authorize?...',
+            state: 'encrypted_state_token',
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/:projectId/identities/:provider/token',
+    title: 'Get Provider Token',
+    description: 'Get the current user\'s access token for calling the provider\'s API. Only available when the provider is configured with storeTokens; tokens about to expire are refreshed first. Not available to tokens issued to OAuth clients.',
+    category: 'OAuth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Provider token',
+        example: {
+          success: true,
+          data: {
+            provider: 'github',
+            accessToken: 'gho_...',
+            expiresAt: '2026-10-19T13:00:00.000Z',
+            scope: 'read:user user:email repo',
+          },
+        },
+      },
+      {
+        status: 401,
+        description: 'Token expired and cannot be refreshed',
+        example: {
+          success: false,
+          error: 'Provider token expired. Sign in with the provider again.',
+          code: 'AUTH_ERROR',
+        },
+      },
+      {
+        status: 404,
+        description: 'No token stored',
+        example: {
+          success: false,
+          error: 'No provider token stored for this account',
+          code: 'NOT_FOUND',
+        },
+      },
+    ],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/:projectId/identities/:identityId',
+    title: 'Unlink Account',
+    description: 'Unlink a provider account from the current user. The last sign-in method (no password, passkey or other linked account) cannot be removed.',
+    category: 'OAuth',
+    authentication: 'JWT Bearer',
+    headers: {
+      'Authorization': 'Bearer your_access_token',
     },
     responses: [
       {
         status: 200,
-        description: 'Logout successful',
+        description: 'Account unlinked',
         example: {
           success: true,
-          message: 'Logged out successfully',
+          message: 'Account unlinked successfully',
+        },
+      },
+      {
+        status: 400,
+        description: 'Only sign-in method',
+        example: {
+          success: false,
+          error: 'Cannot unlink the only sign-in method for this account',
+          code: 'BAD_REQUEST',
         },
       },
     ],
   },
+
+  // OpenID Connect
   {
     method: 'GET',
-    path: '/api/auth/:projectId/me',
-    title: 'Get Current User',
-    description: 'Get the authenticated user\'s information',
-    category: 'User Auth',
-    authentication: 'JWT Bearer',
-    headers: {
-      'Authorization': 'Bearer your_access_token',
-    },
+    path: '/api/auth/:projectId/.well-known/openid-configuration',
+    title: 'OpenID Provider Configuration',
+    description: 'Discovery document for apps that sign users in with this project over OpenID Connect',
+    category: 'OpenID Connect',
+    authentication: 'None',
     responses: [
       {
         status: 200,
-        description: 'User information',
+        description: 'Provider configuration',
         example: {
-          success: true,
-          data: {
-            id: 'user-id',
-            email: 'user@example.com',
-            displayName: 'John Doe',
-            emailVerified: true,
-            status: 'active',
-            createdAt: '2025-11-03T00:00:00Z',
-          },
+          issuer: 'https://auth.example.com/api/auth/my_app',
+          authorization_endpoint: 'https://auth.example.com/api/auth/my_app/oauth2/authorize',
+          token_endpoint: 'https://auth.example.com/api/auth/my_app/oauth2/token',
+          userinfo_endpoint: 'https://auth.example.com/api/auth/my_app/oauth2/userinfo',
+          jwks_uri: 'https://auth.example.com/api/auth/my_app/.well-known/jwks.json',
+          response_types_supported: ['code'],
+          id_token_signing_alg_values_supported: ['ES256'],
+          scopes_supported: ['openid', 'profile', 'email'],
+          code_challenge_methods_supported: ['S256'],
         },
       },
     ],
   },
   {
-    method: 'POST',
-    path: '/api/auth/:projectId/forgot-password',
-    title: 'Forgot Password',
-    description: 'Request a password reset email',
-    category: 'User Auth',
+    method: 'GET',
+    path: '/api/auth/:projectId/oauth2/authorize',
+    title: 'Authorization Endpoint',
+    description: 'Start the authorization code flow (query: response_type=code, client_id, redirect_uri, scope, state, nonce, code_challenge, code_challenge_method=S256). Redirects to {siteUrl}/oauth/authorize with the same parameters so the project app can sign the user in',
+    category: 'OpenID Connect',
     authentication: 'None',
+    responses: [
+      {
+        status: 302,
+        description: 'Redirect to the project sign-in page, or to the client with an error',
+        example: null,
+      },
+      {
+        status: 400,
+        description: 'Project signs with HS256, unknown client or unregistered redirect URI (never redirected)',
+        example: {
+          success: false,
+          error: 'Redirect URI is not registered for this client',
+          code: 'BAD_REQUEST',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/oauth2/authorize',
+    title: 'Complete Authorization',
+    description: 'Called by the project sign-in page with the user\'s access token. Without a consent decision it reports whether the consent screen is needed; otherwise it returns the redirect back to the client carrying the authorization code',
+    category: 'OpenID Connect',
+    authentication: 'JWT Bearer',
+    headers: {
+      Authorization: 'Bearer your_access_token',
+    },
     requestBody: {
       type: 'application/json',
       schema: {
-        email: 'string (required)',
+        responseType: 'string (required)',
+        clientId: 'string (required)',
+        redirectUri: 'string (required)',
+        scope: 'string (required)',
+        state: 'string (optional)',
+        nonce: 'string (optional)',
+        codeChallenge: 'string (optional, required for public clients)',
+        codeChallengeMethod: 'S256',
+        prompt: 'string (optional)',
+        consent: 'approve | deny (optional)',
       },
       example: {
-        email: 'user@example.com',
+        responseType: 'code',
+        clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ',
+        redirectUri: 'https://partner.example.com/callback',
+        scope: 'openid email profile',
+        state: 'af0ifjsldkj',
+        consent: 'approve',
       },
     },
     responses: [
       {
         status: 200,
-        description: 'Request processed (always returns success)',
+        description: 'Consent needed',
         example: {
           success: true,
-          message: 'If an account exists with this email, a password reset link has been sent',
+          data: {
+            consentRequired: true,
+            client: { clientId: 'V1StGXR8_Z5jdHi6B-myT3aQ', name: 'Partner App' },
+            scopes: ['openid', 'profile', 'email'],
+          },
+        },
+      },
+      {
+        status: 200,
+        description: 'Authorized',
+        example: {
+          success: true,
+          data: {
+            consentRequired: false,
+            redirectTo: 'https://partner.example.com/callback?code=SplxlOBeZQQYbYS6WxSbIA&state=af0ifjsldkj',
+          },
         },
       },
     ],
   },
   {
     method: 'POST',
-    path: '/api/auth/:projectId/reset-password',
-    title: 'Reset Password',
-    description: 'Reset user password with token from email',
-    category: 'User Auth',
+    path: '/api/auth/:projectId/oauth2/token',
+    title: 'Token Endpoint',
+    description: 'Exchange an authorization code for an access token and ID token. Form encoded; confidential clients authenticate with HTTP Basic or client_secret, public clients send client_id and code_verifier',
+    category: 'OpenID Connect',
     authentication: 'None',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
     requestBody: {
-      type: 'application/json',
+      type: 'application/x-www-form-urlencoded',
       schema: {
-        token: 'string (required)',
-        newPassword: 'string (required) - min 8 chars',
-      },
-      example: {
-        token: 'reset_token_from_email',
-        newPassword: 'NewPassword123!',
+        grant_type: 'authorization_code',
+        code: 'string (required)',
+        redirect_uri: 'string (required)',
+        client_id: 'string (required without HTTP Basic)',
+        client_secret: 'string (confidential clients without HTTP Basic)',
+        code_verifier: 'string (required when a code_challenge was sent)',
       },
+      example: 'grant_type=authorization_code&code=SplxlOBeZQQYbYS6WxSbIA&redirect_uri=https%3A%2F%2Fpartner.example.com%2Fcallback',
     },
     responses: [
       {
         status: 200,
-        description: 'Password reset successfully',
+        description: 'Tokens issued',
         example: {
-          success: true,
-          message: 'Password has been reset successfully',
+          access_token: 'jwt_access_token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          id_token: 'jwt_id_token',
+          scope: 'openid email profile',
+        },
+      },
+      {
+        status: 400,
+        description: 'Invalid, expired or already used code',
+        example: {
+          error: 'invalid_grant',
+          error_description: 'Invalid or expired authorization code',
         },
       },
     ],
   },
   {
-    method: 'GET',
-    path: '/api/auth/:projectId/confirm-email',
-    title: 'Confirm Email',
-    description: 'Confirm user email address with token',
-    category: 'User Auth',
+    method: 'POST',
+    path: '/api/auth/:projectId/oauth2/token',
+    title: 'Client Credentials Token',
+    description: 'Get an access token for a service client, without a user. Form encoded; the client authenticates with HTTP Basic or client_secret. The token subject is the client ID and its sub_type claim is "client", so user endpoints reject it',
+    category: 'OpenID Connect',
     authentication: 'None',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
     requestBody: {
-      type: 'query',
+      type: 'application/x-www-form-urlencoded',
       schema: {
-        token: 'string (required)',
-      },
-      example: {
-        token: 'confirmation_token_from_email',
+        grant_type: 'client_credentials',
+        scope: 'string (optional, space separated; defaults to every allowed scope)',
+        client_id: 'string (required without HTTP Basic)',
+        client_secret: 'string (required without HTTP Basic)',
       },
+      example: 'grant_type=client_credentials&scope=users%3Aread&client_id=V1StGXR8_Z5jdHi6B-myT3aQ&client_secret=your_client_secret',
     },
     responses: [
       {
         status: 200,
-        description: 'Email confirmed successfully',
+        description: 'Token issued',
         example: {
-          success: true,
-          message: 'Email confirmed successfully',
-          data: { email: 'user@example.com' },
+          access_token: 'jwt_access_token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'users:read',
+        },
+      },
+      {
+        status: 400,
+        description: 'Scope not allowed for the client',
+        example: {
+          error: 'invalid_scope',
+          error_description: 'Scope not allowed for this client: users:write',
         },
       },
     ],
   },
-
-  // Admin Users Management
   {
     method: 'GET',
-    path: '/api/admin/users',
-    title: 'List Admin Users',
-    description: 'Get list of all admin users',
-    category: 'Admin Users',
-    authentication: 'Admin Session',
+    path: '/api/auth/:projectId/oauth2/userinfo',
+    title: 'UserInfo Endpoint',
+    description: 'Claims about the user, limited to the scopes granted to the client. Requires an access token issued by the token endpoint',
+    category: 'OpenID Connect',
+    authentication: 'JWT Bearer',
     headers: {
-      'X-Admin-Session': 'your_session_token',
+      Authorization: 'Bearer your_access_token',
     },
     responses: [
       {
         status: 200,
-        description: 'Admin users list',
+        description: 'User claims',
         example: {
-          success: true,
-          data: [
-            {
-              id: 'admin-id',
-              email: 'admin@example.com',
-              displayName: 'Admin User',
-              role: 'super_admin',
-              enabled: true,
-              createdAt: '2025-11-03T00:00:00Z',
-            },
-          ],
+          sub: 'user-id',
+          email: 'user@example.com',
+          email_verified: true,
+          name: 'John Doe',
         },
       },
     ],
   },
   {
     method: 'POST',
-    path: '/api/admin/users',
-    title: 'Create Admin User',
-    description: 'Create a new admin user',
-    category: 'Admin Users',
-    authentication: 'Admin Session',
+    path: '/api/auth/:projectId/introspect',
+    title: 'Token Introspection',
+    description: 'Check whether an access or refresh token is active (RFC 7662). Form encoded; only confidential and service clients may call it, authenticating with HTTP Basic or client_secret. Unknown, expired and revoked tokens return active: false',
+    category: 'OpenID Connect',
+    authentication: 'None',
     headers: {
-      'X-Admin-Session': 'your_session_token',
+      'Content-Type': 'application/x-www-form-urlencoded',
     },
     requestBody: {
-      type: 'application/json',
+      type: 'application/x-www-form-urlencoded',
       schema: {
-        email: 'string (required)',
-        password: 'string (required) - min 8 chars',
-        displayName: 'string (required)',
-        role: 'string (required) - super_admin | admin | viewer',
+        token: 'string (required)',
+        token_type_hint: 'access_token | refresh_token (optional)',
+        client_id: 'string (required without HTTP Basic)',
+        client_secret: 'string (required without HTTP Basic)',
       },
-      example: {
-        email: 'newadmin@example.com',
-        password: 'AdminPass123!',
-        displayName: 'New Admin',
-        role: 'admin',
+      example: 'token=jwt_access_token&client_id=V1StGXR8_Z5jdHi6B-myT3aQ&client_secret=your_client_secret',
+    },
+    responses: [
+      {
+        status: 200,
+        description: 'Token description',
+        example: {
+          active: true,
+          token_type: 'Bearer',
+          scope: 'users:read',
+          client_id: 'V1StGXR8_Z5jdHi6B-myT3aQ',
+          sub: 'V1StGXR8_Z5jdHi6B-myT3aQ',
+          sub_type: 'client',
+          exp: 1700003600,
+          iat: 1700000000,
+          iss: 'https://auth.example.com/api/auth/my_app',
+          jti: 'a3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+        },
+      },
+      {
+        status: 401,
+        description: 'Client authentication failed',
+        example: {
+          error: 'invalid_client',
+          error_description: 'Client authentication failed',
+        },
+      },
+    ],
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/:projectId/revoke',
+    title: 'Token Revocation',
+    description: 'Revoke an access or refresh token (RFC 7009). Revoked access tokens are rejected immediately. Form encoded; OAuth clients authenticate as at the token endpoint, and the project app may revoke its own tokens without client credentials',
+    category: 'OpenID Connect',
+    authentication: 'None',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    requestBody: {
+      type: 'application/x-www-form-urlencoded',
+      schema: {
+        token: 'string (required)',
+        token_type_hint: 'access_token | refresh_token (optional)',
+        client_id: 'string (OAuth clients without HTTP Basic)',
+        client_secret: 'string (confidential clients without HTTP Basic)',
       },
+      example: 'token=your_refresh_token&token_type_hint=refresh_token',
     },
     responses: [
       {
-        status: 201,
-        description: 'Admin user created',
+        status: 200,
+        description: 'Token revoked, or it was already invalid',
+        example: null,
+      },
+      {
+        status: 400,
+        description: 'Token issued to another client',
         example: {
-          success: true,
-          data: {
-            id: 'admin-id',
-            email: 'newadmin@example.com',
-            displayName: 'New Admin',
-            role: 'admin',
-          },
-          message: 'Admin user created successfully',
+          error: 'unauthorized_client',
+          error_description: 'The token was not issued to this client',
         },
       },
     ],
   },
 
-  // Project Users Management
+  // Email Outbox
   {
     method: 'GET',
-    path: '/api/admin/projects/:projectId/users',
-    title: 'List Project Users',
-    description: 'Get list of users in a specific project',
-    category: 'Project Users',
+    path: '/api/admin/email-outbox',
+    title: 'List Emails',
+    description: 'List sent, pending and failed emails, newest first, without their bodies (query: projectId, status, limit, offset)',
+    category: 'Email',
     authentication: 'Admin Session',
     headers: {
       'X-Admin-Session': 'your_session_token',
@@ -558,110 +2377,88 @@ export const apiEndpoints: APIEndpoint[] = [
     responses: [
       {
         status: 200,
-        description: 'Project users list',
+        description: 'Emails',
         example: {
           success: true,
           data: [
             {
-              id: 'user-id',
-              email: 'user@example.com',
-              displayName: 'John Doe',
-              emailVerified: true,
-              status: 'active',
-              createdAt: '2025-11-03T00:00:00Z',
+              id: 'f1c2d3e4-5b6a-4798-8a9b-0c1d2e3f4a5b',
+              projectId: 'my_app',
+              templateType: 'otp',
+              recipient: 'user@example.com',
+              subject: 'Your verification code',
+              provider: 'Primary SendGrid',
+              status: 'pending',
+              attempts: 2,
+              lastError: 'Primary SendGrid: SendGrid Error: Unauthorized',
+              nextAttemptAt: '2026-10-19T12:03:00.000Z',
+              sentAt: null,
+              createdAt: '2026-10-19 12:00:00',
+              updatedAt: '2026-10-19 12:01:00',
             },
           ],
-          total: 1,
         },
       },
     ],
   },
   {
-    method: 'POST',
-    path: '/api/admin/projects/:projectId/users',
-    title: 'Create Project User',
-    description: 'Create a new user in a project',
-    category: 'Project Users',
+    method: 'GET',
+    path: '/api/admin/email-outbox/:id',
+    title: 'Get Email',
+    description: 'Get an email with its rendered HTML and text bodies',
+    category: 'Email',
     authentication: 'Admin Session',
     headers: {
       'X-Admin-Session': 'your_session_token',
     },
-    requestBody: {
-      type: 'application/json',
-      schema: {
-        email: 'string (required)',
-        password: 'string (required)',
-        firstName: 'string (optional)',
-        lastName: 'string (optional)',
-      },
-      example: {
-        email: 'user@example.com',
-        password: 'UserPass123!',
-        firstName: 'John',
-        lastName: 'Doe',
-      },
-    },
     responses: [
       {
-        status: 201,
-        description: 'User created',
+        status: 200,
+        description: 'Email',
         example: {
           success: true,
           data: {
-            id: 'user-id',
-            email: 'user@example.com',
-            displayName: 'John Doe',
+            id: 'f1c2d3e4-5b6a-4798-8a9b-0c1d2e3f4a5b',
+            subject: 'Your verification code',
+            bodyHtml: '<h1>Code: 123456</h1>',
+            bodyText: 'Your code is: 123456',
+            status: 'sent',
           },
-          message: 'User created successfully',
         },
       },
-    ],
-  },
-
-  // OAuth
-  {
-    method: 'GET',
-    path: '/api/auth/:projectId/oauth/:provider',
-    title: 'Get OAuth Authorization URL',
-    description: 'Get the OAuth authorization URL for a provider',
-    category: 'OAuth',
-    authentication: 'None',
-    responses: [
       {
-        status: 200,
-        description: 'OAuth URL generated',
+        status: 404,
+        description: 'No such email',
         example: {
-          success: true,
-          data: {
-            authUrl: 'https://oauth-provider.com/authorize?...',
-            state: 'csrf_state_token',
-          },
+          success: false,
+          error: 'Email not found',
         },
       },
     ],
   },
   {
-    method: 'GET',
-    path: '/api/auth/:projectId/oauth/:provider/callback',
-    title: 'OAuth Callback',
-    description: 'Handle OAuth provider callback',
-    category: 'OAuth',
-    authentication: 'None',
+    method: 'POST',
+    path: '/api/admin/email-outbox/:id/resend',
+    title: 'Resend Email',
+    description: 'Send an email again right away, whatever its status. If the send fails the email is retried like any other.',
+    category: 'Email',
+    authentication: 'Admin Session',
+    headers: {
+      'X-Admin-Session': 'your_session_token',
+    },
     responses: [
       {
         status: 200,
-        description: 'OAuth authentication successful',
+        description: 'Send attempted',
         example: {
           success: true,
           data: {
-            user: {
-              id: 'user-id',
-              email: 'user@example.com',
-              displayName: 'John Doe',
-            },
-            accessToken: 'jwt_access_token',
-            refreshToken: 'refresh_token',
+            id: 'f1c2d3e4-5b6a-4798-8a9b-0c1d2e3f4a5b',
+            status: 'sent',
+            provider: 'Primary SendGrid',
+            attempts: 3,
           },
+          message: 'Email sent',
         },
       },
     ],
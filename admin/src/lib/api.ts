@@ -75,7 +75,13 @@ class ApiClient {
 
   // Admin Auth
   async login(email: string, password: string) {
-    const result = await this.request<{ sessionToken: string; admin: any; requiresSetup?: boolean }>(
+    const result = await this.request<{
+      sessionToken?: string;
+      admin?: any;
+      requiresSetup?: boolean;
+      mfaRequired?: boolean;
+      mfaToken?: string;
+    }>(
       '/admin/login',
       {
         method: 'POST',
@@ -90,6 +96,47 @@ class ApiClient {
     return result;
   }
 
+  async verifyLoginMfa(mfaToken: string, code: string) {
+    const result = await this.request<{ sessionToken: string; admin: any; requiresSetup?: boolean }>(
+      '/admin/login/mfa',
+      {
+        method: 'POST',
+        body: JSON.stringify({ mfaToken, code }),
+      }
+    );
+
+    if (result.data?.sessionToken) {
+      this.setSessionToken(result.data.sessionToken);
+    }
+
+    return result;
+  }
+
+  // Admin MFA
+  async getMfaStatus() {
+    return this.request<{ enabled: boolean }>('/admin/me/mfa');
+  }
+
+  async enrollMfa() {
+    return this.request<{ secret: string; otpauthUri: string }>('/admin/me/mfa/enroll', {
+      method: 'POST',
+    });
+  }
+
+  async verifyMfaEnrollment(code: string) {
+    return this.request<void>('/admin/me/mfa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableMfa(code: string) {
+    return this.request<void>('/admin/me/mfa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
   async logout() {
     try {
       await this.request('/admin/logout', { method: 'POST' });
@@ -132,10 +179,17 @@ class ApiClient {
   async updateProject(id: string, data: Partial<{
     name: string;
     description: string;
+    jwtAlgorithm: string;
     jwtExpiryMinutes: number;
     enabled: boolean;
     siteUrl: string;
     redirectUrls: string[];
+    notifyRefreshTokenReuse: boolean;
+    autoLinkOAuthAccounts: boolean;
+    emailProviderId: string | null;
+    emailFromName: string | null;
+    emailFromAddress: string | null;
+    emailReplyTo: string | null;
   }>) {
     return this.request<any>(`/admin/projects/${id}`, {
       method: 'PUT',
@@ -211,6 +265,7 @@ class ApiClient {
     clientId: string;
     clientSecret: string;
     enabled: boolean;
+    additionalConfig?: Record<string, unknown>;
   }) {
     return this.request<any>(`/admin/projects/${projectId}/oauth`, {
       method: 'POST',
@@ -231,6 +286,72 @@ class ApiClient {
     });
   }
 
+  // Signing keys
+  async getSigningKeys(projectId: string) {
+    return this.request<any[]>(`/admin/projects/${projectId}/signing-keys`);
+  }
+
+  async scheduleKeyRotation(projectId: string) {
+    return this.request<any[]>(`/admin/projects/${projectId}/signing-keys/rotate`, {
+      method: 'POST',
+    });
+  }
+
+  async activateSigningKey(projectId: string, keyId: string) {
+    return this.request<any[]>(`/admin/projects/${projectId}/signing-keys/${keyId}/activate`, {
+      method: 'POST',
+    });
+  }
+
+  async retireSigningKey(projectId: string, keyId: string) {
+    return this.request<any[]>(`/admin/projects/${projectId}/signing-keys/${keyId}/retire`, {
+      method: 'POST',
+    });
+  }
+
+  // OAuth clients
+  async getOAuthClients(projectId: string) {
+    return this.request<any[]>(`/admin/projects/${projectId}/oauth-clients`);
+  }
+
+  async createOAuthClient(projectId: string, data: {
+    name: string;
+    clientType: 'confidential' | 'public' | 'service';
+    redirectUris: string[];
+    allowedScopes?: string[];
+    skipConsent?: boolean;
+  }) {
+    return this.request<{ client: any; clientSecret: string | null }>(`/admin/projects/${projectId}/oauth-clients`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateOAuthClient(projectId: string, clientId: string, data: {
+    name?: string;
+    redirectUris?: string[];
+    allowedScopes?: string[];
+    skipConsent?: boolean;
+    enabled?: boolean;
+  }) {
+    return this.request<any>(`/admin/projects/${projectId}/oauth-clients/${clientId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async regenerateOAuthClientSecret(projectId: string, clientId: string) {
+    return this.request<{ client: any; clientSecret: string }>(`/admin/projects/${projectId}/oauth-clients/${clientId}/secret`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteOAuthClient(projectId: string, clientId: string) {
+    return this.request(`/admin/projects/${projectId}/oauth-clients/${clientId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Admin Users
   async getAdminUsers() {
     return this.request<any[]>('/admin/users');
@@ -372,6 +493,33 @@ class ApiClient {
     });
   }
 
+  // Email Outbox
+  async getEmailOutbox(filters?: {
+    projectId?: string;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const params = new URLSearchParams();
+    if (filters?.projectId) params.append('projectId', filters.projectId);
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    if (filters?.offset) params.append('offset', String(filters.offset));
+
+    const query = params.toString();
+    return this.request<any[]>(`/admin/email-outbox${query ? `?${query}` : ''}`);
+  }
+
+  async getEmailOutboxEntry(id: string) {
+    return this.request<any>(`/admin/email-outbox/${id}`);
+  }
+
+  async resendEmail(id: string) {
+    return this.request<any>(`/admin/email-outbox/${id}/resend`, {
+      method: 'POST',
+    });
+  }
+
   // Email Templates
   async getEmailTemplates() {
     return this.request('/admin/email-templates');
@@ -35,7 +35,8 @@ export default function ApiDocs() {
     switch (method) {
       case 'GET': return 'badge badge-info';
       case 'POST': return 'badge badge-success';
-      case 'PUT': return 'badge badge-warning';
+      case 'PUT':
+      case 'PATCH': return 'badge badge-warning';
       case 'DELETE': return 'badge badge-error';
       default: return 'badge badge-neutral';
     }
@@ -250,8 +251,8 @@ function generateCurlCommand(endpoint: APIEndpoint): string {
     });
   }
 
-  // Add content-type for POST/PUT
-  if (endpoint.requestBody && (endpoint.method === 'POST' || endpoint.method === 'PUT')) {
+  // Add content-type for POST/PUT/PATCH
+  if (endpoint.requestBody && (endpoint.method === 'POST' || endpoint.method === 'PUT' || endpoint.method === 'PATCH')) {
     if (!endpoint.headers || !endpoint.headers['Content-Type']) {
       curl += ` \\\n  -H 'Content-Type: application/json'`;
     }
@@ -259,7 +260,10 @@ function generateCurlCommand(endpoint: APIEndpoint): string {
 
   // Add request body
   if (endpoint.requestBody && endpoint.requestBody.type !== 'query') {
-    curl += ` \\\n  -d '${JSON.stringify(endpoint.requestBody.example)}'`;
+    const body = typeof endpoint.requestBody.example === 'string'
+      ? endpoint.requestBody.example // Already form encoded
+      : JSON.stringify(endpoint.requestBody.example);
+    curl += ` \\\n  -d '${body}'`;
   }
 
   return curl;
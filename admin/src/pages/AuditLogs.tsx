@@ -167,9 +167,12 @@ export default function AuditLogs() {
               <option value="password_reset">Password Reset</option>
               <option value="password_reset_confirm">Password Reset Confirm</option>
               <option value="token_refresh">Token Refresh</option>
+              <option value="refresh_token_reuse">Refresh Token Reuse</option>
               <option value="logout">Logout</option>
               <option value="email_verification">Email Verification</option>
               <option value="oauth_login">OAuth Login</option>
+              <option value="email_sent">Email Sent</option>
+              <option value="email_failed">Email Failed</option>
             </select>
           </div>
         </div>
@@ -168,6 +168,32 @@ export default function Dashboard({ onLogout, onThemeChange }: DashboardProps) {
             </div>
           </Link>
 
+          <Link
+            to="/dashboard/email-log"
+            className={`block px-4 py-2 rounded transition-colors ${
+              isActive("/dashboard/email-log")
+                ? "bg-hover text-text-primary font-medium"
+                : "text-text-secondary hover:bg-hover hover:text-text-primary"
+            }`}
+          >
+            <div className="flex items-center">
+              <svg
+                className="w-4 h-4 mr-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                />
+              </svg>
+              Email Log
+            </div>
+          </Link>
+
           <Link
             to="/dashboard/api-docs"
             className={`block px-4 py-2 rounded transition-colors ${
@@ -262,11 +288,13 @@ export default function Dashboard({ onLogout, onThemeChange }: DashboardProps) {
                   ? "Admin Users"
                   : isActive("/dashboard/audit-logs")
                     ? "Audit Logs"
-                    : isActive("/dashboard/api-docs")
-                      ? "API Documentation"
-                      : isActive("/dashboard/settings")
-                        ? "System Settings"
-                        : "Dashboard"}
+                    : isActive("/dashboard/email-log")
+                      ? "Email Log"
+                      : isActive("/dashboard/api-docs")
+                        ? "API Documentation"
+                        : isActive("/dashboard/settings")
+                          ? "System Settings"
+                          : "Dashboard"}
             </h2>
             <div className="flex items-center space-x-4">
               <div className="text-sm text-text-secondary">
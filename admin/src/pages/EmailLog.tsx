@@ -0,0 +1,345 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+
+interface EmailOutboxEntry {
+  id: string;
+  projectId: string | null;
+  templateType: string;
+  recipient: string;
+  subject: string;
+  bodyHtml?: string;
+  bodyText?: string | null;
+  provider: string | null;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+const statusBadge: Record<EmailOutboxEntry['status'], string> = {
+  sent: 'badge-success',
+  pending: 'badge-warning',
+  failed: 'badge-danger',
+};
+
+export default function EmailLog() {
+  const [entries, setEntries] = useState<EmailOutboxEntry[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [viewing, setViewing] = useState<EmailOutboxEntry | null>(null);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  // Filters
+  const [selectedProject, setSelectedProject] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState('');
+  const [page, setPage] = useState(0);
+  const pageSize = 50;
+
+  useEffect(() => {
+    loadProjects();
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [selectedProject, selectedStatus, page]);
+
+  const loadProjects = async () => {
+    try {
+      const response = await api.getProjects();
+      setProjects(response.data || []);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+    }
+  };
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await api.getEmailOutbox({
+        projectId: selectedProject || undefined,
+        status: selectedStatus || undefined,
+        limit: pageSize,
+        offset: page * pageSize,
+      });
+      setEntries(response.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load emails');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleView = async (id: string) => {
+    try {
+      const response = await api.getEmailOutboxEntry(id);
+      setViewing(response.data || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load email');
+    }
+  };
+
+  const handleResend = async (id: string) => {
+    try {
+      setResendingId(id);
+      const response = await api.resendEmail(id);
+      const updated = response.data;
+      if (updated) {
+        setEntries(entries.map((entry) => (entry.id === id ? { ...entry, ...updated } : entry)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend email');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const projectName = (projectId: string | null) =>
+    projectId ? projects.find((project) => project.id === projectId)?.name || projectId : 'System';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary">Email Log</h1>
+          <p className="text-text-secondary mt-1">
+            Every email sent by the service; failed sends are retried automatically
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setPage(0);
+            loadEntries();
+          }}
+          className="btn btn-secondary flex items-center"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="card mb-6 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-2">
+              Filter by Project
+            </label>
+            <select
+              value={selectedProject}
+              onChange={(e) => {
+                setSelectedProject(e.target.value);
+                setPage(0);
+              }}
+              className="input"
+            >
+              <option value="">All Projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-2">
+              Filter by Status
+            </label>
+            <select
+              value={selectedStatus}
+              onChange={(e) => {
+                setSelectedStatus(e.target.value);
+                setPage(0);
+              }}
+              className="input"
+            >
+              <option value="">All Statuses</option>
+              <option value="sent">Sent</option>
+              <option value="pending">Pending</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Deliveries Table */}
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-text-secondary">Loading emails...</div>
+        </div>
+      ) : (
+        <>
+          <div className="card p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Created</th>
+                    <th>Project</th>
+                    <th>Template</th>
+                    <th>Recipient</th>
+                    <th>Provider</th>
+                    <th>Status</th>
+                    <th>Attempts</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="text-center text-text-inactive py-8">
+                        No emails found
+                      </td>
+                    </tr>
+                  ) : (
+                    entries.map((entry) => (
+                      <tr key={entry.id}>
+                        <td className="text-text-secondary whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td>
+                          <span className="text-sm font-medium text-text-primary">
+                            {projectName(entry.projectId)}
+                          </span>
+                        </td>
+                        <td>
+                          <span className="badge badge-info">{entry.templateType}</span>
+                        </td>
+                        <td className="text-text-secondary">{entry.recipient}</td>
+                        <td className="text-text-secondary">{entry.provider || '-'}</td>
+                        <td>
+                          <span className={`badge ${statusBadge[entry.status]}`} title={entry.lastError || undefined}>
+                            {entry.status}
+                          </span>
+                          {entry.status === 'pending' && entry.nextAttemptAt && (
+                            <div className="text-xs text-text-inactive mt-1">
+                              Next try {new Date(entry.nextAttemptAt).toLocaleTimeString()}
+                            </div>
+                          )}
+                        </td>
+                        <td className="text-text-secondary">{entry.attempts}</td>
+                        <td className="whitespace-nowrap text-right">
+                          <button onClick={() => handleView(entry.id)} className="btn btn-secondary text-sm mr-2">
+                            View
+                          </button>
+                          <button
+                            onClick={() => handleResend(entry.id)}
+                            disabled={resendingId === entry.id}
+                            className="btn btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {resendingId === entry.id ? 'Sending...' : 'Resend'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Pagination */}
+          {(page > 0 || entries.length >= pageSize) && (
+            <div className="flex items-center justify-center space-x-2 mt-6">
+              <button
+                onClick={() => setPage(Math.max(0, page - 1))}
+                disabled={page === 0}
+                className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-text-secondary">
+                Page {page + 1} • Showing {entries.length} emails
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={entries.length < pageSize}
+                className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {viewing && <EmailBodyModal entry={viewing} onClose={() => setViewing(null)} />}
+    </div>
+  );
+}
+
+function EmailBodyModal({ entry, onClose }: { entry: EmailOutboxEntry; onClose: () => void }) {
+  const [showText, setShowText] = useState(false);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="card max-w-3xl w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-text-primary">{entry.subject}</h2>
+            <p className="text-sm text-text-secondary mt-1">To {entry.recipient}</p>
+          </div>
+          <button onClick={onClose} className="text-text-inactive hover:text-text-secondary">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {entry.lastError && (
+          <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md mb-4 text-sm">
+            {entry.lastError}
+          </div>
+        )}
+
+        {entry.bodyText && (
+          <div className="flex space-x-2 mb-3">
+            <button
+              onClick={() => setShowText(false)}
+              className={`btn text-sm ${showText ? 'btn-secondary' : 'btn-primary'}`}
+            >
+              HTML
+            </button>
+            <button
+              onClick={() => setShowText(true)}
+              className={`btn text-sm ${showText ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Text
+            </button>
+          </div>
+        )}
+
+        {showText ? (
+          <pre className="border border-border rounded-md p-4 h-96 overflow-auto text-sm whitespace-pre-wrap text-text-primary">
+            {entry.bodyText}
+          </pre>
+        ) : (
+          // Rendered in a sandbox: scripts and links in the email stay inert
+          <iframe
+            title="Email body"
+            sandbox=""
+            srcDoc={entry.bodyHtml}
+            className="w-full h-96 border border-border rounded-md bg-white"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
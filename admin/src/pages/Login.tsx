@@ -8,9 +8,29 @@ interface LoginProps {
 export default function Login({ onLogin }: LoginProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
+  const completeLogin = (data?: { admin?: any; requiresSetup?: boolean }) => {
+    // Store current user info
+    if (data) {
+      if (data.admin) {
+        localStorage.setItem(
+          "admin_user",
+          JSON.stringify(data.admin),
+        );
+      }
+      if (data.requiresSetup) {
+        localStorage.setItem("admin_requires_setup", "true");
+      } else {
+        localStorage.removeItem("admin_requires_setup");
+      }
+    }
+    onLogin();
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
@@ -18,21 +38,11 @@ export default function Login({ onLogin }: LoginProps) {
 
     try {
       const response = await api.login(email, password);
-      // Store current user info
-      if (response.data) {
-        if (response.data.admin) {
-          localStorage.setItem(
-            "admin_user",
-            JSON.stringify(response.data.admin),
-          );
-        }
-        if (response.data.requiresSetup) {
-          localStorage.setItem("admin_requires_setup", "true");
-        } else {
-          localStorage.removeItem("admin_requires_setup");
-        }
+      if (response.data?.mfaRequired && response.data.mfaToken) {
+        setMfaToken(response.data.mfaToken);
+        return;
       }
-      onLogin();
+      completeLogin(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -40,6 +50,30 @@ export default function Login({ onLogin }: LoginProps) {
     }
   };
 
+  const handleMfaSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await api.verifyLoginMfa(mfaToken, mfaCode);
+      completeLogin(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setMfaCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMfaCancel = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-page">
       <div className="card max-w-md w-full p-8">
@@ -50,58 +84,111 @@ export default function Login({ onLogin }: LoginProps) {
           <p className="text-text-secondary">Sign in to manage your authentication service</p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {error && (
-            <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md text-sm">
-              {error}
+        {mfaToken ? (
+          <form onSubmit={handleMfaSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="mfa-code" className="block text-sm font-medium text-text-secondary mb-2">
+                Authentication code
+              </label>
+              <input
+                id="mfa-code"
+                data-testid="mfa-code-input"
+                name="mfa-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9]{6}"
+                maxLength={6}
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value.replace(/\D/g, ''))}
+                className="input w-full tracking-widest text-center"
+                placeholder="123456"
+                required
+                autoFocus
+              />
+              <p className="mt-2 text-sm text-text-secondary">
+                Enter the 6-digit code from your authenticator app.
+              </p>
             </div>
-          )}
-
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-text-secondary mb-2">
-              Email
-            </label>
-            <input
-              id="email"
-              data-testid="email-input"
-              name="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="input w-full"
-              placeholder="admin@example.com"
-              required
-              autoFocus
-            />
-          </div>
-
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-text-secondary mb-2">
-              Password
-            </label>
-            <input
-              id="password"
-              data-testid="password-input"
-              name="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="input w-full"
-              placeholder="••••••••"
-              required
-            />
-          </div>
-
-          <button
-            id="login-submit"
-            data-testid="login-submit"
-            type="submit"
-            disabled={loading}
-            className="btn btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? 'Signing in...' : 'Sign In'}
-          </button>
-        </form>
+
+            <button
+              id="mfa-submit"
+              data-testid="mfa-submit"
+              type="submit"
+              disabled={loading || mfaCode.length !== 6}
+              className="btn btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleMfaCancel}
+              className="btn btn-secondary w-full"
+            >
+              Back to sign in
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-text-secondary mb-2">
+                Email
+              </label>
+              <input
+                id="email"
+                data-testid="email-input"
+                name="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input w-full"
+                placeholder="admin@example.com"
+                required
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-text-secondary mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                data-testid="password-input"
+                name="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input w-full"
+                placeholder="••••••••"
+                required
+              />
+            </div>
+
+            <button
+              id="login-submit"
+              data-testid="login-submit"
+              type="submit"
+              disabled={loading}
+              className="btn btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Signing in...' : 'Sign In'}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -20,7 +20,12 @@ interface EmailProviderConfig {
   username?: string;
   password?: string;
   secretKey?: string;
+  inboxId?: string;
   secure?: boolean;
+  url?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  bodyTemplate?: string;
 }
 
 interface EmailProvider {
@@ -34,6 +39,10 @@ interface EmailProvider {
   fromEmail: string;
   fromName: string;
   enabled: boolean;
+  consecutiveFailures?: number;
+  lastError?: string | null;
+  lastFailureAt?: string | null;
+  circuitOpenUntil?: string | null;
 }
 
 interface EmailTemplate {
@@ -46,7 +55,7 @@ interface EmailTemplate {
 
 export default function Settings() {
   const { onThemeChange } = useOutletContext<SettingsContext>() || {};
-  const [activeTab, setActiveTab] = useState<'general' | 'providers' | 'templates'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'security' | 'providers' | 'templates'>('general');
   const [settings, setSettings] = useState<SystemSettings>({ theme: 'system', keep_logs: true });
   const [providers, setProviders] = useState<EmailProvider[]>([]);
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
@@ -138,7 +147,7 @@ export default function Settings() {
 
       <div className="border-b border-border">
         <nav className="-mb-px flex space-x-8">
-          {(['general', 'providers', 'templates'] as const).map((tab) => (
+          {(['general', 'security', 'providers', 'templates'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -197,12 +206,151 @@ export default function Settings() {
         </div>
       )}
 
+      {activeTab === 'security' && <SecurityTab />}
+
       {activeTab === 'providers' && <EmailProvidersTab providers={providers} onUpdate={loadData} />}
       {activeTab === 'templates' && <EmailTemplatesTab templates={templates} onUpdate={loadData} />}
     </div>
   );
 }
 
+function SecurityTab() {
+  const [mfaEnabled, setMfaEnabled] = useState<boolean | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.getMfaStatus()
+      .then((res) => setMfaEnabled(!!res.data?.enabled))
+      .catch((err: any) => setError(err.message));
+  }, []);
+
+  const handleEnroll = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await api.enrollMfa();
+      if (res.data) setEnrollment(res.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await api.verifyMfaEnrollment(code);
+      setMfaEnabled(true);
+      setEnrollment(null);
+      setCode('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await api.disableMfa(code);
+      setMfaEnabled(false);
+      setCode('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={6}
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+      className="input w-40 tracking-widest text-center"
+      placeholder="123456"
+    />
+  );
+
+  return (
+    <div className="card p-6 space-y-6 max-w-2xl">
+      <div>
+        <h3 className="text-lg font-medium text-text-primary mb-2">Two-Factor Authentication</h3>
+        <p className="text-sm text-text-secondary">
+          Require a code from an authenticator app when signing in to the admin console.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-danger-bg border border-danger/20 text-danger-text px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {mfaEnabled === null ? (
+        <p className="text-text-secondary">Loading...</p>
+      ) : mfaEnabled ? (
+        <div className="space-y-4">
+          <p className="text-text-primary">
+            Two-factor authentication is <span className="font-semibold text-green-600 dark:text-green-400">enabled</span>.
+          </p>
+          <div className="flex items-center space-x-3">
+            {codeInput}
+            <button
+              onClick={handleDisable}
+              disabled={loading || code.length !== 6}
+              className="btn btn-danger disabled:opacity-50"
+            >
+              {loading ? 'Disabling...' : 'Disable'}
+            </button>
+          </div>
+        </div>
+      ) : enrollment ? (
+        <div className="space-y-4">
+          <p className="text-sm text-text-secondary">
+            Add this account to your authenticator app using the setup key or link below, then enter the 6-digit code it shows.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Setup key</label>
+            <code className="block p-3 rounded-md bg-page font-mono text-text-primary break-all">{enrollment.secret}</code>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Provisioning URI</label>
+            <code className="block p-3 rounded-md bg-page font-mono text-xs text-text-primary break-all">{enrollment.otpauthUri}</code>
+          </div>
+          <div className="flex items-center space-x-3">
+            {codeInput}
+            <button
+              onClick={handleVerify}
+              disabled={loading || code.length !== 6}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Verifying...' : 'Verify & Enable'}
+            </button>
+            <button onClick={() => { setEnrollment(null); setCode(''); }} className="btn btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={handleEnroll} disabled={loading} className="btn btn-primary disabled:opacity-50">
+          {loading ? 'Starting...' : 'Set Up Authenticator App'}
+        </button>
+      )}
+    </div>
+  );
+}
+
 function EmailProvidersTab({ providers, onUpdate }: { providers: EmailProvider[]; onUpdate: () => void }) {
   const [editing, setEditing] = useState<EmailProvider | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -341,8 +489,21 @@ function EmailProvidersTab({ providers, onUpdate }: { providers: EmailProvider[]
                     {provider.isDefault && <span className="px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary border border-primary/20">Default</span>}
                     {provider.isFallback && <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border border-yellow-500/20">Fallback</span>}
                     {!provider.enabled && <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400">Disabled</span>}
+                    {provider.circuitOpenUntil && new Date(provider.circuitOpenUntil) > new Date() && (
+                      <span
+                        className="px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border border-red-500/20"
+                        title={`Skipped until ${new Date(provider.circuitOpenUntil).toLocaleString()}`}
+                      >
+                        Failing
+                      </span>
+                    )}
                   </div>
                 </div>
+                {!!provider.consecutiveFailures && provider.lastError && (
+                  <p className="mt-2 text-xs text-red-500 truncate max-w-xl" title={provider.lastError}>
+                    {provider.consecutiveFailures} failed send{provider.consecutiveFailures === 1 ? '' : 's'} in a row: {provider.lastError}
+                  </p>
+                )}
                 <div className="flex items-center space-x-4 mt-2 text-sm text-text-secondary">
                   <span className="flex items-center">
                     <svg className="w-4 h-4 mr-1.5 opacity-70" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>
@@ -405,6 +566,9 @@ function EmailProviderForm({ initialData, onCancel, onSuccess }: { initialData:
     config: {},
   });
   const [loading, setLoading] = useState(false);
+  const [customHeaders, setCustomHeaders] = useState(
+    initialData?.config?.headers ? JSON.stringify(initialData.config.headers, null, 2) : ''
+  );
 
   const providerOptions = [
     "sendgrid",
@@ -418,16 +582,30 @@ function EmailProviderForm({ initialData, onCancel, onSuccess }: { initialData:
     "mailtrap",
     "resend",
     "smtp",
+    "custom",
   ];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    let data = formData;
+    if (formData.provider === "custom") {
+      try {
+        JSON.parse(formData.config?.bodyTemplate || "");
+        const headers = customHeaders.trim() ? JSON.parse(customHeaders) : undefined;
+        data = { ...formData, config: { ...formData.config, headers } };
+      } catch {
+        alert('Headers and body template must be valid JSON');
+        return;
+      }
+    }
+
     setLoading(true);
     try {
       if (initialData) {
-        await api.updateEmailProvider(initialData.id, formData);
+        await api.updateEmailProvider(initialData.id, data);
       } else {
-        await api.createEmailProvider(formData);
+        await api.createEmailProvider(data);
       }
       onSuccess();
     } catch (err) {
@@ -470,7 +648,7 @@ function EmailProviderForm({ initialData, onCancel, onSuccess }: { initialData:
             >
               {providerOptions.map((p) => (
                 <option key={p} value={p}>
-                  {p}
+                  {p === "mailchimp" ? "mailchimp (mandrill)" : p}
                 </option>
               ))}
             </select>
@@ -527,7 +705,82 @@ function EmailProviderForm({ initialData, onCancel, onSuccess }: { initialData:
             Configuration
           </h4>
           <div className="space-y-4">
-            {formData.type === "api" ? (
+            {formData.type === "api" && formData.provider === "custom" ? (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-text-secondary mb-1">
+                      URL
+                    </label>
+                    <input
+                      type="url"
+                      className="input w-full"
+                      value={formData.config?.url || ""}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          config: { ...formData.config, url: e.target.value },
+                        })
+                      }
+                      placeholder="https://relay.example.com/send"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1">
+                      Method
+                    </label>
+                    <select
+                      className="input w-full"
+                      value={formData.config?.method || "POST"}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          config: { ...formData.config, method: e.target.value },
+                        })
+                      }
+                    >
+                      <option value="POST">POST</option>
+                      <option value="PUT">PUT</option>
+                      <option value="PATCH">PATCH</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-text-secondary mb-1">
+                    Headers (JSON)
+                  </label>
+                  <textarea
+                    className="input w-full font-mono text-xs"
+                    rows={3}
+                    value={customHeaders}
+                    onChange={(e) => setCustomHeaders(e.target.value)}
+                    placeholder={'{"Authorization": "Bearer relay-token"}'}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-text-secondary mb-1">
+                    Body Template (JSON)
+                  </label>
+                  <textarea
+                    className="input w-full font-mono text-xs"
+                    rows={6}
+                    value={formData.config?.bodyTemplate || ""}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        config: { ...formData.config, bodyTemplate: e.target.value },
+                      })
+                    }
+                    placeholder={'{"to": "{{to}}", "subject": "{{subject}}", "html": "{{html}}"}'}
+                    required
+                  />
+                  <p className="text-xs text-text-secondary mt-1">
+                    Variables: {"{{to}}"}, {"{{from}}"}, {"{{fromName}}"}, {"{{subject}}"}, {"{{html}}"}, {"{{text}}"}
+                  </p>
+                </div>
+              </>
+            ) : formData.type === "api" ? (
               <>
                 <div>
                   <label className="block text-sm font-medium text-text-secondary mb-1">
@@ -573,6 +826,30 @@ function EmailProviderForm({ initialData, onCancel, onSuccess }: { initialData:
                   </div>
                 )}
 
+                {/* Mailtrap Sandbox Inbox */}
+                {["mailtrap"].includes(formData.provider || "") && (
+                  <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-1">
+                      Sandbox Inbox ID
+                    </label>
+                    <input
+                      type="text"
+                      className="input w-full"
+                      value={formData.config?.inboxId || ""}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          config: {
+                            ...formData.config,
+                            inboxId: e.target.value,
+                          },
+                        })
+                      }
+                      placeholder="Leave empty to deliver email"
+                    />
+                  </div>
+                )}
+
                 {/* Mailgun Domain & Region */}
                 {["mailgun"].includes(formData.provider || "") && (
                   <>
@@ -780,6 +1057,7 @@ function EmailTemplatesTab({ templates, onUpdate }: { templates: EmailTemplate[]
     magic_link: ["app_name", "project_name", "action_url"],
     email_change: ["app_name", "project_name", "action_url"],
     otp: ["app_name", "project_name", "otp"],
+    security_alert: ["app_name", "project_name", "alert_message"],
   };
   const availableVariables = templateVariables[selectedType] || [];
 
@@ -813,7 +1091,7 @@ function EmailTemplatesTab({ templates, onUpdate }: { templates: EmailTemplate[]
       <div className="col-span-3 border-r border-border pr-4">
         <h3 className="text-sm font-medium text-text-secondary uppercase tracking-wider mb-3">Templates</h3>
         <div className="space-y-1">
-          {['welcome', 'confirmation', 'password_reset', 'magic_link', 'email_change', 'otp'].map((type) => (
+          {['welcome', 'confirmation', 'password_reset', 'magic_link', 'email_change', 'otp', 'security_alert'].map((type) => (
             <button
               key={type}
               onClick={() => setSelectedType(type)}
@@ -0,0 +1,41 @@
+-- Migration: Magic Link Tokens
+-- Created: 2026-10-19
+-- Description: Single-use tokens for passwordless magic-link sign-in
+
+-- ============================================================
+-- MAGIC LINK TOKENS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+    -- User identification
+    user_id TEXT NOT NULL,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+
+    -- Token data (SHA-256 hash of the actual token sent to user)
+    token_hash TEXT NOT NULL,
+
+    -- Validated redirect target for the link
+    redirect_to TEXT,
+
+    -- Token lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when token expires (typically 15 minutes)
+    used_at INTEGER,              -- Unix timestamp when token was used (NULL if unused)
+    created_at INTEGER NOT NULL,
+
+    UNIQUE(project_id, user_id, token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_hash
+    ON magic_link_tokens(token_hash)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_project_email
+    ON magic_link_tokens(project_id, email)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_expires
+    ON magic_link_tokens(expires_at)
+    WHERE used_at IS NULL;
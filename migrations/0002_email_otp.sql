@@ -0,0 +1,79 @@
+-- Migration: Email OTP
+-- Created: 2026-10-19
+-- Description: One-time email codes and the 'otp' auth attempt type
+
+-- ============================================================
+-- EMAIL OTP CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_otp_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+    -- User identification
+    user_id TEXT NOT NULL,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+
+    -- What the code may be used for
+    purpose TEXT NOT NULL CHECK (purpose IN ('login', 'email_verification')),
+
+    -- Code data (SHA-256 hash of the 6-digit code bound to the email)
+    code_hash TEXT NOT NULL,
+
+    -- Number of wrong guesses against this code
+    attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 10 minutes)
+    used_at INTEGER,              -- Unix timestamp when code was used or invalidated
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_otp_codes_project_email
+    ON email_otp_codes(project_id, email, purpose)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_otp_codes_expires
+    ON email_otp_codes(expires_at)
+    WHERE used_at IS NULL;
+
+-- ============================================================
+-- AUTH ATTEMPTS TABLE (add 'otp' attempt type)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE auth_attempts_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Attempt details
+    attempt_type TEXT NOT NULL CHECK (attempt_type IN ('login', 'register', 'password_reset', 'oauth', 'refresh', 'otp')),
+    email TEXT,
+    ip_address TEXT NOT NULL,
+    user_agent TEXT,
+
+    -- Result
+    success INTEGER NOT NULL,
+    failure_reason TEXT,
+
+    -- User context (if applicable)
+    user_id TEXT,
+
+    -- Timestamp
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO auth_attempts_new (id, project_id, attempt_type, email, ip_address, user_agent, success, failure_reason, user_id, created_at)
+    SELECT id, project_id, attempt_type, email, ip_address, user_agent, success, failure_reason, user_id, created_at
+    FROM auth_attempts;
+
+DROP TABLE auth_attempts;
+
+ALTER TABLE auth_attempts_new RENAME TO auth_attempts;
+
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_project_ip
+    ON auth_attempts(project_id, ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_email
+    ON auth_attempts(project_id, email, created_at) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_created_at
+    ON auth_attempts(created_at);
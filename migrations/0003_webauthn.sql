@@ -0,0 +1,53 @@
+-- Migration: WebAuthn
+-- Created: 2026-10-19
+-- Description: Passkey credentials and ceremony challenges
+
+-- ============================================================
+-- WEBAUTHN CREDENTIALS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Credential data (base64url credential ID and CBOR encoded COSE public key)
+    credential_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT,
+
+    -- Display
+    name TEXT,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TEXT,
+
+    UNIQUE(project_id, credential_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_project_user
+    ON webauthn_credentials(project_id, user_id);
+
+-- ============================================================
+-- WEBAUTHN CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT,
+
+    -- Ceremony data
+    challenge TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL CHECK (type IN ('registration', 'authentication')),
+
+    -- Challenge lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when challenge expires (typically 5 minutes)
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires
+    ON webauthn_challenges(expires_at);
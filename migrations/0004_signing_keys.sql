@@ -0,0 +1,26 @@
+-- Migration: Signing keys
+-- Created: 2026-10-19
+-- Description: Per-project asymmetric JWT signing key pairs
+
+-- ============================================================
+-- PROJECT SIGNING KEYS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS project_signing_keys (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Key identity (JWT "kid" header)
+    kid TEXT NOT NULL UNIQUE,
+    algorithm TEXT NOT NULL CHECK (algorithm IN ('RS256', 'ES256', 'EdDSA')),
+
+    -- Key material as JWK JSON (private key encrypted with ENCRYPTION_KEY)
+    public_key TEXT NOT NULL,
+    private_key TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_signing_keys_project_id
+    ON project_signing_keys(project_id);
@@ -0,0 +1,71 @@
+-- Migration: Signing key ring
+-- Created: 2026-10-19
+-- Description: Key ring states for zero-downtime signing key rotation, including HS256 keys
+
+-- ============================================================
+-- PROJECT SIGNING KEYS TABLE (add status, allow HS256 keys)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt. Each project's newest
+-- key for its current algorithm becomes the active key; older keys are retired.
+
+CREATE TABLE project_signing_keys_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Key identity (JWT "kid" header)
+    kid TEXT NOT NULL UNIQUE,
+    algorithm TEXT NOT NULL CHECK (algorithm IN ('HS256', 'RS256', 'ES256', 'EdDSA')),
+
+    -- Key material as JWK JSON (private key or HS256 secret encrypted with ENCRYPTION_KEY).
+    -- HS256 keys have no public key; the project's own jwt_secret has no stored material.
+    public_key TEXT,
+    private_key TEXT,
+
+    -- Key ring state: 'next' keys are published ahead of activation, the newest 'active'
+    -- key signs, and every non-retired key is accepted
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'next', 'retired')),
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    activated_at TEXT,
+    retired_at TEXT
+);
+
+INSERT INTO project_signing_keys_new (id, project_id, kid, algorithm, public_key, private_key, status, created_at, activated_at, retired_at)
+    SELECT
+        k.id, k.project_id, k.kid, k.algorithm, k.public_key, k.private_key,
+        CASE WHEN k.id = (
+            SELECT latest.id FROM project_signing_keys latest
+            JOIN projects p ON p.id = latest.project_id
+            WHERE latest.project_id = k.project_id AND latest.algorithm = p.jwt_algorithm
+            ORDER BY latest.created_at DESC
+            LIMIT 1
+        ) THEN 'active' ELSE 'retired' END,
+        k.created_at,
+        k.created_at,
+        NULL
+    FROM project_signing_keys k;
+
+UPDATE project_signing_keys_new SET retired_at = CURRENT_TIMESTAMP WHERE status = 'retired';
+
+DROP TABLE project_signing_keys;
+
+ALTER TABLE project_signing_keys_new RENAME TO project_signing_keys;
+
+CREATE INDEX IF NOT EXISTS idx_project_signing_keys_project_status
+    ON project_signing_keys(project_id, status);
+
+-- Register each project's existing jwt_secret in the ring so it can be retired like any other
+-- key. It stays valid for projects still on HS256.
+INSERT INTO project_signing_keys (project_id, kid, algorithm, public_key, private_key, status, created_at, activated_at, retired_at)
+    SELECT
+        id,
+        id || ':jwt-secret',
+        'HS256',
+        NULL,
+        NULL,
+        CASE WHEN COALESCE(jwt_algorithm, 'HS256') = 'HS256' THEN 'active' ELSE 'retired' END,
+        created_at,
+        created_at,
+        CASE WHEN COALESCE(jwt_algorithm, 'HS256') = 'HS256' THEN NULL ELSE CURRENT_TIMESTAMP END
+    FROM projects;
@@ -0,0 +1,80 @@
+-- Migration: OIDC Provider
+-- Created: 2026-10-19
+-- Description: Registered OAuth clients, authorization codes and user consents for OpenID Connect provider mode
+
+-- ============================================================
+-- OAUTH CLIENTS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Client credentials (SHA-256 hash of the secret; public clients have none)
+    client_id TEXT NOT NULL UNIQUE,
+    client_secret_hash TEXT,
+    client_type TEXT NOT NULL DEFAULT 'confidential' CHECK (client_type IN ('confidential', 'public')),
+
+    -- Registration
+    name TEXT NOT NULL,
+    redirect_uris TEXT NOT NULL,  -- JSON array
+    skip_consent INTEGER DEFAULT 0,
+    enabled INTEGER DEFAULT 1,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_clients_project_id
+    ON oauth_clients(project_id);
+
+-- ============================================================
+-- OAUTH AUTHORIZATION CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    client_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+
+    -- Code data
+    code_hash TEXT NOT NULL UNIQUE,
+
+    -- Authorization request
+    redirect_uri TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    nonce TEXT,
+    code_challenge TEXT,
+    auth_time INTEGER NOT NULL,
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 1 minute)
+    used_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_authorization_codes_expires
+    ON oauth_authorization_codes(expires_at);
+
+-- ============================================================
+-- OAUTH CONSENTS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_consents (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    client_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+
+    -- Granted scopes (space separated)
+    scope TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, client_id, user_id)
+);
@@ -0,0 +1,41 @@
+-- Migration: Service clients
+-- Created: 2026-10-19
+-- Description: Machine-to-machine OAuth clients using the client_credentials grant
+
+-- ============================================================
+-- OAUTH CLIENTS TABLE (add service clients and their allowed scopes)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE oauth_clients_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Client credentials (SHA-256 hash of the secret; public clients have none)
+    client_id TEXT NOT NULL UNIQUE,
+    client_secret_hash TEXT,
+    client_type TEXT NOT NULL DEFAULT 'confidential' CHECK (client_type IN ('confidential', 'public', 'service')),
+
+    -- Registration
+    name TEXT NOT NULL,
+    redirect_uris TEXT NOT NULL,  -- JSON array
+    allowed_scopes TEXT NOT NULL DEFAULT '[]',  -- JSON array, scopes service clients may request
+    skip_consent INTEGER DEFAULT 0,
+    enabled INTEGER DEFAULT 1,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT
+);
+
+INSERT INTO oauth_clients_new (id, project_id, client_id, client_secret_hash, client_type, name, redirect_uris, skip_consent, enabled, created_at, updated_at, created_by)
+    SELECT id, project_id, client_id, client_secret_hash, client_type, name, redirect_uris, skip_consent, enabled, created_at, updated_at, created_by
+    FROM oauth_clients;
+
+DROP TABLE oauth_clients;
+
+ALTER TABLE oauth_clients_new RENAME TO oauth_clients;
+
+CREATE INDEX IF NOT EXISTS idx_oauth_clients_project_id
+    ON oauth_clients(project_id);
@@ -0,0 +1,27 @@
+-- Migration: Access token denylist
+-- Created: 2026-10-19
+-- Description: JWT IDs of revoked access tokens, rejected until they expire
+
+-- ============================================================
+-- REVOKED ACCESS TOKENS TABLE (JTI DENYLIST)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS revoked_access_tokens (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- JWT ID of the revoked access token
+    jti TEXT NOT NULL,
+
+    -- When the token would have expired (Unix seconds); the entry is useless after that
+    expires_at INTEGER NOT NULL,
+
+    -- Revocation
+    reason TEXT,
+    revoked_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, jti)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_access_tokens_expires_at
+    ON revoked_access_tokens(expires_at);
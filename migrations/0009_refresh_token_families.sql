@@ -0,0 +1,108 @@
+-- Migration: Refresh token families
+-- Created: 2026-10-19
+-- Description: Strict refresh token rotation with reuse detection, the refresh_token_reuse audit event and security alert emails
+
+-- ============================================================
+-- REFRESH TOKENS TABLE (add rotation family)
+-- ============================================================
+-- Existing tokens each start a family of their own.
+
+ALTER TABLE refresh_tokens ADD COLUMN family_id TEXT;
+
+UPDATE refresh_tokens SET family_id = id WHERE family_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family
+    ON refresh_tokens(family_id);
+
+-- ============================================================
+-- PROJECTS TABLE (add reuse notification setting)
+-- ============================================================
+
+ALTER TABLE projects ADD COLUMN notify_refresh_token_reuse INTEGER DEFAULT 0;
+
+-- ============================================================
+-- AUDIT LOGS TABLE (add 'refresh_token_reuse' and 'password_reset_confirm' events)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE audit_logs_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Event details
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'user_created', 'user_login', 'user_logout', 'user_deleted',
+        'password_changed', 'email_verified', 'oauth_linked', 'oauth_unlinked',
+        'admin_action', 'project_created', 'project_updated', 'project_deleted',
+        'oauth_provider_added', 'oauth_provider_updated', 'oauth_provider_removed',
+        'suspicious_activity', 'rate_limit_triggered', 'account_locked',
+        'email_confirmation_requested', 'email_confirmed', 'email_confirmation_failed',
+        'password_reset_requested', 'password_reset_completed', 'password_reset_confirm',
+        'supabase_import_started', 'supabase_import_completed',
+        'supabase_import_failed', 'supabase_import_batch_failed',
+        'refresh_token_reuse'
+    )),
+    event_status TEXT DEFAULT 'success' CHECK (event_status IN ('success', 'failure', 'warning')),
+
+    -- Actors
+    user_id TEXT,
+    admin_user_id TEXT,
+
+    -- Event context
+    ip_address TEXT,
+    user_agent TEXT,
+    event_data TEXT,
+
+    -- Timestamp
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO audit_logs_new (id, project_id, event_type, event_status, user_id, admin_user_id, ip_address, user_agent, event_data, created_at)
+    SELECT id, project_id, event_type, event_status, user_id, admin_user_id, ip_address, user_agent, event_data, created_at
+    FROM audit_logs;
+
+DROP TABLE audit_logs;
+
+ALTER TABLE audit_logs_new RENAME TO audit_logs;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_project_created
+    ON audit_logs(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_event_type
+    ON audit_logs(event_type, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user
+    ON audit_logs(user_id, created_at) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_logs_admin
+    ON audit_logs(admin_user_id, created_at) WHERE admin_user_id IS NOT NULL;
+
+-- ============================================================
+-- EMAIL TEMPLATES TABLE (add 'security_alert' template)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE email_templates_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE, -- NULL for system-wide
+    type TEXT NOT NULL CHECK (type IN ('welcome', 'confirmation', 'password_reset', 'magic_link', 'email_change', 'otp', 'security_alert')),
+    subject TEXT NOT NULL,
+    body_html TEXT NOT NULL,
+    body_text TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO email_templates_new (id, project_id, type, subject, body_html, body_text, created_at, updated_at)
+    SELECT id, project_id, type, subject, body_html, body_text, created_at, updated_at
+    FROM email_templates;
+
+DROP TABLE email_templates;
+
+ALTER TABLE email_templates_new RENAME TO email_templates;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_project_type
+ON email_templates(project_id, type) WHERE project_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_system_type
+ON email_templates(type) WHERE project_id IS NULL;
+
+INSERT OR IGNORE INTO email_templates (type, subject, body_html, body_text) VALUES
+('security_alert', 'Security alert for your {{app_name}} account', '<h1>Security Alert</h1><p>{{alert_message}}</p>', 'Security alert: {{alert_message}}');
@@ -0,0 +1,38 @@
+-- Migration: User identities
+-- Created: 2026-10-19
+-- Description: Lets one user sign in with several OAuth providers, with optional linking by verified email
+
+-- ============================================================
+-- PROJECTS TABLE (add automatic account linking setting)
+-- ============================================================
+
+ALTER TABLE projects ADD COLUMN auto_link_oauth_accounts INTEGER DEFAULT 0;
+
+-- ============================================================
+-- USER IDENTITIES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS user_identities (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Provider account
+    provider TEXT NOT NULL,
+    provider_user_id TEXT NOT NULL,
+    email TEXT,
+    email_verified INTEGER DEFAULT 0,
+    raw_user_data TEXT, -- JSON profile from the provider's last sign-in
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_sign_in_at TEXT,
+
+    UNIQUE(project_id, provider, provider_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_project_user
+    ON user_identities(project_id, user_id);
+
+-- Existing OAuth users are moved over on their next sign-in: the per-project user
+-- tables have dynamic names, so their oauth_provider columns cannot be copied here.
@@ -0,0 +1,25 @@
+-- Migration: OAuth login codes
+-- Created: 2026-10-19
+-- Description: One-time codes the app exchanges for tokens after the OAuth callback redirects back to it
+
+-- ============================================================
+-- OAUTH LOGIN CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_login_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+
+    -- Code data
+    code_hash TEXT NOT NULL UNIQUE,
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 1 minute)
+    used_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_login_codes_expires
+    ON oauth_login_codes(expires_at);
@@ -0,0 +1,56 @@
+-- Migration: Social provider presets
+-- Created: 2026-10-19
+-- Description: Adds the Discord, GitLab, Facebook, LinkedIn, Slack and X provider types
+
+-- ============================================================
+-- OAUTH PROVIDERS TABLE (add social provider presets)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE project_oauth_providers_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Provider configuration
+    provider_name TEXT NOT NULL CHECK (provider_name IN ('google', 'github', 'microsoft', 'apple', 'discord', 'gitlab', 'facebook', 'linkedin', 'slack', 'x', 'oidc', 'custom')),
+    enabled INTEGER DEFAULT 1,
+
+    -- OAuth credentials
+    client_id TEXT NOT NULL,
+    client_secret TEXT NOT NULL,
+
+    -- OAuth URLs
+    authorization_url TEXT,
+    token_url TEXT,
+    user_info_url TEXT,
+
+    -- Scopes and configuration
+    scopes TEXT,
+    additional_config TEXT,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, provider_name)
+);
+
+INSERT INTO project_oauth_providers_new (id, project_id, provider_name, enabled, client_id, client_secret, authorization_url, token_url, user_info_url, scopes, additional_config, created_at, updated_at)
+    SELECT id, project_id, provider_name, enabled, client_id, client_secret, authorization_url, token_url, user_info_url, scopes, additional_config, created_at, updated_at
+    FROM project_oauth_providers;
+
+DROP TABLE project_oauth_providers;
+
+ALTER TABLE project_oauth_providers_new RENAME TO project_oauth_providers;
+
+CREATE INDEX IF NOT EXISTS idx_oauth_providers_project_id ON project_oauth_providers(project_id);
+CREATE INDEX IF NOT EXISTS idx_oauth_providers_enabled ON project_oauth_providers(project_id, enabled)
+    WHERE enabled = 1;
+
+-- Dropping the table dropped its trigger
+CREATE TRIGGER IF NOT EXISTS update_oauth_providers_timestamp
+    AFTER UPDATE ON project_oauth_providers
+    FOR EACH ROW
+BEGIN
+    UPDATE project_oauth_providers SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,12 @@
+-- Migration: Identity provider tokens
+-- Created: 2026-10-19
+-- Description: Encrypted upstream OAuth tokens per identity, for calling provider APIs on the user's behalf
+
+-- ============================================================
+-- USER IDENTITIES TABLE (add upstream tokens)
+-- ============================================================
+
+ALTER TABLE user_identities ADD COLUMN access_token TEXT;
+ALTER TABLE user_identities ADD COLUMN refresh_token TEXT;
+ALTER TABLE user_identities ADD COLUMN token_expires_at INTEGER;
+ALTER TABLE user_identities ADD COLUMN token_scope TEXT;
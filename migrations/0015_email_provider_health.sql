@@ -0,0 +1,66 @@
+-- Migration: Email provider health
+-- Created: 2026-10-19
+-- Description: Failure tracking per email provider, so a failing provider is skipped for a cooldown while sends fail over, and the email_sent and email_failed audit events
+
+-- ============================================================
+-- EMAIL PROVIDERS TABLE (add health state)
+-- ============================================================
+
+ALTER TABLE email_providers ADD COLUMN consecutive_failures INTEGER DEFAULT 0;
+ALTER TABLE email_providers ADD COLUMN last_error TEXT;
+ALTER TABLE email_providers ADD COLUMN last_failure_at TEXT;
+ALTER TABLE email_providers ADD COLUMN circuit_open_until TEXT; -- Skipped until this time
+
+-- ============================================================
+-- AUDIT LOGS TABLE (add 'email_sent' and 'email_failed' events)
+-- ============================================================
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+CREATE TABLE audit_logs_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Event details
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'user_created', 'user_login', 'user_logout', 'user_deleted',
+        'password_changed', 'email_verified', 'oauth_linked', 'oauth_unlinked',
+        'admin_action', 'project_created', 'project_updated', 'project_deleted',
+        'oauth_provider_added', 'oauth_provider_updated', 'oauth_provider_removed',
+        'suspicious_activity', 'rate_limit_triggered', 'account_locked',
+        'email_confirmation_requested', 'email_confirmed', 'email_confirmation_failed',
+        'password_reset_requested', 'password_reset_completed', 'password_reset_confirm',
+        'supabase_import_started', 'supabase_import_completed',
+        'supabase_import_failed', 'supabase_import_batch_failed',
+        'refresh_token_reuse', 'email_sent', 'email_failed'
+    )),
+    event_status TEXT DEFAULT 'success' CHECK (event_status IN ('success', 'failure', 'warning')),
+
+    -- Actors
+    user_id TEXT,
+    admin_user_id TEXT,
+
+    -- Event context
+    ip_address TEXT,
+    user_agent TEXT,
+    event_data TEXT,
+
+    -- Timestamp
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO audit_logs_new (id, project_id, event_type, event_status, user_id, admin_user_id, ip_address, user_agent, event_data, created_at)
+    SELECT id, project_id, event_type, event_status, user_id, admin_user_id, ip_address, user_agent, event_data, created_at
+    FROM audit_logs;
+
+DROP TABLE audit_logs;
+
+ALTER TABLE audit_logs_new RENAME TO audit_logs;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_project_created
+    ON audit_logs(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_event_type
+    ON audit_logs(event_type, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user
+    ON audit_logs(user_id, created_at) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_logs_admin
+    ON audit_logs(admin_user_id, created_at) WHERE admin_user_id IS NOT NULL;
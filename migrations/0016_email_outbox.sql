@@ -0,0 +1,30 @@
+-- Migration: Email outbox
+-- Created: 2026-10-19
+-- Description: Delivery log of rendered emails, retried with exponential backoff by the scheduled handler
+
+-- ============================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE, -- NULL for system emails
+    template_type TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body_html TEXT NOT NULL,
+    body_text TEXT,
+    provider TEXT, -- Provider that delivered the message, or last tried it
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TEXT,
+    sent_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+    ON email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created
+    ON email_outbox(created_at);
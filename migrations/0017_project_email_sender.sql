@@ -0,0 +1,12 @@
+-- Migration: Project email sender
+-- Created: 2026-10-19
+-- Description: Lets each project send through its own email provider, from its own name and address
+
+-- ============================================================
+-- PROJECTS TABLE (add email sender identity)
+-- ============================================================
+
+ALTER TABLE projects ADD COLUMN email_provider_id TEXT REFERENCES email_providers(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN email_from_name TEXT;
+ALTER TABLE projects ADD COLUMN email_from_address TEXT;
+ALTER TABLE projects ADD COLUMN email_reply_to TEXT;
@@ -0,0 +1,34 @@
+-- Migration: Admin MFA challenges
+-- Created: 2026-10-19
+-- Description: Makes admin MFA challenges single use with an attempt limit, and rejects replayed TOTP codes
+
+-- ============================================================
+-- ADMIN USERS TABLE (remember the last accepted TOTP step)
+-- ============================================================
+
+ALTER TABLE admin_users ADD COLUMN mfa_last_used_step INTEGER;
+
+-- ============================================================
+-- ADMIN MFA CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS admin_mfa_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    admin_user_id TEXT NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+
+    -- Challenge data (single use)
+    challenge_token_hash TEXT UNIQUE NOT NULL,
+    ip_address TEXT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Expiry
+    expires_at TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_challenges_ip
+    ON admin_mfa_challenges(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_challenges_created_at
+    ON admin_mfa_challenges(created_at);
@@ -0,0 +1,10 @@
+-- Migration: Session access tokens
+-- Created: 2026-10-19
+-- Description: Remembers the access token issued with each refresh token so revoking a session also revokes it
+
+-- ============================================================
+-- REFRESH TOKENS TABLE (add the access token issued alongside)
+-- ============================================================
+
+ALTER TABLE refresh_tokens ADD COLUMN access_token_jti TEXT;
+ALTER TABLE refresh_tokens ADD COLUMN access_token_expires_at INTEGER;
@@ -0,0 +1,30 @@
+-- Migration: MFA challenges
+-- Created: 2026-10-19
+-- Description: Makes user MFA challenges single use, with a limit on wrong codes per challenge and per IP address
+
+-- ============================================================
+-- MFA CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Challenge data (single use)
+    challenge_token_hash TEXT UNIQUE NOT NULL,
+    method TEXT NOT NULL,  -- First factor the user signed in with
+    ip_address TEXT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Expiry
+    expires_at TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_ip
+    ON mfa_challenges(project_id, ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_created_at
+    ON mfa_challenges(created_at);
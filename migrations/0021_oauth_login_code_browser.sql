@@ -0,0 +1,9 @@
+-- Migration: OAuth login code browser binding
+-- Created: 2026-10-19
+-- Description: Binds OAuth login codes to the browser that started the sign-in so another browser cannot exchange them
+
+-- ============================================================
+-- OAUTH LOGIN CODES TABLE (add the browser binding)
+-- ============================================================
+
+ALTER TABLE oauth_login_codes ADD COLUMN browser_nonce_hash TEXT;
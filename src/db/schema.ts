@@ -47,6 +47,18 @@ export const projects = sqliteTable('projects', {
   // Similar to Supabase's redirect URL allowlist for additional security
   redirectUrls: text('redirect_urls'),
 
+  // Email users when a stolen refresh token is replayed
+  notifyRefreshTokenReuse: integer('notify_refresh_token_reuse', { mode: 'boolean' }).default(false),
+
+  // Sign OAuth users into an existing account with the same provider-verified email
+  autoLinkOAuthAccounts: integer('auto_link_oauth_accounts', { mode: 'boolean' }).default(false),
+
+  // Email sender identity; unset fields fall back to the system default provider
+  emailProviderId: text('email_provider_id'),
+  emailFromName: text('email_from_name'),
+  emailFromAddress: text('email_from_address'),
+  emailReplyTo: text('email_reply_to'),
+
   // Timestamps
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
@@ -69,7 +81,7 @@ export const projectOAuthProviders = sqliteTable('project_oauth_providers', {
 
   // Provider configuration
   providerName: text('provider_name', {
-    enum: ['google', 'github', 'microsoft', 'apple', 'custom']
+    enum: ['google', 'github', 'microsoft', 'apple', 'discord', 'gitlab', 'facebook', 'linkedin', 'slack', 'x', 'oidc', 'custom']
   }).notNull(),
   enabled: integer('enabled', { mode: 'boolean' }).default(true),
 
@@ -107,6 +119,13 @@ export const refreshTokens = sqliteTable('refresh_tokens', {
   // Token data
   tokenHash: text('token_hash').notNull().unique(),
 
+  // Rotation family (every token rotated from the same sign-in shares it)
+  familyId: text('family_id').notNull(),
+
+  // Access token issued alongside (JWT ID and Unix expiry), denylisted when the session is revoked
+  accessTokenJti: text('access_token_jti'),
+  accessTokenExpiresAt: integer('access_token_expires_at'),
+
   // Token metadata
   deviceName: text('device_name'),
   userAgent: text('user_agent'),
@@ -125,6 +144,7 @@ export const refreshTokens = sqliteTable('refresh_tokens', {
   projectUserIdx: index('idx_refresh_tokens_project_user').on(table.projectId, table.userId),
   tokenHashIdx: index('idx_refresh_tokens_token_hash').on(table.tokenHash),
   expiresAtIdx: index('idx_refresh_tokens_expires_at').on(table.expiresAt),
+  familyIdx: index('idx_refresh_tokens_family').on(table.familyId),
 }));
 
 // ============================================================
@@ -137,7 +157,7 @@ export const authAttempts = sqliteTable('auth_attempts', {
 
   // Attempt details
   attemptType: text('attempt_type', {
-    enum: ['login', 'register', 'password_reset', 'oauth', 'refresh']
+    enum: ['login', 'register', 'password_reset', 'oauth', 'refresh', 'otp']
   }).notNull(),
   email: text('email'),
   ipAddress: text('ip_address').notNull(),
@@ -243,6 +263,7 @@ export const adminUsers = sqliteTable('admin_users', {
   // MFA
   mfaEnabled: integer('mfa_enabled', { mode: 'boolean' }).default(false),
   mfaSecret: text('mfa_secret'),
+  mfaLastUsedStep: integer('mfa_last_used_step'), // TOTP time step of the last accepted code
 
   // Timestamps
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
@@ -276,6 +297,25 @@ export const adminSessions = sqliteTable('admin_sessions', {
   expiresIdx: index('idx_admin_sessions_expires').on(table.expiresAt),
 }));
 
+export const adminMfaChallenges = sqliteTable('admin_mfa_challenges', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  adminUserId: text('admin_user_id').notNull().references(() => adminUsers.id, { onDelete: 'cascade' }),
+
+  // Challenge data (single use)
+  challengeTokenHash: text('challenge_token_hash').notNull().unique(),
+  ipAddress: text('ip_address'),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+
+  // Expiry
+  expiresAt: text('expires_at').notNull(),
+
+  // Timestamps
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  ipIdx: index('idx_admin_mfa_challenges_ip').on(table.ipAddress, table.createdAt),
+  createdAtIdx: index('idx_admin_mfa_challenges_created_at').on(table.createdAt),
+}));
+
 // ============================================================
 // PASSWORD RESET TOKENS
 // ============================================================
@@ -309,6 +349,309 @@ export const passwordResetTokens = sqliteTable('password_reset_tokens', {
   expiresIdx: index('idx_password_reset_tokens_expires').on(table.expiresAt),
 }));
 
+// ============================================================
+// MAGIC LINK TOKENS
+// ============================================================
+
+export const magicLinkTokens = sqliteTable('magic_link_tokens', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+
+  // User identification
+  userId: text('user_id').notNull(),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+
+  // Token data (SHA-256 hash of the actual token sent to user)
+  tokenHash: text('token_hash').notNull(),
+
+  // Where the user should land after signing in (validated against the project allowlist)
+  redirectTo: text('redirect_to'),
+
+  // Token lifecycle (Unix timestamps in seconds)
+  expiresAt: integer('expires_at').notNull(), // When token expires (typically now + 900)
+  usedAt: integer('used_at'),                  // When token was used (NULL if unused)
+  createdAt: integer('created_at').notNull().$defaultFn(() => sql`cast(strftime('%s', 'now') as int)`),
+}, (table) => ({
+  projectUserTokenUnique: unique().on(table.projectId, table.userId, table.tokenHash),
+  tokenHashIdx: index('idx_magic_link_tokens_hash').on(table.tokenHash),
+  projectEmailIdx: index('idx_magic_link_tokens_project_email').on(table.projectId, table.email),
+  expiresIdx: index('idx_magic_link_tokens_expires').on(table.expiresAt),
+}));
+
+// ============================================================
+// EMAIL OTP CODES
+// ============================================================
+
+export const emailOtpCodes = sqliteTable('email_otp_codes', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+
+  // User identification
+  userId: text('user_id').notNull(),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+
+  // What the code may be used for
+  purpose: text('purpose', {
+    enum: ['login', 'email_verification']
+  }).notNull(),
+
+  // Code data (SHA-256 hash of the 6-digit code bound to the email)
+  codeHash: text('code_hash').notNull(),
+
+  // Number of wrong guesses against this code
+  attempts: integer('attempts').notNull().default(0),
+
+  // Code lifecycle (Unix timestamps in seconds)
+  expiresAt: integer('expires_at').notNull(), // When code expires (typically now + 600)
+  usedAt: integer('used_at'),                  // When code was used or invalidated (NULL if active)
+  createdAt: integer('created_at').notNull().$defaultFn(() => sql`cast(strftime('%s', 'now') as int)`),
+}, (table) => ({
+  projectEmailIdx: index('idx_email_otp_codes_project_email').on(table.projectId, table.email, table.purpose),
+  expiresIdx: index('idx_email_otp_codes_expires').on(table.expiresAt),
+}));
+
+// ============================================================
+// WEBAUTHN (PASSKEYS)
+// ============================================================
+
+export const webauthnCredentials = sqliteTable('webauthn_credentials', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+
+  // Credential data (base64url credential ID and CBOR encoded COSE public key)
+  credentialId: text('credential_id').notNull(),
+  publicKey: text('public_key').notNull(),
+  algorithm: integer('algorithm').notNull(), // COSE algorithm identifier (-7, -8, -257)
+  signCount: integer('sign_count').notNull().default(0),
+  transports: text('transports'), // JSON array reported by the browser
+
+  // Display
+  name: text('name'),
+
+  // Timestamps
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  lastUsedAt: text('last_used_at'),
+}, (table) => ({
+  projectCredentialUnique: unique().on(table.projectId, table.credentialId),
+  projectUserIdx: index('idx_webauthn_credentials_project_user').on(table.projectId, table.userId),
+}));
+
+export const webauthnChallenges = sqliteTable('webauthn_challenges', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: text('user_id'), // Known for registration; NULL for usernameless sign-in
+
+  // Ceremony data
+  challenge: text('challenge').notNull().unique(), // base64url random challenge
+  type: text('type', {
+    enum: ['registration', 'authentication']
+  }).notNull(),
+
+  // Challenge lifecycle (Unix timestamps in seconds)
+  expiresAt: integer('expires_at').notNull(), // When challenge expires (typically now + 300)
+  createdAt: integer('created_at').notNull().$defaultFn(() => sql`cast(strftime('%s', 'now') as int)`),
+}, (table) => ({
+  expiresIdx: index('idx_webauthn_challenges_expires').on(table.expiresAt),
+}));
+
+export const projectSigningKeys = sqliteTable('project_signing_keys', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+
+  // Key identity, published as the JWT "kid" header and in the project JWKS
+  kid: text('kid').notNull().unique(),
+  algorithm: text('algorithm', {
+    enum: ['HS256', 'RS256', 'ES256', 'EdDSA']
+  }).notNull(),
+
+  // Key material as JWK JSON (private key or HS256 secret is encrypted with ENCRYPTION_KEY)
+  publicKey: text('public_key'), // NULL for HS256 keys, which are never published
+  privateKey: text('private_key'), // NULL for the project's own jwtSecret
+
+  // Key ring state: 'next' is published ahead of activation, the newest 'active' key signs,
+  // and every non-retired key is accepted for verification
+  status: text('status', {
+    enum: ['active', 'next', 'retired']
+  }).notNull().default('active'),
+
+  // Timestamps
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  activatedAt: text('activated_at'),
+  retiredAt: text('retired_at'),
+}, (table) => ({
+  projectStatusIdx: index('idx_project_signing_keys_project_status').on(table.projectId, table.status),
+}));
+
+// ============================================================
+// OIDC PROVIDER (OAUTH CLIENTS)
+// ============================================================
+
+export const oauthClients = sqliteTable('oauth_clients', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+
+  // Client credentials (the secret is stored as a SHA-256 hash; public clients have none)
+  clientId: text('client_id').notNull().unique(),
+  clientSecretHash: text('client_secret_hash'),
+  clientType: text('client_type', {
+    enum: ['confidential', 'public', 'service']
+  }).notNull().default('confidential'),
+
+  // Registration
+  name: text('name').notNull(),
+  redirectUris: text('redirect_uris').notNull(), // JSON array, each allowed by the project allowlist
+  allowedScopes: text('allowed_scopes').notNull().default('[]'), // JSON array, for the client_credentials grant
+  skipConsent: integer('skip_consent', { mode: 'boolean' }).default(false), // First-party apps
+  enabled: integer('enabled', { mode: 'boolean' }).default(true),
+
+  // Timestamps
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  createdBy: text('created_by'),
+}, (table) => ({
+  projectIdIdx: index('idx_oauth_clients_project_id').on(table.projectId),
+}));
+
+export const oauthAuthorizationCodes = sqliteTable('oauth_authorization_codes', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  clientId: text('client_id').notNull(),
+  userId: text('user_id').notNull(),
+
+  // Code data (SHA-256 hash of the code sent to the client)
+  codeHash: text('code_hash').notNull().unique(),
+
+  // Authorization request the code was issued for
+  redirectUri: text('redirect_uri').notNull(),
+  scope: text('scope').notNull(), // Space separated
+  nonce: text('nonce'),
+  codeChallenge: text('code_challenge'), // PKCE S256 challenge
+  authTime: integer('auth_time').notNull(), // When the user authorized, for the id_token auth_time claim
+
+  // Code lifecycle (Unix timestamps in seconds)
+  expiresAt: integer('expires_at').notNull(), // When code expires (typically now + 60)
+  usedAt: integer('used_at'),                  // When code was exchanged (NULL if unused)
+  createdAt: integer('created_at').notNull().$defaultFn(() => sql`cast(strftime('%s', 'now') as int)`),
+}, (table) => ({
+  expiresIdx: index('idx_oauth_authorization_codes_expires').on(table.expiresAt),
+}));
+
+export const oauthConsents = sqliteTable('oauth_consents', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  clientId: text('client_id').notNull(),
+  userId: text('user_id').notNull(),
+
+  // Scopes the user has granted to the client (space separated)
+  scope: text('scope').notNull(),
+
+  // Timestamps
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  projectClientUserUnique: unique().on(table.projectId, table.clientId, table.userId),
+}));
+
+// ============================================================
+// REVOKED ACCESS TOKENS (JTI DENYLIST)
+// ============================================================
+
+export const revokedAccessTokens = sqliteTable('revoked_access_tokens', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+
+  // JWT ID of the revoked access token
+  jti: text('jti').notNull(),
+
+  // When the token would have expired (Unix seconds); the entry is useless after that
+  expiresAt: integer('expires_at').notNull(),
+
+  // Revocation
+  reason: text('reason'),
+  revokedAt: text('revoked_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  projectJtiUnique: unique().on(table.projectId, table.jti),
+  expiresAtIdx: index('idx_revoked_access_tokens_expires_at').on(table.expiresAt),
+}));
+
+// ============================================================
+// USER IDENTITIES TABLE
+// ============================================================
+
+export const userIdentities = sqliteTable('user_identities', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+
+  // Provider account
+  provider: text('provider').notNull(),
+  providerUserId: text('provider_user_id').notNull(),
+  email: text('email'),
+  emailVerified: integer('email_verified', { mode: 'boolean' }).default(false),
+  rawUserData: text('raw_user_data'), // JSON profile from the provider's last sign-in
+
+  // Upstream provider tokens, encrypted (only when the provider is configured to store them)
+  accessToken: text('access_token'),
+  refreshToken: text('refresh_token'),
+  tokenExpiresAt: integer('token_expires_at'), // Unix timestamp, NULL if the provider gave no expiry
+  tokenScope: text('token_scope'),
+
+  // Timestamps
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  lastSignInAt: text('last_sign_in_at'),
+}, (table) => ({
+  projectProviderUserUnique: unique().on(table.projectId, table.provider, table.providerUserId),
+  projectUserIdx: index('idx_user_identities_project_user').on(table.projectId, table.userId),
+}));
+
+// ============================================================
+// OAUTH LOGIN CODES TABLE
+// ============================================================
+
+export const oauthLoginCodes = sqliteTable('oauth_login_codes', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+  provider: text('provider').notNull(),
+
+  // Code data (SHA-256 hash of the code sent to the app)
+  codeHash: text('code_hash').notNull().unique(),
+  browserNonceHash: text('browser_nonce_hash'), // SHA-256 hash of the browser nonce cookie the sign-in was bound to
+
+  // Code lifecycle (Unix timestamps in seconds)
+  expiresAt: integer('expires_at').notNull(), // When code expires (typically now + 60)
+  usedAt: integer('used_at'),                  // When code was exchanged (NULL if unused)
+  createdAt: integer('created_at').notNull().$defaultFn(() => sql`cast(strftime('%s', 'now') as int)`),
+}, (table) => ({
+  expiresIdx: index('idx_oauth_login_codes_expires').on(table.expiresAt),
+}));
+
+// ============================================================
+// MFA CHALLENGES TABLE
+// ============================================================
+
+export const mfaChallenges = sqliteTable('mfa_challenges', {
+  id: text('id').primaryKey().$defaultFn(() => sql`${generateId}`),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+
+  // Challenge data (single use)
+  challengeTokenHash: text('challenge_token_hash').notNull().unique(),
+  method: text('method').notNull(), // First factor the user signed in with
+  ipAddress: text('ip_address'),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+
+  // Expiry
+  expiresAt: text('expires_at').notNull(),
+
+  // Timestamps
+  createdAt: text('created_at').notNull(),
+}, (table) => ({
+  ipIdx: index('idx_mfa_challenges_ip').on(table.projectId, table.ipAddress, table.createdAt),
+  createdAtIdx: index('idx_mfa_challenges_created_at').on(table.createdAt),
+}));
+
 // ============================================================
 // USER TABLE METADATA
 // ============================================================
@@ -355,4 +698,40 @@ export type AdminSession = typeof adminSessions.$inferSelect;
 export type InsertAdminSession = typeof adminSessions.$inferInsert;
 
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
-export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
\ No newline at end of file
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+export type InsertMagicLinkToken = typeof magicLinkTokens.$inferInsert;
+
+export type EmailOtpCode = typeof emailOtpCodes.$inferSelect;
+export type InsertEmailOtpCode = typeof emailOtpCodes.$inferInsert;
+
+export type WebauthnCredential = typeof webauthnCredentials.$inferSelect;
+export type InsertWebauthnCredential = typeof webauthnCredentials.$inferInsert;
+
+export type WebauthnChallenge = typeof webauthnChallenges.$inferSelect;
+export type InsertWebauthnChallenge = typeof webauthnChallenges.$inferInsert;
+
+export type ProjectSigningKey = typeof projectSigningKeys.$inferSelect;
+export type InsertProjectSigningKey = typeof projectSigningKeys.$inferInsert;
+
+export type OAuthClient = typeof oauthClients.$inferSelect;
+export type InsertOAuthClient = typeof oauthClients.$inferInsert;
+
+export type OAuthAuthorizationCode = typeof oauthAuthorizationCodes.$inferSelect;
+export type InsertOAuthAuthorizationCode = typeof oauthAuthorizationCodes.$inferInsert;
+
+export type OAuthConsent = typeof oauthConsents.$inferSelect;
+export type InsertOAuthConsent = typeof oauthConsents.$inferInsert;
+
+export type RevokedAccessToken = typeof revokedAccessTokens.$inferSelect;
+export type InsertRevokedAccessToken = typeof revokedAccessTokens.$inferInsert;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
+
+export type OAuthLoginCode = typeof oauthLoginCodes.$inferSelect;
+export type InsertOAuthLoginCode = typeof oauthLoginCodes.$inferInsert;
+
+export type MfaChallenge = typeof mfaChallenges.$inferSelect;
+export type InsertMfaChallenge = typeof mfaChallenges.$inferInsert;
\ No newline at end of file
@@ -2,7 +2,7 @@ import { Hono } from 'hono';
 import type { Env, Variables } from './types';
 import { corsMiddleware } from './middleware/cors';
 import { errorHandler } from './middleware/error-handler';
-import { authMiddleware } from './middleware/auth';
+import { authMiddleware, clientAuthMiddleware } from './middleware/auth';
 import { adminAuthMiddleware } from './middleware/admin-auth';
 
 // Services
@@ -10,15 +10,24 @@ import { projectService } from './services/project-service';
 import { authService } from './services/auth-service';
 import { adminAuthService } from './services/admin-auth-service';
 import { oauthService } from './services/oauth-service';
+import { identityService } from './services/identity-service';
 import { auditService } from './services/audit-service';
 import { userService } from './services/user-service';
 import { supabaseImportService } from './services/supabase-import-service';
 import { passwordResetService } from './services/password-reset-service';
 import { emailService } from './services/email-service';
 import { emailConfirmationService } from './services/email-confirmation-service';
+import { magicLinkService } from './services/magic-link-service';
+import { otpService } from './services/otp-service';
+import { mfaService } from './services/mfa-service';
+import { webauthnService } from './services/webauthn-service';
+import { signingKeyService } from './services/signing-key-service';
+import { oauthClientService } from './services/oauth-client-service';
+import { oidcService } from './services/oidc-service';
 import { rateLimitService } from './services/rate-limit-service';
 import { SystemSettingsService } from './services/system-settings-service';
 import { EmailProviderService } from './services/email-provider-service';
+import { EmailOutboxService } from './services/email-outbox-service';
 import { EmailTemplateService } from './services/email-template-service';
 
 // Validation
@@ -28,11 +37,29 @@ import {
   loginSchema,
   createProjectSchema,
   adminLoginSchema,
+  adminMfaLoginSchema,
+  adminMfaCodeSchema,
   validateSupabaseCredentialsSchema,
   importFromSupabaseSchema,
   getImportPreviewSchema,
   forgotPasswordSchema,
-  resetPasswordSchema
+  resetPasswordSchema,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  requestOtpSchema,
+  verifyOtpSchema,
+  mfaEnrollSchema,
+  mfaConfirmSchema,
+  mfaRemoveSchema,
+  mfaVerifySchema,
+  webauthnRegisterVerifySchema,
+  webauthnLoginOptionsSchema,
+  webauthnLoginVerifySchema,
+  createOAuthClientSchema,
+  updateOAuthClientSchema,
+  oidcAuthorizeSchema,
+  linkIdentitySchema,
+  oauthExchangeSchema
 } from './utils/validation';
 import { getIpAddress, getUserAgent } from './utils/helpers';
 import { initializeDatabase } from './utils/setup';
@@ -120,7 +147,7 @@ app.post('/api/admin/login', async (c) => {
   const ipAddress = getIpAddress(c.req.raw);
   const userAgent = getUserAgent(c.req.raw);
 
-  const { sessionToken, admin } = await adminAuthService.adminLogin(
+  const result = await adminAuthService.adminLogin(
     c.env,
     data.email,
     data.password,
@@ -128,6 +155,50 @@ app.post('/api/admin/login', async (c) => {
     userAgent
   );
 
+  // MFA enabled: the client must complete the login at /api/admin/login/mfa
+  if ('mfaRequired' in result) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+      },
+    });
+  }
+
+  const { sessionToken, admin } = result;
+
+  return c.json({
+    success: true,
+    data: {
+      sessionToken,
+      admin: {
+        id: admin.id,
+        email: admin.email,
+        displayName: admin.displayName,
+        role: admin.role,
+      },
+      requiresSetup: admin.email === "admin@example.com",
+    },
+  });
+});
+
+// Admin login - MFA step
+app.post('/api/admin/login/mfa', async (c) => {
+  const body = await c.req.json();
+  const data = validate(adminMfaLoginSchema, body);
+
+  const ipAddress = getIpAddress(c.req.raw);
+  const userAgent = getUserAgent(c.req.raw);
+
+  const { sessionToken, admin } = await adminAuthService.verifyAdminMfa(
+    c.env,
+    data.mfaToken,
+    data.code,
+    ipAddress,
+    userAgent
+  );
+
   return c.json({
     success: true,
     data: {
@@ -151,6 +222,56 @@ app.post('/api/admin/logout', adminAuthMiddleware, async (c) => {
   return c.json({ success: true, message: 'Logged out successfully' });
 });
 
+// Get MFA status for the current admin
+app.get('/api/admin/me/mfa', adminAuthMiddleware, async (c) => {
+  const admin = c.get('admin');
+
+  return c.json({
+    success: true,
+    data: { enabled: !!admin.mfaEnabled },
+  });
+});
+
+// Start MFA enrolment for the current admin
+app.post('/api/admin/me/mfa/enroll', adminAuthMiddleware, async (c) => {
+  const admin = c.get('admin');
+
+  const result = await adminAuthService.enrollAdminMfa(c.env, admin.id);
+
+  return c.json({
+    success: true,
+    data: result,
+  });
+});
+
+// Confirm MFA enrolment for the current admin
+app.post('/api/admin/me/mfa/verify', adminAuthMiddleware, async (c) => {
+  const admin = c.get('admin');
+  const body = await c.req.json();
+  const data = validate(adminMfaCodeSchema, body);
+
+  await adminAuthService.verifyAdminMfaEnrollment(c.env, admin.id, data.code);
+
+  return c.json({
+    success: true,
+    message: 'MFA enabled successfully',
+  });
+});
+
+// Disable MFA for the current admin
+app.post('/api/admin/me/mfa/disable', adminAuthMiddleware, async (c) => {
+  const admin = c.get('admin');
+  const body = await c.req.json();
+  const data = validate(adminMfaCodeSchema, body);
+
+  await adminAuthService.disableAdminMfa(c.env, admin.id, data.code);
+
+  return c.json({
+    success: true,
+    message: 'MFA disabled successfully',
+  });
+});
+
 // List projects
 app.get('/api/admin/projects', adminAuthMiddleware, async (c) => {
   const environment = c.req.query('environment');
@@ -696,6 +817,192 @@ app.delete('/api/admin/projects/:projectId/oauth/:providerId', adminAuthMiddlewa
   });
 });
 
+// ============================================================
+// PROJECT SIGNING KEY ROUTES
+// ============================================================
+
+// List a project's signing key ring
+app.get('/api/admin/projects/:projectId/signing-keys', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  const keys = await signingKeyService.listKeys(c.env, project);
+
+  return c.json({
+    success: true,
+    data: keys,
+  });
+});
+
+// Schedule a rotation: the new key is published in the JWKS but does not sign yet
+app.post('/api/admin/projects/:projectId/signing-keys/rotate', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const admin = c.get('admin');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  await signingKeyService.scheduleRotation(c.env, project, admin.id);
+  const keys = await signingKeyService.listKeys(c.env, project);
+
+  return c.json({
+    success: true,
+    data: keys,
+    message: 'Key rotation scheduled',
+  });
+});
+
+// Start signing new tokens with a scheduled key
+app.post('/api/admin/projects/:projectId/signing-keys/:keyId/activate', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const keyId = c.req.param('keyId');
+  const admin = c.get('admin');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  await signingKeyService.activateKey(c.env, project, keyId, admin.id);
+  const keys = await signingKeyService.listKeys(c.env, project);
+
+  return c.json({
+    success: true,
+    data: keys,
+    message: 'Signing key activated',
+  });
+});
+
+// Stop accepting tokens signed with a key
+app.post('/api/admin/projects/:projectId/signing-keys/:keyId/retire', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const keyId = c.req.param('keyId');
+  const admin = c.get('admin');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  await signingKeyService.retireKey(c.env, project, keyId, admin.id);
+  const keys = await signingKeyService.listKeys(c.env, project);
+
+  return c.json({
+    success: true,
+    data: keys,
+    message: 'Signing key retired',
+  });
+});
+
+// ============================================================
+// OAUTH CLIENT ROUTES
+// ============================================================
+
+// List the OAuth clients registered with a project's OIDC provider
+app.get('/api/admin/projects/:projectId/oauth-clients', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+
+  const project = await projectService.getProject(c.env, projectId);
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  const clients = await oauthClientService.listClients(c.env, projectId);
+
+  return c.json({
+    success: true,
+    data: clients,
+  });
+});
+
+// Register an OAuth client (the secret is only returned here)
+app.post('/api/admin/projects/:projectId/oauth-clients', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const admin = c.get('admin');
+  const body = await c.req.json();
+  const data = validate(createOAuthClientSchema, body);
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  const result = await oauthClientService.createClient(c.env, project, data, admin.id);
+
+  return c.json({
+    success: true,
+    data: result,
+    message: 'OAuth client created successfully',
+  }, 201);
+});
+
+// Update an OAuth client
+app.patch('/api/admin/projects/:projectId/oauth-clients/:clientId', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const clientId = c.req.param('clientId');
+  const admin = c.get('admin');
+  const body = await c.req.json();
+  const data = validate(updateOAuthClientSchema, body);
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  const client = await oauthClientService.updateClient(c.env, project, clientId, data, admin.id);
+
+  return c.json({
+    success: true,
+    data: client,
+    message: 'OAuth client updated successfully',
+  });
+});
+
+// Replace a confidential client's secret
+app.post('/api/admin/projects/:projectId/oauth-clients/:clientId/secret', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const clientId = c.req.param('clientId');
+  const admin = c.get('admin');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  const result = await oauthClientService.regenerateSecret(c.env, project, clientId, admin.id);
+
+  return c.json({
+    success: true,
+    data: result,
+    message: 'Client secret regenerated',
+  });
+});
+
+// Delete an OAuth client
+app.delete('/api/admin/projects/:projectId/oauth-clients/:clientId', adminAuthMiddleware, async (c) => {
+  const projectId = c.req.param('projectId');
+  const clientId = c.req.param('clientId');
+  const admin = c.get('admin');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404 as any);
+  }
+
+  await oauthClientService.deleteClient(c.env, project, clientId, admin.id);
+
+  return c.json({
+    success: true,
+    message: 'OAuth client deleted successfully',
+  });
+});
+
 // ============================================================
 // SETTINGS ROUTES
 // ============================================================
@@ -737,6 +1044,10 @@ app.post('/api/admin/email-providers', adminAuthMiddleware, async (c) => {
     return c.json({ success: false, error: 'Missing required fields' }, 400 as any);
   }
 
+  if (body.provider === 'custom' && (!body.config.url || !body.config.bodyTemplate)) {
+    return c.json({ success: false, error: 'Custom providers need a URL and body template' }, 400 as any);
+  }
+
   const provider = await providerService.createProvider(body);
   return c.json({ success: true, data: provider, message: 'Email provider created' });
 });
@@ -758,6 +1069,49 @@ app.delete('/api/admin/email-providers/:id', adminAuthMiddleware, async (c) => {
   return c.json({ success: true, message: 'Email provider deleted' });
 });
 
+// ============================================================
+// EMAIL OUTBOX ROUTES
+// ============================================================
+
+// List sent, pending and failed emails (without their bodies)
+app.get('/api/admin/email-outbox', adminAuthMiddleware, async (c) => {
+  const status = c.req.query('status');
+  const outboxService = new EmailOutboxService(c.env.DB);
+
+  const entries = await outboxService.listEntries({
+    projectId: c.req.query('projectId'),
+    status: status === 'pending' || status === 'sent' || status === 'failed' ? status : undefined,
+    limit: parseInt(c.req.query('limit') || '50'),
+    offset: parseInt(c.req.query('offset') || '0'),
+  });
+
+  return c.json({ success: true, data: entries });
+});
+
+// Get an email with its rendered body
+app.get('/api/admin/email-outbox/:id', adminAuthMiddleware, async (c) => {
+  const outboxService = new EmailOutboxService(c.env.DB);
+
+  const entry = await outboxService.getEntry(c.req.param('id'));
+  if (!entry) {
+    return c.json({ success: false, error: 'Email not found' }, 404 as any);
+  }
+
+  c.header('Cache-Control', 'no-store');
+  return c.json({ success: true, data: entry });
+});
+
+// Send an email again now
+app.post('/api/admin/email-outbox/:id/resend', adminAuthMiddleware, async (c) => {
+  const entry = await emailService.resendOutboxEntry(c.env, c.req.param('id'));
+
+  return c.json({
+    success: true,
+    data: entry,
+    message: entry.status === 'sent' ? 'Email sent' : 'Email could not be sent; it will be retried',
+  });
+});
+
 // ============================================================
 // EMAIL TEMPLATE ROUTES
 // ============================================================
@@ -888,6 +1242,17 @@ app.post('/api/auth/:projectId/login', async (c) => {
 
   const result = await authService.login(c.env, projectId, data, c.req.raw);
 
+  // MFA enabled: the client must complete the login at /mfa/verify
+  if ('mfaRequired' in result) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+      },
+    });
+  }
+
   return c.json({
     success: true,
     data: {
@@ -924,7 +1289,7 @@ app.post('/api/auth/:projectId/refresh', async (c) => {
   const projectId = c.req.param('projectId');
   const body = await c.req.json();
 
-  const result = await authService.refreshToken(c.env, projectId, body.refreshToken);
+  const result = await authService.refreshToken(c.env, projectId, body.refreshToken, c.req.raw);
 
   return c.json({
     success: true,
@@ -1157,37 +1522,494 @@ app.get('/api/auth/:projectId/confirm-email', async (c) => {
   }
 });
 
-// ============================================================
-// OAUTH ROUTES
-// ============================================================
-
-// Get OAuth authorization URL
-app.get('/api/auth/:projectId/oauth/:provider', async (c) => {
+// Request magic link
+app.post('/api/auth/:projectId/magic-link', async (c) => {
   const projectId = c.req.param('projectId');
-  const provider = c.req.param('provider');
-  const redirectUri = c.req.query('redirect_uri') || '';
-  const state = c.req.query('state') || crypto.randomUUID();
+  const body = await c.req.json();
+  const data = validate(magicLinkSchema, body);
+
+  const ipAddress = getIpAddress(c.req.raw);
+
+  // Check rate limiting for magic link requests
+  await rateLimitService.checkRateLimit(c.env, projectId, 'login', ipAddress, data.email);
+
+  const result = await magicLinkService.requestMagicLink(c.env, projectId, data.email, data.redirectTo);
+
+  if (result) {
+    await emailService.sendMagicLinkEmail(
+      c.env,
+      result.user.email,
+      result.project.name,
+      result.magicLinkUrl,
+      projectId
+    );
+  }
 
-  const authUrl = await oauthService.getAuthUrl(c.env, projectId, provider, redirectUri, state);
+  // Record the attempt
+  await rateLimitService.recordAttempt(
+    c.env,
+    projectId,
+    'login',
+    ipAddress,
+    data.email,
+    true,
+    result?.user.id
+  );
 
+  // Always return success to prevent email enumeration
   return c.json({
     success: true,
-    data: { authUrl, state },
+    message: 'If an account exists with this email, a sign-in link has been sent',
   });
 });
 
-// OAuth callback
-app.get('/api/auth/:projectId/oauth/:provider/callback', async (c) => {
+// Verify magic link
+app.post('/api/auth/:projectId/magic-link/verify', async (c) => {
   const projectId = c.req.param('projectId');
-  const provider = c.req.param('provider');
-  const code = c.req.query('code');
-  const redirectUri = c.req.query('redirect_uri') || '';
+  const body = await c.req.json();
+  const data = validate(verifyMagicLinkSchema, body);
+
+  const result = await magicLinkService.verifyMagicLink(c.env, projectId, data.token, c.req.raw);
 
-  if (!code) {
-    return c.json({ success: false, error: 'Authorization code required' }, 400);
+  // MFA enabled: the client must complete the login at /mfa/verify
+  if ('mfaRequired' in result) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+        redirectTo: result.redirectTo,
+      },
+    });
   }
 
-  const result = await oauthService.handleCallback(c.env, projectId, provider, code, redirectUri);
+  return c.json({
+    success: true,
+    data: {
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+      },
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+      redirectTo: result.redirectTo,
+    },
+  });
+});
+
+// Request email one-time code
+app.post('/api/auth/:projectId/otp', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json();
+  const data = validate(requestOtpSchema, body);
+
+  const ipAddress = getIpAddress(c.req.raw);
+
+  // Check rate limiting for code requests
+  await rateLimitService.checkRateLimit(c.env, projectId, 'otp', ipAddress, data.email);
+
+  const result = await otpService.requestOtp(c.env, projectId, data.email, data.purpose);
+
+  if (result) {
+    await emailService.sendOtpEmail(
+      c.env,
+      result.user.email,
+      result.project.name,
+      result.code,
+      projectId
+    );
+  }
+
+  // Record the attempt
+  await rateLimitService.recordAttempt(
+    c.env,
+    projectId,
+    'otp',
+    ipAddress,
+    data.email,
+    true,
+    result?.user.id
+  );
+
+  // Always return success to prevent email enumeration
+  return c.json({
+    success: true,
+    message: 'If an account exists with this email, a verification code has been sent',
+  });
+});
+
+// Verify email one-time code
+app.post('/api/auth/:projectId/otp/verify', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json();
+  const data = validate(verifyOtpSchema, body);
+
+  const result = await otpService.verifyOtp(
+    c.env,
+    projectId,
+    data.email,
+    data.code,
+    data.purpose,
+    c.req.raw
+  );
+
+  // MFA enabled: the client must complete the login at /mfa/verify
+  if ('mfaRequired' in result) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+      },
+    });
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+      },
+      ...('accessToken' in result && {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+      }),
+    },
+  });
+});
+
+// ============================================================
+// SIGNING KEY ROUTES
+// ============================================================
+
+// Public keys for verifying access tokens of projects on RS256, ES256 or EdDSA
+app.get('/api/auth/:projectId/.well-known/jwks.json', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project || !project.enabled) {
+    return c.json({ success: false, error: 'Project not found' }, 404);
+  }
+
+  const jwks = await signingKeyService.getJwks(c.env, project);
+
+  c.header('Cache-Control', 'public, max-age=300');
+  return c.json(jwks);
+});
+
+// ============================================================
+// OPENID CONNECT PROVIDER ROUTES
+// ============================================================
+
+// OpenID Provider configuration
+app.get('/api/auth/:projectId/.well-known/openid-configuration', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project || !project.enabled) {
+    return c.json({ success: false, error: 'Project not found' }, 404);
+  }
+
+  const issuer = oidcService.getIssuer(c.req.url, projectId);
+
+  c.header('Cache-Control', 'public, max-age=300');
+  return c.json(oidcService.getDiscoveryDocument(project, issuer));
+});
+
+// Start an authorization request: sends the browser to the project's sign-in page
+app.get('/api/auth/:projectId/oauth2/authorize', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project || !project.enabled) {
+    return c.json({ success: false, error: 'Project not found' }, 404);
+  }
+
+  const redirectTo = await oidcService.startAuthorization(c.env, project, {
+    responseType: c.req.query('response_type') || '',
+    clientId: c.req.query('client_id') || '',
+    redirectUri: c.req.query('redirect_uri') || '',
+    scope: c.req.query('scope') || '',
+    state: c.req.query('state'),
+    nonce: c.req.query('nonce'),
+    codeChallenge: c.req.query('code_challenge'),
+    codeChallengeMethod: c.req.query('code_challenge_method'),
+    prompt: c.req.query('prompt'),
+  });
+
+  return c.redirect(redirectTo);
+});
+
+// Complete an authorization request for the signed-in user
+app.post('/api/auth/:projectId/oauth2/authorize', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const body = await c.req.json();
+  const { consent, ...request } = validate(oidcAuthorizeSchema, body);
+
+  const result = await oidcService.authorize(c.env, project, user, c.get('jwtPayload'), request, consent);
+
+  return c.json({
+    success: true,
+    data: result,
+  });
+});
+
+// Token endpoint for the authorization_code and client_credentials grants (form encoded, RFC 6749 responses)
+app.post('/api/auth/:projectId/oauth2/token', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ error: 'invalid_request', error_description: 'Project not found' }, 404);
+  }
+
+  const body = await c.req.parseBody();
+  const form = Object.fromEntries(
+    Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+  const issuer = oidcService.getIssuer(c.req.url, projectId);
+
+  const tokens = await oidcService.token(c.env, project, issuer, form, c.req.raw);
+
+  c.header('Cache-Control', 'no-store');
+  return c.json(tokens);
+});
+
+// Token introspection for resource servers (RFC 7662)
+app.post('/api/auth/:projectId/introspect', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ error: 'invalid_request', error_description: 'Project not found' }, 404);
+  }
+
+  const body = await c.req.parseBody();
+  const form = Object.fromEntries(
+    Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+  const issuer = oidcService.getIssuer(c.req.url, projectId);
+
+  const result = await oidcService.introspect(c.env, project, issuer, form, c.req.raw);
+
+  c.header('Cache-Control', 'no-store');
+  return c.json(result);
+});
+
+// Token revocation for access and refresh tokens (RFC 7009)
+app.post('/api/auth/:projectId/revoke', async (c) => {
+  const projectId = c.req.param('projectId');
+  const project = await projectService.getProject(c.env, projectId);
+
+  if (!project) {
+    return c.json({ error: 'invalid_request', error_description: 'Project not found' }, 404);
+  }
+
+  const body = await c.req.parseBody();
+  const form = Object.fromEntries(
+    Object.entries(body).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+
+  await oidcService.revoke(c.env, project, form, c.req.raw);
+
+  return c.body(null, 200);
+});
+
+// Claims about the user an OAuth client's access token was issued for
+app.on(['GET', 'POST'], '/api/auth/:projectId/oauth2/userinfo', clientAuthMiddleware, async (c) => {
+  const user = c.get('user');
+
+  return c.json(oidcService.getUserInfo(user, c.get('jwtPayload')));
+});
+
+// ============================================================
+// MFA ROUTES
+// ============================================================
+
+// Complete a login that returned mfaRequired
+app.post('/api/auth/:projectId/mfa/verify', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json();
+  const data = validate(mfaVerifySchema, body);
+
+  const result = await authService.verifyMfa(c.env, projectId, data.mfaToken, data.code, c.req.raw);
+
+  return c.json({
+    success: true,
+    data: {
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+      },
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+    },
+  });
+});
+
+// List MFA factors for the current user
+app.get('/api/auth/:projectId/mfa/factors', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  const factors = await mfaService.listFactors(c.env, project, user.id);
+
+  return c.json({
+    success: true,
+    data: factors,
+  });
+});
+
+// Start authenticator app enrolment
+app.post('/api/auth/:projectId/mfa/totp/enroll', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const body = await c.req.json().catch(() => ({}));
+  const data = validate(mfaEnrollSchema, body);
+
+  const result = await mfaService.enrollTotp(c.env, project, user, data.friendlyName);
+
+  return c.json({
+    success: true,
+    data: result,
+  });
+});
+
+// Confirm authenticator app enrolment
+app.post('/api/auth/:projectId/mfa/totp/confirm', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const body = await c.req.json();
+  const data = validate(mfaConfirmSchema, body);
+
+  const factor = await mfaService.confirmTotp(c.env, project, user.id, data.factorId, data.code);
+
+  return c.json({
+    success: true,
+    data: factor,
+    message: 'MFA enabled successfully',
+  });
+});
+
+// Remove an MFA factor
+app.delete('/api/auth/:projectId/mfa/factors/:factorId', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const factorId = c.req.param('factorId');
+  const body = await c.req.json().catch(() => ({}));
+  const data = validate(mfaRemoveSchema, body);
+
+  await mfaService.removeFactor(c.env, project, user.id, factorId, data.code);
+
+  return c.json({
+    success: true,
+    message: 'MFA factor removed successfully',
+  });
+});
+
+// ============================================================
+// SESSION ROUTES
+// ============================================================
+
+// List the current user's active sessions
+app.get('/api/auth/:projectId/sessions', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  const sessions = await authService.listSessions(c.env, project.id, user.id);
+
+  return c.json({
+    success: true,
+    data: sessions,
+  });
+});
+
+// Sign out of every session
+app.delete('/api/auth/:projectId/sessions', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  await authService.revokeAllUserTokens(c.env, project.id, user.id);
+
+  return c.json({
+    success: true,
+    message: 'All sessions revoked successfully',
+  });
+});
+
+// Sign out of one session
+app.delete('/api/auth/:projectId/sessions/:sessionId', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const sessionId = c.req.param('sessionId');
+
+  await authService.revokeSession(c.env, project.id, user.id, sessionId);
+
+  return c.json({
+    success: true,
+    message: 'Session revoked successfully',
+  });
+});
+
+// ============================================================
+// WEBAUTHN ROUTES
+// ============================================================
+
+// Start passkey registration for the current user
+app.post('/api/auth/:projectId/webauthn/register/options', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  const options = await webauthnService.generateRegistrationOptions(c.env, project, user);
+
+  return c.json({
+    success: true,
+    data: options,
+  });
+});
+
+// Finish passkey registration
+app.post('/api/auth/:projectId/webauthn/register/verify', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const body = await c.req.json();
+  const data = validate(webauthnRegisterVerifySchema, body);
+
+  const credential = await webauthnService.verifyRegistration(c.env, project, user, data.credential, data.name);
+
+  return c.json({
+    success: true,
+    data: credential,
+    message: 'Passkey registered successfully',
+  });
+});
+
+// Start passkey sign-in
+app.post('/api/auth/:projectId/webauthn/login/options', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json().catch(() => ({}));
+  const data = validate(webauthnLoginOptionsSchema, body);
+
+  const options = await webauthnService.generateAuthenticationOptions(c.env, projectId, data.email);
+
+  return c.json({
+    success: true,
+    data: options,
+  });
+});
+
+// Finish passkey sign-in
+app.post('/api/auth/:projectId/webauthn/login/verify', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json();
+  const data = validate(webauthnLoginVerifySchema, body);
+
+  const result = await webauthnService.verifyAuthentication(c.env, projectId, data.credential, c.req.raw);
 
   return c.json({
     success: true,
@@ -1203,8 +2025,205 @@ app.get('/api/auth/:projectId/oauth/:provider/callback', async (c) => {
   });
 });
 
+// List passkeys for the current user
+app.get('/api/auth/:projectId/webauthn/credentials', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  const credentials = await webauthnService.listCredentials(c.env, project.id, user.id);
+
+  return c.json({
+    success: true,
+    data: credentials,
+  });
+});
+
+// Remove a passkey
+app.delete('/api/auth/:projectId/webauthn/credentials/:credentialId', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const credentialId = c.req.param('credentialId');
+
+  await webauthnService.deleteCredential(c.env, project.id, user.id, credentialId);
+
+  return c.json({
+    success: true,
+    message: 'Passkey removed successfully',
+  });
+});
+
+// ============================================================
+// OAUTH ROUTES
+// ============================================================
+
+// Get OAuth authorization URL
+app.get('/api/auth/:projectId/oauth/:provider', async (c) => {
+  const projectId = c.req.param('projectId');
+  const provider = c.req.param('provider');
+  const redirectUri = c.req.query('redirect_uri');
+
+  if (!redirectUri) {
+    return c.json({ success: false, error: 'redirect_uri is required' }, 400);
+  }
+
+  const callbackUri = oauthService.getCallbackUrl(c.req.url, projectId, provider);
+  const { authUrl, state, browserNonce } = await oauthService.getAuthUrl(
+    c.env,
+    projectId,
+    provider,
+    redirectUri,
+    callbackUri
+  );
+
+  c.header('Set-Cookie', oauthService.getBrowserNonceCookie(projectId, browserNonce));
+  return c.json({
+    success: true,
+    data: { authUrl, state },
+  });
+});
+
+// OAuth callback - redirects back to the app with a one-time code
+app.get('/api/auth/:projectId/oauth/:provider/callback', async (c) => {
+  const projectId = c.req.param('projectId');
+  const provider = c.req.param('provider');
+
+  const redirectUrl = await oauthService.handleCallback(c.env, projectId, provider, c.req.query(), c.req.raw);
+
+  return c.redirect(redirectUrl);
+});
+
+// OAuth callback posted as a form (Sign in with Apple's form_post response mode)
+app.post('/api/auth/:projectId/oauth/:provider/callback', async (c) => {
+  const projectId = c.req.param('projectId');
+  const provider = c.req.param('provider');
+  const form = await c.req.parseBody();
+
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (typeof value === 'string') {
+      params[key] = value;
+    }
+  }
+
+  const redirectUrl = await oauthService.handleCallback(c.env, projectId, provider, params, c.req.raw);
+
+  return c.redirect(redirectUrl, 303);
+});
+
+// Exchange the one-time code from the OAuth callback for tokens
+app.post('/api/auth/:projectId/oauth/exchange', async (c) => {
+  const projectId = c.req.param('projectId');
+  const body = await c.req.json();
+  const data = validate(oauthExchangeSchema, body);
+
+  const result = await oauthService.exchangeLoginCode(c.env, projectId, data.code, c.req.raw);
+
+  // MFA enabled: the client must complete the login at /mfa/verify
+  if ('mfaRequired' in result) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+      },
+    });
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+      },
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+    },
+  });
+});
+
+// List the current user's linked OAuth identities
+app.get('/api/auth/:projectId/identities', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+
+  const identities = await identityService.listIdentities(c.env, project.id, user.id);
+
+  return c.json({
+    success: true,
+    data: identities,
+  });
+});
+
+// Start linking a provider account to the current user
+app.post('/api/auth/:projectId/identities/:provider', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const provider = c.req.param('provider');
+  const body = await c.req.json();
+  const data = validate(linkIdentitySchema, body);
+
+  const callbackUri = oauthService.getCallbackUrl(c.req.url, project.id, provider);
+  const { authUrl, state, browserNonce } = await oauthService.getAuthUrl(
+    c.env,
+    project.id,
+    provider,
+    data.redirectUri,
+    callbackUri,
+    user.id
+  );
+
+  c.header('Set-Cookie', oauthService.getBrowserNonceCookie(project.id, browserNonce));
+  return c.json({
+    success: true,
+    data: { authUrl, state },
+  });
+});
+
+// Get a current provider access token for calling the provider's API on the user's behalf
+app.get('/api/auth/:projectId/identities/:provider/token', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const provider = c.req.param('provider');
+
+  const token = await oauthService.getProviderToken(c.env, project, user.id, provider);
+
+  c.header('Cache-Control', 'no-store');
+  return c.json({
+    success: true,
+    data: {
+      provider,
+      accessToken: token.accessToken,
+      expiresAt: token.expiresAt ? new Date(token.expiresAt * 1000).toISOString() : null,
+      scope: token.scope,
+    },
+  });
+});
+
+// Unlink a provider account from the current user
+app.delete('/api/auth/:projectId/identities/:identityId', authMiddleware, async (c) => {
+  const user = c.get('user');
+  const project = c.get('project');
+  const identityId = c.req.param('identityId');
+
+  await identityService.unlinkIdentity(c.env, project, user, identityId);
+
+  return c.json({
+    success: true,
+    message: 'Account unlinked successfully',
+  });
+});
+
 // ============================================================
 // EXPORT
 // ============================================================
 
-export default app;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger: retry queued emails
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(emailService.processOutbox(env));
+  },
+};
\ No newline at end of file
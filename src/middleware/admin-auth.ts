@@ -2,6 +2,7 @@ import { Context, Next } from 'hono';
 import type { Env, Variables } from '../types';
 import { adminAuthService } from '../services/admin-auth-service';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import { getCookie } from '../utils/helpers';
 
 /**
  * Admin Authentication Middleware
@@ -42,21 +43,4 @@ export function requireRole(...roles: string[]) {
 
     await next();
   };
-}
-
-/**
- * Helper to get cookie value
- */
-function getCookie(request: Request, name: string): string | undefined {
-  const cookieHeader = request.headers.get('Cookie');
-  if (!cookieHeader) return undefined;
-
-  const cookies = cookieHeader.split(';').map(c => c.trim());
-  for (const cookie of cookies) {
-    const [key, value] = cookie.split('=');
-    if (key === name) {
-      return value;
-    }
-  }
-  return undefined;
 }
\ No newline at end of file
@@ -1,15 +1,36 @@
 import { Context, Next } from 'hono';
 import type { Env, Variables } from '../types';
 import { jwtService } from '../services/jwt-service';
+import { signingKeyService } from '../services/signing-key-service';
 import { projectService } from '../services/project-service';
 import { userService } from '../services/user-service';
-import { AuthenticationError } from '../utils/errors';
+import { AuthenticationError, AuthorizationError } from '../utils/errors';
 
 /**
  * JWT Authentication Middleware
  * Verifies JWT token and attaches user to context
+ *
+ * Only accepts the project's own sessions: user tokens issued to OAuth clients are rejected.
  */
 export async function authMiddleware(c: Context<{ Bindings: Env; Variables: Variables }>, next: Next) {
+  await authenticate(c, next, false);
+}
+
+/**
+ * Authentication middleware that also accepts user tokens issued to OAuth clients
+ *
+ * For the OIDC endpoints clients call on the user's behalf (userinfo). Every other user
+ * route must use authMiddleware.
+ */
+export async function clientAuthMiddleware(c: Context<{ Bindings: Env; Variables: Variables }>, next: Next) {
+  await authenticate(c, next, true);
+}
+
+async function authenticate(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  next: Next,
+  allowClientTokens: boolean
+) {
   const authHeader = c.req.header('Authorization') || null;
   const token = jwtService.extractTokenFromHeader(authHeader);
 
@@ -30,7 +51,17 @@ export async function authMiddleware(c: Context<{ Bindings: Env; Variables: Vari
   }
 
   // Verify token
-  const payload = await jwtService.verifyAccessToken(token, project.jwtSecret, project.jwtAlgorithm);
+  const payload = await signingKeyService.verifyAccessToken(c.env, project, token);
+
+  // Service tokens (client_credentials grant) identify an OAuth client, not a user
+  if (payload.subType !== 'user') {
+    throw new AuthenticationError('User access token required');
+  }
+
+  // A client holding a user's token must not manage the account (passkeys, MFA, sessions...)
+  if (payload.clientId && !allowClientTokens) {
+    throw new AuthorizationError('This endpoint requires a first-party session');
+  }
 
   // Get user
   const user = await userService.getUserById(c.env, project.userTableName, payload.sub);
@@ -1,5 +1,5 @@
 import { Context } from 'hono';
-import { AppError, formatError } from '../utils/errors';
+import { AppError, OAuthError, formatError } from '../utils/errors';
 
 /**
  * Global error handler middleware
@@ -7,6 +7,12 @@ import { AppError, formatError } from '../utils/errors';
 export async function errorHandler(err: Error, c: Context) {
   console.error('Error:', err);
 
+  // OAuth clients expect RFC 6749 error responses
+  if (err instanceof OAuthError) {
+    c.header('Cache-Control', 'no-store');
+    return c.json({ error: err.code, error_description: err.message }, err.statusCode as any);
+  }
+
   if (err instanceof AppError) {
     return c.json(formatError(err), err.statusCode as any);
   }
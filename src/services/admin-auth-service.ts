@@ -1,10 +1,11 @@
 import { drizzle } from 'drizzle-orm/d1';
-import { eq, and, sql } from 'drizzle-orm';
-import { adminUsers, adminSessions } from '../db/schema';
+import { eq, and, or, gt, lt, isNull, sql } from 'drizzle-orm';
+import { adminUsers, adminSessions, adminMfaChallenges } from '../db/schema';
 import type { Env, AdminUser, AdminSession } from '../types';
-import { hashPassword, verifyPassword, generateSessionToken, hashToken } from '../utils/crypto';
-import { AuthenticationError, NotFoundError } from '../utils/errors';
+import { hashPassword, verifyPassword, generateSessionToken, hashToken, encrypt, decrypt } from '../utils/crypto';
+import { AppError, AuthenticationError, BadRequestError, ConflictError, NotFoundError, RateLimitError } from '../utils/errors';
 import { addSeconds, getTimestamp, isExpired } from '../utils/helpers';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
 import { auditService } from './audit-service';
 
 /**
@@ -12,15 +13,23 @@ import { auditService } from './audit-service';
  */
 export class AdminAuthService {
   private readonly SESSION_DURATION = 1800; // 30 minutes
+  private readonly MFA_CHALLENGE_DURATION = 300; // 5 minutes
+  private readonly MFA_CHALLENGE_MAX_ATTEMPTS = 5; // Wrong codes before a challenge is spent
+  private readonly MFA_IP_MAX_FAILURES = 10; // Wrong codes per IP address within the window
+  private readonly MFA_IP_WINDOW = 900; // 15 minutes
 
   /**
    * Admin login
+   *
+   * Admins with MFA enabled get a challenge token instead of a session; the login is
+   * completed by verifyAdminMfa.
+   *
    * @param env - Environment bindings
    * @param email - Admin email
    * @param password - Admin password
    * @param ipAddress - IP address
    * @param userAgent - User agent
-   * @returns Session token and admin user
+   * @returns Session token and admin user, or an MFA challenge
    */
   async adminLogin(
     env: Env,
@@ -28,7 +37,10 @@ export class AdminAuthService {
     password: string,
     ipAddress?: string,
     userAgent?: string,
-  ): Promise<{ sessionToken: string; admin: AdminUser }> {
+  ): Promise<
+    | { sessionToken: string; admin: AdminUser }
+    | { mfaRequired: true; mfaToken: string; admin: AdminUser }
+  > {
     const db = drizzle(env.DB);
 
     // Get admin user
@@ -57,6 +69,139 @@ export class AdminAuthService {
       throw new AuthenticationError("Invalid credentials");
     }
 
+    // Second factor required: hand out a single-use challenge instead of a session
+    if (adminData.mfaEnabled) {
+      const mfaToken = generateSessionToken();
+      const now = new Date();
+
+      await db.insert(adminMfaChallenges).values({
+        adminUserId: adminData.id,
+        challengeTokenHash: await hashToken(mfaToken),
+        ipAddress: ipAddress || null,
+        expiresAt: getTimestamp(addSeconds(now, this.MFA_CHALLENGE_DURATION)),
+        createdAt: getTimestamp(now),
+      });
+
+      return { mfaRequired: true, mfaToken, admin: adminData };
+    }
+
+    const sessionToken = await this.createSession(env, adminData, ipAddress, userAgent);
+
+    return { sessionToken, admin: adminData };
+  }
+
+  /**
+   * Complete an admin login that returned an MFA challenge
+   *
+   * A challenge completes one login and allows a few wrong codes; an IP address that
+   * keeps sending wrong codes is blocked for a while.
+   *
+   * @param env - Environment bindings
+   * @param mfaToken - Challenge token returned by adminLogin
+   * @param code - 6-digit authenticator code
+   * @param ipAddress - IP address
+   * @param userAgent - User agent
+   * @returns Session token and admin user
+   * @throws {RateLimitError} If the IP address has sent too many wrong codes
+   * @throws {AuthenticationError} If the challenge or code is invalid
+   */
+  async verifyAdminMfa(
+    env: Env,
+    mfaToken: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<{ sessionToken: string; admin: AdminUser }> {
+    const db = drizzle(env.DB);
+
+    if (ipAddress) {
+      const windowStart = getTimestamp(addSeconds(new Date(), -this.MFA_IP_WINDOW));
+      const failures = await db
+        .select({ count: sql<number>`coalesce(sum(${adminMfaChallenges.failedAttempts}), 0)` })
+        .from(adminMfaChallenges)
+        .where(and(eq(adminMfaChallenges.ipAddress, ipAddress), gt(adminMfaChallenges.createdAt, windowStart)))
+        .get();
+
+      if ((failures?.count || 0) >= this.MFA_IP_MAX_FAILURES) {
+        throw new RateLimitError("Too many failed MFA attempts. Please try again later.", this.MFA_IP_WINDOW);
+      }
+    }
+
+    const challenge = await db
+      .select()
+      .from(adminMfaChallenges)
+      .where(eq(adminMfaChallenges.challengeTokenHash, await hashToken(mfaToken)))
+      .get();
+
+    if (
+      !challenge ||
+      isExpired(challenge.expiresAt) ||
+      challenge.failedAttempts >= this.MFA_CHALLENGE_MAX_ATTEMPTS
+    ) {
+      throw new AuthenticationError("Invalid or expired MFA challenge");
+    }
+
+    const admin = await db
+      .select()
+      .from(adminUsers)
+      .where(eq(adminUsers.id, challenge.adminUserId))
+      .get();
+
+    const adminData = admin as unknown as AdminUser | undefined;
+
+    if (!adminData || !adminData.enabled || !adminData.mfaEnabled) {
+      throw new AuthenticationError("Invalid or expired MFA challenge");
+    }
+
+    if (!(await this.verifyMfaCode(env, adminData, code))) {
+      await db
+        .update(adminMfaChallenges)
+        .set({ failedAttempts: sql`${adminMfaChallenges.failedAttempts} + 1` })
+        .where(eq(adminMfaChallenges.id, challenge.id));
+
+      await auditService.logEvent(env, {
+        eventType: "admin_action",
+        eventStatus: "failure",
+        adminUserId: adminData.id,
+        ipAddress,
+        userAgent,
+        eventData: { action: "login", email: adminData.email, error: "Invalid MFA code" },
+      });
+      throw new AuthenticationError("Invalid MFA code");
+    }
+
+    // Spend the challenge; only one request can delete it
+    const spent = await db
+      .delete(adminMfaChallenges)
+      .where(eq(adminMfaChallenges.id, challenge.id))
+      .returning({ id: adminMfaChallenges.id })
+      .get();
+
+    if (!spent) {
+      throw new AuthenticationError("Invalid or expired MFA challenge");
+    }
+
+    const sessionToken = await this.createSession(env, adminData, ipAddress, userAgent);
+
+    return { sessionToken, admin: adminData };
+  }
+
+  /**
+   * Create a session for an authenticated admin
+   * @param env - Environment bindings
+   * @param adminData - Admin user
+   * @param ipAddress - IP address
+   * @param userAgent - User agent
+   * @returns Session token
+   */
+  private async createSession(
+    env: Env,
+    adminData: AdminUser,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
     // Generate session token
     const sessionToken = generateSessionToken();
     const tokenHash = await hashToken(sessionToken);
@@ -89,7 +234,7 @@ export class AdminAuthService {
       eventData: { action: "login", email: adminData.email },
     });
 
-    return { sessionToken, admin: adminData };
+    return sessionToken;
   }
 
   /**
@@ -360,6 +505,183 @@ export class AdminAuthService {
     });
   }
 
+  /**
+   * Start MFA enrolment for an admin
+   *
+   * Stores a new encrypted secret without enabling MFA; verifyAdminMfaEnrollment turns it on.
+   *
+   * @param env - Environment bindings
+   * @param adminId - Admin ID
+   * @returns Base32 secret and otpauth:// URI for the authenticator app
+   * @throws {ConflictError} If MFA is already enabled
+   */
+  async enrollAdminMfa(
+    env: Env,
+    adminId: string,
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const db = drizzle(env.DB);
+    const adminData = await this.getAdminById(env, adminId);
+
+    if (adminData.mfaEnabled) {
+      throw new ConflictError("MFA is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+
+    await db
+      .update(adminUsers)
+      .set({
+        mfaSecret: await encrypt(secret, this.getEncryptionKey(env)),
+        updatedAt: getTimestamp(),
+      })
+      .where(eq(adminUsers.id, adminId));
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri("Auth Service Admin", adminData.email, secret),
+    };
+  }
+
+  /**
+   * Confirm MFA enrolment with a code from the authenticator app
+   * @param env - Environment bindings
+   * @param adminId - Admin ID
+   * @param code - 6-digit code
+   * @throws {BadRequestError} If the code is wrong or enrolment was not started
+   */
+  async verifyAdminMfaEnrollment(env: Env, adminId: string, code: string): Promise<void> {
+    const db = drizzle(env.DB);
+    const adminData = await this.getAdminById(env, adminId);
+
+    if (adminData.mfaEnabled) {
+      throw new ConflictError("MFA is already enabled");
+    }
+
+    if (!adminData.mfaSecret || !(await this.verifyMfaCode(env, adminData, code))) {
+      throw new BadRequestError("Invalid MFA code");
+    }
+
+    await db
+      .update(adminUsers)
+      .set({ mfaEnabled: true, updatedAt: getTimestamp() })
+      .where(eq(adminUsers.id, adminId));
+
+    // Log audit event
+    await auditService.logEvent(env, {
+      eventType: "admin_action",
+      eventStatus: "success",
+      adminUserId: adminId,
+      eventData: { action: "enable_mfa" },
+    });
+  }
+
+  /**
+   * Disable MFA for an admin
+   * @param env - Environment bindings
+   * @param adminId - Admin ID
+   * @param code - Current 6-digit code
+   * @throws {BadRequestError} If the code is wrong
+   */
+  async disableAdminMfa(env: Env, adminId: string, code: string): Promise<void> {
+    const db = drizzle(env.DB);
+    const adminData = await this.getAdminById(env, adminId);
+
+    if (!adminData.mfaEnabled) {
+      throw new NotFoundError("MFA is not enabled");
+    }
+
+    if (!(await this.verifyMfaCode(env, adminData, code))) {
+      throw new BadRequestError("Invalid MFA code");
+    }
+
+    await db
+      .update(adminUsers)
+      .set({ mfaEnabled: false, mfaSecret: null, updatedAt: getTimestamp() })
+      .where(eq(adminUsers.id, adminId));
+
+    // Log audit event
+    await auditService.logEvent(env, {
+      eventType: "admin_action",
+      eventStatus: "success",
+      adminUserId: adminId,
+      eventData: { action: "disable_mfa" },
+    });
+  }
+
+  /**
+   * Check a TOTP code against an admin's stored secret
+   *
+   * A code is accepted once only: the matched time step is remembered and older or equal
+   * steps are rejected afterwards.
+   *
+   * @param env - Environment bindings
+   * @param adminData - Admin user
+   * @param code - 6-digit code
+   * @returns True if the code is valid and was not used before
+   */
+  private async verifyMfaCode(env: Env, adminData: AdminUser, code: string): Promise<boolean> {
+    if (!adminData.mfaSecret) {
+      return false;
+    }
+
+    const secret = await decrypt(adminData.mfaSecret, this.getEncryptionKey(env));
+    const step = await verifyTotp(secret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so a replayed or concurrently submitted code cannot succeed twice
+    const consumed = await drizzle(env.DB)
+      .update(adminUsers)
+      .set({ mfaLastUsedStep: step })
+      .where(
+        and(
+          eq(adminUsers.id, adminData.id),
+          or(isNull(adminUsers.mfaLastUsedStep), lt(adminUsers.mfaLastUsedStep, step))
+        )
+      )
+      .returning({ id: adminUsers.id })
+      .get();
+
+    return Boolean(consumed);
+  }
+
+  /**
+   * Get the key used to encrypt MFA secrets and challenges
+   * @param env - Environment bindings
+   * @returns Encryption key
+   * @throws {AppError} If ENCRYPTION_KEY is not configured
+   */
+  private getEncryptionKey(env: Env): string {
+    if (!env.ENCRYPTION_KEY) {
+      throw new AppError(500, "ENCRYPTION_KEY must be configured to use MFA", "ENCRYPTION_KEY_NOT_CONFIGURED");
+    }
+    return env.ENCRYPTION_KEY;
+  }
+
+  /**
+   * Get admin user by ID
+   * @param env - Environment bindings
+   * @param adminId - Admin ID
+   * @returns Admin user
+   * @throws {NotFoundError} If the admin does not exist
+   */
+  private async getAdminById(env: Env, adminId: string): Promise<AdminUser> {
+    const db = drizzle(env.DB);
+
+    const admin = await db
+      .select()
+      .from(adminUsers)
+      .where(eq(adminUsers.id, adminId))
+      .get();
+
+    if (!admin) {
+      throw new NotFoundError("Admin user not found");
+    }
+
+    return admin as unknown as AdminUser;
+  }
+
   /**
    * List admin users
    * @param env - Environment bindings
@@ -373,7 +695,7 @@ export class AdminAuthService {
   }
 
   /**
-   * Clean up expired sessions
+   * Clean up expired sessions, and MFA challenges no longer counted against their IP address
    * @param env - Environment bindings
    */
   async cleanupExpiredSessions(env: Env): Promise<void> {
@@ -383,6 +705,10 @@ export class AdminAuthService {
     await db
       .delete(adminSessions)
       .where(sql`${adminSessions.expiresAt} < ${now}`);
+
+    await db
+      .delete(adminMfaChallenges)
+      .where(lt(adminMfaChallenges.createdAt, getTimestamp(addSeconds(new Date(), -this.MFA_IP_WINDOW))));
   }
 }
 
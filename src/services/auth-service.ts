@@ -1,15 +1,28 @@
-import type { Env, RegisterData, LoginData, User, JWTPayload } from '../types';
+import type { Env, RegisterData, LoginData, User, JWTPayload, Project, SessionInfo } from '../types';
 import { projectService } from './project-service';
 import { userService } from './user-service';
 import { jwtService } from './jwt-service';
+import { signingKeyService } from './signing-key-service';
+import { tokenDenylistService } from './token-denylist-service';
+import { mfaService } from './mfa-service';
 import { auditService } from './audit-service';
 import { rateLimitService } from './rate-limit-service';
+import { emailService } from './email-service';
 import { hashPassword, verifyPassword, generateRefreshToken, hashToken } from '../utils/crypto';
 import { AuthenticationError, NotFoundError } from '../utils/errors';
 import { addSeconds, getTimestamp, getIpAddress, getUserAgent } from '../utils/helpers';
 import { drizzle } from 'drizzle-orm/d1';
 import { refreshTokens } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import type { RefreshToken } from '../db/schema';
+import { eq, and, gt, desc } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+
+/**
+ * Outcome of a sign-in whose first factor was accepted
+ */
+export type SignInResult =
+  | { accessToken: string; refreshToken: string }
+  | { mfaRequired: true; mfaToken: string };
 
 /**
  * Auth Service - Main authentication logic
@@ -58,13 +71,10 @@ export class AuthService {
       });
 
       // Generate tokens
-      const accessToken = await jwtService.generateAccessToken(project, user.id, user.email);
-      const refreshToken = await this.createRefreshToken(
-        env,
-        projectId,
-        user.id,
-        { ipAddress, userAgent }
-      );
+      const { accessToken, refreshToken } = await this.issueTokens(env, project, user, {
+        ipAddress,
+        userAgent,
+      });
 
       // Record successful attempt
       await rateLimitService.recordAttempt(env, projectId, 'register', ipAddress, data.email, true, user.id);
@@ -99,18 +109,22 @@ export class AuthService {
 
   /**
    * Login a user
+   *
+   * Users with a verified MFA factor get a challenge token instead of tokens; the login
+   * is completed by verifyMfa.
+   *
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param data - Login data
    * @param request - Request object
-   * @returns User and tokens
+   * @returns User and tokens, or an MFA challenge
    */
   async login(
     env: Env,
     projectId: string,
     data: LoginData,
     request: Request
-  ): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+  ): Promise<{ user: User } & SignInResult> {
     const ipAddress = getIpAddress(request);
     const userAgent = getUserAgent(request);
 
@@ -151,23 +165,107 @@ export class AuthService {
         throw new AuthenticationError('Invalid credentials');
       }
 
-      // Update last login
-      await userService.updateLastLogin(env, project.userTableName, user.id);
+      const session = await this.signIn(env, project, user, 'password', { ipAddress, userAgent });
+      if ('mfaRequired' in session) {
+        return { user, ...session };
+      }
 
-      // Generate tokens
-      const accessToken = await jwtService.generateAccessToken(project, user.id, user.email);
-      const refreshToken = await this.createRefreshToken(
+      // Record successful attempt
+      await rateLimitService.recordAttempt(env, projectId, 'login', ipAddress, data.email, true, user.id);
+
+      // Clear previous failed attempts for this email
+      await rateLimitService.clearAttempts(env, projectId, data.email);
+
+      // Log audit event
+      await auditService.logEvent(env, {
+        projectId,
+        eventType: 'user_login',
+        eventStatus: 'success',
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        eventData: { email: user.email, method: 'password' },
+      });
+
+      return { user, ...session };
+    } catch (error) {
+      // Record failed attempt
+      await rateLimitService.recordAttempt(
         env,
         projectId,
-        user.id,
-        { ipAddress, userAgent }
+        'login',
+        ipAddress,
+        data.email,
+        false,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
       );
+      throw error;
+    }
+  }
+
+  /**
+   * Complete an MFA login
+   *
+   * The challenge is single use and allows a few wrong codes (see mfaService.verifyChallenge).
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param mfaToken - Challenge token returned by login
+   * @param code - 6-digit authenticator code
+   * @param request - Request object
+   * @returns User and tokens
+   * @throws {RateLimitError} If the IP address sent too many wrong codes
+   * @throws {AuthenticationError} If the challenge or code is invalid
+   */
+  async verifyMfa(
+    env: Env,
+    projectId: string,
+    mfaToken: string,
+    code: string,
+    request: Request
+  ): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+    const ipAddress = getIpAddress(request);
+    const userAgent = getUserAgent(request);
+
+    // Check rate limit
+    await rateLimitService.checkRateLimit(env, projectId, 'login', ipAddress);
+
+    // Get project
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (!project.enabled) {
+      throw new AuthenticationError('Project is disabled');
+    }
+
+    let email: string | undefined;
+
+    try {
+      const challenge = await mfaService.verifyChallenge(env, project, mfaToken, code, ipAddress);
+
+      const user = await userService.getUserById(env, project.userTableName, challenge.userId);
+      if (!user || user.status !== 'active') {
+        throw new AuthenticationError('Account is not active');
+      }
+      email = user.email;
+
+      // Update last login
+      await userService.updateLastLogin(env, project.userTableName, user.id);
+
+      // Generate tokens
+      const { accessToken, refreshToken } = await this.issueTokens(env, project, user, {
+        ipAddress,
+        userAgent,
+      });
 
       // Record successful attempt
-      await rateLimitService.recordAttempt(env, projectId, 'login', ipAddress, data.email, true, user.id);
+      await rateLimitService.recordAttempt(env, projectId, 'login', ipAddress, user.email, true, user.id);
 
       // Clear previous failed attempts for this email
-      await rateLimitService.clearAttempts(env, projectId, data.email);
+      await rateLimitService.clearAttempts(env, projectId, user.email);
 
       // Log audit event
       await auditService.logEvent(env, {
@@ -177,7 +275,7 @@ export class AuthService {
         userId: user.id,
         ipAddress,
         userAgent,
-        eventData: { email: user.email, method: 'password' },
+        eventData: { email: user.email, method: challenge.method, mfa: 'totp' },
       });
 
       return { user, accessToken, refreshToken };
@@ -188,7 +286,7 @@ export class AuthService {
         projectId,
         'login',
         ipAddress,
-        data.email,
+        email,
         false,
         undefined,
         error instanceof Error ? error.message : 'Unknown error'
@@ -197,6 +295,69 @@ export class AuthService {
     }
   }
 
+  /**
+   * Finish a sign-in whose first factor was accepted
+   *
+   * Every sign-in method except passkeys ends here, so users with a verified MFA factor get a
+   * single-use challenge instead of tokens whichever way they signed in; verifyMfa completes
+   * the sign-in.
+   *
+   * @param env - Environment bindings
+   * @param project - Project the user belongs to
+   * @param user - User who passed the first factor
+   * @param method - Sign-in method, recorded in the audit log once MFA is passed
+   * @param metadata - Refresh token metadata
+   * @returns Tokens, or an MFA challenge
+   */
+  async signIn(
+    env: Env,
+    project: Project,
+    user: User,
+    method: string,
+    metadata: {
+      ipAddress?: string;
+      userAgent?: string;
+    }
+  ): Promise<SignInResult> {
+    if (await mfaService.hasVerifiedFactor(env, project, user.id)) {
+      const mfaToken = await mfaService.createChallenge(env, project, user.id, method, metadata.ipAddress);
+      return { mfaRequired: true, mfaToken };
+    }
+
+    await userService.updateLastLogin(env, project.userTableName, user.id);
+
+    return this.issueTokens(env, project, user, metadata);
+  }
+
+  /**
+   * Issue an access/refresh token pair for an authenticated user
+   *
+   * Shared by every sign-in method so that password, passwordless and
+   * federated logins all produce identical sessions. Sign-ins that may still need
+   * a second factor go through signIn instead.
+   *
+   * @param env - Environment bindings
+   * @param project - Project the user belongs to
+   * @param user - Authenticated user
+   * @param metadata - Refresh token metadata
+   * @returns Access and refresh tokens
+   */
+  async issueTokens(
+    env: Env,
+    project: Project,
+    user: User,
+    metadata: {
+      ipAddress?: string;
+      userAgent?: string;
+      deviceName?: string;
+    }
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const accessToken = await signingKeyService.signAccessToken(env, project, user.id, user.email);
+    const refreshToken = await this.createRefreshToken(env, project.id, user.id, accessToken, metadata);
+
+    return { accessToken, refreshToken };
+  }
+
   /**
    * Verify access token and get user
    * @param env - Environment bindings
@@ -216,13 +377,18 @@ export class AuthService {
     }
 
     // Verify token
-    const payload = await jwtService.verifyAccessToken(token, project.jwtSecret, project.jwtAlgorithm);
+    const payload = await signingKeyService.verifyAccessToken(env, project, token);
 
     // Verify project ID matches
     if (payload.projectId !== projectId) {
       throw new AuthenticationError('Invalid token for this project');
     }
 
+    // Service tokens (client_credentials grant) identify an OAuth client, not a user
+    if (payload.subType !== 'user') {
+      throw new AuthenticationError('User access token required');
+    }
+
     // Get user
     const user = await userService.getUserById(env, project.userTableName, payload.sub);
     if (!user) {
@@ -238,30 +404,37 @@ export class AuthService {
 
   /**
    * Refresh access token using refresh token
+   *
+   * Refresh tokens rotate strictly: each one can be exchanged once, and its replacement joins
+   * the same family. Presenting a token that was already rotated means it has been replayed,
+   * so the whole family is revoked and the user has to sign in again.
+   *
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param refreshTokenValue - Refresh token
+   * @param request - Request object for IP/UA
    * @returns New access token
+   * @throws {AuthenticationError} If the token is unknown, revoked, reused or expired
    */
   async refreshToken(
     env: Env,
     projectId: string,
-    refreshTokenValue: string
+    refreshTokenValue: string,
+    request?: Request
   ): Promise<{ accessToken: string; refreshToken: string }> {
     const db = drizzle(env.DB);
 
     // Hash the refresh token to find it
     const tokenHash = await hashToken(refreshTokenValue);
 
-    // Find refresh token
+    // Find refresh token, including revoked ones so that reuse can be detected
     const tokenRecord = await db
       .select()
       .from(refreshTokens)
       .where(
         and(
           eq(refreshTokens.projectId, projectId),
-          eq(refreshTokens.tokenHash, tokenHash),
-          eq(refreshTokens.revoked, false)
+          eq(refreshTokens.tokenHash, tokenHash)
         )
       )
       .get();
@@ -270,6 +443,13 @@ export class AuthService {
       throw new AuthenticationError('Invalid refresh token');
     }
 
+    if (tokenRecord.revoked) {
+      if (tokenRecord.revokedReason === 'rotated') {
+        await this.handleRefreshTokenReuse(env, tokenRecord, request);
+      }
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
     // Check expiration
     if (new Date(tokenRecord.expiresAt) < new Date()) {
       throw new AuthenticationError('Refresh token expired');
@@ -287,30 +467,111 @@ export class AuthService {
       throw new AuthenticationError('User not found or inactive');
     }
 
-    // Update last used
-    await db
+    // Rotate the old token. The update is conditional so that two concurrent
+    // refreshes with the same token cannot both succeed.
+    const rotated = await db
       .update(refreshTokens)
-      .set({ lastUsedAt: getTimestamp() })
-      .where(eq(refreshTokens.id, tokenRecord.id));
+      .set({
+        revoked: true,
+        revokedAt: getTimestamp(),
+        revokedReason: 'rotated',
+        lastUsedAt: getTimestamp(),
+      })
+      .where(and(eq(refreshTokens.id, tokenRecord.id), eq(refreshTokens.revoked, false)))
+      .returning({ id: refreshTokens.id });
+
+    if (rotated.length === 0) {
+      await this.handleRefreshTokenReuse(env, tokenRecord, request);
+      throw new AuthenticationError('Invalid refresh token');
+    }
 
     // Generate new tokens
-    const accessToken = await jwtService.generateAccessToken(project, user.id, user.email);
+    const accessToken = await signingKeyService.signAccessToken(env, project, user.id, user.email);
     const newRefreshToken = await this.createRefreshToken(
       env,
       projectId,
       user.id,
+      accessToken,
       {
         ipAddress: tokenRecord.ipAddress || undefined,
         userAgent: tokenRecord.userAgent || undefined,
-      }
+        deviceName: tokenRecord.deviceName || undefined,
+      },
+      tokenRecord.familyId
     );
 
-    // Optionally revoke old refresh token (rotation strategy)
-    await this.revokeRefreshToken(env, tokenRecord.id, 'rotated');
-
     return { accessToken, refreshToken: newRefreshToken };
   }
 
+  /**
+   * Respond to a rotated refresh token being presented again
+   *
+   * Revokes every token in the family, records a `refresh_token_reuse` audit event and,
+   * if the project opted in, emails the user. Email failures never block the revocation.
+   *
+   * @param env - Environment bindings
+   * @param tokenRecord - The replayed token
+   * @param request - Request object for IP/UA
+   */
+  private async handleRefreshTokenReuse(
+    env: Env,
+    tokenRecord: RefreshToken,
+    request?: Request
+  ): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const revoked = await db
+      .update(refreshTokens)
+      .set({
+        revoked: true,
+        revokedAt: getTimestamp(),
+        revokedReason: 'reuse_detected',
+      })
+      .where(
+        and(
+          eq(refreshTokens.projectId, tokenRecord.projectId),
+          eq(refreshTokens.familyId, tokenRecord.familyId),
+          eq(refreshTokens.revoked, false)
+        )
+      )
+      .returning({ id: refreshTokens.id });
+
+    await auditService.logEvent(env, {
+      projectId: tokenRecord.projectId,
+      eventType: 'refresh_token_reuse',
+      eventStatus: 'warning',
+      userId: tokenRecord.userId,
+      ipAddress: request ? getIpAddress(request) : undefined,
+      userAgent: request ? getUserAgent(request) : undefined,
+      eventData: {
+        familyId: tokenRecord.familyId,
+        tokenId: tokenRecord.id,
+        revokedTokens: revoked.length,
+      },
+    });
+
+    const project = await projectService.getProject(env, tokenRecord.projectId);
+    if (!project?.notifyRefreshTokenReuse) {
+      return;
+    }
+
+    try {
+      const user = await userService.getUserById(env, project.userTableName, tokenRecord.userId);
+      if (user) {
+        await emailService.sendSecurityAlertEmail(
+          env,
+          user.email,
+          project.name,
+          'A sign-in session for your account was used from two places at once, so we signed you out everywhere. If this was not you, change your password.',
+          project.id
+        );
+      }
+    } catch (emailError: any) {
+      // Log error but don't block the revocation
+      console.error('Failed to send refresh token reuse alert:', emailError.message);
+    }
+  }
+
   /**
    * Logout user by revoking refresh token
    * @param env - Environment bindings
@@ -331,23 +592,173 @@ export class AuthService {
     }
   }
 
+  /**
+   * Find a refresh token that is still usable
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param refreshTokenValue - Refresh token
+   * @returns Token record, or null if it is unknown, revoked or expired
+   */
+  async findActiveRefreshToken(
+    env: Env,
+    projectId: string,
+    refreshTokenValue: string
+  ): Promise<RefreshToken | null> {
+    const db = drizzle(env.DB);
+    const tokenHash = await hashToken(refreshTokenValue);
+
+    const tokenRecord = await db
+      .select()
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.projectId, projectId),
+          eq(refreshTokens.tokenHash, tokenHash),
+          eq(refreshTokens.revoked, false)
+        )
+      )
+      .get();
+
+    if (!tokenRecord || new Date(tokenRecord.expiresAt) < new Date()) {
+      return null;
+    }
+
+    return tokenRecord;
+  }
+
+  /**
+   * List a user's active sessions
+   *
+   * Each session is a refresh token family; only its latest, unrevoked token is live.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @returns Sessions, most recently used first
+   */
+  async listSessions(env: Env, projectId: string, userId: string): Promise<SessionInfo[]> {
+    const db = drizzle(env.DB);
+
+    const tokens = await db
+      .select()
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.projectId, projectId),
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.revoked, false),
+          gt(refreshTokens.expiresAt, new Date().toISOString())
+        )
+      )
+      .orderBy(desc(refreshTokens.createdAt))
+      .all();
+
+    return tokens.map((token) => ({
+      id: token.familyId,
+      deviceName: token.deviceName,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      // Rotation issues a new token, so its creation time is the last refresh
+      lastUsedAt: token.lastUsedAt || token.createdAt,
+      expiresAt: token.expiresAt,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   *
+   * Access tokens already issued to the session are denylisted, so signing out takes effect
+   * immediately rather than when they expire.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param sessionId - Session (refresh token family) ID
+   * @throws {NotFoundError} If the user has no such active session
+   */
+  async revokeSession(env: Env, projectId: string, userId: string, sessionId: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const revoked = await db
+      .update(refreshTokens)
+      .set({
+        revoked: true,
+        revokedAt: getTimestamp(),
+        revokedReason: 'session_revoked',
+      })
+      .where(
+        and(
+          eq(refreshTokens.projectId, projectId),
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.familyId, sessionId),
+          eq(refreshTokens.revoked, false)
+        )
+      )
+      .returning({ id: refreshTokens.id });
+
+    if (revoked.length === 0) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.revokeAccessTokens(
+      env,
+      projectId,
+      and(eq(refreshTokens.userId, userId), eq(refreshTokens.familyId, sessionId)),
+      'session_revoked'
+    );
+  }
+
+  /**
+   * Denylist the unexpired access tokens issued alongside a set of refresh tokens
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param where - Refresh tokens whose access tokens to revoke
+   * @param reason - Revocation reason
+   */
+  private async revokeAccessTokens(env: Env, projectId: string, where: SQL | undefined, reason: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    // Rotated tokens are included: their access tokens stay valid until they expire
+    const tokens = await db
+      .select({ jti: refreshTokens.accessTokenJti, expiresAt: refreshTokens.accessTokenExpiresAt })
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.projectId, projectId),
+          where,
+          gt(refreshTokens.accessTokenExpiresAt, Math.floor(Date.now() / 1000))
+        )
+      )
+      .all();
+
+    for (const token of tokens) {
+      if (token.jti && token.expiresAt) {
+        await tokenDenylistService.revoke(env, projectId, token.jti, token.expiresAt, reason);
+      }
+    }
+  }
+
   /**
    * Create a refresh token
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param userId - User ID
+   * @param accessToken - Access token issued alongside
    * @param metadata - Token metadata
+   * @param familyId - Rotation family to join (a new family is started if omitted)
    * @returns Refresh token value
    */
   private async createRefreshToken(
     env: Env,
     projectId: string,
     userId: string,
+    accessToken: string,
     metadata: {
       ipAddress?: string;
       userAgent?: string;
       deviceName?: string;
-    }
+    },
+    familyId: string = crypto.randomUUID()
   ): Promise<string> {
     const db = drizzle(env.DB);
 
@@ -364,11 +775,17 @@ export class AuthService {
     // Calculate expiry
     const expiresAt = addSeconds(new Date(), project.refreshTokenExpirySeconds);
 
+    // Remember the access token so revoking the session can denylist it
+    const issued = jwtService.decodeToken(accessToken);
+
     // Store refresh token
     await db.insert(refreshTokens).values({
       projectId,
       userId,
       tokenHash,
+      familyId,
+      accessTokenJti: issued?.jti || null,
+      accessTokenExpiresAt: issued?.exp || null,
       deviceName: metadata.deviceName || null,
       userAgent: metadata.userAgent || null,
       ipAddress: metadata.ipAddress || null,
@@ -385,7 +802,7 @@ export class AuthService {
    * @param tokenId - Token ID
    * @param reason - Revocation reason
    */
-  private async revokeRefreshToken(
+  async revokeRefreshToken(
     env: Env,
     tokenId: string,
     reason: string
@@ -403,7 +820,7 @@ export class AuthService {
   }
 
   /**
-   * Revoke all refresh tokens for a user
+   * Revoke all refresh tokens for a user, and the access tokens issued with them
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param userId - User ID
@@ -429,6 +846,8 @@ export class AuthService {
           eq(refreshTokens.revoked, false)
         )
       );
+
+    await this.revokeAccessTokens(env, projectId, eq(refreshTokens.userId, userId), 'all_tokens_revoked');
   }
 }
 
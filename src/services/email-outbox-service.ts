@@ -0,0 +1,182 @@
+import { D1Database } from '@cloudflare/workers-types';
+import { EmailOutboxEntry, EmailOutboxStatus } from '../types';
+import { addSeconds, getTimestamp } from '../utils/helpers';
+
+/** Delivery attempts before a message is marked failed */
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry; it doubles with every further attempt */
+export const OUTBOX_RETRY_BASE_SECONDS = 60;
+
+/** Days sent and failed messages are kept, since their bodies hold one-time links and codes */
+export const OUTBOX_RETENTION_DAYS = 7;
+
+/** Columns listed without the message bodies */
+const SUMMARY_COLUMNS = `id, project_id, template_type, recipient, subject, provider, status, attempts,
+  last_error, next_attempt_at, sent_at, created_at, updated_at`;
+
+export class EmailOutboxService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Record a rendered message, already claimed for its first delivery attempt
+   */
+  async enqueue(data: {
+    projectId?: string | null;
+    templateType: string;
+    recipient: string;
+    subject: string;
+    bodyHtml: string;
+    bodyText?: string;
+  }): Promise<EmailOutboxEntry> {
+    const id = crypto.randomUUID();
+
+    await this.db
+      .prepare(
+        `INSERT INTO email_outbox (id, project_id, template_type, recipient, subject, body_html, body_text, status, attempts, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', 1, ?)`
+      )
+      .bind(
+        id,
+        data.projectId || null,
+        data.templateType,
+        data.recipient,
+        data.subject,
+        data.bodyHtml,
+        data.bodyText || null,
+        this.retryAt(1)
+      )
+      .run();
+
+    return this.getEntry(id) as Promise<EmailOutboxEntry>;
+  }
+
+  async getEntry(id: string): Promise<EmailOutboxEntry | null> {
+    const row = await this.db.prepare('SELECT * FROM email_outbox WHERE id = ?').bind(id).first();
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
+  async listEntries(filters: {
+    projectId?: string;
+    status?: EmailOutboxStatus;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<EmailOutboxEntry[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.projectId) { conditions.push('project_id = ?'); values.push(filters.projectId); }
+    if (filters.status) { conditions.push('status = ?'); values.push(filters.status); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    values.push(filters.limit || 50, filters.offset || 0);
+
+    const { results } = await this.db
+      .prepare(`SELECT ${SUMMARY_COLUMNS} FROM email_outbox ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .bind(...values)
+      .all();
+    return (results || []).map((row) => this.mapRowToEntry(row));
+  }
+
+  /**
+   * Pending messages whose next attempt is due
+   */
+  async getDueEntries(limit: number): Promise<EmailOutboxEntry[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM email_outbox
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at LIMIT ?`
+      )
+      .bind(getTimestamp(), limit)
+      .all();
+    return (results || []).map((row) => this.mapRowToEntry(row));
+  }
+
+  /**
+   * Claim a message for another delivery attempt
+   *
+   * The claim counts the attempt and pushes the next one back, so a concurrent run (or a
+   * run that dies mid-send) does not deliver it twice. It fails if someone else claimed the
+   * message since it was read.
+   *
+   * @returns The attempt number, or null if the message was claimed elsewhere
+   */
+  async claim(entry: EmailOutboxEntry): Promise<number | null> {
+    const attempt = entry.attempts + 1;
+    const result = await this.db
+      .prepare(
+        `UPDATE email_outbox
+         SET status = 'pending', attempts = ?, next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND attempts = ?`
+      )
+      .bind(attempt, this.retryAt(attempt), entry.id, entry.attempts)
+      .run();
+
+    return result.meta.changes === 1 ? attempt : null;
+  }
+
+  async markSent(id: string, provider: string): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE email_outbox
+         SET status = 'sent', provider = ?, sent_at = ?, last_error = NULL, next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
+      )
+      .bind(provider, getTimestamp(), id)
+      .run();
+  }
+
+  /**
+   * Record a failed attempt: schedule the next one with exponential backoff, or give up
+   * once the attempts are used up
+   */
+  async markFailed(id: string, attempt: number, error: string, provider: string | null): Promise<void> {
+    const exhausted = attempt >= OUTBOX_MAX_ATTEMPTS;
+
+    await this.db
+      .prepare(
+        `UPDATE email_outbox
+         SET status = ?, provider = COALESCE(?, provider), last_error = ?, next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
+      )
+      .bind(exhausted ? 'failed' : 'pending', provider, error, exhausted ? null : this.retryAt(attempt), id)
+      .run();
+  }
+
+  /**
+   * Delete sent and failed messages past the retention period
+   */
+  async purge(): Promise<void> {
+    await this.db
+      .prepare(`DELETE FROM email_outbox WHERE status != 'pending' AND created_at < datetime('now', ?)`)
+      .bind(`-${OUTBOX_RETENTION_DAYS} days`)
+      .run();
+  }
+
+  /**
+   * When to retry after the given attempt: 1, 2, 4, 8... times the base delay
+   */
+  private retryAt(attempt: number): string {
+    return getTimestamp(addSeconds(new Date(), OUTBOX_RETRY_BASE_SECONDS * 2 ** (attempt - 1)));
+  }
+
+  private mapRowToEntry(row: any): EmailOutboxEntry {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      templateType: row.template_type,
+      recipient: row.recipient,
+      subject: row.subject,
+      ...(row.body_html !== undefined ? { bodyHtml: row.body_html, bodyText: row.body_text } : {}),
+      provider: row.provider,
+      status: row.status as EmailOutboxStatus,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      nextAttemptAt: row.next_attempt_at,
+      sentAt: row.sent_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
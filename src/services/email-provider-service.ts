@@ -1,6 +1,13 @@
 import { D1Database } from '@cloudflare/workers-types';
 import { EmailProvider, EmailProviderType } from '../types';
 import { AppError } from '../utils/errors';
+import { addSeconds, getTimestamp } from '../utils/helpers';
+
+/** Consecutive send failures that open a provider's circuit */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+
+/** How long a provider with an open circuit is skipped (5 minutes) */
+export const CIRCUIT_COOLDOWN_SECONDS = 300;
 
 export class EmailProviderService {
   constructor(private db: D1Database) {}
@@ -61,7 +68,12 @@ export class EmailProviderService {
     if (data.type !== undefined) { updates.push('type = ?'); values.push(data.type); }
     if (data.isDefault !== undefined) { updates.push('is_default = ?'); values.push(data.isDefault ? 1 : 0); }
     if (data.isFallback !== undefined) { updates.push('is_fallback = ?'); values.push(data.isFallback ? 1 : 0); }
-    if (data.config !== undefined) { updates.push('config = ?'); values.push(JSON.stringify(data.config)); }
+    if (data.config !== undefined) {
+      updates.push('config = ?');
+      values.push(JSON.stringify(data.config));
+      // New credentials deserve a fresh start
+      updates.push('consecutive_failures = 0', 'circuit_open_until = NULL');
+    }
     if (data.fromEmail !== undefined) { updates.push('from_email = ?'); values.push(data.fromEmail); }
     if (data.fromName !== undefined) { updates.push('from_name = ?'); values.push(data.fromName); }
     if (data.enabled !== undefined) { updates.push('enabled = ?'); values.push(data.enabled ? 1 : 0); }
@@ -83,6 +95,40 @@ export class EmailProviderService {
     await this.db.prepare('DELETE FROM email_providers WHERE id = ?').bind(id).run();
   }
 
+  /**
+   * Record a successful send, closing the provider's circuit
+   */
+  async recordSuccess(id: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE email_providers SET consecutive_failures = 0, circuit_open_until = NULL WHERE id = ?')
+      .bind(id)
+      .run();
+  }
+
+  /**
+   * Record a failed send; enough failures in a row open the circuit for the cooldown period
+   */
+  async recordFailure(id: string, error: string): Promise<void> {
+    const now = new Date();
+    await this.db
+      .prepare(
+        `UPDATE email_providers
+         SET consecutive_failures = consecutive_failures + 1,
+             last_error = ?,
+             last_failure_at = ?,
+             circuit_open_until = CASE WHEN consecutive_failures + 1 >= ? THEN ? ELSE circuit_open_until END
+         WHERE id = ?`
+      )
+      .bind(
+        error,
+        getTimestamp(now),
+        CIRCUIT_FAILURE_THRESHOLD,
+        getTimestamp(addSeconds(now, CIRCUIT_COOLDOWN_SECONDS)),
+        id
+      )
+      .run();
+  }
+
   private mapRowToProvider(row: any): EmailProvider {
     return {
       id: row.id,
@@ -95,6 +141,10 @@ export class EmailProviderService {
       fromEmail: row.from_email,
       fromName: row.from_name,
       enabled: Boolean(row.enabled),
+      consecutiveFailures: row.consecutive_failures ?? 0,
+      lastError: row.last_error ?? null,
+      lastFailureAt: row.last_failure_at ?? null,
+      circuitOpenUntil: row.circuit_open_until ?? null,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -1,8 +1,27 @@
-import type { Env } from '../types';
-import { AppError } from '../utils/errors';
+import type { Env, EmailOutboxEntry, EmailProvider, Project } from '../types';
+import { AppError, NotFoundError } from '../utils/errors';
+import { getTimestamp, renderTemplate } from '../utils/helpers';
 import { EmailProviderService } from './email-provider-service';
+import { EmailOutboxService } from './email-outbox-service';
 import { EmailTemplateService } from './email-template-service';
-import { ProviderFactory } from './email/providers';
+import { auditService } from './audit-service';
+import { projectService } from './project-service';
+import { ProviderFactory, type EmailMessage, type IEmailProvider } from './email/providers';
+
+/** How long a provider may take to accept a message before failing over (10 seconds) */
+const EMAIL_SEND_TIMEOUT_MS = 10_000;
+
+/** Outbox messages retried per scheduled run */
+const OUTBOX_BATCH_SIZE = 25;
+
+/**
+ * Where an email is sent from: the providers to try, and the project whose sender identity
+ * overrides theirs
+ */
+interface EmailRoute {
+  project: Project | null;
+  providers: EmailProvider[];
+}
 
 /**
  * SendGrid API response interface
@@ -34,29 +53,34 @@ interface WelcomeEmailData {
   extra_data?: string;
 }
 
+interface MagicLinkEmailData {
+  project_name: string;
+  magic_link_url: string;
+}
+
+interface OtpEmailData {
+  project_name: string;
+  otp: string;
+}
+
+interface SecurityAlertEmailData {
+  project_name: string;
+  alert_message: string;
+}
+
 /**
  * Email Service - Handles email sending via configured providers
  */
 export class EmailService {
   private readonly defaultFromEmail = 'noreply@example.com';
 
-  /**
-   * Render a template with data using Mustache-like syntax {{key}}
-   */
-  private renderTemplate(template: string, data: Record<string, any>): string {
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
-      const trimmedKey = key.trim();
-      return data[trimmedKey] !== undefined ? String(data[trimmedKey]) : match;
-    });
-  }
-
   /**
    * Send an email using the configured provider
    */
   private async sendEmail(
     env: Env,
     to: string,
-    templateType: 'confirmation' | 'passwordReset' | 'welcome',
+    templateType: 'confirmation' | 'passwordReset' | 'welcome' | 'magicLink' | 'otp' | 'securityAlert',
     templateData: Record<string, any>,
     subject: string,
     projectId?: string
@@ -65,92 +89,243 @@ export class EmailService {
     const providerService = new EmailProviderService(db);
     const templateService = new EmailTemplateService(db);
 
-    // 1. Get Provider
-    let provider = await providerService.getDefaultProvider();
-    if (!provider) {
-      // Check for legacy SendGrid config
-      if (env.SENDGRID_API_KEY) {
-        // Use legacy SendGrid path
-        return this.sendLegacySendGrid(env, to, templateType, templateData, subject);
-      }
-
-      // Try fallback provider
-      provider = await providerService.getFallbackProvider();
+    // 1. Get Providers
+    const route = await this.getRoute(env, providerService, projectId);
+    if (route.providers.length === 0 && env.SENDGRID_API_KEY) {
+      // Use legacy SendGrid path
+      return this.sendLegacySendGrid(env, to, templateType, templateData, subject);
     }
 
-    if (!provider) {
+    if (route.providers.length === 0) {
       console.error('No email provider configured');
       throw new AppError(500, 'Email service not configured', 'EMAIL_SERVICE_NOT_CONFIGURED');
     }
 
     // 2. Get Template
     // Map internal types to DB types
-    const dbTemplateTypeMap: Record<string, 'confirmation' | 'password_reset' | 'welcome'> = {
+    const dbTemplateTypeMap: Record<string, 'confirmation' | 'password_reset' | 'welcome' | 'magic_link' | 'otp' | 'security_alert'> = {
       'confirmation': 'confirmation',
       'passwordReset': 'password_reset',
-      'welcome': 'welcome'
+      'welcome': 'welcome',
+      'magicLink': 'magic_link',
+      'otp': 'otp',
+      'securityAlert': 'security_alert'
     };
 
     const dbType = dbTemplateTypeMap[templateType];
-    const template = await templateService.getTemplate(projectId || null, dbType);
+    let template = await templateService.getTemplate(projectId || null, dbType);
+
+    // Projects without their own template use the system one
+    if (!template && projectId) {
+      console.warn(`Template ${dbType} not found for project ${projectId}, using system template`);
+      template = await templateService.getTemplate(null, dbType);
+    }
 
     if (!template) {
-       // If using DB provider, we MUST have a DB template.
-       // Unless we want to fallback to hardcoded defaults?
-       // Let's fallback to hardcoded defaults if system template is missing.
-       console.warn(`Template ${dbType} not found for project ${projectId || 'system'}, using fallback`);
-       // We could implement hardcoded fallbacks here or throw.
-       // For now, let's throw to encourage setting up templates.
-       // Actually, the migration inserted default system templates, so this should be fine for system.
-       // If project specific is missing, it falls back to system (handled by getTemplate logic if we implemented it that way?
-       // No, getTemplate(projectId) returns project specific. If null, we should try getTemplate(null).
-
-       // Let's try system template if project one failed
-       let systemTemplate = null;
-       if (projectId) {
-         systemTemplate = await templateService.getTemplate(null, dbType);
-       }
-
-       if (!systemTemplate && !template) {
-          throw new AppError(500, `Email template ${dbType} not found`, 'EMAIL_TEMPLATE_NOT_FOUND');
-       }
-
-       // Use the one we found
-       const activeTemplate = template || systemTemplate;
-
-       if (activeTemplate) {
-         const html = this.renderTemplate(activeTemplate.bodyHtml, templateData);
-         const text = activeTemplate.bodyText ? this.renderTemplate(activeTemplate.bodyText, templateData) : undefined;
-         const renderedSubject = this.renderTemplate(activeTemplate.subject, templateData);
-
-         // 3. Send
-         const emailProvider = ProviderFactory.create(provider.provider, provider.config);
-         await emailProvider.send({
-           to,
-           from: provider.fromEmail,
-           fromName: provider.fromName,
-           subject: renderedSubject,
-           html,
-           text
-         });
-         return;
-       }
-    } else {
-         const html = this.renderTemplate(template.bodyHtml, templateData);
-         const text = template.bodyText ? this.renderTemplate(template.bodyText, templateData) : undefined;
-         const renderedSubject = this.renderTemplate(template.subject, templateData);
-
-         // 3. Send
-         const emailProvider = ProviderFactory.create(provider.provider, provider.config);
-         await emailProvider.send({
-           to,
-           from: provider.fromEmail,
-           fromName: provider.fromName,
-           subject: renderedSubject,
-           html,
-           text
-         });
-         return;
+      throw new AppError(500, `Email template ${dbType} not found`, 'EMAIL_TEMPLATE_NOT_FOUND');
+    }
+
+    // 3. Record in the outbox, then send. A failed send stays queued for the scheduled retries.
+    const entry = await new EmailOutboxService(db).enqueue({
+      projectId,
+      templateType: dbType,
+      recipient: to,
+      subject: renderTemplate(template.subject, templateData),
+      bodyHtml: renderTemplate(template.bodyHtml, templateData),
+      bodyText: template.bodyText ? renderTemplate(template.bodyText, templateData) : undefined,
+    });
+
+    const delivered = await this.deliver(env, route, entry, 1);
+    if (!delivered) {
+      console.warn(`Email ${entry.id} could not be sent; queued for retry`);
+    }
+  }
+
+  /**
+   * Retry due messages in the outbox and drop old delivery records
+   *
+   * Run from the scheduled handler.
+   *
+   * @param env - Environment bindings
+   */
+  async processOutbox(env: Env): Promise<void> {
+    const outbox = new EmailOutboxService(env.DB);
+    const providerService = new EmailProviderService(env.DB);
+
+    // Messages from the same project share a route
+    const routes = new Map<string, Promise<EmailRoute>>();
+    const due = await outbox.getDueEntries(OUTBOX_BATCH_SIZE);
+
+    for (const entry of due) {
+      const key = entry.projectId ?? '';
+      if (!routes.has(key)) {
+        routes.set(key, this.getRoute(env, providerService, entry.projectId));
+      }
+
+      const route = await routes.get(key)!;
+      if (route.providers.length === 0) {
+        continue;
+      }
+
+      const attempt = await outbox.claim(entry);
+      if (attempt) {
+        await this.deliver(env, route, entry, attempt);
+      }
+    }
+
+    await outbox.purge();
+  }
+
+  /**
+   * Send an outbox message again right away, whatever its status
+   * @param env - Environment bindings
+   * @param id - Outbox entry ID
+   * @returns The updated entry
+   * @throws {NotFoundError} If there is no such entry
+   * @throws {AppError} If no email provider is configured
+   */
+  async resendOutboxEntry(env: Env, id: string): Promise<EmailOutboxEntry> {
+    const outbox = new EmailOutboxService(env.DB);
+
+    const entry = await outbox.getEntry(id);
+    if (!entry) {
+      throw new NotFoundError('Email not found');
+    }
+
+    const route = await this.getRoute(env, new EmailProviderService(env.DB), entry.projectId);
+    if (route.providers.length === 0) {
+      throw new AppError(500, 'Email service not configured', 'EMAIL_SERVICE_NOT_CONFIGURED');
+    }
+
+    const attempt = await outbox.claim(entry);
+    if (attempt) {
+      await this.deliver(env, route, entry, attempt);
+    }
+
+    return outbox.getEntry(id) as Promise<EmailOutboxEntry>;
+  }
+
+  /**
+   * Resolve where a project's emails are sent from
+   *
+   * Enabled providers in delivery order: the project's own provider (or the system default
+   * when it has none, or it is disabled), then the system fallback.
+   */
+  private async getRoute(
+    env: Env,
+    providerService: EmailProviderService,
+    projectId?: string | null
+  ): Promise<EmailRoute> {
+    const project = projectId ? await projectService.getProject(env, projectId) : null;
+
+    const projectProvider = project?.emailProviderId
+      ? await providerService.getProvider(project.emailProviderId)
+      : null;
+    const primary = projectProvider?.enabled ? projectProvider : await providerService.getDefaultProvider();
+    const fallback = await providerService.getFallbackProvider();
+
+    // A project may pick the fallback as its own provider; try it once
+    const providers: EmailProvider[] = [];
+    for (const provider of [primary, fallback]) {
+      if (provider?.enabled && !providers.some((added) => added.id === provider.id)) {
+        providers.push(provider);
+      }
+    }
+
+    return { project, providers };
+  }
+
+  /**
+   * Send an outbox message through the first provider that accepts it, and record the outcome
+   *
+   * Providers are tried in order. A provider whose circuit is open (too many failures in a
+   * row) is skipped until its cooldown ends, unless every provider's circuit is open. The
+   * project's sender name, address and reply-to replace the provider's where set.
+   *
+   * @returns Whether the message was delivered
+   */
+  private async deliver(
+    env: Env,
+    { project, providers }: EmailRoute,
+    entry: EmailOutboxEntry,
+    attempt: number
+  ): Promise<boolean> {
+    const providerService = new EmailProviderService(env.DB);
+    const outbox = new EmailOutboxService(env.DB);
+    const now = getTimestamp();
+
+    const closed = providers.filter((provider) => !provider.circuitOpenUntil || provider.circuitOpenUntil <= now);
+    const candidates = closed.length > 0 ? closed : providers;
+    const failures: Array<{ provider: string; error: string }> = [];
+
+    for (const provider of candidates) {
+      try {
+        await this.sendWithTimeout(ProviderFactory.create(provider.provider, provider.config), {
+          to: entry.recipient,
+          from: project?.emailFromAddress || provider.fromEmail,
+          fromName: project?.emailFromName || provider.fromName,
+          replyTo: project?.emailReplyTo || undefined,
+          subject: entry.subject,
+          html: entry.bodyHtml!,
+          text: entry.bodyText || undefined,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`Email provider ${provider.name} failed:`, reason);
+        failures.push({ provider: provider.name, error: reason });
+        await providerService.recordFailure(provider.id, reason);
+        continue;
+      }
+
+      if (provider.consecutiveFailures) {
+        await providerService.recordSuccess(provider.id);
+      }
+
+      await outbox.markSent(entry.id, provider.name);
+      await auditService.logEvent(env, {
+        projectId: entry.projectId ?? undefined,
+        eventType: 'email_sent',
+        eventStatus: failures.length > 0 ? 'warning' : 'success',
+        eventData: {
+          emailId: entry.id,
+          template: entry.templateType,
+          attempt,
+          provider: provider.name,
+          providerType: provider.provider,
+          failures,
+        },
+      });
+      return true;
+    }
+
+    await outbox.markFailed(
+      entry.id,
+      attempt,
+      failures.map((failure) => `${failure.provider}: ${failure.error}`).join('; '),
+      failures[failures.length - 1]?.provider ?? null
+    );
+    await auditService.logEvent(env, {
+      projectId: entry.projectId ?? undefined,
+      eventType: 'email_failed',
+      eventStatus: 'failure',
+      eventData: { emailId: entry.id, template: entry.templateType, attempt, failures },
+    });
+    return false;
+  }
+
+  /**
+   * Send with a time limit, so a hanging provider fails over like a failing one
+   */
+  private async sendWithTimeout(provider: IEmailProvider, message: EmailMessage): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${EMAIL_SEND_TIMEOUT_MS}ms`)), EMAIL_SEND_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([provider.send(message), timeout]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -160,7 +335,7 @@ export class EmailService {
   private async sendLegacySendGrid(
     env: Env,
     to: string,
-    templateType: 'confirmation' | 'passwordReset' | 'welcome',
+    templateType: 'confirmation' | 'passwordReset' | 'welcome' | 'magicLink' | 'otp' | 'securityAlert',
     templateData: Record<string, any>,
     subject: string
   ): Promise<void> {
@@ -176,6 +351,15 @@ export class EmailService {
       case 'welcome':
         templateId = env.SENDGRID_TEMPLATE_WELCOME;
         break;
+      case 'magicLink':
+        templateId = env.SENDGRID_TEMPLATE_MAGIC_LINK;
+        break;
+      case 'otp':
+        templateId = env.SENDGRID_TEMPLATE_OTP;
+        break;
+      case 'securityAlert':
+        templateId = env.SENDGRID_TEMPLATE_SECURITY_ALERT;
+        break;
     }
 
     if (!templateId) {
@@ -294,6 +478,76 @@ export class EmailService {
       projectId
     );
   }
+
+  async sendMagicLinkEmail(
+    env: Env,
+    to: string,
+    projectName: string,
+    magicLinkUrl: string,
+    projectId?: string
+  ): Promise<void> {
+    const templateData: MagicLinkEmailData = {
+      project_name: projectName,
+      magic_link_url: magicLinkUrl,
+      action_url: magicLinkUrl, // Alias for template compatibility
+      app_name: projectName, // Alias
+    } as any;
+
+    await this.sendEmail(
+      env,
+      to,
+      'magicLink',
+      templateData,
+      `Your sign-in link for ${projectName}`,
+      projectId
+    );
+  }
+
+  async sendOtpEmail(
+    env: Env,
+    to: string,
+    projectName: string,
+    otp: string,
+    projectId?: string
+  ): Promise<void> {
+    const templateData: OtpEmailData = {
+      project_name: projectName,
+      otp,
+      app_name: projectName, // Alias
+    } as any;
+
+    await this.sendEmail(
+      env,
+      to,
+      'otp',
+      templateData,
+      `Your verification code for ${projectName}`,
+      projectId
+    );
+  }
+
+  async sendSecurityAlertEmail(
+    env: Env,
+    to: string,
+    projectName: string,
+    alertMessage: string,
+    projectId?: string
+  ): Promise<void> {
+    const templateData: SecurityAlertEmailData = {
+      project_name: projectName,
+      alert_message: alertMessage,
+      app_name: projectName, // Alias
+    } as any;
+
+    await this.sendEmail(
+      env,
+      to,
+      'securityAlert',
+      templateData,
+      `Security alert for your ${projectName} account`,
+      projectId
+    );
+  }
 }
 
 // Export singleton instance
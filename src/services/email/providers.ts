@@ -1,10 +1,12 @@
 import { EmailProviderType } from '../../types';
 import nodemailer from "nodemailer";
+import { renderTemplate } from '../../utils/helpers';
 
 export interface EmailMessage {
   to: string;
   from: string;
   fromName?: string;
+  replyTo?: string;
   subject: string;
   html: string;
   text?: string;
@@ -27,13 +29,45 @@ export class ProviderFactory {
         return new ResendProvider(config);
       case 'smtp':
         return new SmtpProvider(config);
+      case 'brevo':
+        return new BrevoProvider(config);
+      case 'mailersend':
+        return new MailerSendProvider(config);
+      case 'mailjet':
+        return new MailjetProvider(config);
+      case 'smtp2go':
+        return new Smtp2GoProvider(config);
+      case 'mailtrap':
+        return new MailtrapProvider(config);
+      case 'mailchimp':
+        return new MandrillProvider(config);
+      case 'custom':
+        return new CustomHttpProvider(config);
       default:
-        // Try to map known providers to their specific implementations if possible, otherwise throw
         throw new Error(`Provider ${type} not supported yet`);
     }
   }
 }
 
+/**
+ * Build a provider error from a failed response, preferring the message in the provider's
+ * JSON error body and falling back to the raw body
+ */
+async function responseError(
+  name: string,
+  response: Response,
+  extract: (body: any) => string | undefined
+): Promise<Error> {
+  const text = await response.text();
+  let message: string | undefined;
+  try {
+    message = extract(JSON.parse(text));
+  } catch {
+    // Not JSON; use the raw body
+  }
+  return new Error(`${name} Error: ${message || text || `HTTP ${response.status}`}`);
+}
+
 export class SendGridProvider implements IEmailProvider {
   constructor(private config: { apiKey: string }) {}
 
@@ -47,6 +81,7 @@ export class SendGridProvider implements IEmailProvider {
       body: JSON.stringify({
         personalizations: [{ to: [{ email: message.to }] }],
         from: { email: message.from, name: message.fromName },
+        reply_to: message.replyTo ? { email: message.replyTo } : undefined,
         subject: message.subject,
         content: [
           { type: 'text/html', value: message.html },
@@ -76,6 +111,7 @@ export class PostmarkProvider implements IEmailProvider {
       body: JSON.stringify({
         From: message.fromName ? `${message.fromName} <${message.from}>` : message.from,
         To: message.to,
+        ReplyTo: message.replyTo,
         Subject: message.subject,
         HtmlBody: message.html,
         TextBody: message.text,
@@ -101,6 +137,7 @@ export class MailgunProvider implements IEmailProvider {
     const formData = new FormData();
     formData.append('from', message.fromName ? `${message.fromName} <${message.from}>` : message.from);
     formData.append('to', message.to);
+    if (message.replyTo) formData.append('h:Reply-To', message.replyTo);
     formData.append('subject', message.subject);
     formData.append('html', message.html);
     if (message.text) formData.append('text', message.text);
@@ -133,6 +170,7 @@ export class ResendProvider implements IEmailProvider {
       body: JSON.stringify({
         from: message.fromName ? `${message.fromName} <${message.from}>` : message.from,
         to: message.to,
+        reply_to: message.replyTo,
         subject: message.subject,
         html: message.html,
         text: message.text,
@@ -177,9 +215,276 @@ export class SmtpProvider implements IEmailProvider {
         ? `"${message.fromName}" <${message.from}>`
         : message.from,
       to: message.to,
+      replyTo: message.replyTo,
       subject: message.subject,
       html: message.html,
       text: message.text,
     });
   }
 }
+
+export class BrevoProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseUrl = this.config.baseUrl || 'https://api.brevo.com';
+    const response = await fetch(`${baseUrl}/v3/smtp/email`, {
+      method: 'POST',
+      headers: {
+        'api-key': this.config.apiKey,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        sender: { email: message.from, name: message.fromName },
+        to: [{ email: message.to }],
+        replyTo: message.replyTo ? { email: message.replyTo } : undefined,
+        subject: message.subject,
+        htmlContent: message.html,
+        textContent: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await responseError('Brevo', response, (body) => body.message);
+    }
+  }
+}
+
+export class MailerSendProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseUrl = this.config.baseUrl || 'https://api.mailersend.com';
+    const response = await fetch(`${baseUrl}/v1/email`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: { email: message.from, name: message.fromName },
+        to: [{ email: message.to }],
+        reply_to: message.replyTo ? { email: message.replyTo } : undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      // Validation errors list messages per field: { message, errors: { field: [messages] } }
+      throw await responseError('MailerSend', response, (body) => {
+        const fieldErrors = Object.values(body.errors || {}).flat();
+        return fieldErrors.length > 0 ? fieldErrors.join('; ') : body.message;
+      });
+    }
+  }
+}
+
+export class MailjetProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; secretKey: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseUrl = this.config.baseUrl || 'https://api.mailjet.com';
+    const response = await fetch(`${baseUrl}/v3.1/send`, {
+      method: 'POST',
+      headers: {
+        'Authorization': 'Basic ' + btoa(`${this.config.apiKey}:${this.config.secretKey}`),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        Messages: [
+          {
+            From: { Email: message.from, Name: message.fromName },
+            To: [{ Email: message.to }],
+            ReplyTo: message.replyTo ? { Email: message.replyTo } : undefined,
+            Subject: message.subject,
+            HTMLPart: message.html,
+            TextPart: message.text,
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      // Message errors are reported per message; authentication errors at the top level
+      throw await responseError('Mailjet', response, (body) => {
+        const errors = (body.Messages || []).flatMap((sent: any) => sent.Errors || []);
+        return errors.length > 0
+          ? errors.map((error: any) => error.ErrorMessage).join('; ')
+          : body.ErrorMessage;
+      });
+    }
+  }
+}
+
+export class Smtp2GoProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseUrl = this.config.baseUrl || 'https://api.smtp2go.com';
+    const response = await fetch(`${baseUrl}/v3/email/send`, {
+      method: 'POST',
+      headers: {
+        'X-Smtp2go-Api-Key': this.config.apiKey,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        sender: message.fromName ? `${message.fromName} <${message.from}>` : message.from,
+        to: [message.to],
+        custom_headers: message.replyTo ? [{ header: 'Reply-To', value: message.replyTo }] : undefined,
+        subject: message.subject,
+        html_body: message.html,
+        text_body: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await responseError('SMTP2GO', response, (body) => body.data?.error);
+    }
+
+    // Rejected recipients come back with a 200 and are counted in data.failed
+    const result = await response.json() as { data?: { failed?: number; failures?: string[] } };
+    if (result.data?.failed) {
+      throw new Error(`SMTP2GO Error: ${result.data.failures?.join('; ') || 'Message was not accepted'}`);
+    }
+  }
+}
+
+export class MailtrapProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; inboxId?: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    // Sandbox inboxes capture mail for testing instead of delivering it
+    const baseUrl = this.config.baseUrl
+      || (this.config.inboxId ? 'https://sandbox.api.mailtrap.io' : 'https://send.api.mailtrap.io');
+    const path = this.config.inboxId ? `/api/send/${this.config.inboxId}` : '/api/send';
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: { email: message.from, name: message.fromName },
+        to: [{ email: message.to }],
+        reply_to: message.replyTo ? { email: message.replyTo } : undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await responseError('Mailtrap', response, (body) => body.errors?.join('; '));
+    }
+  }
+}
+
+export class MandrillProvider implements IEmailProvider {
+  constructor(private config: { apiKey: string; baseUrl?: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const baseUrl = this.config.baseUrl || 'https://mandrillapp.com';
+    const response = await fetch(`${baseUrl}/api/1.0/messages/send.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        key: this.config.apiKey,
+        message: {
+          from_email: message.from,
+          from_name: message.fromName,
+          to: [{ email: message.to, type: 'to' }],
+          headers: message.replyTo ? { 'Reply-To': message.replyTo } : undefined,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await responseError('Mandrill', response, (body) => body.message);
+    }
+
+    // Each recipient has its own status; rejected and invalid ones are not sent
+    const results = await response.json() as Array<{ email: string; status: string; reject_reason?: string | null }>;
+    const failed = results.find((result) => result.status === 'rejected' || result.status === 'invalid');
+    if (failed) {
+      throw new Error(`Mandrill Error: ${failed.email} ${failed.status}${failed.reject_reason ? ` (${failed.reject_reason})` : ''}`);
+    }
+  }
+}
+
+/**
+ * Generic HTTP provider for mail relays and webhooks
+ *
+ * The body template is JSON whose string values may use {{to}}, {{from}}, {{fromName}},
+ * {{replyTo}}, {{subject}}, {{html}} and {{text}}. Values are substituted after parsing, so they are
+ * always JSON-escaped.
+ */
+export class CustomHttpProvider implements IEmailProvider {
+  constructor(
+    private config: {
+      url: string;
+      method?: 'POST' | 'PUT' | 'PATCH';
+      headers?: Record<string, string>;
+      bodyTemplate: string;
+    },
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    let template: unknown;
+    try {
+      template = JSON.parse(this.config.bodyTemplate);
+    } catch {
+      throw new Error('Custom Provider Error: Body template is not valid JSON');
+    }
+
+    const data = {
+      to: message.to,
+      from: message.from,
+      fromName: message.fromName ?? '',
+      replyTo: message.replyTo ?? '',
+      subject: message.subject,
+      html: message.html,
+      text: message.text ?? '',
+    };
+
+    const response = await fetch(this.config.url, {
+      method: this.config.method || 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify(renderValue(template, data)),
+    });
+
+    if (!response.ok) {
+      throw await responseError('Custom Provider', response, (body) => body.error || body.message);
+    }
+  }
+}
+
+/**
+ * Render every string in a parsed JSON template
+ */
+function renderValue(value: unknown, data: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return renderTemplate(value, data);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, data));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderValue(item, data)])
+    );
+  }
+  return value;
+}
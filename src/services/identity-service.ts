@@ -0,0 +1,315 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, ne } from 'drizzle-orm';
+import { userIdentities } from '../db/schema';
+import type { UserIdentity } from '../db/schema';
+import type { Env, Project, User, UserIdentityInfo, OAuthProfile, ProviderTokenSet } from '../types';
+import { webauthnService } from './webauthn-service';
+import { userService } from './user-service';
+import { auditService } from './audit-service';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { encrypt, decrypt } from '../utils/crypto';
+import { getTimestamp } from '../utils/helpers';
+
+/**
+ * Identity Service - OAuth accounts linked to project users
+ *
+ * A user can have any number of identities (one per provider account) alongside a password
+ * and passkeys. Identities are keyed by the provider's stable user ID, never by email.
+ */
+export class IdentityService {
+  /**
+   * List a user's linked identities
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @returns Identities
+   */
+  async listIdentities(env: Env, projectId: string, userId: string): Promise<UserIdentityInfo[]> {
+    const db = drizzle(env.DB);
+
+    const identities = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.projectId, projectId), eq(userIdentities.userId, userId)))
+      .all();
+
+    return identities.map((identity) => this.toIdentityInfo(identity));
+  }
+
+  /**
+   * Find the identity for a provider account
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param provider - Provider name
+   * @param providerUserId - User ID at the provider
+   * @returns Identity or null
+   */
+  async findIdentity(
+    env: Env,
+    projectId: string,
+    provider: string,
+    providerUserId: string
+  ): Promise<UserIdentity | null> {
+    const db = drizzle(env.DB);
+
+    const identity = await db
+      .select()
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.projectId, projectId),
+          eq(userIdentities.provider, provider),
+          eq(userIdentities.providerUserId, providerUserId)
+        )
+      )
+      .get();
+
+    return identity || null;
+  }
+
+  /**
+   * Link a provider account to a user
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param provider - Provider name
+   * @param profile - Profile returned by the provider
+   * @returns Linked identity
+   * @throws {ConflictError} If the provider account belongs to another user
+   */
+  async linkIdentity(
+    env: Env,
+    projectId: string,
+    userId: string,
+    provider: string,
+    profile: OAuthProfile
+  ): Promise<UserIdentityInfo> {
+    const db = drizzle(env.DB);
+
+    const existing = await this.findIdentity(env, projectId, provider, profile.providerUserId);
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new ConflictError('This account is already linked to another user');
+      }
+
+      await this.recordSignIn(env, existing.id, profile);
+      return this.toIdentityInfo(existing);
+    }
+
+    const identity = await db
+      .insert(userIdentities)
+      .values({
+        projectId,
+        userId,
+        provider,
+        providerUserId: profile.providerUserId,
+        email: profile.email || null,
+        emailVerified: profile.emailVerified,
+        rawUserData: JSON.stringify(profile.rawUserData),
+        lastSignInAt: getTimestamp(),
+      })
+      .returning()
+      .get();
+
+    await auditService.logEvent(env, {
+      projectId,
+      eventType: 'oauth_linked',
+      eventStatus: 'success',
+      userId,
+      eventData: { provider, providerUserId: profile.providerUserId },
+    });
+
+    return this.toIdentityInfo(identity);
+  }
+
+  /**
+   * Refresh an identity's stored profile after a sign-in
+   * @param env - Environment bindings
+   * @param identityId - Identity ID
+   * @param profile - Profile returned by the provider
+   */
+  async recordSignIn(env: Env, identityId: string, profile: OAuthProfile): Promise<void> {
+    const db = drizzle(env.DB);
+
+    await db
+      .update(userIdentities)
+      .set({
+        email: profile.email || null,
+        emailVerified: profile.emailVerified,
+        rawUserData: JSON.stringify(profile.rawUserData),
+        lastSignInAt: getTimestamp(),
+      })
+      .where(eq(userIdentities.id, identityId));
+  }
+
+  /**
+   * Store the provider's tokens for an identity, encrypted
+   *
+   * Providers that only issue a refresh token on first consent (such as Google) leave the
+   * stored refresh token in place when they send none.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param provider - Provider name
+   * @param providerUserId - User ID at the provider
+   * @param tokens - Tokens from the provider
+   * @throws {BadRequestError} If no encryption key is configured
+   */
+  async storeTokens(
+    env: Env,
+    projectId: string,
+    provider: string,
+    providerUserId: string,
+    tokens: ProviderTokenSet
+  ): Promise<void> {
+    if (!env.ENCRYPTION_KEY) {
+      throw new BadRequestError('Storing provider tokens requires ENCRYPTION_KEY');
+    }
+
+    const db = drizzle(env.DB);
+
+    await db
+      .update(userIdentities)
+      .set({
+        accessToken: await encrypt(tokens.accessToken, env.ENCRYPTION_KEY),
+        ...(tokens.refreshToken
+          ? { refreshToken: await encrypt(tokens.refreshToken, env.ENCRYPTION_KEY) }
+          : {}),
+        tokenExpiresAt: tokens.expiresAt,
+        tokenScope: tokens.scope,
+      })
+      .where(
+        and(
+          eq(userIdentities.projectId, projectId),
+          eq(userIdentities.provider, provider),
+          eq(userIdentities.providerUserId, providerUserId)
+        )
+      );
+  }
+
+  /**
+   * Read the stored provider tokens of a user's identity
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param provider - Provider name
+   * @returns Provider account ID and decrypted tokens, or null if none are stored
+   */
+  async getTokens(
+    env: Env,
+    projectId: string,
+    userId: string,
+    provider: string
+  ): Promise<{ providerUserId: string; tokens: ProviderTokenSet } | null> {
+    const db = drizzle(env.DB);
+
+    const identity = await db
+      .select()
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.projectId, projectId),
+          eq(userIdentities.userId, userId),
+          eq(userIdentities.provider, provider)
+        )
+      )
+      .get();
+
+    if (!identity?.accessToken || !env.ENCRYPTION_KEY) {
+      return null;
+    }
+
+    return {
+      providerUserId: identity.providerUserId,
+      tokens: {
+        accessToken: await decrypt(identity.accessToken, env.ENCRYPTION_KEY),
+        refreshToken: identity.refreshToken ? await decrypt(identity.refreshToken, env.ENCRYPTION_KEY) : null,
+        expiresAt: identity.tokenExpiresAt,
+        scope: identity.tokenScope,
+      },
+    };
+  }
+
+  /**
+   * Unlink one of a user's identities
+   *
+   * The last way to sign in cannot be removed: a user without a password or passkey
+   * must keep at least one identity.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param user - Identity owner
+   * @param identityId - Identity ID
+   * @throws {NotFoundError} If the user has no such identity
+   * @throws {BadRequestError} If it is the user's only sign-in method
+   */
+  async unlinkIdentity(env: Env, project: Project, user: User, identityId: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const identity = await db
+      .select()
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.id, identityId),
+          eq(userIdentities.projectId, project.id),
+          eq(userIdentities.userId, user.id)
+        )
+      )
+      .get();
+
+    if (!identity) {
+      throw new NotFoundError('Identity not found');
+    }
+
+    const otherIdentity = await db
+      .select({ id: userIdentities.id })
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.projectId, project.id),
+          eq(userIdentities.userId, user.id),
+          ne(userIdentities.id, identityId)
+        )
+      )
+      .get();
+
+    const hasPassword = Boolean((user as any).password_hash || user.passwordHash);
+    if (!otherIdentity && !hasPassword) {
+      const passkeys = await webauthnService.listCredentials(env, project.id, user.id);
+      if (passkeys.length === 0) {
+        throw new BadRequestError('Cannot unlink the only sign-in method for this account');
+      }
+    }
+
+    await db.delete(userIdentities).where(eq(userIdentities.id, identityId));
+
+    // Otherwise the legacy sign-in lookup would find the user by the row and link it again
+    await userService.clearOAuthProvider(env, project.userTableName, user.id, identity.provider, identity.providerUserId);
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'oauth_unlinked',
+      eventStatus: 'success',
+      userId: user.id,
+      eventData: { provider: identity.provider, providerUserId: identity.providerUserId },
+    });
+  }
+
+  /**
+   * Strip an identity down to what its owner may see
+   */
+  private toIdentityInfo(identity: UserIdentity): UserIdentityInfo {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      providerUserId: identity.providerUserId,
+      email: identity.email,
+      createdAt: identity.createdAt,
+      lastSignInAt: identity.lastSignInAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const identityService = new IdentityService();
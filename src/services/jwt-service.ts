@@ -2,6 +2,64 @@ import * as jose from 'jose';
 import type { JWTPayload, Project } from '../types';
 import { AuthenticationError } from '../utils/errors';
 
+/**
+ * Header type of the MFA challenge tokens issued before challenges moved to D1, which must never
+ * be accepted as access tokens
+ */
+const MFA_CHALLENGE_TYP = 'mfa-challenge+jwt';
+
+/**
+ * Header type for OAuth state tokens, which carry an upstream sign-in through the browser
+ */
+const OAUTH_STATE_TYP = 'oauth-state+jwt';
+
+/**
+ * OAuth state lifetime in seconds (10 minutes)
+ */
+const OAUTH_STATE_EXPIRY_SECONDS = 600;
+
+/**
+ * Subject type claim value of service tokens, whose subject is an OAuth client rather than a user
+ */
+const CLIENT_SUBJECT_TYPE = 'client';
+
+/**
+ * Key and kid from a project's key ring
+ */
+export interface SigningKey {
+  kid: string;
+  key: CryptoKey | Uint8Array;
+}
+
+/**
+ * What an OAuth state token binds an upstream sign-in to
+ */
+export interface OAuthState {
+  projectId: string;
+  provider: string;
+  redirectUri: string; // App URL the browser returns to once the callback is done
+  callbackUri: string; // Redirect URI registered with the provider
+  codeVerifier: string; // PKCE verifier sent with the code exchange
+  nonce: string; // Expected in the provider's ID token, if it returns one
+  browserNonce: string; // Matches the HttpOnly cookie of the browser that started the sign-in
+  linkUserId?: string; // Set when a signed-in user is linking the provider account
+}
+
+/**
+ * Claims of an OpenID Connect ID token
+ */
+export interface IdTokenClaims {
+  issuer: string;
+  audience: string; // OAuth client ID
+  subject: string; // User ID
+  auth_time: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
+
 /**
  * JWT Service - Handles JWT token generation and verification
  */
@@ -11,60 +69,209 @@ export class JWTService {
    * @param project - Project configuration
    * @param userId - User ID
    * @param email - User email
+   * @param signingKey - Key and kid from the project key ring (defaults to the project secret)
+   * @param claims - Additional claims, such as the scope granted to an OAuth client
    * @returns JWT access token
    */
   async generateAccessToken(
     project: Project,
     userId: string,
-    email: string
+    email: string,
+    signingKey?: SigningKey,
+    claims: jose.JWTPayload = {}
   ): Promise<string> {
     const secret = new TextEncoder().encode(project.jwtSecret);
 
     // Use jose builder pattern for proper JWT generation
     const jwt = await new jose.SignJWT({
+      ...claims,
       sub: userId,
       email,
       projectId: project.id,
     })
-      .setProtectedHeader({ alg: project.jwtAlgorithm || 'HS256' })
+      .setProtectedHeader(
+        signingKey
+          ? { alg: project.jwtAlgorithm, kid: signingKey.kid }
+          : { alg: project.jwtAlgorithm || 'HS256' }
+      )
+      .setJti(crypto.randomUUID()) // Lets the token be revoked before it expires
       .setIssuedAt()
       .setExpirationTime(`${project.jwtExpirySeconds}s`) // Use string format for relative time
-      .sign(secret);
+      .sign(signingKey ? signingKey.key : secret);
 
     return jwt;
   }
 
+  /**
+   * Generate a service token for an OAuth client (client_credentials grant)
+   *
+   * The subject is the client ID and the sub_type claim marks it as a client, so these tokens
+   * can never be mistaken for a user's.
+   *
+   * @param project - Project configuration
+   * @param clientId - OAuth client ID
+   * @param scope - Granted scopes, space separated
+   * @param signingKey - Key and kid from the project key ring (defaults to the project secret)
+   * @returns JWT access token
+   */
+  async generateClientToken(
+    project: Project,
+    clientId: string,
+    scope: string,
+    signingKey?: SigningKey
+  ): Promise<string> {
+    return new jose.SignJWT({
+      sub: clientId,
+      sub_type: CLIENT_SUBJECT_TYPE,
+      projectId: project.id,
+      client_id: clientId,
+      scope,
+    })
+      .setProtectedHeader(
+        signingKey
+          ? { alg: project.jwtAlgorithm, kid: signingKey.kid }
+          : { alg: project.jwtAlgorithm || 'HS256' }
+      )
+      .setJti(crypto.randomUUID())
+      .setIssuedAt()
+      .setExpirationTime(`${project.jwtExpirySeconds}s`)
+      .sign(signingKey ? signingKey.key : new TextEncoder().encode(project.jwtSecret));
+  }
+
   /**
    * Verify and decode an access token
    * @param token - JWT token
-   * @param jwtSecret - JWT secret for verification
+   * @param key - JWT secret, or a resolver returning the public key for the token's header
    * @param algorithm - JWT algorithm
    * @returns Decoded payload
    */
   async verifyAccessToken(
     token: string,
-    jwtSecret: string,
+    key: string | jose.JWTVerifyGetKey,
     algorithm: string = 'HS256'
   ): Promise<JWTPayload> {
     try {
-      const secret = new TextEncoder().encode(jwtSecret);
+      const options = { algorithms: [algorithm as jose.JWTHeaderParameters['alg']] };
 
-      const { payload } = await jose.jwtVerify(token, secret, {
-        algorithms: [algorithm as jose.JWTHeaderParameters['alg']],
-      });
+      const { payload, protectedHeader } = typeof key === 'string'
+        ? await jose.jwtVerify(token, new TextEncoder().encode(key), options)
+        : await jose.jwtVerify(token, key, options);
+
+      // ID tokens are signed with the same keys but carry no projectId claim
+      if (protectedHeader.typ === MFA_CHALLENGE_TYP || typeof payload.projectId !== 'string') {
+        throw new AuthenticationError('Invalid or expired token');
+      }
 
       return {
         sub: payload.sub as string,
-        email: payload.email as string,
-        projectId: payload.projectId as string,
+        subType: payload.sub_type === CLIENT_SUBJECT_TYPE ? 'client' : 'user',
+        email: typeof payload.email === 'string' ? payload.email : '',
+        projectId: payload.projectId,
         iat: payload.iat as number,
         exp: payload.exp as number,
+        ...(typeof payload.scope === 'string' && { scope: payload.scope }),
+        ...(typeof payload.client_id === 'string' && { clientId: payload.client_id }),
+        ...(typeof payload.jti === 'string' && { jti: payload.jti }),
       };
     } catch (error) {
       throw new AuthenticationError('Invalid or expired token');
     }
   }
 
+  /**
+   * Generate an OpenID Connect ID token
+   *
+   * ID tokens are issued to OAuth clients alongside an access token and are verified by the
+   * client against the project JWKS. The JWKS only publishes public keys, so ID tokens are never
+   * signed with the project secret.
+   *
+   * @param project - Project configuration
+   * @param claims - Issuer, audience, subject and the user claims released by the granted scopes
+   * @param signingKey - Asymmetric key and kid from the project key ring
+   * @returns JWT ID token
+   */
+  async generateIdToken(
+    project: Project,
+    claims: IdTokenClaims,
+    signingKey: SigningKey
+  ): Promise<string> {
+    const { issuer, audience, subject, ...userClaims } = claims;
+
+    return new jose.SignJWT(userClaims)
+      .setProtectedHeader({ alg: project.jwtAlgorithm, kid: signingKey.kid, typ: 'JWT' })
+      .setIssuer(issuer)
+      .setAudience(audience)
+      .setSubject(subject)
+      .setIssuedAt()
+      .setExpirationTime(`${project.jwtExpirySeconds}s`)
+      .sign(signingKey.key);
+  }
+
+  /**
+   * Generate an OAuth state token
+   *
+   * The token is encrypted rather than only signed so that the PKCE verifier it carries
+   * never appears in the browser; AES-GCM also makes it tamper-proof.
+   *
+   * @param project - Project configuration
+   * @param state - Values to bind to the sign-in
+   * @returns Encrypted JWT state token
+   */
+  async generateOAuthStateToken(project: Project, state: OAuthState): Promise<string> {
+    return new jose.EncryptJWT({ ...state })
+      .setProtectedHeader({ alg: 'dir', enc: 'A256GCM', typ: OAUTH_STATE_TYP })
+      .setIssuedAt()
+      .setExpirationTime(`${OAUTH_STATE_EXPIRY_SECONDS}s`)
+      .encrypt(await this.getOAuthStateKey(project));
+  }
+
+  /**
+   * Verify an OAuth state token
+   * @param token - Encrypted JWT state token
+   * @param project - Project configuration
+   * @param provider - Provider the callback arrived for
+   * @returns Values bound to the sign-in
+   * @throws {AuthenticationError} If the token is invalid, expired, or for another project or provider
+   */
+  async verifyOAuthStateToken(token: string, project: Project, provider: string): Promise<OAuthState> {
+    try {
+      const { payload } = await jose.jwtDecrypt(token, await this.getOAuthStateKey(project), {
+        keyManagementAlgorithms: ['dir'],
+        contentEncryptionAlgorithms: ['A256GCM'],
+        typ: OAUTH_STATE_TYP,
+      });
+
+      if (payload.projectId !== project.id || payload.provider !== provider) {
+        throw new Error('State issued for another project or provider');
+      }
+
+      return {
+        projectId: payload.projectId,
+        provider: payload.provider,
+        redirectUri: payload.redirectUri as string,
+        callbackUri: payload.callbackUri as string,
+        codeVerifier: payload.codeVerifier as string,
+        nonce: payload.nonce as string,
+        browserNonce: payload.browserNonce as string,
+        ...(payload.linkUserId ? { linkUserId: payload.linkUserId as string } : {}),
+      };
+    } catch (error) {
+      throw new AuthenticationError('Invalid or expired OAuth state');
+    }
+  }
+
+  /**
+   * Derive the AES-256 key for OAuth state tokens from the project secret
+   */
+  private async getOAuthStateKey(project: Project): Promise<Uint8Array> {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(`oauth-state:${project.jwtSecret}`)
+    );
+
+    return new Uint8Array(digest);
+  }
+
   /**
    * Decode a JWT without verification (for inspection)
    * @param token - JWT token
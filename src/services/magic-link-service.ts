@@ -0,0 +1,296 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, isNull } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { magicLinkTokens } from '../db/schema';
+import { hashToken } from '../utils/crypto';
+import { getIpAddress, getUserAgent, isAllowedRedirectUrl } from '../utils/helpers';
+import { auditService } from './audit-service';
+import { authService } from './auth-service';
+import type { SignInResult } from './auth-service';
+import { rateLimitService } from './rate-limit-service';
+import { userService } from './user-service';
+import { projectService } from './project-service';
+import type { Env, Project, User } from '../types';
+import { NotFoundError, AuthenticationError, BadRequestError } from '../utils/errors';
+
+/**
+ * Magic link lifetime in seconds (15 minutes)
+ */
+const MAGIC_LINK_EXPIRY_SECONDS = 900;
+
+/**
+ * Magic Link Service - Handles passwordless sign-in via emailed single-use links
+ */
+export class MagicLinkService {
+  /**
+   * Create a magic link token
+   *
+   * Generates a secure random token, hashes it with SHA-256, and stores it in the database
+   * with a 15-minute expiration time. Returns the plaintext token to be sent via email.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param email - User email address
+   * @param redirectTo - Validated redirect URL to remember with the token
+   * @returns Object containing the plaintext token and token ID
+   *
+   * @example
+   * ```typescript
+   * const { token } = await magicLinkService.createMagicLinkToken(
+   *   env,
+   *   'project-123',
+   *   'user-456',
+   *   'user@example.com'
+   * );
+   * // Send token via email: https://app.com/magic-link?token=${token}
+   * ```
+   */
+  async createMagicLinkToken(
+    env: Env,
+    projectId: string,
+    userId: string,
+    email: string,
+    redirectTo?: string
+  ): Promise<{ token: string; tokenId: string }> {
+    const db = drizzle(env.DB);
+
+    // Generate secure random token (32 characters, URL-safe)
+    const token = nanoid(32);
+
+    // Hash token for storage
+    const tokenHash = await hashToken(token);
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + MAGIC_LINK_EXPIRY_SECONDS;
+
+    const result = await db.insert(magicLinkTokens).values({
+      projectId,
+      userId,
+      email,
+      tokenHash,
+      redirectTo: redirectTo || null,
+      expiresAt,
+      createdAt: now,
+      usedAt: null,
+    }).returning({ id: magicLinkTokens.id });
+
+    return { token, tokenId: result[0].id };
+  }
+
+  /**
+   * Validate a magic link token
+   *
+   * Verifies that the token exists, hasn't expired, hasn't been used, and belongs to the
+   * correct project.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param token - Plaintext magic link token
+   * @returns Object containing user info and the remembered redirect URL
+   * @throws {AuthenticationError} If token is invalid, expired, or used
+   */
+  async validateMagicLinkToken(
+    env: Env,
+    projectId: string,
+    token: string
+  ): Promise<{ userId: string; email: string; tokenId: string; redirectTo: string | null }> {
+    const db = drizzle(env.DB);
+
+    const tokenHash = await hashToken(token);
+
+    const tokenRecord = await db
+      .select()
+      .from(magicLinkTokens)
+      .where(
+        and(
+          eq(magicLinkTokens.projectId, projectId),
+          eq(magicLinkTokens.tokenHash, tokenHash)
+        )
+      )
+      .get();
+
+    if (!tokenRecord) {
+      throw new AuthenticationError('Invalid magic link');
+    }
+
+    if (tokenRecord.usedAt !== null) {
+      throw new AuthenticationError('Magic link has already been used');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now > tokenRecord.expiresAt) {
+      throw new AuthenticationError('Magic link has expired');
+    }
+
+    return {
+      userId: tokenRecord.userId,
+      email: tokenRecord.email,
+      tokenId: tokenRecord.id,
+      redirectTo: tokenRecord.redirectTo,
+    };
+  }
+
+  /**
+   * Mark a magic link token as used
+   *
+   * The update is conditional on the token still being unused so that two concurrent
+   * verifications of the same link cannot both succeed.
+   *
+   * @param env - Environment bindings
+   * @param tokenId - Token ID
+   * @returns True if this call consumed the token
+   */
+  async useMagicLinkToken(env: Env, tokenId: string): Promise<boolean> {
+    const db = drizzle(env.DB);
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const consumed = await db
+      .update(magicLinkTokens)
+      .set({ usedAt: now })
+      .where(and(eq(magicLinkTokens.id, tokenId), isNull(magicLinkTokens.usedAt)))
+      .returning({ id: magicLinkTokens.id });
+
+    return consumed.length > 0;
+  }
+
+  /**
+   * Request a magic link for an email address
+   *
+   * Looks up the user and, if found, stores a new token and returns the link to email.
+   * Returns null when no active user exists so callers can respond identically either way.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param email - Email address to sign in
+   * @param redirectTo - Optional redirect URL (must be allowed by the project)
+   * @returns Magic link URL, user and project, or null if there is no such user
+   * @throws {BadRequestError} If the redirect URL is not allowed or no site URL is configured
+   */
+  async requestMagicLink(
+    env: Env,
+    projectId: string,
+    email: string,
+    redirectTo?: string
+  ): Promise<{ magicLinkUrl: string; user: User; project: Project } | null> {
+    const project = await projectService.getProject(env, projectId);
+    if (!project || !project.enabled) {
+      return null;
+    }
+
+    if (redirectTo && !isAllowedRedirectUrl(redirectTo, project.siteUrl, project.redirectUrls)) {
+      throw new BadRequestError('Redirect URL is not allowed for this project');
+    }
+
+    if (!redirectTo && !project.siteUrl) {
+      throw new BadRequestError('No siteUrl configured for project');
+    }
+
+    const user = await userService.getUserByEmail(env, project.userTableName, email);
+    if (!user || user.status !== 'active') {
+      return null;
+    }
+
+    const { token } = await this.createMagicLinkToken(env, projectId, user.id, user.email, redirectTo);
+
+    // Link to the app, which posts the token back to the verify endpoint
+    const target = new URL(redirectTo || `${project.siteUrl}/magic-link`);
+    target.searchParams.set('token', token);
+
+    return { magicLinkUrl: target.toString(), user, project };
+  }
+
+  /**
+   * Verify a magic link and sign the user in
+   *
+   * Consumes the token and issues the same access/refresh token pair as a password login, or an
+   * MFA challenge for users with a verified factor.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param token - Plaintext magic link token
+   * @param request - Request object for IP/UA
+   * @returns User, tokens or an MFA challenge, and the remembered redirect URL
+   * @throws {AuthenticationError} If the link is invalid, expired, or used
+   */
+  async verifyMagicLink(
+    env: Env,
+    projectId: string,
+    token: string,
+    request: Request
+  ): Promise<{ user: User; redirectTo: string | null } & SignInResult> {
+    const ipAddress = getIpAddress(request);
+    const userAgent = getUserAgent(request);
+
+    // Check rate limit
+    await rateLimitService.checkRateLimit(env, projectId, 'login', ipAddress);
+
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (!project.enabled) {
+      throw new AuthenticationError('Project is disabled');
+    }
+
+    let email: string | undefined;
+
+    try {
+      const validated = await this.validateMagicLinkToken(env, projectId, token);
+      email = validated.email;
+
+      const user = await userService.getUserById(env, project.userTableName, validated.userId);
+      if (!user || user.status !== 'active') {
+        throw new AuthenticationError('Account is not active');
+      }
+
+      if (!(await this.useMagicLinkToken(env, validated.tokenId))) {
+        throw new AuthenticationError('Magic link has already been used');
+      }
+
+      // Following the link proves control of the mailbox
+      // D1 returns snake_case column names, not camelCase
+      const emailVerified = (user as any).email_verified || user.emailVerified;
+      const verifiedUser = emailVerified
+        ? user
+        : await userService.updateUser(env, project.userTableName, user.id, { emailVerified: true });
+
+      const session = await authService.signIn(env, project, verifiedUser, 'magic_link', { ipAddress, userAgent });
+
+      await rateLimitService.recordAttempt(env, projectId, 'login', ipAddress, user.email, true, user.id);
+
+      if ('mfaRequired' in session) {
+        return { user: verifiedUser, redirectTo: validated.redirectTo, ...session };
+      }
+
+      await auditService.logEvent(env, {
+        projectId,
+        eventType: 'user_login',
+        eventStatus: 'success',
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        eventData: { email: user.email, method: 'magic_link' },
+      });
+
+      return { user: verifiedUser, redirectTo: validated.redirectTo, ...session };
+    } catch (error) {
+      await rateLimitService.recordAttempt(
+        env,
+        projectId,
+        'login',
+        ipAddress,
+        email,
+        false,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const magicLinkService = new MagicLinkService();
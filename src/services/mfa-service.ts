@@ -0,0 +1,403 @@
+import type { Env, MfaFactor, Project, User } from '../types';
+import { projectService } from './project-service';
+import { encrypt, decrypt, generateSessionToken, hashToken } from '../utils/crypto';
+import { addSeconds, getTimestamp, isExpired, sanitizeTableName } from '../utils/helpers';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { AuthenticationError, ConflictError, NotFoundError, RateLimitError } from '../utils/errors';
+
+/**
+ * MFA challenge lifetime in seconds (5 minutes)
+ */
+const MFA_CHALLENGE_EXPIRY_SECONDS = 300;
+
+/**
+ * Wrong codes before a challenge is spent
+ */
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+/**
+ * Wrong codes per IP address within MFA_IP_WINDOW_SECONDS
+ */
+const MFA_IP_MAX_FAILURES = 10;
+
+/**
+ * Window for counting wrong codes per IP address, in seconds (15 minutes)
+ */
+const MFA_IP_WINDOW_SECONDS = 900;
+
+/**
+ * MFA Service - Manages TOTP authenticator factors for project users
+ *
+ * Factors live in a per-project `<user table>_mfa_factors` table next to the user table.
+ * Logins waiting for the second factor are tracked in the shared `mfa_challenges` table.
+ */
+export class MfaService {
+  /**
+   * Factor tables already ensured in this isolate
+   */
+  private readonly ensuredTables = new Set<string>();
+
+  /**
+   * Get the factor table name for a project, creating it for projects that predate MFA
+   * @param env - Environment bindings
+   * @param project - Project
+   * @returns Sanitized factor table name
+   */
+  private async getFactorTable(env: Env, project: Project): Promise<string> {
+    const factorTable = `${sanitizeTableName(project.userTableName)}_mfa_factors`;
+
+    if (!this.ensuredTables.has(factorTable)) {
+      await projectService.createProjectMfaFactorTable(env.DB, project.userTableName);
+      this.ensuredTables.add(factorTable);
+    }
+
+    return factorTable;
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage (stored as-is when no ENCRYPTION_KEY is configured)
+   */
+  private async encryptSecret(env: Env, secret: string): Promise<string> {
+    return env.ENCRYPTION_KEY ? encrypt(secret, env.ENCRYPTION_KEY) : secret;
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   */
+  private async decryptSecret(env: Env, stored: string): Promise<string> {
+    return env.ENCRYPTION_KEY ? decrypt(stored, env.ENCRYPTION_KEY) : stored;
+  }
+
+  /**
+   * Map a factor row to the public shape (without the secret)
+   */
+  private toFactor(row: any): MfaFactor {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      factorType: row.factor_type,
+      friendlyName: row.friendly_name,
+      status: row.status,
+      createdAt: row.created_at,
+      verifiedAt: row.verified_at,
+    };
+  }
+
+  /**
+   * List a user's MFA factors
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @returns Factors, oldest first
+   */
+  async listFactors(env: Env, project: Project, userId: string): Promise<MfaFactor[]> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    const result = await env.DB.prepare(
+      `SELECT * FROM ${factorTable} WHERE user_id = ? ORDER BY created_at ASC`
+    ).bind(userId).all();
+
+    return (result.results || []).map((row) => this.toFactor(row));
+  }
+
+  /**
+   * Check whether a user must pass an MFA challenge at login
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @returns True if the user has at least one verified factor
+   */
+  async hasVerifiedFactor(env: Env, project: Project, userId: string): Promise<boolean> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    const row = await env.DB.prepare(
+      `SELECT id FROM ${factorTable} WHERE user_id = ? AND status = 'verified' LIMIT 1`
+    ).bind(userId).first();
+
+    return !!row;
+  }
+
+  /**
+   * Start TOTP enrolment
+   *
+   * Creates an unverified factor and returns the secret and provisioning URI for the
+   * authenticator app. Any earlier unfinished enrolment is discarded.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param user - User enrolling
+   * @param friendlyName - Optional label for the factor
+   * @returns Factor ID, base32 secret and otpauth:// URI
+   * @throws {ConflictError} If the user already has a verified TOTP factor
+   */
+  async enrollTotp(
+    env: Env,
+    project: Project,
+    user: User,
+    friendlyName?: string
+  ): Promise<{ factorId: string; secret: string; otpauthUri: string }> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    if (await this.hasVerifiedFactor(env, project, user.id)) {
+      throw new ConflictError('An authenticator app is already enrolled');
+    }
+
+    await env.DB.prepare(
+      `DELETE FROM ${factorTable} WHERE user_id = ? AND status = 'unverified'`
+    ).bind(user.id).run();
+
+    const secret = generateTotpSecret();
+    const factorId = crypto.randomUUID();
+
+    await env.DB.prepare(
+      `INSERT INTO ${factorTable} (id, user_id, factor_type, friendly_name, secret, status)
+       VALUES (?, ?, 'totp', ?, ?, 'unverified')`
+    ).bind(factorId, user.id, friendlyName || null, await this.encryptSecret(env, secret)).run();
+
+    return {
+      factorId,
+      secret,
+      otpauthUri: buildOtpauthUri(project.name, user.email, secret),
+    };
+  }
+
+  /**
+   * Confirm TOTP enrolment with a code from the authenticator app
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param factorId - Factor ID returned by enrollTotp
+   * @param code - 6-digit code
+   * @returns The verified factor
+   * @throws {NotFoundError} If there is no pending factor with this ID
+   * @throws {AuthenticationError} If the code is wrong
+   */
+  async confirmTotp(
+    env: Env,
+    project: Project,
+    userId: string,
+    factorId: string,
+    code: string
+  ): Promise<MfaFactor> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    const row = await env.DB.prepare(
+      `SELECT * FROM ${factorTable} WHERE id = ? AND user_id = ? AND status = 'unverified' LIMIT 1`
+    ).bind(factorId, userId).first<any>();
+
+    if (!row) {
+      throw new NotFoundError('MFA enrolment not found');
+    }
+
+    const step = await verifyTotp(await this.decryptSecret(env, row.secret), code);
+    if (step === null) {
+      throw new AuthenticationError('Invalid MFA code');
+    }
+
+    const updated = await env.DB.prepare(
+      `UPDATE ${factorTable}
+       SET status = 'verified', last_used_step = ?, verified_at = CURRENT_TIMESTAMP
+       WHERE id = ?
+       RETURNING *`
+    ).bind(step, factorId).first();
+
+    return this.toFactor(updated);
+  }
+
+  /**
+   * Verify a TOTP code against a user's verified factors
+   *
+   * A code is accepted once only: the matched time step is remembered and older or equal
+   * steps are rejected afterwards.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param code - 6-digit code
+   * @returns ID of the factor that matched
+   * @throws {AuthenticationError} If no factor accepts the code
+   */
+  async verifyCode(env: Env, project: Project, userId: string, code: string): Promise<string> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    const result = await env.DB.prepare(
+      `SELECT * FROM ${factorTable} WHERE user_id = ? AND status = 'verified'`
+    ).bind(userId).all<any>();
+
+    for (const row of result.results || []) {
+      const step = await verifyTotp(await this.decryptSecret(env, row.secret), code);
+      if (step === null) {
+        continue;
+      }
+
+      // Conditional update so a replayed or concurrently submitted code cannot succeed twice
+      const consumed = await env.DB.prepare(
+        `UPDATE ${factorTable} SET last_used_step = ?
+         WHERE id = ? AND (last_used_step IS NULL OR last_used_step < ?)
+         RETURNING id`
+      ).bind(step, row.id, step).first();
+
+      if (consumed) {
+        return row.id;
+      }
+    }
+
+    throw new AuthenticationError('Invalid MFA code');
+  }
+
+  /**
+   * Start an MFA challenge for a user who passed the first factor
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param method - First factor the user signed in with, kept for the audit log
+   * @param ipAddress - IP address of the sign-in
+   * @returns Single-use challenge token
+   */
+  async createChallenge(
+    env: Env,
+    project: Project,
+    userId: string,
+    method: string,
+    ipAddress?: string
+  ): Promise<string> {
+    const mfaToken = generateSessionToken();
+    const now = new Date();
+
+    // Challenges older than the IP window no longer count towards anything
+    await env.DB.prepare(
+      `DELETE FROM mfa_challenges WHERE project_id = ? AND created_at < ?`
+    ).bind(project.id, getTimestamp(addSeconds(now, -MFA_IP_WINDOW_SECONDS))).run();
+
+    await env.DB.prepare(
+      `INSERT INTO mfa_challenges (project_id, user_id, challenge_token_hash, method, ip_address, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      project.id,
+      userId,
+      await hashToken(mfaToken),
+      method,
+      ipAddress || null,
+      getTimestamp(addSeconds(now, MFA_CHALLENGE_EXPIRY_SECONDS)),
+      getTimestamp(now)
+    ).run();
+
+    return mfaToken;
+  }
+
+  /**
+   * Complete an MFA challenge with a code from the authenticator app
+   *
+   * A challenge completes one sign-in and allows a few wrong codes; an IP address that
+   * keeps sending wrong codes is blocked for a while.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param mfaToken - Challenge token returned by createChallenge
+   * @param code - 6-digit code
+   * @param ipAddress - IP address of the request
+   * @returns User ID and first factor of the sign-in
+   * @throws {RateLimitError} If the IP address sent too many wrong codes
+   * @throws {AuthenticationError} If the challenge or code is invalid
+   */
+  async verifyChallenge(
+    env: Env,
+    project: Project,
+    mfaToken: string,
+    code: string,
+    ipAddress?: string
+  ): Promise<{ userId: string; method: string }> {
+    if (ipAddress) {
+      const failures = await env.DB.prepare(
+        `SELECT coalesce(sum(failed_attempts), 0) AS count FROM mfa_challenges
+         WHERE project_id = ? AND ip_address = ? AND created_at > ?`
+      ).bind(
+        project.id,
+        ipAddress,
+        getTimestamp(addSeconds(new Date(), -MFA_IP_WINDOW_SECONDS))
+      ).first<{ count: number }>();
+
+      if ((failures?.count || 0) >= MFA_IP_MAX_FAILURES) {
+        throw new RateLimitError('Too many failed MFA attempts. Please try again later.', MFA_IP_WINDOW_SECONDS);
+      }
+    }
+
+    const challenge = await env.DB.prepare(
+      `SELECT * FROM mfa_challenges WHERE project_id = ? AND challenge_token_hash = ? LIMIT 1`
+    ).bind(project.id, await hashToken(mfaToken)).first<any>();
+
+    if (
+      !challenge ||
+      isExpired(challenge.expires_at) ||
+      challenge.failed_attempts >= MFA_CHALLENGE_MAX_ATTEMPTS
+    ) {
+      throw new AuthenticationError('Invalid or expired MFA challenge');
+    }
+
+    try {
+      await this.verifyCode(env, project, challenge.user_id, code);
+    } catch (error) {
+      await env.DB.prepare(
+        `UPDATE mfa_challenges SET failed_attempts = failed_attempts + 1 WHERE id = ?`
+      ).bind(challenge.id).run();
+      throw error;
+    }
+
+    // Spend the challenge; only one request can delete it
+    const spent = await env.DB.prepare(
+      `DELETE FROM mfa_challenges WHERE id = ? RETURNING id`
+    ).bind(challenge.id).first();
+
+    if (!spent) {
+      throw new AuthenticationError('Invalid or expired MFA challenge');
+    }
+
+    return { userId: challenge.user_id, method: challenge.method };
+  }
+
+  /**
+   * Remove an MFA factor
+   *
+   * Removing a verified factor requires a current code so that a stolen access token
+   * alone cannot switch MFA off.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param factorId - Factor ID
+   * @param code - 6-digit code (required for verified factors)
+   * @throws {NotFoundError} If the factor does not exist
+   * @throws {AuthenticationError} If the code is missing or wrong
+   */
+  async removeFactor(
+    env: Env,
+    project: Project,
+    userId: string,
+    factorId: string,
+    code?: string
+  ): Promise<void> {
+    const factorTable = await this.getFactorTable(env, project);
+
+    const row = await env.DB.prepare(
+      `SELECT * FROM ${factorTable} WHERE id = ? AND user_id = ? LIMIT 1`
+    ).bind(factorId, userId).first<any>();
+
+    if (!row) {
+      throw new NotFoundError('MFA factor not found');
+    }
+
+    if (row.status === 'verified') {
+      if (!code) {
+        throw new AuthenticationError('MFA code required');
+      }
+      await this.verifyCode(env, project, userId, code);
+    }
+
+    await env.DB.prepare(
+      `DELETE FROM ${factorTable} WHERE id = ?`
+    ).bind(factorId).run();
+  }
+}
+
+// Export singleton instance
+export const mfaService = new MfaService();
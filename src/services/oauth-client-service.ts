@@ -0,0 +1,382 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, desc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { oauthClients, oauthConsents, oauthAuthorizationCodes } from '../db/schema';
+import type { OAuthClient } from '../db/schema';
+import { auditService } from './audit-service';
+import { signingKeyService } from './signing-key-service';
+import type {
+  Env,
+  OAuthClientInfo,
+  CreateOAuthClientData,
+  UpdateOAuthClientData,
+  Project,
+} from '../types';
+import { hashToken } from '../utils/crypto';
+import { getTimestamp, isAllowedRedirectUrl, safeJsonParse } from '../utils/helpers';
+import { BadRequestError, NotFoundError, OAuthError } from '../utils/errors';
+
+/**
+ * OAuth Client Service - Manages the OAuth clients registered with a project's OIDC provider
+ *
+ * Client secrets are shown once when generated and only their SHA-256 hash is stored.
+ */
+export class OAuthClientService {
+  /**
+   * Convert a stored client to its admin representation
+   * @param client - Stored client
+   * @returns Client without its secret hash
+   */
+  private toInfo(client: OAuthClient): OAuthClientInfo {
+    return {
+      id: client.id,
+      clientId: client.clientId,
+      clientType: client.clientType,
+      name: client.name,
+      redirectUris: safeJsonParse<string[]>(client.redirectUris, []),
+      allowedScopes: safeJsonParse<string[]>(client.allowedScopes, []),
+      skipConsent: Boolean(client.skipConsent),
+      enabled: Boolean(client.enabled),
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt,
+    };
+  }
+
+  /**
+   * Check that every redirect URI is allowed by the project's redirect URL allowlist
+   * @param project - Project
+   * @param redirectUris - Redirect URIs to register
+   * @throws {BadRequestError} If a URI is not allowed
+   */
+  private checkRedirectUris(project: Project, redirectUris: string[]): void {
+    for (const uri of redirectUris) {
+      if (!isAllowedRedirectUrl(uri, project.siteUrl, project.redirectUrls)) {
+        throw new BadRequestError(`Redirect URI is not allowed for this project: ${uri}`);
+      }
+    }
+  }
+
+  /**
+   * Check that a client's registration fits its type
+   *
+   * Service clients only use the client_credentials grant, so they have allowed scopes instead
+   * of redirect URIs; every other client type is the other way round.
+   *
+   * @param clientType - Client type
+   * @param redirectUris - Redirect URIs the client will have
+   * @param allowedScopes - Allowed scopes the client will have
+   * @throws {BadRequestError} If the registration does not fit the client type
+   */
+  private checkClientType(
+    clientType: OAuthClient['clientType'],
+    redirectUris: string[],
+    allowedScopes: string[]
+  ): void {
+    if (clientType === 'service') {
+      if (redirectUris.length > 0) {
+        throw new BadRequestError('Service clients do not use redirect URIs');
+      }
+      if (allowedScopes.length === 0) {
+        throw new BadRequestError('At least one allowed scope is required');
+      }
+    } else {
+      if (redirectUris.length === 0) {
+        throw new BadRequestError('At least one redirect URI is required');
+      }
+      if (allowedScopes.length > 0) {
+        throw new BadRequestError('Only service clients have allowed scopes');
+      }
+    }
+  }
+
+  /**
+   * Generate a client secret and its hash
+   * @returns Plaintext secret and SHA-256 hash
+   */
+  private async generateSecret(): Promise<{ secret: string; hash: string }> {
+    const secret = nanoid(48);
+    return { secret, hash: await hashToken(secret) };
+  }
+
+  /**
+   * List a project's OAuth clients
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @returns Clients, newest first
+   */
+  async listClients(env: Env, projectId: string): Promise<OAuthClientInfo[]> {
+    const db = drizzle(env.DB);
+
+    const clients = await db
+      .select()
+      .from(oauthClients)
+      .where(eq(oauthClients.projectId, projectId))
+      .orderBy(desc(oauthClients.createdAt))
+      .all();
+
+    return clients.map((client) => this.toInfo(client));
+  }
+
+  /**
+   * Get a client by its client ID
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @returns Stored client or null
+   */
+  async getClient(env: Env, projectId: string, clientId: string): Promise<OAuthClient | null> {
+    const db = drizzle(env.DB);
+
+    const client = await db
+      .select()
+      .from(oauthClients)
+      .where(and(eq(oauthClients.projectId, projectId), eq(oauthClients.clientId, clientId)))
+      .get();
+
+    return client || null;
+  }
+
+  /**
+   * Get a client for an admin operation
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @returns Stored client
+   * @throws {NotFoundError} If the client does not exist
+   */
+  private async requireClient(env: Env, projectId: string, clientId: string): Promise<OAuthClient> {
+    const client = await this.getClient(env, projectId, clientId);
+    if (!client) {
+      throw new NotFoundError('OAuth client not found');
+    }
+    return client;
+  }
+
+  /**
+   * Register an OAuth client
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param data - Client registration
+   * @param adminUserId - Admin performing the action
+   * @returns Client and its plaintext secret (null for public clients)
+   * @throws {BadRequestError} If a redirect URI is not allowed, the registration does not fit the client type or the project cannot sign ID tokens
+   */
+  async createClient(
+    env: Env,
+    project: Project,
+    data: CreateOAuthClientData,
+    adminUserId?: string
+  ): Promise<{ client: OAuthClientInfo; clientSecret: string | null }> {
+    const db = drizzle(env.DB);
+
+    const allowedScopes = data.allowedScopes ?? [];
+
+    this.checkClientType(data.clientType, data.redirectUris, allowedScopes);
+    this.checkRedirectUris(project, data.redirectUris);
+
+    // Clients other than service clients receive ID tokens, which must verify against the JWKS
+    if (data.clientType !== 'service' && !signingKeyService.isAsymmetric(project.jwtAlgorithm)) {
+      throw new BadRequestError('OpenID Connect clients require an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+    }
+
+    const credentials = data.clientType !== 'public' ? await this.generateSecret() : null;
+
+    const client = await db
+      .insert(oauthClients)
+      .values({
+        projectId: project.id,
+        clientId: nanoid(24),
+        clientSecretHash: credentials?.hash ?? null,
+        clientType: data.clientType,
+        name: data.name,
+        redirectUris: JSON.stringify(data.redirectUris),
+        allowedScopes: JSON.stringify(allowedScopes),
+        skipConsent: data.skipConsent ?? false,
+        enabled: true,
+        createdBy: adminUserId || null,
+      })
+      .returning()
+      .get();
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'oauth_client_created', clientId: client.clientId, name: client.name },
+    });
+
+    return { client: this.toInfo(client), clientSecret: credentials?.secret ?? null };
+  }
+
+  /**
+   * Update an OAuth client
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param clientId - OAuth client ID
+   * @param data - Fields to update
+   * @param adminUserId - Admin performing the action
+   * @returns Updated client
+   * @throws {NotFoundError} If the client does not exist
+   * @throws {BadRequestError} If a redirect URI is not allowed or the registration does not fit the client type
+   */
+  async updateClient(
+    env: Env,
+    project: Project,
+    clientId: string,
+    data: UpdateOAuthClientData,
+    adminUserId?: string
+  ): Promise<OAuthClientInfo> {
+    const db = drizzle(env.DB);
+
+    const client = await this.requireClient(env, project.id, clientId);
+
+    this.checkClientType(
+      client.clientType,
+      data.redirectUris ?? safeJsonParse<string[]>(client.redirectUris, []),
+      data.allowedScopes ?? safeJsonParse<string[]>(client.allowedScopes, [])
+    );
+
+    if (data.redirectUris) {
+      this.checkRedirectUris(project, data.redirectUris);
+    }
+
+    const updated = await db
+      .update(oauthClients)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.redirectUris !== undefined && { redirectUris: JSON.stringify(data.redirectUris) }),
+        ...(data.allowedScopes !== undefined && { allowedScopes: JSON.stringify(data.allowedScopes) }),
+        ...(data.skipConsent !== undefined && { skipConsent: data.skipConsent }),
+        ...(data.enabled !== undefined && { enabled: data.enabled }),
+        updatedAt: getTimestamp(),
+      })
+      .where(eq(oauthClients.id, client.id))
+      .returning()
+      .get();
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'oauth_client_updated', clientId, changes: Object.keys(data) },
+    });
+
+    return this.toInfo(updated);
+  }
+
+  /**
+   * Replace a confidential or service client's secret
+   *
+   * The previous secret stops working immediately.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param clientId - OAuth client ID
+   * @param adminUserId - Admin performing the action
+   * @returns Client and its new plaintext secret
+   * @throws {NotFoundError} If the client does not exist
+   * @throws {BadRequestError} If the client is public
+   */
+  async regenerateSecret(
+    env: Env,
+    project: Project,
+    clientId: string,
+    adminUserId?: string
+  ): Promise<{ client: OAuthClientInfo; clientSecret: string }> {
+    const db = drizzle(env.DB);
+
+    const client = await this.requireClient(env, project.id, clientId);
+    if (client.clientType === 'public') {
+      throw new BadRequestError('Public clients do not have a secret');
+    }
+
+    const { secret, hash } = await this.generateSecret();
+
+    const updated = await db
+      .update(oauthClients)
+      .set({ clientSecretHash: hash, updatedAt: getTimestamp() })
+      .where(eq(oauthClients.id, client.id))
+      .returning()
+      .get();
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'oauth_client_secret_regenerated', clientId },
+    });
+
+    return { client: this.toInfo(updated), clientSecret: secret };
+  }
+
+  /**
+   * Delete an OAuth client with its consents and pending authorization codes
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param clientId - OAuth client ID
+   * @param adminUserId - Admin performing the action
+   * @throws {NotFoundError} If the client does not exist
+   */
+  async deleteClient(env: Env, project: Project, clientId: string, adminUserId?: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const client = await this.requireClient(env, project.id, clientId);
+
+    await db
+      .delete(oauthConsents)
+      .where(and(eq(oauthConsents.projectId, project.id), eq(oauthConsents.clientId, clientId)));
+    await db
+      .delete(oauthAuthorizationCodes)
+      .where(and(eq(oauthAuthorizationCodes.projectId, project.id), eq(oauthAuthorizationCodes.clientId, clientId)));
+    await db.delete(oauthClients).where(eq(oauthClients.id, client.id));
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'oauth_client_deleted', clientId, name: client.name },
+    });
+  }
+
+  /**
+   * Authenticate a client at the token endpoint
+   *
+   * Confidential and service clients must present their secret; public clients identify
+   * themselves by client ID only and are bound to the authorization code by PKCE instead.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @param clientSecret - Client secret, if presented
+   * @returns Authenticated client
+   * @throws {OAuthError} invalid_client if the client is unknown, disabled or the secret is wrong
+   */
+  async authenticateClient(
+    env: Env,
+    projectId: string,
+    clientId: string,
+    clientSecret?: string
+  ): Promise<OAuthClient> {
+    const client = await this.getClient(env, projectId, clientId);
+    if (!client || !client.enabled) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    if (client.clientType !== 'public') {
+      if (!clientSecret || !client.clientSecretHash || (await hashToken(clientSecret)) !== client.clientSecretHash) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+    } else if (clientSecret) {
+      throw new OAuthError('invalid_client', 'Public clients must not send a client secret', 401);
+    }
+
+    return client;
+  }
+}
+
+// Export singleton instance
+export const oauthClientService = new OAuthClientService();
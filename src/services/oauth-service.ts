@@ -1,12 +1,74 @@
+import * as jose from 'jose';
 import { drizzle } from 'drizzle-orm/d1';
-import { eq, and } from 'drizzle-orm';
-import { projectOAuthProviders } from '../db/schema';
-import type { Env, OAuthProvider, CreateOAuthProviderData } from '../types';
+import { eq, and, gt, isNull } from 'drizzle-orm';
+import { projectOAuthProviders, oauthLoginCodes } from '../db/schema';
+import type {
+  Env,
+  OAuthProvider,
+  CreateOAuthProviderData,
+  OAuthProfile,
+  Project,
+  ProviderTokenSet,
+  User,
+} from '../types';
 import { projectService } from './project-service';
 import { userService } from './user-service';
+import { identityService } from './identity-service';
+import { authService } from './auth-service';
+import type { SignInResult } from './auth-service';
+import { auditService } from './audit-service';
+import { rateLimitService } from './rate-limit-service';
 import { jwtService } from './jwt-service';
-import { NotFoundError, BadRequestError } from '../utils/errors';
-import { encrypt, decrypt } from '../utils/crypto';
+import type { OAuthState } from './jwt-service';
+import { oidcDiscoveryService } from './oidc-discovery-service';
+import { AppError, AuthenticationError, NotFoundError, BadRequestError } from '../utils/errors';
+import { encrypt, decrypt, generateRefreshToken, hashToken } from '../utils/crypto';
+import { getCookie, getIpAddress, getUserAgent, isAllowedRedirectUrl } from '../utils/helpers';
+
+/**
+ * Lifetime of the one-time code the callback hands to the app, in seconds
+ */
+const LOGIN_CODE_EXPIRY_SECONDS = 60;
+
+/**
+ * Cookie holding the browser nonce an OAuth state is bound to
+ */
+const BROWSER_NONCE_COOKIE = 'oauth_browser_nonce';
+
+/**
+ * Lifetime of the browser nonce cookie, in seconds: the state's 10 minutes plus time to exchange the login code
+ */
+const BROWSER_NONCE_COOKIE_MAX_AGE_SECONDS = 900;
+
+/**
+ * Issuer and audience of Sign in with Apple tokens
+ */
+const APPLE_ISSUER = 'https://appleid.apple.com';
+
+/**
+ * Lifetime of the client secret JWT sent to Apple's token endpoint, in seconds
+ */
+const APPLE_CLIENT_SECRET_EXPIRY_SECONDS = 300;
+
+/**
+ * Providers whose profile may omit the email, listing the account's addresses at `{userInfoUrl}/emails`
+ */
+const EMAIL_LIST_PROVIDERS = ['github', 'gitlab'];
+
+/**
+ * Providers that only accept client credentials as HTTP Basic auth at the token endpoint
+ */
+const BASIC_AUTH_PROVIDERS = ['x'];
+
+/**
+ * User columns an attribute mapping can fill, besides metadata keys
+ */
+const MAPPABLE_USER_FIELDS = ['displayName', 'avatarUrl', 'phone'] as const;
+
+/**
+ * Stored provider access tokens this close to expiry are refreshed before being handed out, in seconds
+ */
+const PROVIDER_TOKEN_REFRESH_MARGIN_SECONDS = 60;
 
 /**
  * OAuth Service - Handles OAuth provider configuration and flows
@@ -30,6 +92,42 @@ export class OAuthService {
       throw new NotFoundError('Project not found');
     }
 
+    // Apple has no static client secret: it is signed per request with the team's .p8 key
+    if (data.providerName === 'apple') {
+      if (!data.additionalConfig?.teamId || !data.additionalConfig?.keyId) {
+        throw new BadRequestError('Apple requires teamId and keyId in additionalConfig');
+      }
+
+      try {
+        await jose.importPKCS8(data.clientSecret, 'ES256');
+      } catch {
+        throw new BadRequestError('Apple client secret must be the contents of a .p8 private key');
+      }
+    }
+
+    // OpenID Connect providers are configured from the issuer's discovery document
+    if (data.providerName === 'oidc') {
+      if (!data.additionalConfig?.issuer) {
+        throw new BadRequestError('OpenID Connect providers require an issuer in additionalConfig');
+      }
+
+      const metadata = await oidcDiscoveryService.discover(data.additionalConfig.issuer);
+      data = {
+        ...data,
+        authorizationUrl: data.authorizationUrl || metadata.authorization_endpoint,
+        tokenUrl: data.tokenUrl || metadata.token_endpoint,
+        userInfoUrl: data.userInfoUrl || metadata.userinfo_endpoint,
+      };
+    }
+
+    if (data.additionalConfig?.attributeMapping) {
+      this.validateAttributeMapping(data.additionalConfig.attributeMapping);
+    }
+
+    if (data.additionalConfig?.storeTokens && !env.ENCRYPTION_KEY) {
+      throw new BadRequestError('Storing provider tokens requires ENCRYPTION_KEY');
+    }
+
     // Encrypt client secret if encryption key available
     let clientSecret = data.clientSecret;
     if (env.ENCRYPTION_KEY) {
@@ -90,96 +188,558 @@ export class OAuthService {
     return created as unknown as OAuthProvider;
   }
 
+  /**
+   * URL of a provider's callback route, which is the redirect URI registered with the provider
+   * @param requestUrl - URL of the current request
+   * @param projectId - Project ID
+   * @param providerName - Provider name
+   * @returns Callback URL
+   */
+  getCallbackUrl(requestUrl: string, projectId: string, providerName: string): string {
+    return `${new URL(requestUrl).origin}/api/auth/${projectId}/oauth/${providerName}/callback`;
+  }
+
+  /**
+   * Build the Set-Cookie header that binds an OAuth sign-in to the browser starting it
+   *
+   * The cookie is scoped to the project's OAuth routes. It is SameSite=None because the
+   * callback arrives from the provider's site, as a form post in Apple's case.
+   *
+   * @param projectId - Project ID
+   * @param browserNonce - Browser nonce returned by getAuthUrl
+   * @returns Set-Cookie header value
+   */
+  getBrowserNonceCookie(projectId: string, browserNonce: string): string {
+    return `${BROWSER_NONCE_COOKIE}=${browserNonce}; Path=/api/auth/${projectId}/oauth; ` +
+      `Max-Age=${BROWSER_NONCE_COOKIE_MAX_AGE_SECONDS}; HttpOnly; Secure; SameSite=None`;
+  }
+
   /**
    * Get OAuth authorization URL
+   *
+   * The returned state is an encrypted token binding the project, provider, app redirect URI,
+   * PKCE verifier and nonce; the callback only accepts codes that come back with it. The state
+   * is also bound to a browser nonce, which the caller must set as a cookie with
+   * getBrowserNonceCookie: the callback rejects the state in any other browser.
+   *
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param providerName - Provider name
-   * @param redirectUri - Redirect URI
-   * @param state - State parameter for CSRF protection
-   * @returns Authorization URL
+   * @param redirectUri - App URL to return to (must be allowed by the project)
+   * @param callbackUri - Callback URL registered with the provider
+   * @param linkUserId - Signed-in user linking the provider account, if any
+   * @returns Authorization URL, state and browser nonce
+   * @throws {BadRequestError} If the provider is disabled or the redirect URI is not allowed
    */
   async getAuthUrl(
     env: Env,
     projectId: string,
     providerName: string,
     redirectUri: string,
-    state: string
-  ): Promise<string> {
+    callbackUri: string,
+    linkUserId?: string
+  ): Promise<{ authUrl: string; state: string; browserNonce: string }> {
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
     const provider = await this.getProvider(env, projectId, providerName);
     if (!provider.enabled) {
       throw new BadRequestError('OAuth provider is disabled');
     }
 
+    if (!isAllowedRedirectUrl(redirectUri, project.siteUrl, project.redirectUrls)) {
+      throw new BadRequestError('Redirect URI is not allowed for this project');
+    }
+
     const scopes = provider.scopes ? JSON.parse(provider.scopes) : this.getDefaultScopes(providerName);
     const scopeString = Array.isArray(scopes) ? scopes.join(' ') : scopes;
 
+    const codeVerifier = jose.base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+    const nonce = jose.base64url.encode(crypto.getRandomValues(new Uint8Array(16)));
+    const browserNonce = jose.base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+    const state = await jwtService.generateOAuthStateToken(project, {
+      projectId,
+      provider: providerName,
+      redirectUri,
+      callbackUri,
+      codeVerifier,
+      nonce,
+      browserNonce,
+      ...(linkUserId ? { linkUserId } : {}),
+    });
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
     const params = new URLSearchParams({
       client_id: provider.clientId,
-      redirect_uri: redirectUri,
+      redirect_uri: callbackUri,
       response_type: 'code',
       scope: scopeString,
       state,
+      code_challenge: jose.base64url.encode(new Uint8Array(digest)),
+      code_challenge_method: 'S256',
     });
 
-    return `${provider.authorizationUrl}?${params.toString()}`;
+    // Only OpenID Connect providers return an ID token to check the nonce against
+    if (scopeString.split(' ').includes('openid') || providerName === 'apple') {
+      params.set('nonce', nonce);
+    }
+
+    // Apple posts the callback as a form whenever name or email are requested
+    if (providerName === 'apple') {
+      params.set('response_mode', 'form_post');
+    }
+
+    return { authUrl: `${provider.authorizationUrl}?${params.toString()}`, state, browserNonce };
   }
 
   /**
    * Handle OAuth callback and create/login user
+   *
+   * The provider account is matched through its linked identity. An account that is not
+   * linked yet signs up a new user, unless a user with that email already exists: then it
+   * is linked automatically only if the project allows it and the provider verified the email.
+   *
+   * Once the state checks out, the browser is always sent back to the app: with a one-time
+   * `code` to exchange for tokens on success, or with `error` and `error_description`. That
+   * includes a callback from a browser other than the one the state is bound to.
+   *
    * @param env - Environment bindings
    * @param projectId - Project ID
    * @param providerName - Provider name
-   * @param code - Authorization code
-   * @param redirectUri - Redirect URI
-   * @returns User and tokens
+   * @param query - Callback parameters (code, state, or error from the provider), from the
+   *   query string or, for Apple, the posted form
+   * @param request - Request object for IP/UA
+   * @returns App URL to redirect to
+   * @throws {AuthenticationError} If the state is invalid or expired
    */
   async handleCallback(
     env: Env,
     projectId: string,
     providerName: string,
+    query: Record<string, string>,
+    request: Request
+  ): Promise<string> {
+    const ipAddress = getIpAddress(request);
+    const userAgent = getUserAgent(request);
+
+    // Check rate limit
+    await rateLimitService.checkRateLimit(env, projectId, 'oauth', ipAddress);
+
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (!query.state) {
+      throw new BadRequestError('State is required');
+    }
+
+    const oauthState = await jwtService.verifyOAuthStateToken(query.state, project, providerName);
+    const redirectUrl = new URL(oauthState.redirectUri);
+    let email: string | undefined;
+
+    try {
+      if (!project.enabled) {
+        throw new AuthenticationError('Project is disabled');
+      }
+
+      // A state minted for another browser would sign this one in to, or link a provider
+      // account to, whoever started the flow
+      if (getCookie(request, BROWSER_NONCE_COOKIE) !== oauthState.browserNonce) {
+        throw new AuthenticationError('Sign-in was started in a different browser');
+      }
+
+      if (query.error) {
+        throw new BadRequestError(query.error_description || 'Sign-in was cancelled at the provider');
+      }
+
+      if (!query.code) {
+        throw new BadRequestError('Authorization code required');
+      }
+
+      const provider = await this.getProvider(env, project.id, providerName);
+      const tokenData = await this.requestToken(env, provider, {
+        code: query.code,
+        redirect_uri: oauthState.callbackUri,
+        grant_type: 'authorization_code',
+        code_verifier: oauthState.codeVerifier,
+      });
+      const profile = await this.fetchProfile(provider, tokenData, oauthState, query.user);
+      email = profile.email;
+
+      if (oauthState.linkUserId) {
+        await identityService.linkIdentity(env, project.id, oauthState.linkUserId, providerName, profile);
+        await this.storeProviderTokens(env, project, provider, profile, tokenData);
+        return redirectUrl.toString();
+      }
+
+      const resolved = await this.resolveUser(env, project, providerName, profile);
+      const { created } = resolved;
+      await this.storeProviderTokens(env, project, provider, profile, tokenData);
+
+      const user = await this.applyProviderAttributes(env, project, provider, resolved.user, profile, created);
+      if (user.status !== 'active') {
+        throw new AuthenticationError('Account is not active');
+      }
+
+      redirectUrl.searchParams.set(
+        'code',
+        await this.createLoginCode(env, project.id, user.id, providerName, oauthState.browserNonce)
+      );
+
+      await rateLimitService.recordAttempt(env, projectId, 'oauth', ipAddress, user.email, true, user.id);
+
+      await auditService.logEvent(env, {
+        projectId,
+        eventType: created ? 'user_created' : 'user_login',
+        eventStatus: 'success',
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        eventData: { email: user.email, method: 'oauth', provider: providerName },
+      });
+    } catch (error) {
+      await rateLimitService.recordAttempt(
+        env,
+        projectId,
+        'oauth',
+        ipAddress,
+        email,
+        false,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+
+      if (!(error instanceof AppError)) {
+        console.error('OAuth callback failed:', error);
+      }
+
+      redirectUrl.searchParams.set('error', query.error || (error instanceof AppError ? 'access_denied' : 'server_error'));
+      redirectUrl.searchParams.set('error_description', error instanceof AppError ? error.message : 'Sign-in failed');
+    }
+
+    return redirectUrl.toString();
+  }
+
+  /**
+   * Exchange a one-time login code from the callback redirect for tokens
+   *
+   * The code is only accepted with the browser nonce cookie of the browser that started the
+   * sign-in, so a code delivered to another browser cannot sign it in.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param code - Login code
+   * @param request - Request object for IP/UA and the browser nonce cookie
+   * @returns User and tokens, or an MFA challenge for users with a verified factor
+   * @throws {AuthenticationError} If the code is invalid, expired, already used or from another browser
+   */
+  async exchangeLoginCode(
+    env: Env,
+    projectId: string,
     code: string,
-    redirectUri: string
-  ): Promise<{ user: any; accessToken: string; refreshToken: string }> {
-    const provider = await this.getProvider(env, projectId, providerName);
+    request: Request
+  ): Promise<{ user: User } & SignInResult> {
+    const db = drizzle(env.DB);
+
     const project = await projectService.getProject(env, projectId);
     if (!project) {
       throw new NotFoundError('Project not found');
     }
 
-    // Decrypt client secret if encrypted
-    let clientSecret = provider.clientSecret;
-    if (env.ENCRYPTION_KEY && clientSecret) {
-      try {
-        clientSecret = await decrypt(clientSecret, env.ENCRYPTION_KEY);
-      } catch {
-        // If decryption fails, assume it wasn't encrypted
+    const browserNonce = getCookie(request, BROWSER_NONCE_COOKIE);
+    if (!browserNonce) {
+      throw new AuthenticationError('Sign-in was started in a different browser');
+    }
+
+    // Conditional on the code still being unused so concurrent exchanges cannot both succeed
+    const now = Math.floor(Date.now() / 1000);
+    const consumed = await db
+      .update(oauthLoginCodes)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(oauthLoginCodes.projectId, projectId),
+          eq(oauthLoginCodes.codeHash, await hashToken(code)),
+          eq(oauthLoginCodes.browserNonceHash, await hashToken(browserNonce)),
+          isNull(oauthLoginCodes.usedAt),
+          gt(oauthLoginCodes.expiresAt, now)
+        )
+      )
+      .returning();
+
+    if (consumed.length === 0) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    const user = await userService.getUserById(env, project.userTableName, consumed[0].userId);
+    if (!user || user.status !== 'active') {
+      throw new AuthenticationError('Account is not active');
+    }
+
+    const session = await authService.signIn(env, project, user, 'oauth', {
+      ipAddress: getIpAddress(request),
+      userAgent: getUserAgent(request),
+    });
+
+    return { user, ...session };
+  }
+
+  /**
+   * Get a current provider access token for a user's linked account
+   *
+   * Only providers configured with additionalConfig.storeTokens keep tokens. A stored token
+   * about to expire is refreshed with the stored refresh token first.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param providerName - Provider name
+   * @returns Access token, its expiry (Unix timestamp, null if unknown) and granted scope
+   * @throws {BadRequestError} If the provider does not store tokens or the refresh fails
+   * @throws {NotFoundError} If no token is stored for the user
+   * @throws {AuthenticationError} If the token expired and cannot be refreshed
+   */
+  async getProviderToken(
+    env: Env,
+    project: Project,
+    userId: string,
+    providerName: string
+  ): Promise<{ accessToken: string; expiresAt: number | null; scope: string | null }> {
+    const provider = await this.getProvider(env, project.id, providerName);
+    if (!this.getProviderConfig(provider).storeTokens) {
+      throw new BadRequestError('This provider does not store tokens');
+    }
+
+    const stored = await identityService.getTokens(env, project.id, userId, providerName);
+    if (!stored) {
+      throw new NotFoundError('No provider token stored for this account');
+    }
+
+    let { tokens } = stored;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (tokens.expiresAt !== null && tokens.expiresAt - now <= PROVIDER_TOKEN_REFRESH_MARGIN_SECONDS) {
+      if (!tokens.refreshToken) {
+        throw new AuthenticationError('Provider token expired. Sign in with the provider again.');
       }
+
+      const tokenData = await this.requestToken(
+        env,
+        provider,
+        { grant_type: 'refresh_token', refresh_token: tokens.refreshToken },
+        'Failed to refresh provider token'
+      );
+
+      tokens = { ...this.toTokenSet(tokenData), refreshToken: tokenData.refresh_token || tokens.refreshToken };
+      await identityService.storeTokens(env, project.id, providerName, stored.providerUserId, tokens);
+    }
+
+    return { accessToken: tokens.accessToken, expiresAt: tokens.expiresAt, scope: tokens.scope };
+  }
+
+  /**
+   * Store a one-time login code for a user who signed in at the provider
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param providerName - Provider name
+   * @param browserNonce - Browser nonce the sign-in was bound to
+   * @returns Login code for the app redirect
+   */
+  private async createLoginCode(
+    env: Env,
+    projectId: string,
+    userId: string,
+    providerName: string,
+    browserNonce: string
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
+    const code = generateRefreshToken();
+
+    await db.insert(oauthLoginCodes).values({
+      projectId,
+      userId,
+      provider: providerName,
+      codeHash: await hashToken(code),
+      browserNonceHash: await hashToken(browserNonce),
+      expiresAt: Math.floor(Date.now() / 1000) + LOGIN_CODE_EXPIRY_SECONDS,
+    });
+
+    return code;
+  }
+
+  /**
+   * Find or create the user a provider account signs in as
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param providerName - Provider name
+   * @param profile - Profile returned by the provider
+   * @returns User, and whether it was just created
+   * @throws {BadRequestError} If the email belongs to an account that cannot be linked automatically
+   */
+  private async resolveUser(
+    env: Env,
+    project: Project,
+    providerName: string,
+    profile: OAuthProfile
+  ): Promise<{ user: User; created: boolean }> {
+    // Check if user exists with this OAuth identity
+    const identity = await identityService.findIdentity(env, project.id, providerName, profile.providerUserId);
+    if (identity) {
+      const user = await userService.getUserById(env, project.userTableName, identity.userId);
+      if (user) {
+        await identityService.recordSignIn(env, identity.id, profile);
+        return { user, created: false };
+      }
+    }
+
+    // Users created before identities existed only have the provider on their row
+    const legacyUser = await userService.getUserByOAuth(
+      env,
+      project.userTableName,
+      providerName,
+      profile.providerUserId
+    );
+    if (legacyUser) {
+      await identityService.linkIdentity(env, project.id, legacyUser.id, providerName, profile);
+      return { user: legacyUser, created: false };
+    }
+
+    if (!profile.email) {
+      throw new BadRequestError('Could not extract email from OAuth provider');
+    }
+
+    // Check if user exists with this email
+    const existingUser = await userService.getUserByEmail(env, project.userTableName, profile.email);
+    if (existingUser) {
+      if (!project.autoLinkOAuthAccounts || !profile.emailVerified) {
+        throw new BadRequestError('Email already registered. Sign in and link this provider from your account.');
+      }
+
+      await identityService.linkIdentity(env, project.id, existingUser.id, providerName, profile);
+      return { user: existingUser, created: false };
+    }
+
+    // Create new user
+    const user = await userService.createUser(env, project.userTableName, {
+      email: profile.email,
+      password: '', // No password for OAuth users
+      displayName: profile.displayName,
+      oauthProvider: providerName,
+      oauthProviderUserId: profile.providerUserId,
+      oauthRawUserData: JSON.stringify(profile.rawUserData),
+      avatarUrl: profile.avatarUrl,
+    });
+
+    await identityService.linkIdentity(env, project.id, user.id, providerName, profile);
+
+    return { user, created: true };
+  }
+
+  /**
+   * Call a provider's token endpoint
+   * @param env - Environment bindings
+   * @param provider - Provider configuration
+   * @param params - Grant parameters (client credentials are added)
+   * @param errorMessage - Message to fail with
+   * @returns Token endpoint response
+   * @throws {BadRequestError} If the provider issues no access token
+   */
+  private async requestToken(
+    env: Env,
+    provider: OAuthProvider,
+    params: Record<string, string>,
+    errorMessage = 'Failed to exchange authorization code'
+  ): Promise<any> {
+    const clientSecret = await this.getClientSecret(env, provider);
+
+    const tokenHeaders: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    const tokenParams = new URLSearchParams({ ...params, client_id: provider.clientId });
+
+    if (BASIC_AUTH_PROVIDERS.includes(provider.providerName)) {
+      tokenHeaders.Authorization = `Basic ${btoa(`${provider.clientId}:${clientSecret}`)}`;
+    } else {
+      tokenParams.set('client_secret', clientSecret);
     }
 
-    // Exchange code for token
     const tokenResponse = await fetch(provider.tokenUrl!, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        code,
-        client_id: provider.clientId,
-        client_secret: clientSecret,
-        redirect_uri: redirectUri,
-        grant_type: 'authorization_code',
-      }),
+      headers: tokenHeaders,
+      body: tokenParams,
     });
 
     if (!tokenResponse.ok) {
-      throw new BadRequestError('Failed to exchange authorization code');
+      throw new BadRequestError(errorMessage);
     }
 
     const tokenData = await tokenResponse.json() as any;
+
+    // Some providers (Slack, GitHub) report errors with a 200 response
+    if (!tokenData.access_token) {
+      throw new BadRequestError(errorMessage);
+    }
+
+    return tokenData;
+  }
+
+  /**
+   * Fetch the profile of the provider account a token response belongs to
+   *
+   * Apple has no userinfo endpoint; its profile comes from the ID token, plus the `user` form
+   * field carrying the name, which Apple only sends the first time a user signs in.
+   *
+   * @param provider - Provider configuration
+   * @param tokenData - Token endpoint response
+   * @param oauthState - Verified state the code came back with
+   * @param appleUser - JSON `user` field from Apple's form post, if any
+   * @returns Provider profile (email is empty if the provider did not share one)
+   * @throws {BadRequestError} If the nonce does not match or the profile cannot be fetched
+   */
+  private async fetchProfile(
+    provider: OAuthProvider,
+    tokenData: any,
+    oauthState: OAuthState,
+    appleUser?: string
+  ): Promise<OAuthProfile> {
+    const providerName = provider.providerName;
     const accessToken = tokenData.access_token;
 
+    if (providerName === 'oidc') {
+      return this.fetchOidcProfile(provider, tokenData, oauthState);
+    }
+
+    // The ID token came straight from the token endpoint over TLS, so only its nonce needs checking
+    if (tokenData.id_token) {
+      let idTokenNonce: unknown;
+      try {
+        idTokenNonce = jose.decodeJwt(tokenData.id_token).nonce;
+      } catch {
+        throw new BadRequestError('Invalid ID token from OAuth provider');
+      }
+
+      if (idTokenNonce !== undefined && idTokenNonce !== oauthState.nonce) {
+        throw new BadRequestError('ID token nonce mismatch');
+      }
+    }
+
+    if (providerName === 'apple') {
+      if (!tokenData.id_token) {
+        throw new BadRequestError('Invalid ID token from OAuth provider');
+      }
+
+      return this.extractAppleProfile(jose.decodeJwt(tokenData.id_token), appleUser);
+    }
+
     // Get user info from provider
     const userInfoResponse = await fetch(provider.userInfoUrl!, {
-      headers: { Authorization: `Bearer ${accessToken}` },
+      headers: this.getApiHeaders(accessToken),
     });
 
     if (!userInfoResponse.ok) {
@@ -188,46 +748,361 @@ export class OAuthService {
 
     const userInfo = await userInfoResponse.json() as any;
 
-    // Extract email and other info based on provider
-    const email = this.extractEmail(userInfo, providerName);
-    const displayName = this.extractDisplayName(userInfo, providerName);
-    const providerId = this.extractProviderId(userInfo, providerName);
+    let email = this.extractEmail(userInfo, providerName);
+    let emailVerified = this.extractEmailVerified(userInfo, providerName);
 
-    if (!email) {
-      throw new BadRequestError('Could not extract email from OAuth provider');
+    // Private or unconfirmed addresses are left out of the profile; ask for the account's list instead
+    if ((!email || !emailVerified) && EMAIL_LIST_PROVIDERS.includes(providerName)) {
+      const listed = await this.fetchVerifiedEmail(provider.userInfoUrl!, accessToken);
+      if (listed) {
+        email = listed;
+        emailVerified = true;
+      }
     }
 
-    // Check if user exists with this OAuth identity
-    let user = await userService.getUserByOAuth(env, project.userTableName, providerName, providerId);
+    return {
+      providerUserId: String(this.extractProviderId(userInfo, providerName)),
+      email,
+      emailVerified,
+      displayName: this.extractDisplayName(userInfo, providerName),
+      avatarUrl: this.extractAvatarUrl(userInfo, providerName),
+      rawUserData: userInfo,
+    };
+  }
 
-    if (!user) {
-      // Check if user exists with this email
-      user = await userService.getUserByEmail(env, project.userTableName, email);
+  /**
+   * Fetch the primary verified address from a provider's email list (GitHub and GitLab)
+   * @param userInfoUrl - Provider user info URL
+   * @param accessToken - Provider access token
+   * @returns Verified email, or null if the account has none
+   */
+  private async fetchVerifiedEmail(userInfoUrl: string, accessToken: string): Promise<string | null> {
+    const url = new URL(userInfoUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/emails`;
+    url.search = '';
 
-      if (user) {
-        // Link OAuth to existing user (simplified - would need more logic in production)
-        // For now, just return error
-        throw new BadRequestError('Email already registered. Please login with password first.');
-      }
+    const response = await fetch(url.toString(), { headers: this.getApiHeaders(accessToken) });
+    if (!response.ok) {
+      return null;
+    }
 
-      // Create new user
-      user = await userService.createUser(env, project.userTableName, {
-        email,
-        password: '', // No password for OAuth users
-        displayName,
-        oauthProvider: providerName,
-        oauthProviderUserId: providerId,
-        oauthRawUserData: JSON.stringify(userInfo),
+    const emails = await response.json() as any[];
+    if (!Array.isArray(emails)) {
+      return null;
+    }
+
+    // GitHub flags verified addresses; GitLab lists confirmed ones with a confirmed_at date
+    const verified = emails.filter((entry) => entry.verified === true || Boolean(entry.confirmed_at));
+    const chosen = verified.find((entry) => entry.primary) || verified[0];
+
+    return chosen?.email || null;
+  }
+
+  /**
+   * Headers for provider API calls
+   *
+   * GitHub rejects API requests without a User-Agent, which Workers do not send by default.
+   */
+  private getApiHeaders(accessToken: string): Record<string, string> {
+    return {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      'User-Agent': 'cloudflare-auth',
+    };
+  }
+
+  /**
+   * Build a profile for a generic OpenID Connect provider
+   *
+   * The ID token is verified against the provider's JWKS. Claims from the userinfo endpoint,
+   * if the provider has one, are merged in; claimMappings in additionalConfig pick the email,
+   * name and avatar claims (dot paths allowed), defaulting to email, name and picture.
+   *
+   * @param provider - Provider configuration
+   * @param tokenData - Token endpoint response
+   * @param oauthState - Verified state the code came back with
+   * @returns Provider profile
+   * @throws {BadRequestError} If the ID token does not verify or userinfo names another subject
+   */
+  private async fetchOidcProfile(
+    provider: OAuthProvider,
+    tokenData: any,
+    oauthState: OAuthState
+  ): Promise<OAuthProfile> {
+    const config = this.getProviderConfig(provider);
+
+    if (!tokenData.id_token) {
+      throw new BadRequestError('Invalid ID token from OAuth provider');
+    }
+
+    const idTokenClaims = await oidcDiscoveryService.verifyIdToken(
+      config.issuer,
+      tokenData.id_token,
+      provider.clientId,
+      oauthState.nonce
+    );
+
+    let claims: Record<string, any> = idTokenClaims;
+    if (provider.userInfoUrl && tokenData.access_token) {
+      const userInfoResponse = await fetch(provider.userInfoUrl, {
+        headers: { Authorization: `Bearer ${tokenData.access_token}` },
       });
+
+      if (!userInfoResponse.ok) {
+        throw new BadRequestError('Failed to fetch user info');
+      }
+
+      const userInfo = await userInfoResponse.json() as Record<string, any>;
+      if (userInfo.sub !== idTokenClaims.sub) {
+        throw new BadRequestError('User info does not match the ID token');
+      }
+
+      claims = { ...idTokenClaims, ...userInfo };
     }
 
-    // Generate JWT tokens
-    const jwtAccessToken = await jwtService.generateAccessToken(project, user.id, user.email);
-    // Would need to import authService to create refresh token properly
-    // For now, return a placeholder
-    const refreshToken = 'refresh_token_placeholder';
+    const mappings = { email: 'email', name: 'name', avatar: 'picture', ...config.claimMappings };
+    const email = this.readPath(claims, mappings.email);
+    const name = this.readPath(claims, mappings.name);
+    const avatar = this.readPath(claims, mappings.avatar);
+
+    return {
+      providerUserId: String(claims.sub),
+      email: typeof email === 'string' ? email : '',
+      // email_verified describes the standard email claim only
+      emailVerified: mappings.email === 'email' && (claims.email_verified === true || claims.email_verified === 'true'),
+      displayName: typeof name === 'string' ? name : '',
+      avatarUrl: typeof avatar === 'string' ? avatar : undefined,
+      rawUserData: claims,
+    };
+  }
 
-    return { user, accessToken: jwtAccessToken, refreshToken };
+  /**
+   * Read a value by name or JSON path (e.g. `profile.email`, `$.emails.0.value`)
+   */
+  private readPath(data: Record<string, any>, path: string): unknown {
+    return path
+      .replace(/^\$\.?/, '')
+      .split('.')
+      .filter(Boolean)
+      .reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+  }
+
+  /**
+   * Apply a provider's attribute mapping and email trust setting to a signed-in user
+   *
+   * additionalConfig.attributeMapping maps profile paths to displayName, avatarUrl, phone and
+   * metadata keys; it fills new users only, so later edits are not overwritten. With
+   * additionalConfig.trustEmailVerification, an address the provider verified marks the
+   * user's matching email as verified on any sign-in.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param provider - Provider configuration
+   * @param user - Signed-in user
+   * @param profile - Profile returned by the provider
+   * @param created - Whether the user was just created
+   * @returns Updated user
+   */
+  private async applyProviderAttributes(
+    env: Env,
+    project: Project,
+    provider: OAuthProvider,
+    user: User,
+    profile: OAuthProfile,
+    created: boolean
+  ): Promise<User> {
+    const config = this.getProviderConfig(provider);
+    const updates: Partial<Pick<User, 'displayName' | 'avatarUrl' | 'phone' | 'metadata' | 'emailVerified'>> = {};
+
+    if (created && config.attributeMapping) {
+      const { metadata: metadataMapping, ...fieldMapping } = config.attributeMapping;
+
+      for (const field of MAPPABLE_USER_FIELDS) {
+        const value = fieldMapping[field] ? this.readPath(profile.rawUserData, fieldMapping[field]) : undefined;
+        if (typeof value === 'string' || typeof value === 'number') {
+          updates[field] = String(value);
+        }
+      }
+
+      if (metadataMapping) {
+        const rawMetadata = (user as any).metadata ?? user.metadata;
+        const metadata = rawMetadata ? JSON.parse(rawMetadata) : {};
+        for (const [key, path] of Object.entries<string>(metadataMapping)) {
+          const value = this.readPath(profile.rawUserData, path);
+          if (value !== undefined) {
+            metadata[key] = value;
+          }
+        }
+        updates.metadata = JSON.stringify(metadata);
+      }
+    }
+
+    const emailVerified = Boolean((user as any).email_verified ?? user.emailVerified);
+    if (
+      config.trustEmailVerification &&
+      profile.emailVerified &&
+      !emailVerified &&
+      profile.email.toLowerCase() === user.email.toLowerCase()
+    ) {
+      updates.emailVerified = true;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return user;
+    }
+
+    return userService.updateUser(env, project.userTableName, user.id, updates);
+  }
+
+  /**
+   * Check an attribute mapping only targets user fields it may fill
+   * @param mapping - additionalConfig.attributeMapping
+   * @throws {BadRequestError} If a target or path is invalid
+   */
+  private validateAttributeMapping(mapping: Record<string, unknown>): void {
+    for (const [target, path] of Object.entries(mapping)) {
+      if (target === 'metadata') {
+        if (typeof path !== 'object' || path === null || Object.values(path).some((p) => typeof p !== 'string')) {
+          throw new BadRequestError('Attribute mapping metadata must map keys to profile paths');
+        }
+        continue;
+      }
+
+      if (!(MAPPABLE_USER_FIELDS as readonly string[]).includes(target)) {
+        throw new BadRequestError(`Unknown attribute mapping target: ${target}`);
+      }
+
+      if (typeof path !== 'string' || !path) {
+        throw new BadRequestError(`Attribute mapping for ${target} must be a profile path`);
+      }
+    }
+  }
+
+  /**
+   * Build a profile from a Sign in with Apple ID token
+   *
+   * Users who hide their address get a private relay address (`@privaterelay.appleid.com`),
+   * which Apple marks as verified and forwards to the real inbox; it is kept as the email.
+   *
+   * @param claims - ID token claims
+   * @param appleUser - JSON `user` field from Apple's form post, if any
+   * @returns Provider profile
+   */
+  private extractAppleProfile(claims: jose.JWTPayload, appleUser?: string): OAuthProfile {
+    let name: { firstName?: string; lastName?: string } = {};
+    if (appleUser) {
+      try {
+        name = JSON.parse(appleUser).name || {};
+      } catch {
+        // The name is a nicety; sign in without it
+      }
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email : '';
+
+    return {
+      providerUserId: String(claims.sub),
+      email,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      displayName: [name.firstName, name.lastName].filter(Boolean).join(' '),
+      rawUserData: {
+        ...claims,
+        ...(appleUser ? { name } : {}),
+        isPrivateEmail: claims.is_private_email === true || claims.is_private_email === 'true',
+      },
+    };
+  }
+
+  /**
+   * Client secret to send to a provider's token endpoint
+   *
+   * For Apple this is a short-lived ES256 JWT signed with the stored .p8 key, identified by
+   * the team and key IDs in additionalConfig.
+   *
+   * @param env - Environment bindings
+   * @param provider - Provider configuration
+   * @returns Client secret
+   * @throws {BadRequestError} If the Apple configuration is incomplete
+   */
+  private async getClientSecret(env: Env, provider: OAuthProvider): Promise<string> {
+    // Decrypt client secret if encrypted
+    let clientSecret = provider.clientSecret;
+    if (env.ENCRYPTION_KEY && clientSecret) {
+      try {
+        clientSecret = await decrypt(clientSecret, env.ENCRYPTION_KEY);
+      } catch {
+        // If decryption fails, assume it wasn't encrypted
+      }
+    }
+
+    if (provider.providerName !== 'apple') {
+      return clientSecret;
+    }
+
+    const config = this.getProviderConfig(provider);
+    if (!config.teamId || !config.keyId) {
+      throw new BadRequestError('Apple requires teamId and keyId in additionalConfig');
+    }
+
+    const privateKey = await jose.importPKCS8(clientSecret, 'ES256');
+
+    return new jose.SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: config.keyId })
+      .setIssuer(config.teamId)
+      .setSubject(provider.clientId)
+      .setAudience(APPLE_ISSUER)
+      .setIssuedAt()
+      .setExpirationTime(`${APPLE_CLIENT_SECRET_EXPIRY_SECONDS}s`)
+      .sign(privateKey);
+  }
+
+  /**
+   * Keep the provider's tokens for an identity, if the provider is configured to store them
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param provider - Provider configuration
+   * @param profile - Profile returned by the provider
+   * @param tokenData - Token endpoint response
+   */
+  private async storeProviderTokens(
+    env: Env,
+    project: Project,
+    provider: OAuthProvider,
+    profile: OAuthProfile,
+    tokenData: any
+  ): Promise<void> {
+    if (!this.getProviderConfig(provider).storeTokens) {
+      return;
+    }
+
+    await identityService.storeTokens(
+      env,
+      project.id,
+      provider.providerName,
+      profile.providerUserId,
+      this.toTokenSet(tokenData)
+    );
+  }
+
+  /**
+   * Read the tokens from a token endpoint response
+   */
+  private toTokenSet(tokenData: any): ProviderTokenSet {
+    const expiresIn = Number(tokenData.expires_in);
+
+    return {
+      accessToken: tokenData.access_token,
+      refreshToken: tokenData.refresh_token || null,
+      expiresAt: expiresIn > 0 ? Math.floor(Date.now() / 1000) + expiresIn : null,
+      scope: tokenData.scope || null,
+    };
+  }
+
+  /**
+   * Parse a provider's additionalConfig
+   */
+  private getProviderConfig(provider: OAuthProvider): Record<string, any> {
+    return provider.additionalConfig ? JSON.parse(provider.additionalConfig) : {};
   }
 
   /**
@@ -334,6 +1209,13 @@ export class OAuthService {
       google: 'https://accounts.google.com/o/oauth2/v2/auth',
       github: 'https://github.com/login/oauth/authorize',
       microsoft: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+      apple: `${APPLE_ISSUER}/auth/authorize`,
+      discord: 'https://discord.com/oauth2/authorize',
+      gitlab: 'https://gitlab.com/oauth/authorize',
+      facebook: 'https://www.facebook.com/v19.0/dialog/oauth',
+      linkedin: 'https://www.linkedin.com/oauth/v2/authorization',
+      slack: 'https://slack.com/openid/connect/authorize',
+      x: 'https://x.com/i/oauth2/authorize',
     };
     return urls[provider] || '';
   }
@@ -346,6 +1228,13 @@ export class OAuthService {
       google: 'https://oauth2.googleapis.com/token',
       github: 'https://github.com/login/oauth/access_token',
       microsoft: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+      apple: `${APPLE_ISSUER}/auth/token`,
+      discord: 'https://discord.com/api/oauth2/token',
+      gitlab: 'https://gitlab.com/oauth/token',
+      facebook: 'https://graph.facebook.com/v19.0/oauth/access_token',
+      linkedin: 'https://www.linkedin.com/oauth/v2/accessToken',
+      slack: 'https://slack.com/api/openid.connect.token',
+      x: 'https://api.x.com/2/oauth2/token',
     };
     return urls[provider] || '';
   }
@@ -358,6 +1247,12 @@ export class OAuthService {
       google: 'https://www.googleapis.com/oauth2/v2/userinfo',
       github: 'https://api.github.com/user',
       microsoft: 'https://graph.microsoft.com/v1.0/me',
+      discord: 'https://discord.com/api/users/@me',
+      gitlab: 'https://gitlab.com/api/v4/user',
+      facebook: 'https://graph.facebook.com/v19.0/me?fields=id,name,email,picture',
+      linkedin: 'https://api.linkedin.com/v2/userinfo',
+      slack: 'https://slack.com/api/openid.connect.userInfo',
+      x: 'https://api.x.com/2/users/me?user.fields=profile_image_url,confirmed_email',
     };
     return urls[provider] || '';
   }
@@ -370,6 +1265,14 @@ export class OAuthService {
       google: ['email', 'profile', 'openid'],
       github: ['user:email'],
       microsoft: ['openid', 'profile', 'email'],
+      apple: ['name', 'email'],
+      oidc: ['openid', 'email', 'profile'],
+      discord: ['identify', 'email'],
+      gitlab: ['read_user'],
+      facebook: ['email', 'public_profile'],
+      linkedin: ['openid', 'profile', 'email'],
+      slack: ['openid', 'profile', 'email'],
+      x: ['users.read', 'tweet.read', 'users.email'],
     };
     return scopes[provider] || ['email'];
   }
@@ -378,20 +1281,75 @@ export class OAuthService {
    * Extract email from provider user info
    */
   private extractEmail(userInfo: any, provider: string): string {
+    if (provider === 'x') {
+      return userInfo.data?.confirmed_email || '';
+    }
+
     return userInfo.email || userInfo.mail || '';
   }
 
+  /**
+   * Whether the provider vouches for the email address
+   *
+   * Google and OpenID Connect userinfo responses say so explicitly, Discord and GitLab have
+   * their own flags, and X only returns confirmed addresses. Providers that do not say are
+   * treated as unverified.
+   */
+  private extractEmailVerified(userInfo: any, provider: string): boolean {
+    switch (provider) {
+      case 'discord':
+        return userInfo.verified === true;
+      case 'gitlab':
+        return Boolean(userInfo.email && userInfo.confirmed_at);
+      case 'x':
+        return Boolean(userInfo.data?.confirmed_email);
+      default:
+        return userInfo.email_verified === true || userInfo.email_verified === 'true' || userInfo.verified_email === true;
+    }
+  }
+
   /**
    * Extract display name from provider user info
    */
   private extractDisplayName(userInfo: any, provider: string): string {
-    return userInfo.name || userInfo.displayName || userInfo.login || '';
+    switch (provider) {
+      case 'discord':
+        return userInfo.global_name || userInfo.username || '';
+      case 'x':
+        return userInfo.data?.name || userInfo.data?.username || '';
+      default:
+        return userInfo.name || userInfo.displayName || userInfo.login || userInfo.username || '';
+    }
+  }
+
+  /**
+   * Extract avatar URL from provider user info
+   */
+  private extractAvatarUrl(userInfo: any, provider: string): string | undefined {
+    switch (provider) {
+      case 'discord':
+        return userInfo.avatar
+          ? `https://cdn.discordapp.com/avatars/${userInfo.id}/${userInfo.avatar}.png`
+          : undefined;
+      case 'facebook':
+        return userInfo.picture?.data?.url || undefined;
+      case 'x':
+        return userInfo.data?.profile_image_url || undefined;
+      default: {
+        const avatar = userInfo.picture || userInfo.avatar_url;
+        return typeof avatar === 'string' ? avatar : undefined;
+      }
+    }
   }
 
   /**
    * Extract provider user ID
    */
   private extractProviderId(userInfo: any, provider: string): string {
+    if (provider === 'x') {
+      return userInfo.data?.id || '';
+    }
+
     return userInfo.id || userInfo.sub || userInfo.oid || '';
   }
 }
@@ -0,0 +1,159 @@
+import * as jose from 'jose';
+import type { OidcProviderMetadata } from '../types';
+import { BadRequestError } from '../utils/errors';
+
+/**
+ * How long discovery documents and JWKS are reused before being fetched again, in seconds
+ */
+const METADATA_CACHE_SECONDS = 3600;
+
+/**
+ * OIDC Discovery Service - Metadata and ID token verification for external OpenID Connect providers
+ *
+ * Discovery documents and JWKS are cached for the lifetime of the isolate. An ID token signed
+ * with a key missing from the cached JWKS refetches it once, so provider key rotation is
+ * picked up without waiting for the cache to expire.
+ */
+export class OidcDiscoveryService {
+  private metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+  private jwksCache = new Map<string, { jwks: jose.JSONWebKeySet; expiresAt: number }>();
+
+  /**
+   * Read a provider's discovery document
+   * @param issuer - Issuer URL
+   * @returns Provider metadata
+   * @throws {BadRequestError} If the document cannot be fetched or names another issuer
+   */
+  async discover(issuer: string): Promise<OidcProviderMetadata> {
+    const normalizedIssuer = issuer.replace(/\/+$/, '');
+
+    const cached = this.metadataCache.get(normalizedIssuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata;
+    }
+
+    let metadata: OidcProviderMetadata;
+    try {
+      const response = await fetch(`${normalizedIssuer}/.well-known/openid-configuration`, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      metadata = await response.json() as OidcProviderMetadata;
+    } catch {
+      throw new BadRequestError('Failed to fetch OpenID Connect discovery document');
+    }
+
+    if (metadata.issuer?.replace(/\/+$/, '') !== normalizedIssuer) {
+      throw new BadRequestError('Discovery document issuer does not match');
+    }
+
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw new BadRequestError('Discovery document is missing required endpoints');
+    }
+
+    this.metadataCache.set(normalizedIssuer, {
+      metadata,
+      expiresAt: Date.now() + METADATA_CACHE_SECONDS * 1000,
+    });
+
+    return metadata;
+  }
+
+  /**
+   * Verify an ID token's signature, issuer, audience, expiry and nonce
+   * @param issuer - Issuer URL
+   * @param idToken - ID token from the token endpoint
+   * @param clientId - Our client ID at the provider
+   * @param nonce - Nonce sent with the authorization request
+   * @returns Verified claims
+   * @throws {BadRequestError} If the token does not verify
+   */
+  async verifyIdToken(
+    issuer: string,
+    idToken: string,
+    clientId: string,
+    nonce: string
+  ): Promise<jose.JWTPayload> {
+    const metadata = await this.discover(issuer);
+
+    let claims: jose.JWTPayload;
+    try {
+      claims = await this.verifyWithJwks(metadata, idToken, clientId, false);
+    } catch (error) {
+      if (!(error instanceof jose.errors.JWKSNoMatchingKey)) {
+        throw error;
+      }
+
+      // The provider may have rotated its keys since the JWKS was cached
+      claims = await this.verifyWithJwks(metadata, idToken, clientId, true);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new BadRequestError('ID token nonce mismatch');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Verify an ID token against the provider's JWKS
+   * @param metadata - Provider metadata
+   * @param idToken - ID token
+   * @param clientId - Our client ID at the provider
+   * @param refresh - Fetch the JWKS even if a cached copy is still fresh
+   * @returns Verified claims
+   * @throws {jose.errors.JWKSNoMatchingKey} If the cached JWKS has no key for the token
+   * @throws {BadRequestError} If the token does not verify
+   */
+  private async verifyWithJwks(
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    clientId: string,
+    refresh: boolean
+  ): Promise<jose.JWTPayload> {
+    const jwks = await this.getJwks(metadata.jwks_uri, refresh);
+
+    try {
+      const { payload } = await jose.jwtVerify(idToken, jose.createLocalJWKSet(jwks), {
+        issuer: metadata.issuer,
+        audience: clientId,
+      });
+
+      return payload;
+    } catch (error) {
+      if (error instanceof jose.errors.JWKSNoMatchingKey && !refresh) {
+        throw error;
+      }
+
+      throw new BadRequestError('Invalid ID token from OAuth provider');
+    }
+  }
+
+  /**
+   * Get a provider's JWKS, cached
+   * @param jwksUri - JWKS URL
+   * @param refresh - Fetch even if a cached copy is still fresh
+   * @returns Key set
+   */
+  private async getJwks(jwksUri: string, refresh: boolean): Promise<jose.JSONWebKeySet> {
+    const cached = this.jwksCache.get(jwksUri);
+    if (cached && !refresh && cached.expiresAt > Date.now()) {
+      return cached.jwks;
+    }
+
+    const response = await fetch(jwksUri, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new BadRequestError('Failed to fetch provider signing keys');
+    }
+
+    const jwks = await response.json() as jose.JSONWebKeySet;
+    this.jwksCache.set(jwksUri, { jwks, expiresAt: Date.now() + METADATA_CACHE_SECONDS * 1000 });
+
+    return jwks;
+  }
+}
+
+// Export singleton instance
+export const oidcDiscoveryService = new OidcDiscoveryService();
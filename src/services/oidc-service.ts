@@ -0,0 +1,915 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, isNull } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import * as jose from 'jose';
+import { oauthAuthorizationCodes, oauthConsents } from '../db/schema';
+import type { OAuthClient } from '../db/schema';
+import { auditService } from './audit-service';
+import { authService } from './auth-service';
+import { oauthClientService } from './oauth-client-service';
+import { signingKeyService } from './signing-key-service';
+import { tokenDenylistService } from './token-denylist-service';
+import { userService } from './user-service';
+import type { IdTokenClaims } from './jwt-service';
+import type {
+  Env,
+  AuthorizationRequest,
+  JWTPayload,
+  OidcTokenResponse,
+  Project,
+  TokenIntrospectionResponse,
+  User,
+} from '../types';
+import { hashToken } from '../utils/crypto';
+import { getIpAddress, getTimestamp, getUserAgent, isAllowedRedirectUrl, safeJsonParse } from '../utils/helpers';
+import { AuthenticationError, AuthorizationError, BadRequestError, OAuthError } from '../utils/errors';
+
+/**
+ * Scopes the provider understands; other requested scopes are ignored
+ */
+const SUPPORTED_SCOPES = ['openid', 'profile', 'email'];
+
+/**
+ * Authorization code lifetime in seconds (1 minute)
+ */
+const AUTHORIZATION_CODE_EXPIRY_SECONDS = 60;
+
+/**
+ * PKCE code verifier format (RFC 7636 section 4.1)
+ */
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export type AuthorizeResult =
+  | { consentRequired: true; client: { clientId: string; name: string }; scopes: string[] }
+  | { consentRequired: false; redirectTo: string };
+
+/**
+ * OIDC Service - Lets each project act as an OpenID Connect provider
+ *
+ * Implements the authorization code flow with PKCE. This service has no login UI of its own:
+ * /authorize sends the browser to the project's site (`{siteUrl}/oauth/authorize`), which signs
+ * the user in with the regular auth endpoints, shows the consent screen and posts the decision
+ * back with the user's access token to receive the redirect carrying the authorization code.
+ *
+ * Service clients use the client_credentials grant instead and get tokens without a user.
+ * Tokens can be introspected (RFC 7662) and revoked (RFC 7009).
+ */
+export class OidcService {
+  /**
+   * Issuer identifier of a project
+   * @param requestUrl - URL of the current request
+   * @param projectId - Project ID
+   * @returns Issuer URL (also the base of every provider endpoint)
+   */
+  getIssuer(requestUrl: string, projectId: string): string {
+    return `${new URL(requestUrl).origin}/api/auth/${projectId}`;
+  }
+
+  /**
+   * Build the OpenID Provider configuration document
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @returns Discovery document
+   */
+  getDiscoveryDocument(project: Project, issuer: string): Record<string, unknown> {
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/oauth2/authorize`,
+      token_endpoint: `${issuer}/oauth2/token`,
+      userinfo_endpoint: `${issuer}/oauth2/userinfo`,
+      introspection_endpoint: `${issuer}/introspect`,
+      revocation_endpoint: `${issuer}/revoke`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'client_credentials'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: signingKeyService.isAsymmetric(project.jwtAlgorithm) ? [project.jwtAlgorithm] : [],
+      scopes_supported: SUPPORTED_SCOPES,
+      claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'email', 'email_verified', 'name', 'picture'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      code_challenge_methods_supported: ['S256'],
+    };
+  }
+
+  /**
+   * Parse a scope parameter into the supported scopes it requests
+   * @param scope - Space separated scope string
+   * @returns Supported scopes, deduplicated
+   */
+  private parseScope(scope: string | undefined): string[] {
+    const requested = new Set((scope || '').split(' ').filter(Boolean));
+    return SUPPORTED_SCOPES.filter((supported) => requested.has(supported));
+  }
+
+  /**
+   * Resolve the client of an authorization request and check its redirect URI
+   *
+   * Errors here are never redirected, since the redirect URI cannot be trusted yet.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param request - Authorization request
+   * @returns Client
+   * @throws {BadRequestError} If the project cannot sign ID tokens, the client is unknown, disabled or a service client, or the redirect URI is not registered
+   */
+  private async getAuthorizationClient(
+    env: Env,
+    project: Project,
+    request: AuthorizationRequest
+  ): Promise<OAuthClient> {
+    // ID tokens are checked against the JWKS, which cannot carry the project's shared secret
+    if (!signingKeyService.isAsymmetric(project.jwtAlgorithm)) {
+      throw new BadRequestError('OpenID Connect requires an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+    }
+
+    if (!request.clientId) {
+      throw new BadRequestError('client_id is required');
+    }
+
+    const client = await oauthClientService.getClient(env, project.id, request.clientId);
+    if (!client || !client.enabled) {
+      throw new BadRequestError('Unknown OAuth client');
+    }
+
+    if (client.clientType === 'service') {
+      throw new BadRequestError('Service clients cannot use the authorization code flow');
+    }
+
+    // Exact match against the client registration, and still allowed by the project
+    const redirectUris = safeJsonParse<string[]>(client.redirectUris, []);
+    if (
+      !request.redirectUri ||
+      !redirectUris.includes(request.redirectUri) ||
+      !isAllowedRedirectUrl(request.redirectUri, project.siteUrl, project.redirectUrls)
+    ) {
+      throw new BadRequestError('Redirect URI is not registered for this client');
+    }
+
+    return client;
+  }
+
+  /**
+   * Check the remaining authorization request parameters
+   * @param client - Client the request is for
+   * @param request - Authorization request
+   * @throws {OAuthError} With the error code to send back to the client's redirect URI
+   */
+  private checkAuthorizationRequest(client: OAuthClient, request: AuthorizationRequest): void {
+    if (request.responseType !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'Only the authorization code flow is supported');
+    }
+
+    if (!this.parseScope(request.scope).includes('openid')) {
+      throw new OAuthError('invalid_scope', 'The openid scope is required');
+    }
+
+    if (request.codeChallenge) {
+      if (request.codeChallengeMethod !== 'S256') {
+        throw new OAuthError('invalid_request', 'code_challenge_method must be S256');
+      }
+    } else if (client.clientType === 'public') {
+      throw new OAuthError('invalid_request', 'PKCE is required for public clients');
+    }
+  }
+
+  /**
+   * Build a redirect URL with query parameters
+   * @param url - Target URL
+   * @param params - Query parameters to add
+   * @returns Redirect URL
+   */
+  private buildRedirect(url: string, params: Record<string, string | undefined>): string {
+    const target = new URL(url);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        target.searchParams.set(name, value);
+      }
+    }
+    return target.toString();
+  }
+
+  /**
+   * Build the redirect that reports an authorization error to the client
+   * @param request - Authorization request
+   * @param error - OAuth error
+   * @returns Redirect URL
+   */
+  private buildErrorRedirect(request: AuthorizationRequest, error: OAuthError): string {
+    return this.buildRedirect(request.redirectUri, {
+      error: error.code,
+      error_description: error.message,
+      state: request.state,
+    });
+  }
+
+  /**
+   * Start an authorization request (GET /authorize)
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param request - Authorization request from the query string
+   * @returns URL of the project's sign-in page, or of the client's redirect URI with an error
+   * @throws {BadRequestError} If the client or redirect URI is invalid, or no site URL is configured
+   */
+  async startAuthorization(env: Env, project: Project, request: AuthorizationRequest): Promise<string> {
+    const client = await this.getAuthorizationClient(env, project, request);
+
+    try {
+      this.checkAuthorizationRequest(client, request);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return this.buildErrorRedirect(request, error);
+      }
+      throw error;
+    }
+
+    if (!project.siteUrl) {
+      throw new BadRequestError('No siteUrl configured for project');
+    }
+
+    // Hand the request to the project's own sign-in and consent page
+    return this.buildRedirect(`${project.siteUrl}/oauth/authorize`, {
+      response_type: request.responseType,
+      client_id: request.clientId,
+      redirect_uri: request.redirectUri,
+      scope: request.scope,
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: request.codeChallengeMethod,
+      prompt: request.prompt,
+    });
+  }
+
+  /**
+   * Check whether the user has already granted every requested scope to the client
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @param userId - User ID
+   * @param scopes - Requested scopes
+   * @returns Previously granted scopes, or null if consent is still needed
+   */
+  private async getGrantedScopes(
+    env: Env,
+    projectId: string,
+    clientId: string,
+    userId: string,
+    scopes: string[]
+  ): Promise<string[] | null> {
+    const db = drizzle(env.DB);
+
+    const consent = await db
+      .select()
+      .from(oauthConsents)
+      .where(
+        and(
+          eq(oauthConsents.projectId, projectId),
+          eq(oauthConsents.clientId, clientId),
+          eq(oauthConsents.userId, userId)
+        )
+      )
+      .get();
+
+    const granted = consent ? consent.scope.split(' ') : [];
+    return scopes.every((scope) => granted.includes(scope)) ? granted : null;
+  }
+
+  /**
+   * Remember the scopes a user granted to a client
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @param userId - User ID
+   * @param scopes - Granted scopes
+   */
+  private async saveConsent(
+    env: Env,
+    projectId: string,
+    clientId: string,
+    userId: string,
+    scopes: string[]
+  ): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const where = and(
+      eq(oauthConsents.projectId, projectId),
+      eq(oauthConsents.clientId, clientId),
+      eq(oauthConsents.userId, userId)
+    );
+
+    const existing = await db.select().from(oauthConsents).where(where).get();
+
+    if (existing) {
+      const scope = [...new Set([...existing.scope.split(' '), ...scopes])].join(' ');
+      await db.update(oauthConsents).set({ scope, updatedAt: getTimestamp() }).where(where);
+      return;
+    }
+
+    await db.insert(oauthConsents).values({ projectId, clientId, userId, scope: scopes.join(' ') });
+  }
+
+  /**
+   * Complete an authorization request for a signed-in user (POST /authorize)
+   *
+   * Without a consent decision this reports whether consent is needed, so the sign-in page
+   * can show the consent screen only when required. Otherwise it issues an authorization code
+   * (or an access_denied error) and returns the redirect back to the client.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param user - Signed-in user
+   * @param session - Access token payload of the user's session
+   * @param request - Authorization request forwarded by the sign-in page
+   * @param consent - User's decision, if the consent screen was shown
+   * @returns Consent prompt details, or the redirect back to the client
+   * @throws {BadRequestError} If the client or redirect URI is invalid
+   * @throws {AuthorizationError} If the session belongs to another OAuth client
+   */
+  async authorize(
+    env: Env,
+    project: Project,
+    user: User,
+    session: JWTPayload,
+    request: AuthorizationRequest,
+    consent?: 'approve' | 'deny'
+  ): Promise<AuthorizeResult> {
+    // A token issued to a third-party client must not be able to authorize other clients
+    if (session.clientId) {
+      throw new AuthorizationError('Authorization requires a first-party session');
+    }
+
+    const client = await this.getAuthorizationClient(env, project, request);
+
+    try {
+      this.checkAuthorizationRequest(client, request);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return { consentRequired: false, redirectTo: this.buildErrorRedirect(request, error) };
+      }
+      throw error;
+    }
+
+    const scopes = this.parseScope(request.scope);
+
+    if (consent === 'deny') {
+      return {
+        consentRequired: false,
+        redirectTo: this.buildErrorRedirect(request, new OAuthError('access_denied', 'The user denied the request')),
+      };
+    }
+
+    if (consent === 'approve') {
+      await this.saveConsent(env, project.id, client.clientId, user.id, scopes);
+    } else if (!client.skipConsent && !(await this.getGrantedScopes(env, project.id, client.clientId, user.id, scopes))) {
+      if (request.prompt === 'none') {
+        return {
+          consentRequired: false,
+          redirectTo: this.buildErrorRedirect(request, new OAuthError('consent_required', 'User consent is required')),
+        };
+      }
+      return { consentRequired: true, client: { clientId: client.clientId, name: client.name }, scopes };
+    }
+
+    const code = await this.createAuthorizationCode(env, project.id, client.clientId, user.id, request, scopes, session.iat);
+
+    return {
+      consentRequired: false,
+      redirectTo: this.buildRedirect(request.redirectUri, { code, state: request.state }),
+    };
+  }
+
+  /**
+   * Store a single-use authorization code
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param clientId - OAuth client ID
+   * @param userId - User ID
+   * @param request - Authorization request
+   * @param scopes - Granted scopes
+   * @param authTime - When the user signed in (Unix seconds)
+   * @returns Plaintext code
+   */
+  private async createAuthorizationCode(
+    env: Env,
+    projectId: string,
+    clientId: string,
+    userId: string,
+    request: AuthorizationRequest,
+    scopes: string[],
+    authTime: number
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
+    const code = nanoid(32);
+    const now = Math.floor(Date.now() / 1000);
+
+    await db.insert(oauthAuthorizationCodes).values({
+      projectId,
+      clientId,
+      userId,
+      codeHash: await hashToken(code),
+      redirectUri: request.redirectUri,
+      scope: scopes.join(' '),
+      nonce: request.nonce || null,
+      codeChallenge: request.codeChallenge || null,
+      authTime,
+      expiresAt: now + AUTHORIZATION_CODE_EXPIRY_SECONDS,
+      createdAt: now,
+      usedAt: null,
+    });
+
+    return code;
+  }
+
+  /**
+   * Read client credentials from HTTP Basic auth or the form body
+   * @param request - Token request
+   * @param form - Form parameters
+   * @returns Client ID and secret
+   * @throws {OAuthError} invalid_request if the credentials are missing or sent twice
+   */
+  private getClientCredentials(
+    request: Request,
+    form: Record<string, string>
+  ): { clientId: string; clientSecret?: string } {
+    const authorization = request.headers.get('Authorization');
+
+    if (authorization?.startsWith('Basic ')) {
+      if (form.client_secret) {
+        throw new OAuthError('invalid_request', 'Use only one client authentication method');
+      }
+
+      let decoded: string;
+      try {
+        decoded = atob(authorization.slice(6));
+      } catch {
+        throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+      }
+
+      const separator = decoded.indexOf(':');
+      if (separator < 0) {
+        throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+      }
+
+      // Credentials are form-urlencoded before being base64 encoded (RFC 6749 section 2.3.1)
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      };
+    }
+
+    if (!form.client_id) {
+      throw new OAuthError('invalid_request', 'client_id is required');
+    }
+
+    return { clientId: form.client_id, clientSecret: form.client_secret || undefined };
+  }
+
+  /**
+   * Handle a token request (POST /token)
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @param form - Form encoded request parameters
+   * @param request - Request object for client authentication and IP/UA
+   * @returns Token response
+   * @throws {OAuthError} With the RFC 6749 error code
+   */
+  async token(
+    env: Env,
+    project: Project,
+    issuer: string,
+    form: Record<string, string>,
+    request: Request
+  ): Promise<OidcTokenResponse> {
+    if (!project.enabled) {
+      throw new OAuthError('invalid_request', 'Project is disabled');
+    }
+
+    if (form.grant_type !== 'authorization_code' && form.grant_type !== 'client_credentials') {
+      throw new OAuthError('unsupported_grant_type', 'Only the authorization_code and client_credentials grants are supported');
+    }
+
+    const { clientId, clientSecret } = this.getClientCredentials(request, form);
+    const client = await oauthClientService.authenticateClient(env, project.id, clientId, clientSecret);
+
+    // Service clients act on their own behalf and never on a user's
+    if ((client.clientType === 'service') !== (form.grant_type === 'client_credentials')) {
+      throw new OAuthError('unauthorized_client', `This client cannot use the ${form.grant_type} grant`);
+    }
+
+    if (form.grant_type === 'client_credentials') {
+      return this.issueClientToken(env, project, client, form);
+    }
+
+    // The project may have switched back to HS256 after the code was issued
+    if (!signingKeyService.isAsymmetric(project.jwtAlgorithm)) {
+      throw new OAuthError('unauthorized_client', 'OpenID Connect requires an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+    }
+
+    return this.exchangeAuthorizationCode(env, project, issuer, client, form, request);
+  }
+
+  /**
+   * Issue a service token to a client (client_credentials grant)
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param client - Authenticated service client
+   * @param form - Form encoded request parameters
+   * @returns Token response without an ID token
+   * @throws {OAuthError} invalid_scope if a requested scope is not allowed for the client
+   */
+  private async issueClientToken(
+    env: Env,
+    project: Project,
+    client: OAuthClient,
+    form: Record<string, string>
+  ): Promise<OidcTokenResponse> {
+    const allowedScopes = safeJsonParse<string[]>(client.allowedScopes, []);
+
+    // Without a scope parameter the client gets every scope it is allowed
+    const requested = [...new Set((form.scope || '').split(' ').filter(Boolean))];
+    const denied = requested.filter((scope) => !allowedScopes.includes(scope));
+    if (denied.length > 0) {
+      throw new OAuthError('invalid_scope', `Scope not allowed for this client: ${denied.join(' ')}`);
+    }
+
+    const scope = (requested.length > 0 ? requested : allowedScopes).join(' ');
+    const accessToken = await signingKeyService.signClientToken(env, project, client.clientId, scope);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: project.jwtExpirySeconds,
+      scope,
+    };
+  }
+
+  /**
+   * Exchange an authorization code for tokens
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @param client - Authenticated client
+   * @param form - Form encoded request parameters
+   * @param request - Request object for IP/UA
+   * @returns Token response
+   * @throws {OAuthError} invalid_grant if the code, redirect URI or PKCE verifier does not match
+   */
+  private async exchangeAuthorizationCode(
+    env: Env,
+    project: Project,
+    issuer: string,
+    client: OAuthClient,
+    form: Record<string, string>,
+    request: Request
+  ): Promise<OidcTokenResponse> {
+    const db = drizzle(env.DB);
+
+    if (!form.code || !form.redirect_uri) {
+      throw new OAuthError('invalid_request', 'code and redirect_uri are required');
+    }
+
+    const record = await db
+      .select()
+      .from(oauthAuthorizationCodes)
+      .where(
+        and(
+          eq(oauthAuthorizationCodes.projectId, project.id),
+          eq(oauthAuthorizationCodes.codeHash, await hashToken(form.code))
+        )
+      )
+      .get();
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (
+      !record ||
+      record.clientId !== client.clientId ||
+      record.redirectUri !== form.redirect_uri ||
+      record.usedAt !== null ||
+      now > record.expiresAt
+    ) {
+      throw new OAuthError('invalid_grant', 'Invalid or expired authorization code');
+    }
+
+    if (record.codeChallenge) {
+      if (!form.code_verifier || !CODE_VERIFIER_PATTERN.test(form.code_verifier)) {
+        throw new OAuthError('invalid_grant', 'A valid code_verifier is required');
+      }
+
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(form.code_verifier));
+      if (jose.base64url.encode(new Uint8Array(digest)) !== record.codeChallenge) {
+        throw new OAuthError('invalid_grant', 'PKCE verification failed');
+      }
+    }
+
+    // Conditional on the code still being unused so concurrent exchanges cannot both succeed
+    const consumed = await db
+      .update(oauthAuthorizationCodes)
+      .set({ usedAt: now })
+      .where(and(eq(oauthAuthorizationCodes.id, record.id), isNull(oauthAuthorizationCodes.usedAt)))
+      .returning({ id: oauthAuthorizationCodes.id });
+
+    if (consumed.length === 0) {
+      throw new OAuthError('invalid_grant', 'Invalid or expired authorization code');
+    }
+
+    const user = await userService.getUserById(env, project.userTableName, record.userId);
+    if (!user || user.status !== 'active') {
+      throw new OAuthError('invalid_grant', 'Account is not active');
+    }
+
+    const scopes = record.scope.split(' ');
+
+    const accessToken = await signingKeyService.signAccessToken(env, project, user.id, user.email, {
+      scope: record.scope,
+      client_id: client.clientId,
+    });
+
+    const idToken = await signingKeyService.signIdToken(env, project, {
+      issuer,
+      audience: client.clientId,
+      subject: user.id,
+      auth_time: record.authTime,
+      ...(record.nonce && { nonce: record.nonce }),
+      ...this.getScopedClaims(user, scopes),
+    });
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'user_login',
+      eventStatus: 'success',
+      userId: user.id,
+      ipAddress: getIpAddress(request),
+      userAgent: getUserAgent(request),
+      eventData: { email: user.email, method: 'oidc', clientId: client.clientId, scope: record.scope },
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: project.jwtExpirySeconds,
+      id_token: idToken,
+      scope: record.scope,
+    };
+  }
+
+  /**
+   * Verify an access token without throwing
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param token - Candidate access token
+   * @returns Payload, or null if the token is not a valid access token of the project
+   */
+  private async tryVerifyAccessToken(env: Env, project: Project, token: string): Promise<JWTPayload | null> {
+    try {
+      const payload = await signingKeyService.verifyAccessToken(env, project, token);
+      return payload.projectId === project.id ? payload : null;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Describe a token to a resource server (POST /introspect)
+   *
+   * Only confidential and service clients may introspect. Unknown, expired and revoked tokens
+   * are reported as inactive without saying why.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @param form - Form encoded request parameters (token, token_type_hint)
+   * @param request - Request object for client authentication
+   * @returns Introspection response
+   * @throws {OAuthError} If the client cannot be authenticated or is a public client
+   */
+  async introspect(
+    env: Env,
+    project: Project,
+    issuer: string,
+    form: Record<string, string>,
+    request: Request
+  ): Promise<TokenIntrospectionResponse> {
+    const { clientId, clientSecret } = this.getClientCredentials(request, form);
+    const client = await oauthClientService.authenticateClient(env, project.id, clientId, clientSecret);
+
+    if (client.clientType === 'public') {
+      throw new OAuthError('unauthorized_client', 'Public clients cannot introspect tokens');
+    }
+
+    if (!form.token) {
+      throw new OAuthError('invalid_request', 'token is required');
+    }
+
+    // The hint only decides which kind of token is looked up first
+    const lookups = form.token_type_hint === 'refresh_token'
+      ? [this.introspectRefreshToken, this.introspectAccessToken]
+      : [this.introspectAccessToken, this.introspectRefreshToken];
+
+    for (const lookup of lookups) {
+      const result = await lookup.call(this, env, project, issuer, form.token);
+      if (result) {
+        return result;
+      }
+    }
+
+    return { active: false };
+  }
+
+  /**
+   * Introspect an access token
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @param token - Candidate access token
+   * @returns Introspection response, or null if the token is not an active access token
+   */
+  private async introspectAccessToken(
+    env: Env,
+    project: Project,
+    issuer: string,
+    token: string
+  ): Promise<TokenIntrospectionResponse | null> {
+    const payload = await this.tryVerifyAccessToken(env, project, token);
+    if (!payload) {
+      return null;
+    }
+
+    return {
+      active: true,
+      token_type: 'Bearer',
+      ...(payload.scope && { scope: payload.scope }),
+      ...(payload.clientId && { client_id: payload.clientId }),
+      sub: payload.sub,
+      sub_type: payload.subType,
+      exp: payload.exp,
+      iat: payload.iat,
+      iss: issuer,
+      ...(payload.jti && { jti: payload.jti }),
+    };
+  }
+
+  /**
+   * Introspect a refresh token
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param issuer - Project issuer URL
+   * @param token - Candidate refresh token
+   * @returns Introspection response, or null if the token is not an active refresh token
+   */
+  private async introspectRefreshToken(
+    env: Env,
+    project: Project,
+    issuer: string,
+    token: string
+  ): Promise<TokenIntrospectionResponse | null> {
+    const record = await authService.findActiveRefreshToken(env, project.id, token);
+    if (!record) {
+      return null;
+    }
+
+    return {
+      active: true,
+      token_type: 'refresh_token',
+      sub: record.userId,
+      sub_type: 'user',
+      exp: Math.floor(new Date(record.expiresAt).getTime() / 1000),
+      iss: issuer,
+    };
+  }
+
+  /**
+   * Revoke an access or refresh token (POST /revoke)
+   *
+   * Holding a token is enough to revoke it, so the project's own apps may call this without
+   * client credentials. Tokens issued to an OAuth client can only be revoked by that client.
+   * Unknown and already invalid tokens are ignored, as RFC 7009 requires.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param form - Form encoded request parameters (token, token_type_hint)
+   * @param request - Request object for client authentication
+   * @throws {OAuthError} If client authentication fails or the token belongs to another client
+   */
+  async revoke(env: Env, project: Project, form: Record<string, string>, request: Request): Promise<void> {
+    let client: OAuthClient | null = null;
+    if (form.client_id || request.headers.get('Authorization')?.startsWith('Basic ')) {
+      const { clientId, clientSecret } = this.getClientCredentials(request, form);
+      client = await oauthClientService.authenticateClient(env, project.id, clientId, clientSecret);
+    }
+
+    if (!form.token) {
+      throw new OAuthError('invalid_request', 'token is required');
+    }
+
+    // The hint only decides which kind of token is looked up first
+    if (form.token_type_hint === 'refresh_token') {
+      if (!(await this.revokeRefreshToken(env, project, form.token))) {
+        await this.revokeAccessToken(env, project, client, form.token);
+      }
+    } else if (!(await this.revokeAccessToken(env, project, client, form.token))) {
+      await this.revokeRefreshToken(env, project, form.token);
+    }
+  }
+
+  /**
+   * Revoke an access token by adding it to the denylist
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param client - Authenticated client, if any
+   * @param token - Candidate access token
+   * @returns True if the token was a valid access token
+   * @throws {OAuthError} unauthorized_client if the token was issued to another client
+   */
+  private async revokeAccessToken(
+    env: Env,
+    project: Project,
+    client: OAuthClient | null,
+    token: string
+  ): Promise<boolean> {
+    const payload = await this.tryVerifyAccessToken(env, project, token);
+    if (!payload) {
+      return false;
+    }
+
+    if (payload.clientId && payload.clientId !== client?.clientId) {
+      throw new OAuthError('unauthorized_client', 'The token was not issued to this client');
+    }
+
+    // Tokens issued before revocation existed have no jti and simply run out
+    if (payload.jti) {
+      await tokenDenylistService.revoke(env, project.id, payload.jti, payload.exp, 'revoked');
+    }
+    return true;
+  }
+
+  /**
+   * Revoke a refresh token
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param token - Candidate refresh token
+   * @returns True if the token was an active refresh token
+   */
+  private async revokeRefreshToken(env: Env, project: Project, token: string): Promise<boolean> {
+    const record = await authService.findActiveRefreshToken(env, project.id, token);
+    if (!record) {
+      return false;
+    }
+
+    await authService.revokeRefreshToken(env, record.id, 'revoked');
+    return true;
+  }
+
+  /**
+   * User claims released by the granted scopes
+   * @param user - User
+   * @param scopes - Granted scopes
+   * @returns Claims for the ID token and userinfo response
+   */
+  private getScopedClaims(user: User, scopes: string[]): Partial<IdTokenClaims> {
+    // D1 returns snake_case column names, not camelCase
+    const row = user as any;
+    const claims: Partial<IdTokenClaims> = {};
+
+    if (scopes.includes('email')) {
+      claims.email = user.email;
+      claims.email_verified = Boolean(row.email_verified ?? user.emailVerified);
+    }
+
+    if (scopes.includes('profile')) {
+      const name = row.display_name ?? user.displayName;
+      const picture = row.avatar_url ?? user.avatarUrl;
+      if (name) claims.name = name;
+      if (picture) claims.picture = picture;
+    }
+
+    return claims;
+  }
+
+  /**
+   * Build the userinfo response for an access token issued to an OAuth client
+   * @param user - User the token was issued for
+   * @param payload - Verified access token payload
+   * @returns Claims released by the token's scopes
+   * @throws {OAuthError} insufficient_scope if the token was not issued for the openid scope
+   */
+  getUserInfo(user: User, payload: JWTPayload): Record<string, unknown> {
+    const scopes = (payload.scope || '').split(' ');
+    if (!scopes.includes('openid')) {
+      throw new OAuthError('insufficient_scope', 'The access token was not issued for the openid scope', 403);
+    }
+
+    return { sub: user.id, ...this.getScopedClaims(user, scopes) };
+  }
+}
+
+// Export singleton instance
+export const oidcService = new OidcService();
@@ -0,0 +1,322 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import { emailOtpCodes } from '../db/schema';
+import { hashToken } from '../utils/crypto';
+import { getIpAddress, getUserAgent } from '../utils/helpers';
+import { auditService } from './audit-service';
+import { authService } from './auth-service';
+import type { SignInResult } from './auth-service';
+import { rateLimitService } from './rate-limit-service';
+import { userService } from './user-service';
+import { projectService } from './project-service';
+import type { Env, Project, User } from '../types';
+import { NotFoundError, AuthenticationError } from '../utils/errors';
+
+/**
+ * One-time code lifetime in seconds (10 minutes)
+ */
+const OTP_EXPIRY_SECONDS = 600;
+
+/**
+ * Wrong guesses allowed against a single code before it is burned
+ */
+const OTP_MAX_ATTEMPTS = 5;
+
+export type OtpPurpose = 'login' | 'email_verification';
+
+/**
+ * OTP Service - Handles 6-digit one-time codes sent by email for sign-in and email verification
+ */
+export class OtpService {
+  /**
+   * Generate a uniformly distributed 6-digit numeric code
+   * @returns Zero-padded code
+   */
+  generateCode(): string {
+    const buffer = new Uint32Array(1);
+    // Reject values above the largest multiple of 1e6 to avoid modulo bias
+    const limit = Math.floor(0xffffffff / 1_000_000) * 1_000_000;
+    do {
+      crypto.getRandomValues(buffer);
+    } while (buffer[0] >= limit);
+
+    return (buffer[0] % 1_000_000).toString().padStart(6, '0');
+  }
+
+  /**
+   * Hash a code for storage
+   *
+   * The email is mixed in so that a hash of one user's code is useless for any other address.
+   *
+   * @param email - Email address the code was sent to
+   * @param code - Plaintext code
+   * @returns SHA-256 hash
+   */
+  private hashCode(email: string, code: string): Promise<string> {
+    return hashToken(`${email.toLowerCase()}:${code}`);
+  }
+
+  /**
+   * Create a one-time code
+   *
+   * Any earlier unused code for the same email and purpose is invalidated so only the most
+   * recently sent code works.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param email - User email address
+   * @param purpose - What the code may be used for
+   * @returns Plaintext code to be sent via email
+   */
+  async createOtpCode(
+    env: Env,
+    projectId: string,
+    userId: string,
+    email: string,
+    purpose: OtpPurpose
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
+    const code = this.generateCode();
+    const codeHash = await this.hashCode(email, code);
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await db
+      .update(emailOtpCodes)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(emailOtpCodes.projectId, projectId),
+          eq(emailOtpCodes.email, email),
+          eq(emailOtpCodes.purpose, purpose),
+          isNull(emailOtpCodes.usedAt)
+        )
+      );
+
+    await db.insert(emailOtpCodes).values({
+      projectId,
+      userId,
+      email,
+      purpose,
+      codeHash,
+      attempts: 0,
+      expiresAt: now + OTP_EXPIRY_SECONDS,
+      createdAt: now,
+      usedAt: null,
+    });
+
+    return code;
+  }
+
+  /**
+   * Check a code against the latest active code for an email and consume it
+   *
+   * Wrong guesses are counted against the stored code; once the limit is reached the code
+   * is invalidated and a new one must be requested.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param email - Email address the code was sent to
+   * @param code - Plaintext code
+   * @param purpose - What the code is being used for
+   * @returns User ID the code was issued for
+   * @throws {AuthenticationError} If the code is wrong, expired, used up or missing
+   */
+  async consumeOtpCode(
+    env: Env,
+    projectId: string,
+    email: string,
+    code: string,
+    purpose: OtpPurpose
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
+    const record = await db
+      .select()
+      .from(emailOtpCodes)
+      .where(
+        and(
+          eq(emailOtpCodes.projectId, projectId),
+          eq(emailOtpCodes.email, email),
+          eq(emailOtpCodes.purpose, purpose),
+          isNull(emailOtpCodes.usedAt)
+        )
+      )
+      .orderBy(desc(emailOtpCodes.createdAt))
+      .get();
+
+    if (!record) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now > record.expiresAt) {
+      throw new AuthenticationError('Code has expired');
+    }
+
+    if (record.attempts >= OTP_MAX_ATTEMPTS) {
+      throw new AuthenticationError('Too many attempts. Please request a new code');
+    }
+
+    const codeHash = await this.hashCode(email, code);
+
+    if (codeHash !== record.codeHash) {
+      const attempts = record.attempts + 1;
+      await db
+        .update(emailOtpCodes)
+        .set({ attempts, usedAt: attempts >= OTP_MAX_ATTEMPTS ? now : null })
+        .where(eq(emailOtpCodes.id, record.id));
+
+      throw new AuthenticationError('Invalid code');
+    }
+
+    // Conditional on the code still being unused so concurrent requests cannot both succeed
+    const consumed = await db
+      .update(emailOtpCodes)
+      .set({ usedAt: now })
+      .where(and(eq(emailOtpCodes.id, record.id), isNull(emailOtpCodes.usedAt)))
+      .returning({ id: emailOtpCodes.id });
+
+    if (consumed.length === 0) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    return record.userId;
+  }
+
+  /**
+   * Request a one-time code for an email address
+   *
+   * Returns null when no active user exists so callers can respond identically either way.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param email - Email address
+   * @param purpose - What the code may be used for
+   * @returns Plaintext code, user and project, or null if there is no such user
+   */
+  async requestOtp(
+    env: Env,
+    projectId: string,
+    email: string,
+    purpose: OtpPurpose
+  ): Promise<{ code: string; user: User; project: Project } | null> {
+    const project = await projectService.getProject(env, projectId);
+    if (!project || !project.enabled) {
+      return null;
+    }
+
+    const user = await userService.getUserByEmail(env, project.userTableName, email);
+    if (!user || user.status !== 'active') {
+      return null;
+    }
+
+    const code = await this.createOtpCode(env, projectId, user.id, user.email, purpose);
+
+    return { code, user, project };
+  }
+
+  /**
+   * Verify a one-time code
+   *
+   * A valid code always proves control of the mailbox, so the email is marked verified.
+   * For the 'login' purpose the same access/refresh token pair as a password login is issued.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param email - Email address the code was sent to
+   * @param code - Plaintext 6-digit code
+   * @param purpose - What the code is being used for
+   * @param request - Request object for IP/UA
+   * @returns User, plus tokens or an MFA challenge for the 'login' purpose
+   * @throws {AuthenticationError} If the code is invalid
+   */
+  async verifyOtp(
+    env: Env,
+    projectId: string,
+    email: string,
+    code: string,
+    purpose: OtpPurpose,
+    request: Request
+  ): Promise<{ user: User } | ({ user: User } & SignInResult)> {
+    const ipAddress = getIpAddress(request);
+    const userAgent = getUserAgent(request);
+
+    // Check rate limit
+    await rateLimitService.checkRateLimit(env, projectId, 'otp', ipAddress, email);
+
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (!project.enabled) {
+      throw new AuthenticationError('Project is disabled');
+    }
+
+    try {
+      const userId = await this.consumeOtpCode(env, projectId, email, code, purpose);
+
+      const user = await userService.getUserById(env, project.userTableName, userId);
+      if (!user || user.status !== 'active') {
+        throw new AuthenticationError('Account is not active');
+      }
+
+      // D1 returns snake_case column names, not camelCase
+      const emailVerified = (user as any).email_verified || user.emailVerified;
+      const verifiedUser = emailVerified
+        ? user
+        : await userService.updateUser(env, project.userTableName, user.id, { emailVerified: true });
+
+      await rateLimitService.recordAttempt(env, projectId, 'otp', ipAddress, user.email, true, user.id);
+
+      if (purpose === 'email_verification') {
+        await auditService.logEvent(env, {
+          projectId,
+          eventType: 'email_confirmed',
+          eventStatus: 'success',
+          userId: user.id,
+          ipAddress,
+          userAgent,
+          eventData: { email: user.email, method: 'otp' },
+        });
+
+        return { user: verifiedUser };
+      }
+
+      const session = await authService.signIn(env, project, verifiedUser, 'otp', { ipAddress, userAgent });
+      if ('mfaRequired' in session) {
+        return { user: verifiedUser, ...session };
+      }
+
+      await auditService.logEvent(env, {
+        projectId,
+        eventType: 'user_login',
+        eventStatus: 'success',
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        eventData: { email: user.email, method: 'otp' },
+      });
+
+      return { user: verifiedUser, ...session };
+    } catch (error) {
+      await rateLimitService.recordAttempt(
+        env,
+        projectId,
+        'otp',
+        ipAddress,
+        email,
+        false,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const otpService = new OtpService();
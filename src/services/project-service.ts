@@ -4,8 +4,10 @@ import { projects, rateLimitRules } from '../db/schema';
 import type { Env, CreateProjectData, Project } from '../types';
 import { generateJWTSecret } from '../utils/crypto';
 import { generateProjectIdFromName, generateUserTableName, sanitizeTableName } from '../utils/helpers';
-import { NotFoundError, ConflictError } from '../utils/errors';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
 import { auditService } from './audit-service';
+import { EmailProviderService } from './email-provider-service';
+import { signingKeyService, JWT_ALGORITHMS } from './signing-key-service';
 
 /**
  * Project Service - Manages projects and dynamic user tables
@@ -94,6 +96,9 @@ export class ProjectService {
       // Create default rate limit rules
       await this.createDefaultRateLimits(env, project.id);
 
+      // Register the JWT secret as the first key in the project's signing key ring
+      await signingKeyService.registerProjectSecret(env, project.id);
+
       // Log audit event
       await auditService.logEvent(env, {
         projectId: project.id,
@@ -141,6 +146,29 @@ export class ProjectService {
     // Create trigger for auto-updating timestamps
     const triggerSQL = `CREATE TRIGGER IF NOT EXISTS update_${safeName}_timestamp AFTER UPDATE ON ${safeName} FOR EACH ROW BEGIN UPDATE ${safeName} SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id; END;`;
     await db.exec(triggerSQL);
+
+    // Create companion table for MFA factors
+    await this.createProjectMfaFactorTable(db, tableName);
+  }
+
+  /**
+   * Create MFA factor table for a project user table
+   *
+   * Idempotent, so it is also used to add the table to projects created before MFA existed.
+   *
+   * @param db - D1 database
+   * @param tableName - User table name
+   */
+  async createProjectMfaFactorTable(
+    db: D1Database,
+    tableName: string
+  ): Promise<void> {
+    const safeName = sanitizeTableName(tableName);
+    const factorTable = `${safeName}_mfa_factors`;
+
+    // secret is encrypted with ENCRYPTION_KEY when configured; last_used_step blocks TOTP code replay
+    await db.exec(`CREATE TABLE IF NOT EXISTS ${factorTable} (id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))), user_id TEXT NOT NULL REFERENCES ${safeName}(id) ON DELETE CASCADE, factor_type TEXT NOT NULL DEFAULT 'totp' CHECK (factor_type IN ('totp')), friendly_name TEXT, secret TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'unverified' CHECK (status IN ('unverified', 'verified')), last_used_step INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP, verified_at TEXT);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_${factorTable}_user ON ${factorTable}(user_id, status);`);
   }
 
   /**
@@ -322,6 +350,22 @@ export class ProjectService {
       throw new NotFoundError('Project not found');
     }
 
+    if (data.jwtAlgorithm !== undefined && data.jwtAlgorithm !== existing.jwtAlgorithm) {
+      if (!(JWT_ALGORITHMS as readonly string[]).includes(data.jwtAlgorithm)) {
+        throw new BadRequestError(`Unsupported JWT algorithm: ${data.jwtAlgorithm}`);
+      }
+
+      // Create the key pair before switching, so a failure leaves the old algorithm in place
+      await signingKeyService.ensureSigningKey(env, { ...existing, jwtAlgorithm: data.jwtAlgorithm });
+    }
+
+    if (data.emailProviderId && data.emailProviderId !== existing.emailProviderId) {
+      const provider = await new EmailProviderService(env.DB).getProvider(data.emailProviderId);
+      if (!provider) {
+        throw new BadRequestError('Email provider not found');
+      }
+    }
+
     // Convert redirectUrls array to JSON string for storage
     const updateData: any = { ...data };
     if (data.redirectUrls !== undefined) {
@@ -370,6 +414,7 @@ export class ProjectService {
     // Drop user table
     if (project.userTableName) {
       const safeName = sanitizeTableName(project.userTableName);
+      await env.DB.exec(`DROP TABLE IF EXISTS ${safeName}_mfa_factors;`);
       await env.DB.exec(`DROP TABLE IF EXISTS ${safeName};`);
     }
 
@@ -384,30 +429,6 @@ export class ProjectService {
       eventData: { projectId, name: project.name },
     });
   }
-
-  /**
-   * Rotate JWT secret for a project
-   * @param env - Environment bindings
-   * @param projectId - Project ID
-   * @param adminUserId - Admin user ID
-   * @returns New JWT secret
-   */
-  async rotateJWTSecret(
-    env: Env,
-    projectId: string,
-    adminUserId?: string
-  ): Promise<string> {
-    const newSecret = generateJWTSecret();
-
-    await this.updateProject(
-      env,
-      projectId,
-      { jwtSecret: newSecret },
-      adminUserId
-    );
-
-    return newSecret;
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,575 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, desc, ne } from 'drizzle-orm';
+import * as jose from 'jose';
+import { projectSigningKeys } from '../db/schema';
+import type { ProjectSigningKey } from '../db/schema';
+import { jwtService } from './jwt-service';
+import type { IdTokenClaims, SigningKey } from './jwt-service';
+import { auditService } from './audit-service';
+import { tokenDenylistService } from './token-denylist-service';
+import type { Env, JWTPayload, Project, SigningKeyInfo } from '../types';
+import { encrypt, decrypt } from '../utils/crypto';
+import { getTimestamp } from '../utils/helpers';
+import {
+  AppError,
+  AuthenticationError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors';
+
+/**
+ * JWT algorithms a project can sign access tokens with
+ */
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'ES256', 'EdDSA'] as const;
+
+export type JwtAlgorithm = typeof JWT_ALGORITHMS[number];
+export type AsymmetricJwtAlgorithm = Exclude<JwtAlgorithm, 'HS256'>;
+
+/**
+ * Signing Key Service - Manages each project's ring of JWT signing keys
+ *
+ * A project's ring holds its own jwtSecret plus any generated keys. New access tokens are
+ * signed with the newest active key for the project's algorithm, while every key that has
+ * not been retired is still accepted. Rotation is therefore three steps: schedule a 'next'
+ * key (published in the JWKS straight away), activate it, and retire the old key once
+ * tokens signed with it have expired.
+ */
+export class SigningKeyService {
+  // Imported key material by kid, kept for the lifetime of the isolate. Only immutable
+  // material is cached: key status is always read from D1 so retirement is immediate.
+  private keyCache = new Map<string, CryptoKey | Uint8Array>();
+
+  /**
+   * Check whether an algorithm uses a key pair rather than a shared secret
+   * @param algorithm - JWT algorithm
+   * @returns True for RS256, ES256 and EdDSA
+   */
+  isAsymmetric(algorithm: string | null | undefined): algorithm is AsymmetricJwtAlgorithm {
+    return algorithm === 'RS256' || algorithm === 'ES256' || algorithm === 'EdDSA';
+  }
+
+  /**
+   * Key ID of a project's own jwtSecret in its key ring
+   *
+   * Tokens signed with the project secret carry no kid, so they resolve to this entry.
+   *
+   * @param projectId - Project ID
+   * @returns Key ID
+   */
+  getProjectSecretKid(projectId: string): string {
+    return `${projectId}:jwt-secret`;
+  }
+
+  /**
+   * Get the key used to encrypt key material at rest
+   * @param env - Environment bindings
+   * @returns Encryption key
+   * @throws {AppError} If ENCRYPTION_KEY is not configured
+   */
+  private getEncryptionKey(env: Env): string {
+    if (!env.ENCRYPTION_KEY) {
+      throw new AppError(500, 'ENCRYPTION_KEY must be configured to generate JWT signing keys', 'ENCRYPTION_KEY_NOT_CONFIGURED');
+    }
+    return env.ENCRYPTION_KEY;
+  }
+
+  /**
+   * Register a project's jwtSecret in its key ring
+   *
+   * Called when a project is created; the migration registers existing projects.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   */
+  async registerProjectSecret(env: Env, projectId: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    await db.insert(projectSigningKeys).values({
+      projectId,
+      kid: this.getProjectSecretKid(projectId),
+      algorithm: 'HS256',
+      publicKey: null,
+      privateKey: null,
+      status: 'active',
+      activatedAt: getTimestamp(),
+    });
+  }
+
+  /**
+   * Generate and store a new key for a project
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param algorithm - JWT algorithm
+   * @param status - Initial ring state ('active' keys start signing immediately)
+   * @returns Stored key
+   */
+  async createSigningKey(
+    env: Env,
+    projectId: string,
+    algorithm: JwtAlgorithm,
+    status: 'active' | 'next' = 'active'
+  ): Promise<ProjectSigningKey> {
+    const db = drizzle(env.DB);
+    const encryptionKey = this.getEncryptionKey(env);
+
+    let publicJwk: jose.JWK | null = null;
+    let privateJwk: jose.JWK;
+
+    if (this.isAsymmetric(algorithm)) {
+      const { publicKey, privateKey } = await jose.generateKeyPair(algorithm, { extractable: true });
+      publicJwk = await jose.exportJWK(publicKey);
+      privateJwk = await jose.exportJWK(privateKey);
+    } else {
+      privateJwk = { kty: 'oct', k: jose.base64url.encode(crypto.getRandomValues(new Uint8Array(32))) };
+    }
+
+    // RFC 7638 thumbprint gives a stable, collision-free kid (a one-way hash for secrets)
+    const kid = await jose.calculateJwkThumbprint(publicJwk || privateJwk);
+
+    const key = await db
+      .insert(projectSigningKeys)
+      .values({
+        projectId,
+        kid,
+        algorithm,
+        publicKey: publicJwk ? JSON.stringify(publicJwk) : null,
+        privateKey: await encrypt(JSON.stringify(privateJwk), encryptionKey),
+        status,
+        activatedAt: status === 'active' ? getTimestamp() : null,
+      })
+      .returning()
+      .get();
+
+    return key;
+  }
+
+  /**
+   * Get the key new tokens are signed with
+   * @param env - Environment bindings
+   * @param project - Project
+   * @returns Newest active key for the project's algorithm, or null if there is none
+   */
+  private async getCurrentKey(env: Env, project: Project): Promise<ProjectSigningKey | null> {
+    const db = drizzle(env.DB);
+
+    const key = await db
+      .select()
+      .from(projectSigningKeys)
+      .where(
+        and(
+          eq(projectSigningKeys.projectId, project.id),
+          eq(projectSigningKeys.algorithm, (project.jwtAlgorithm || 'HS256') as JwtAlgorithm),
+          eq(projectSigningKeys.status, 'active')
+        )
+      )
+      .orderBy(desc(projectSigningKeys.activatedAt))
+      .get();
+
+    return key || null;
+  }
+
+  /**
+   * Make sure a project has an active key for its algorithm
+   *
+   * Called before a project switches algorithm so the JWKS is populated before the first
+   * token is issued. Keys of the previous algorithm stay valid until retired.
+   *
+   * @param env - Environment bindings
+   * @param project - Project (with the algorithm it is switching to)
+   * @returns The project's signing key, or null when the project secret is used
+   */
+  async ensureSigningKey(env: Env, project: Project): Promise<ProjectSigningKey | null> {
+    const existing = await this.getCurrentKey(env, project);
+    if (existing) {
+      return existing;
+    }
+
+    if (!this.isAsymmetric(project.jwtAlgorithm)) {
+      const projectSecret = await this.getKeyByKid(env, project.id, this.getProjectSecretKid(project.id));
+
+      // Projects that predate the key ring keep signing with their secret
+      if (!projectSecret) {
+        return null;
+      }
+    }
+
+    return this.createSigningKey(env, project.id, (project.jwtAlgorithm || 'HS256') as JwtAlgorithm);
+  }
+
+  /**
+   * Look up one of a project's keys by kid
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param kid - Key ID
+   * @returns Key or null
+   */
+  private async getKeyByKid(env: Env, projectId: string, kid: string): Promise<ProjectSigningKey | null> {
+    const db = drizzle(env.DB);
+
+    const key = await db
+      .select()
+      .from(projectSigningKeys)
+      .where(and(eq(projectSigningKeys.projectId, projectId), eq(projectSigningKeys.kid, kid)))
+      .get();
+
+    return key || null;
+  }
+
+  /**
+   * Load the material for a key
+   * @param env - Environment bindings
+   * @param project - Project the key belongs to
+   * @param key - Stored key
+   * @param use - Whether the key is needed for signing or verification
+   * @returns HMAC secret or imported WebCrypto key
+   */
+  private async loadKeyMaterial(
+    env: Env,
+    project: Project,
+    key: ProjectSigningKey,
+    use: 'sign' | 'verify'
+  ): Promise<CryptoKey | Uint8Array> {
+    if (!key.privateKey) {
+      return new TextEncoder().encode(project.jwtSecret);
+    }
+
+    const cacheKey = `${use}:${key.kid}`;
+    const cached = this.keyCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let material: CryptoKey | Uint8Array;
+    if (key.algorithm === 'HS256') {
+      const jwk = JSON.parse(await decrypt(key.privateKey, this.getEncryptionKey(env)));
+      material = jose.base64url.decode(jwk.k);
+    } else if (use === 'verify') {
+      material = (await jose.importJWK(JSON.parse(key.publicKey!), key.algorithm)) as CryptoKey;
+    } else {
+      const jwk = JSON.parse(await decrypt(key.privateKey, this.getEncryptionKey(env)));
+      material = (await jose.importJWK(jwk, key.algorithm)) as CryptoKey;
+    }
+
+    this.keyCache.set(cacheKey, material);
+    return material;
+  }
+
+  /**
+   * Build the public JWKS for a project
+   *
+   * Includes 'next' keys so verifiers can cache them before they start signing.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @returns JSON Web Key Set (HS256 keys are never published)
+   */
+  async getJwks(env: Env, project: Project): Promise<{ keys: jose.JWK[] }> {
+    const db = drizzle(env.DB);
+
+    const keys = await db
+      .select()
+      .from(projectSigningKeys)
+      .where(and(eq(projectSigningKeys.projectId, project.id), ne(projectSigningKeys.status, 'retired')))
+      .orderBy(desc(projectSigningKeys.createdAt))
+      .all();
+
+    return {
+      keys: keys
+        .filter((key) => key.publicKey)
+        .map((key) => ({
+          ...JSON.parse(key.publicKey!),
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        })),
+    };
+  }
+
+  /**
+   * Resolve the key that signs new tokens for a project
+   * @param env - Environment bindings
+   * @param project - Project
+   * @returns Key and kid, or undefined when the project secret signs
+   */
+  private async getSigningKey(env: Env, project: Project): Promise<SigningKey | undefined> {
+    const signingKey = await this.ensureSigningKey(env, project);
+
+    // The project secret signs without a kid, as it always has
+    if (!signingKey || !signingKey.privateKey) {
+      return undefined;
+    }
+
+    const key = await this.loadKeyMaterial(env, project, signingKey, 'sign');
+    return { kid: signingKey.kid, key };
+  }
+
+  /**
+   * Sign an access token with the project's current key
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param userId - User ID
+   * @param email - User email
+   * @param claims - Additional claims, such as the scope granted to an OAuth client
+   * @returns JWT access token
+   */
+  async signAccessToken(
+    env: Env,
+    project: Project,
+    userId: string,
+    email: string,
+    claims?: jose.JWTPayload
+  ): Promise<string> {
+    const signingKey = await this.getSigningKey(env, project);
+    return jwtService.generateAccessToken(project, userId, email, signingKey, claims);
+  }
+
+  /**
+   * Sign a service token for an OAuth client with the project's current key
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param clientId - OAuth client ID
+   * @param scope - Granted scopes, space separated
+   * @returns JWT access token
+   */
+  async signClientToken(env: Env, project: Project, clientId: string, scope: string): Promise<string> {
+    const signingKey = await this.getSigningKey(env, project);
+    return jwtService.generateClientToken(project, clientId, scope, signingKey);
+  }
+
+  /**
+   * Sign an OpenID Connect ID token with the project's current key
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param claims - ID token claims
+   * @returns JWT ID token
+   * @throws {BadRequestError} If the project signs with a shared secret, which clients cannot verify
+   */
+  async signIdToken(env: Env, project: Project, claims: IdTokenClaims): Promise<string> {
+    if (!this.isAsymmetric(project.jwtAlgorithm)) {
+      throw new BadRequestError('OpenID Connect requires an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+    }
+
+    const signingKey = await this.getSigningKey(env, project);
+    if (!signingKey) {
+      throw new AppError(500, 'No signing key available', 'SIGNING_KEY_ERROR');
+    }
+    return jwtService.generateIdToken(project, claims, signingKey);
+  }
+
+  /**
+   * Verify an access token against the project's key ring
+   *
+   * The key is selected by the token's kid header (no kid means the project secret) and
+   * must not be retired. Tokens on the denylist are rejected.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param token - JWT access token
+   * @returns Decoded payload
+   * @throws {AuthenticationError} If the token is invalid, expired, revoked or signed with a retired key
+   */
+  async verifyAccessToken(env: Env, project: Project, token: string): Promise<JWTPayload> {
+    const payload = await this.verifySignature(env, project, token);
+
+    if (payload.jti && (await tokenDenylistService.isRevoked(env, project.id, payload.jti))) {
+      throw new AuthenticationError('Token has been revoked');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Verify an access token's signature and claims against the project's key ring
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param token - JWT access token
+   * @returns Decoded payload
+   * @throws {AuthenticationError} If the token is invalid, expired or signed with a retired key
+   */
+  private async verifySignature(env: Env, project: Project, token: string): Promise<JWTPayload> {
+    let kid: string | undefined;
+    try {
+      kid = jose.decodeProtectedHeader(token).kid;
+    } catch {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+
+    const key = await this.getKeyByKid(env, project.id, kid || this.getProjectSecretKid(project.id));
+
+    // Projects that predate the key ring have no entry for their secret
+    if (!key) {
+      if (kid) {
+        throw new AuthenticationError('Invalid or expired token');
+      }
+      return jwtService.verifyAccessToken(token, project.jwtSecret, 'HS256');
+    }
+
+    if (key.status === 'retired') {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+
+    const material = await this.loadKeyMaterial(env, project, key, 'verify');
+    return jwtService.verifyAccessToken(token, async () => material, key.algorithm);
+  }
+
+  /**
+   * List a project's keys for the admin console
+   * @param env - Environment bindings
+   * @param project - Project
+   * @returns Keys without key material, newest first
+   */
+  async listKeys(env: Env, project: Project): Promise<SigningKeyInfo[]> {
+    const db = drizzle(env.DB);
+
+    const keys = await db
+      .select()
+      .from(projectSigningKeys)
+      .where(eq(projectSigningKeys.projectId, project.id))
+      .orderBy(desc(projectSigningKeys.createdAt))
+      .all();
+
+    const current = await this.getCurrentKey(env, project);
+
+    return keys.map((key) => ({
+      id: key.id,
+      kid: key.kid,
+      algorithm: key.algorithm,
+      status: key.status,
+      signing: current?.id === key.id,
+      projectSecret: key.kid === this.getProjectSecretKid(project.id),
+      createdAt: key.createdAt,
+      activatedAt: key.activatedAt,
+      retiredAt: key.retiredAt,
+    }));
+  }
+
+  /**
+   * Schedule a rotation by creating a 'next' key for the project's algorithm
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param adminUserId - Admin user ID
+   * @returns The new key
+   * @throws {ConflictError} If a rotation is already scheduled
+   */
+  async scheduleRotation(env: Env, project: Project, adminUserId?: string): Promise<ProjectSigningKey> {
+    const db = drizzle(env.DB);
+
+    const pending = await db
+      .select({ id: projectSigningKeys.id })
+      .from(projectSigningKeys)
+      .where(and(eq(projectSigningKeys.projectId, project.id), eq(projectSigningKeys.status, 'next')))
+      .get();
+
+    if (pending) {
+      throw new ConflictError('A key rotation is already scheduled');
+    }
+
+    const key = await this.createSigningKey(env, project.id, (project.jwtAlgorithm || 'HS256') as JwtAlgorithm, 'next');
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'signing_key_scheduled', kid: key.kid, algorithm: key.algorithm },
+    });
+
+    return key;
+  }
+
+  /**
+   * Get one of a project's keys by ID
+   * @throws {NotFoundError} If the key does not exist
+   */
+  private async getKey(env: Env, projectId: string, keyId: string): Promise<ProjectSigningKey> {
+    const db = drizzle(env.DB);
+
+    const key = await db
+      .select()
+      .from(projectSigningKeys)
+      .where(and(eq(projectSigningKeys.id, keyId), eq(projectSigningKeys.projectId, projectId)))
+      .get();
+
+    if (!key) {
+      throw new NotFoundError('Signing key not found');
+    }
+
+    return key;
+  }
+
+  /**
+   * Activate a scheduled key so new tokens are signed with it
+   *
+   * The previously active key keeps verifying tokens until it is retired.
+   *
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param keyId - Key ID
+   * @param adminUserId - Admin user ID
+   * @throws {BadRequestError} If the key is not scheduled or uses another algorithm
+   */
+  async activateKey(env: Env, project: Project, keyId: string, adminUserId?: string): Promise<void> {
+    const db = drizzle(env.DB);
+    const key = await this.getKey(env, project.id, keyId);
+
+    if (key.status !== 'next') {
+      throw new BadRequestError('Only a scheduled key can be activated');
+    }
+
+    if (key.algorithm !== (project.jwtAlgorithm || 'HS256')) {
+      throw new BadRequestError('Key algorithm does not match the project algorithm');
+    }
+
+    await db
+      .update(projectSigningKeys)
+      .set({ status: 'active', activatedAt: getTimestamp() })
+      .where(eq(projectSigningKeys.id, key.id));
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'signing_key_activated', kid: key.kid },
+    });
+  }
+
+  /**
+   * Retire a key so tokens signed with it are no longer accepted
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param keyId - Key ID
+   * @param adminUserId - Admin user ID
+   * @throws {BadRequestError} If the key is still signing new tokens
+   */
+  async retireKey(env: Env, project: Project, keyId: string, adminUserId?: string): Promise<void> {
+    const db = drizzle(env.DB);
+    const key = await this.getKey(env, project.id, keyId);
+
+    if (key.status === 'retired') {
+      return;
+    }
+
+    const current = await this.getCurrentKey(env, project);
+    if (current?.id === key.id) {
+      throw new BadRequestError('Cannot retire the key that is signing new tokens; activate another key first');
+    }
+
+    await db
+      .update(projectSigningKeys)
+      .set({ status: 'retired', retiredAt: getTimestamp() })
+      .where(eq(projectSigningKeys.id, key.id));
+
+    await auditService.logEvent(env, {
+      projectId: project.id,
+      eventType: 'admin_action',
+      eventStatus: 'success',
+      adminUserId,
+      eventData: { action: 'signing_key_retired', kid: key.kid },
+    });
+  }
+}
+
+// Export singleton instance
+export const signingKeyService = new SigningKeyService();
@@ -0,0 +1,60 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, lt } from 'drizzle-orm';
+import { revokedAccessTokens } from '../db/schema';
+import type { Env } from '../types';
+
+/**
+ * Token Denylist Service - Revokes access tokens before they expire
+ *
+ * Access tokens are self-contained JWTs, so revoking one means remembering its `jti` until the
+ * token would have expired anyway. Expired entries are pruned as new ones are added.
+ */
+export class TokenDenylistService {
+  /**
+   * Revoke an access token
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param jti - JWT ID of the token
+   * @param expiresAt - Token expiry (Unix seconds)
+   * @param reason - Revocation reason
+   */
+  async revoke(env: Env, projectId: string, jti: string, expiresAt: number, reason: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    await db
+      .insert(revokedAccessTokens)
+      .values({ projectId, jti, expiresAt, reason })
+      .onConflictDoNothing();
+
+    await db
+      .delete(revokedAccessTokens)
+      .where(
+        and(
+          eq(revokedAccessTokens.projectId, projectId),
+          lt(revokedAccessTokens.expiresAt, Math.floor(Date.now() / 1000))
+        )
+      );
+  }
+
+  /**
+   * Check whether an access token has been revoked
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param jti - JWT ID of the token
+   * @returns True if the token is on the denylist
+   */
+  async isRevoked(env: Env, projectId: string, jti: string): Promise<boolean> {
+    const db = drizzle(env.DB);
+
+    const entry = await db
+      .select({ id: revokedAccessTokens.id })
+      .from(revokedAccessTokens)
+      .where(and(eq(revokedAccessTokens.projectId, projectId), eq(revokedAccessTokens.jti, jti)))
+      .get();
+
+    return Boolean(entry);
+  }
+}
+
+// Export singleton instance
+export const tokenDenylistService = new TokenDenylistService();
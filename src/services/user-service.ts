@@ -90,6 +90,7 @@ export class UserService {
       oauthProvider?: string;
       oauthProviderUserId?: string;
       oauthRawUserData?: string;
+      avatarUrl?: string;
     }
   ): Promise<User> {
     const safeName = sanitizeTableName(tableName);
@@ -124,6 +125,9 @@ export class UserService {
         updates.oauthProviderUserId = data.oauthProviderUserId;
         updates.oauthRawUserData = data.oauthRawUserData;
       }
+      if (data.avatarUrl) {
+        updates.avatarUrl = data.avatarUrl;
+      }
 
       return await this.updateUser(env, tableName, (deletedUser as any).id, updates);
     }
@@ -139,14 +143,15 @@ export class UserService {
       data.oauthProviderUserId || null,
       data.oauthRawUserData || null,
       data.displayName || null,
+      data.avatarUrl || null,
     ];
 
     await env.DB.prepare(`
       INSERT INTO ${safeName} (
         id, email, password_hash, oauth_provider, oauth_provider_user_id,
-        oauth_raw_user_data, display_name
+        oauth_raw_user_data, display_name, avatar_url
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(...params).run();
 
     const user = await this.getUserById(env, tableName, id);
@@ -196,6 +201,11 @@ export class UserService {
       values.push(updates.passwordHash);
     }
 
+    if (updates.phone !== undefined) {
+      fields.push('phone = ?');
+      values.push(updates.phone);
+    }
+
     if (updates.displayName !== undefined) {
       fields.push('display_name = ?');
       values.push(updates.displayName);
@@ -242,6 +252,34 @@ export class UserService {
     return user;
   }
 
+  /**
+   * Clear the provider account stored on the user row, if it is the given one
+   *
+   * Users created before identities existed carry their provider account on the row, and
+   * sign-in still looks them up by it.
+   * @param env - Environment bindings
+   * @param tableName - User table name
+   * @param userId - User ID
+   * @param provider - OAuth provider name
+   * @param providerUserId - Provider user ID
+   */
+  async clearOAuthProvider(
+    env: Env,
+    tableName: string,
+    userId: string,
+    provider: string,
+    providerUserId: string
+  ): Promise<void> {
+    const safeName = sanitizeTableName(tableName);
+
+    await env.DB.prepare(`
+      UPDATE ${safeName}
+      SET oauth_provider = NULL, oauth_provider_user_id = NULL, oauth_raw_user_data = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND oauth_provider = ? AND oauth_provider_user_id = ?
+    `).bind(userId, provider, providerUserId).run();
+  }
+
   /**
    * Update user's last login time
    * @param env - Environment bindings
@@ -0,0 +1,538 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, gt } from 'drizzle-orm';
+import { webauthnCredentials, webauthnChallenges } from '../db/schema';
+import type { WebauthnCredential, WebauthnChallenge } from '../db/schema';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  base64UrlEncode,
+  base64UrlDecode,
+  bytesEqual,
+  importCosePublicKey,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  parseClientData,
+  sha256,
+  verifyCoseSignature,
+} from '../utils/webauthn';
+import { getIpAddress, getUserAgent, safeJsonParse } from '../utils/helpers';
+import { auditService } from './audit-service';
+import { authService } from './auth-service';
+import { rateLimitService } from './rate-limit-service';
+import { userService } from './user-service';
+import { projectService } from './project-service';
+import type {
+  Env,
+  Project,
+  User,
+  WebAuthnAuthenticationCredential,
+  WebAuthnCredentialInfo,
+  WebAuthnRegistrationCredential,
+} from '../types';
+import { AuthenticationError, BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+
+/**
+ * Ceremony challenge lifetime in seconds (5 minutes)
+ */
+const CHALLENGE_EXPIRY_SECONDS = 300;
+
+/**
+ * WebAuthn Service - Handles passkey registration and sign-in ceremonies
+ *
+ * Only 'none' attestation is accepted: we trust the key the browser hands us, not the
+ * authenticator make. Signatures are checked with WebCrypto against the stored COSE key.
+ */
+export class WebAuthnService {
+  /**
+   * Derive the relying party from the project's site URL
+   * @param project - Project
+   * @returns RP ID (hostname) and the origin ceremonies must come from
+   * @throws {BadRequestError} If the project has no site URL
+   */
+  getRelyingParty(project: Project): { rpId: string; origin: string } {
+    if (!project.siteUrl) {
+      throw new BadRequestError('No siteUrl configured for project');
+    }
+
+    const url = new URL(project.siteUrl);
+    return { rpId: url.hostname, origin: url.origin };
+  }
+
+  /**
+   * Store a new random ceremony challenge
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param type - Ceremony type
+   * @param userId - User the ceremony is for, if known
+   * @returns Base64url challenge
+   */
+  private async createChallenge(
+    env: Env,
+    projectId: string,
+    type: 'registration' | 'authentication',
+    userId: string | null
+  ): Promise<string> {
+    const db = drizzle(env.DB);
+
+    const challenge = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    const now = Math.floor(Date.now() / 1000);
+
+    await db.insert(webauthnChallenges).values({
+      projectId,
+      userId,
+      challenge,
+      type,
+      expiresAt: now + CHALLENGE_EXPIRY_SECONDS,
+      createdAt: now,
+    });
+
+    return challenge;
+  }
+
+  /**
+   * Consume a ceremony challenge
+   *
+   * The challenge is deleted as it is read, so each one can complete a single ceremony.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param challenge - Challenge echoed back in clientDataJSON
+   * @param type - Expected ceremony type
+   * @returns The stored challenge, or null if unknown, expired or already used
+   */
+  private async consumeChallenge(
+    env: Env,
+    projectId: string,
+    challenge: string,
+    type: 'registration' | 'authentication'
+  ): Promise<WebauthnChallenge | null> {
+    const db = drizzle(env.DB);
+    const now = Math.floor(Date.now() / 1000);
+
+    const consumed = await db
+      .delete(webauthnChallenges)
+      .where(
+        and(
+          eq(webauthnChallenges.projectId, projectId),
+          eq(webauthnChallenges.challenge, challenge),
+          eq(webauthnChallenges.type, type),
+          gt(webauthnChallenges.expiresAt, now)
+        )
+      )
+      .returning();
+
+    return consumed[0] || null;
+  }
+
+  /**
+   * Map a stored credential to the public shape
+   */
+  private toCredentialInfo(credential: WebauthnCredential): WebAuthnCredentialInfo {
+    return {
+      id: credential.id,
+      credentialId: credential.credentialId,
+      name: credential.name,
+      transports: safeJsonParse<string[]>(credential.transports || '[]', []),
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    };
+  }
+
+  /**
+   * List a user's passkeys
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @returns Passkeys
+   */
+  async listCredentials(env: Env, projectId: string, userId: string): Promise<WebAuthnCredentialInfo[]> {
+    const db = drizzle(env.DB);
+
+    const credentials = await db
+      .select()
+      .from(webauthnCredentials)
+      .where(and(eq(webauthnCredentials.projectId, projectId), eq(webauthnCredentials.userId, userId)))
+      .all();
+
+    return credentials.map((credential) => this.toCredentialInfo(credential));
+  }
+
+  /**
+   * Delete one of a user's passkeys
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param id - Stored credential ID
+   * @throws {NotFoundError} If the passkey does not exist
+   */
+  async deleteCredential(env: Env, projectId: string, userId: string, id: string): Promise<void> {
+    const db = drizzle(env.DB);
+
+    const deleted = await db
+      .delete(webauthnCredentials)
+      .where(
+        and(
+          eq(webauthnCredentials.id, id),
+          eq(webauthnCredentials.projectId, projectId),
+          eq(webauthnCredentials.userId, userId)
+        )
+      )
+      .returning({ id: webauthnCredentials.id });
+
+    if (deleted.length === 0) {
+      throw new NotFoundError('Passkey not found');
+    }
+  }
+
+  /**
+   * Build options for navigator.credentials.create()
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param user - Signed-in user registering a passkey
+   * @returns PublicKeyCredentialCreationOptions with base64url binary fields
+   */
+  async generateRegistrationOptions(env: Env, project: Project, user: User): Promise<Record<string, any>> {
+    const { rpId } = this.getRelyingParty(project);
+
+    const existing = await this.listCredentials(env, project.id, user.id);
+    const challenge = await this.createChallenge(env, project.id, 'registration', user.id);
+
+    return {
+      challenge,
+      rp: { id: rpId, name: project.name },
+      user: {
+        id: base64UrlEncode(new TextEncoder().encode(user.id)),
+        name: user.email,
+        displayName: (user as any).display_name || user.displayName || user.email,
+      },
+      pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      timeout: CHALLENGE_EXPIRY_SECONDS * 1000,
+      attestation: 'none',
+      excludeCredentials: existing.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    };
+  }
+
+  /**
+   * Verify a registration response and store the new passkey
+   * @param env - Environment bindings
+   * @param project - Project
+   * @param user - Signed-in user registering a passkey
+   * @param credential - Result of navigator.credentials.create()
+   * @param name - Optional label for the passkey
+   * @returns The stored passkey
+   * @throws {BadRequestError} If the ceremony response is invalid
+   * @throws {ConflictError} If the passkey is already registered
+   */
+  async verifyRegistration(
+    env: Env,
+    project: Project,
+    user: User,
+    credential: WebAuthnRegistrationCredential,
+    name?: string
+  ): Promise<WebAuthnCredentialInfo> {
+    const db = drizzle(env.DB);
+    const { rpId, origin } = this.getRelyingParty(project);
+
+    let clientData;
+    try {
+      clientData = parseClientData(credential.response.clientDataJSON);
+    } catch {
+      throw new BadRequestError('Invalid client data');
+    }
+
+    if (clientData.type !== 'webauthn.create') {
+      throw new BadRequestError('Unexpected ceremony type');
+    }
+
+    if (clientData.origin !== origin) {
+      throw new BadRequestError('Origin does not match the project site URL');
+    }
+
+    const challenge = await this.consumeChallenge(env, project.id, clientData.challenge, 'registration');
+    if (!challenge || challenge.userId !== user.id) {
+      throw new BadRequestError('Invalid or expired challenge');
+    }
+
+    let authData;
+    let fmt: string;
+    try {
+      const attestation = parseAttestationObject(credential.response.attestationObject);
+      fmt = attestation.fmt;
+      authData = parseAuthenticatorData(attestation.authData);
+    } catch {
+      throw new BadRequestError('Invalid attestation object');
+    }
+
+    if (fmt !== 'none') {
+      throw new BadRequestError('Only "none" attestation is supported');
+    }
+
+    if (!bytesEqual(authData.rpIdHash, await sha256(new TextEncoder().encode(rpId)))) {
+      throw new BadRequestError('Relying party ID mismatch');
+    }
+
+    if (!authData.userPresent) {
+      throw new BadRequestError('User presence is required');
+    }
+
+    if (!authData.credentialId || !authData.credentialPublicKey) {
+      throw new BadRequestError('Attested credential data is missing');
+    }
+
+    const credentialId = base64UrlEncode(authData.credentialId);
+    if (credentialId !== credential.id) {
+      throw new BadRequestError('Credential ID mismatch');
+    }
+
+    let algorithm: number;
+    try {
+      ({ algorithm } = await importCosePublicKey(authData.credentialPublicKey));
+    } catch {
+      throw new BadRequestError('Unsupported public key algorithm');
+    }
+
+    const existing = await db
+      .select({ id: webauthnCredentials.id })
+      .from(webauthnCredentials)
+      .where(and(eq(webauthnCredentials.projectId, project.id), eq(webauthnCredentials.credentialId, credentialId)))
+      .get();
+
+    if (existing) {
+      throw new ConflictError('Passkey is already registered');
+    }
+
+    const stored = await db
+      .insert(webauthnCredentials)
+      .values({
+        projectId: project.id,
+        userId: user.id,
+        credentialId,
+        publicKey: base64UrlEncode(authData.credentialPublicKey),
+        algorithm,
+        signCount: authData.signCount,
+        transports: credential.response.transports ? JSON.stringify(credential.response.transports) : null,
+        name: name || null,
+      })
+      .returning()
+      .get();
+
+    return this.toCredentialInfo(stored);
+  }
+
+  /**
+   * Build options for navigator.credentials.get()
+   *
+   * Without an email the browser offers any discoverable passkey for the RP.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param email - Optional email to restrict the allowed passkeys
+   * @returns PublicKeyCredentialRequestOptions with base64url binary fields
+   * @throws {NotFoundError} If the project does not exist
+   */
+  async generateAuthenticationOptions(
+    env: Env,
+    projectId: string,
+    email?: string
+  ): Promise<Record<string, any>> {
+    const project = await projectService.getProject(env, projectId);
+    if (!project || !project.enabled) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const { rpId } = this.getRelyingParty(project);
+
+    let userId: string | null = null;
+    let allowCredentials: Array<Record<string, any>> = [];
+
+    if (email) {
+      const user = await userService.getUserByEmail(env, project.userTableName, email);
+      if (user) {
+        userId = user.id;
+        allowCredentials = (await this.listCredentials(env, projectId, user.id)).map((credential) => ({
+          type: 'public-key',
+          id: credential.credentialId,
+          transports: credential.transports,
+        }));
+      }
+    }
+
+    const challenge = await this.createChallenge(env, projectId, 'authentication', userId);
+
+    return {
+      challenge,
+      rpId,
+      timeout: CHALLENGE_EXPIRY_SECONDS * 1000,
+      userVerification: 'preferred',
+      allowCredentials,
+    };
+  }
+
+  /**
+   * Verify an authentication response and sign the user in
+   *
+   * Issues the same access/refresh token pair as a password login.
+   *
+   * @param env - Environment bindings
+   * @param projectId - Project ID
+   * @param credential - Result of navigator.credentials.get()
+   * @param request - Request object for IP/UA
+   * @returns User and tokens
+   * @throws {AuthenticationError} If the assertion is invalid
+   */
+  async verifyAuthentication(
+    env: Env,
+    projectId: string,
+    credential: WebAuthnAuthenticationCredential,
+    request: Request
+  ): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+    const db = drizzle(env.DB);
+    const ipAddress = getIpAddress(request);
+    const userAgent = getUserAgent(request);
+
+    // Check rate limit
+    await rateLimitService.checkRateLimit(env, projectId, 'login', ipAddress);
+
+    const project = await projectService.getProject(env, projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (!project.enabled) {
+      throw new AuthenticationError('Project is disabled');
+    }
+
+    const { rpId, origin } = this.getRelyingParty(project);
+    let email: string | undefined;
+
+    try {
+      let clientData;
+      try {
+        clientData = parseClientData(credential.response.clientDataJSON);
+      } catch {
+        throw new AuthenticationError('Invalid passkey response');
+      }
+
+      if (clientData.type !== 'webauthn.get' || clientData.origin !== origin) {
+        throw new AuthenticationError('Invalid passkey response');
+      }
+
+      const challenge = await this.consumeChallenge(env, projectId, clientData.challenge, 'authentication');
+      if (!challenge) {
+        throw new AuthenticationError('Invalid or expired challenge');
+      }
+
+      const stored = await db
+        .select()
+        .from(webauthnCredentials)
+        .where(and(eq(webauthnCredentials.projectId, projectId), eq(webauthnCredentials.credentialId, credential.id)))
+        .get();
+
+      if (!stored) {
+        throw new AuthenticationError('Unknown passkey');
+      }
+
+      // The challenge may have been issued for a specific user, and the authenticator may name one
+      if (challenge.userId && challenge.userId !== stored.userId) {
+        throw new AuthenticationError('Unknown passkey');
+      }
+
+      const userHandle = credential.response.userHandle;
+      if (userHandle && new TextDecoder().decode(base64UrlDecode(userHandle)) !== stored.userId) {
+        throw new AuthenticationError('Unknown passkey');
+      }
+
+      const authDataBytes = base64UrlDecode(credential.response.authenticatorData);
+      const authData = parseAuthenticatorData(authDataBytes);
+
+      if (!bytesEqual(authData.rpIdHash, await sha256(new TextEncoder().encode(rpId)))) {
+        throw new AuthenticationError('Invalid passkey response');
+      }
+
+      if (!authData.userPresent) {
+        throw new AuthenticationError('User presence is required');
+      }
+
+      // Signature covers authenticatorData || SHA-256(clientDataJSON)
+      const clientDataHash = await sha256(base64UrlDecode(credential.response.clientDataJSON));
+      const signedData = new Uint8Array(authDataBytes.length + clientDataHash.length);
+      signedData.set(authDataBytes);
+      signedData.set(clientDataHash, authDataBytes.length);
+
+      const valid = await verifyCoseSignature(
+        base64UrlDecode(stored.publicKey),
+        base64UrlDecode(credential.response.signature),
+        signedData
+      );
+      if (!valid) {
+        throw new AuthenticationError('Invalid passkey signature');
+      }
+
+      // A counter that fails to advance suggests a cloned authenticator
+      if ((authData.signCount > 0 || stored.signCount > 0) && authData.signCount <= stored.signCount) {
+        throw new AuthenticationError('Passkey sign count did not increase');
+      }
+
+      const user = await userService.getUserById(env, project.userTableName, stored.userId);
+      if (!user || user.status !== 'active') {
+        throw new AuthenticationError('Account is not active');
+      }
+      email = user.email;
+
+      // Conditional on the counter read above so concurrent assertions with the same counter
+      // cannot both pass the clone check
+      const updated = await db
+        .update(webauthnCredentials)
+        .set({ signCount: authData.signCount, lastUsedAt: new Date().toISOString() })
+        .where(and(eq(webauthnCredentials.id, stored.id), eq(webauthnCredentials.signCount, stored.signCount)))
+        .returning();
+
+      if (updated.length === 0) {
+        throw new AuthenticationError('Passkey sign count did not increase');
+      }
+
+      await userService.updateLastLogin(env, project.userTableName, user.id);
+
+      const { accessToken, refreshToken } = await authService.issueTokens(env, project, user, {
+        ipAddress,
+        userAgent,
+      });
+
+      await rateLimitService.recordAttempt(env, projectId, 'login', ipAddress, user.email, true, user.id);
+
+      await auditService.logEvent(env, {
+        projectId,
+        eventType: 'user_login',
+        eventStatus: 'success',
+        userId: user.id,
+        ipAddress,
+        userAgent,
+        eventData: { email: user.email, method: 'webauthn' },
+      });
+
+      return { user, accessToken, refreshToken };
+    } catch (error) {
+      await rateLimitService.recordAttempt(
+        env,
+        projectId,
+        'login',
+        ipAddress,
+        email,
+        false,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const webauthnService = new WebAuthnService();
@@ -10,6 +10,9 @@ export interface Env {
   SENDGRID_TEMPLATE_CONFIRMATION?: string;
   SENDGRID_TEMPLATE_PASSWORD_RESET?: string;
   SENDGRID_TEMPLATE_WELCOME?: string;
+  SENDGRID_TEMPLATE_MAGIC_LINK?: string;
+  SENDGRID_TEMPLATE_OTP?: string;
+  SENDGRID_TEMPLATE_SECURITY_ALERT?: string;
   PASSWORD_RESET_BASE_URL?: string;
   EMAIL_CONFIRMATION_BASE_URL?: string;
 }
@@ -44,6 +47,30 @@ export interface EmailProvider {
   fromEmail: string;
   fromName?: string;
   enabled: boolean;
+  consecutiveFailures?: number;
+  lastError?: string | null;
+  lastFailureAt?: string | null;
+  circuitOpenUntil?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EmailOutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface EmailOutboxEntry {
+  id: string;
+  projectId: string | null;
+  templateType: string;
+  recipient: string;
+  subject: string;
+  bodyHtml?: string;
+  bodyText?: string | null;
+  provider: string | null;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,7 +81,8 @@ export type EmailTemplateType =
   | 'password_reset' 
   | 'magic_link' 
   | 'email_change' 
-  | 'otp';
+  | 'otp'
+  | 'security_alert';
 
 export interface EmailTemplate {
   id: string;
@@ -81,6 +109,12 @@ export interface Project {
   userTableName: string;
   siteUrl: string | null;
   redirectUrls: string | null;
+  notifyRefreshTokenReuse: boolean;
+  autoLinkOAuthAccounts: boolean;
+  emailProviderId: string | null;
+  emailFromName: string | null;
+  emailFromAddress: string | null;
+  emailReplyTo: string | null;
   createdAt: string;
   updatedAt: string;
   createdBy: string | null;
@@ -96,10 +130,24 @@ export interface CreateProjectData {
 }
 
 // OAuth Provider types
+export type OAuthProviderName =
+  | 'google'
+  | 'github'
+  | 'microsoft'
+  | 'apple'
+  | 'discord'
+  | 'gitlab'
+  | 'facebook'
+  | 'linkedin'
+  | 'slack'
+  | 'x'
+  | 'oidc'
+  | 'custom';
+
 export interface OAuthProvider {
   id: string;
   projectId: string;
-  providerName: 'google' | 'github' | 'microsoft' | 'apple' | 'custom';
+  providerName: OAuthProviderName;
   enabled: boolean;
   clientId: string;
   clientSecret: string;
@@ -114,7 +162,7 @@ export interface OAuthProvider {
 
 export interface CreateOAuthProviderData {
   projectId: string;
-  providerName: 'google' | 'github' | 'microsoft' | 'apple' | 'custom';
+  providerName: OAuthProviderName;
   enabled?: boolean;
   clientId: string;
   clientSecret: string;
@@ -156,6 +204,17 @@ export interface LoginData {
   password: string;
 }
 
+// MFA factor (secret is never exposed outside the MFA service)
+export interface MfaFactor {
+  id: string;
+  userId: string;
+  factorType: 'totp';
+  friendlyName: string | null;
+  status: 'unverified' | 'verified';
+  createdAt: string;
+  verifiedAt: string | null;
+}
+
 // Admin types
 export interface AdminUser {
   id: string;
@@ -166,6 +225,7 @@ export interface AdminUser {
   enabled: boolean;
   mfaEnabled: boolean;
   mfaSecret: string | null;
+  mfaLastUsedStep: number | null;
   createdAt: string;
   updatedAt: string;
   lastLoginAt: string | null;
@@ -182,12 +242,164 @@ export interface AdminSession {
   lastActivityAt: string;
 }
 
+// WebAuthn types (binary fields are base64url encoded by the browser client)
+export interface WebAuthnRegistrationCredential {
+  id: string;
+  rawId?: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface WebAuthnAuthenticationCredential {
+  id: string;
+  rawId?: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface WebAuthnCredentialInfo {
+  id: string;
+  credentialId: string;
+  name: string | null;
+  transports: string[];
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+// Linked OAuth identity, as shown to the user who owns it
+export interface UserIdentityInfo {
+  id: string;
+  provider: string;
+  providerUserId: string;
+  email: string | null;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+}
+
+// Profile returned by an OAuth provider for the signed-in account
+export interface OAuthProfile {
+  providerUserId: string;
+  email: string;
+  emailVerified: boolean;
+  displayName: string;
+  avatarUrl?: string;
+  rawUserData: Record<string, any>;
+}
+
+// Upstream tokens a provider issued for an identity
+export interface ProviderTokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null; // Unix timestamp
+  scope: string | null;
+}
+
+// OpenID Connect discovery document of an external identity provider
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  [key: string]: unknown;
+}
+
+// Signing key ring types
+export interface SigningKeyInfo {
+  id: string;
+  kid: string;
+  algorithm: string;
+  status: 'active' | 'next' | 'retired';
+  signing: boolean; // Currently used for new tokens
+  projectSecret: boolean; // The project's own jwtSecret
+  createdAt: string | null;
+  activatedAt: string | null;
+  retiredAt: string | null;
+}
+
+// OIDC provider types
+export interface OAuthClientInfo {
+  id: string;
+  clientId: string;
+  clientType: 'confidential' | 'public' | 'service';
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  skipConsent: boolean;
+  enabled: boolean;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface CreateOAuthClientData {
+  name: string;
+  clientType: 'confidential' | 'public' | 'service';
+  redirectUris: string[];
+  allowedScopes?: string[];
+  skipConsent?: boolean;
+}
+
+export interface UpdateOAuthClientData {
+  name?: string;
+  redirectUris?: string[];
+  allowedScopes?: string[];
+  skipConsent?: boolean;
+  enabled?: boolean;
+}
+
+// Authorization request as sent to /authorize (and forwarded by the project's login page)
+export interface AuthorizationRequest {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state?: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  prompt?: string;
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  id_token?: string; // Not issued for the client_credentials grant
+  scope: string;
+}
+
+// Token introspection response (RFC 7662)
+export interface TokenIntrospectionResponse {
+  active: boolean;
+  token_type?: 'Bearer' | 'refresh_token';
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  sub_type?: 'user' | 'client';
+  exp?: number;
+  iat?: number;
+  iss?: string;
+  jti?: string;
+}
+
 // Token types
 export interface RefreshToken {
   id: string;
   projectId: string;
   userId: string;
   tokenHash: string;
+  familyId: string;
+  accessTokenJti: string | null;
+  accessTokenExpiresAt: number | null;
   deviceName: string | null;
   userAgent: string | null;
   ipAddress: string | null;
@@ -199,19 +411,33 @@ export interface RefreshToken {
   lastUsedAt: string | null;
 }
 
+// An active sign-in, identified by its refresh token family
+export interface SessionInfo {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string | null;
+  expiresAt: string;
+}
+
 export interface JWTPayload {
-  sub: string; // user id
-  email: string;
+  sub: string; // user id, or the OAuth client ID of a service token
+  subType: 'user' | 'client';
+  email: string; // Empty for service tokens
   projectId: string;
   iat: number;
   exp: number;
+  scope?: string; // Granted scopes, for tokens issued to OAuth clients
+  clientId?: string; // OAuth client the token was issued to
+  jti?: string; // Token ID, used to revoke the token (absent from tokens issued before revocation existed)
 }
 
 // Auth attempt types
 export interface AuthAttempt {
   id: string;
   projectId: string;
-  attemptType: 'login' | 'register' | 'password_reset' | 'oauth' | 'refresh';
+  attemptType: 'login' | 'register' | 'password_reset' | 'oauth' | 'refresh' | 'otp';
   email: string | null;
   ipAddress: string;
   userAgent: string | null;
@@ -0,0 +1,106 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder
+ *
+ * Supports the subset used by WebAuthn attestation objects and COSE keys: integers,
+ * byte/text strings, arrays, maps, booleans, null and undefined. Indefinite-length
+ * items, tags and floats are rejected.
+ */
+
+/**
+ * Decode the first CBOR item in a buffer
+ * @param data - CBOR bytes
+ * @param offset - Offset to start decoding at
+ * @returns Decoded value and the offset just past it
+ */
+export function decodeCborItem(data: Uint8Array, offset: number = 0): { value: any; offset: number } {
+  if (offset >= data.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = data[offset++];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+
+  // Read the argument that follows the initial byte
+  let length: number;
+  if (additional < 24) {
+    length = additional;
+  } else if (additional === 24) {
+    length = data[offset];
+    offset += 1;
+  } else if (additional === 25) {
+    length = (data[offset] << 8) | data[offset + 1];
+    offset += 2;
+  } else if (additional === 26) {
+    length = ((data[offset] << 24) >>> 0) + ((data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]);
+    offset += 4;
+  } else {
+    throw new Error('Unsupported CBOR length encoding');
+  }
+
+  if (offset > data.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  switch (majorType) {
+    case 0: // Unsigned integer
+      return { value: length, offset };
+
+    case 1: // Negative integer
+      return { value: -1 - length, offset };
+
+    case 2: { // Byte string
+      if (offset + length > data.length) throw new Error('Unexpected end of CBOR data');
+      return { value: data.slice(offset, offset + length), offset: offset + length };
+    }
+
+    case 3: { // Text string
+      if (offset + length > data.length) throw new Error('Unexpected end of CBOR data');
+      return { value: new TextDecoder().decode(data.slice(offset, offset + length)), offset: offset + length };
+    }
+
+    case 4: { // Array
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(data, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+
+    case 5: { // Map (keys may be integers, as in COSE keys)
+      const map = new Map<string | number, any>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(data, offset);
+        const value = decodeCborItem(data, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+
+    case 7: // Simple values
+      if (additional === 20) return { value: false, offset };
+      if (additional === 21) return { value: true, offset };
+      if (additional === 22) return { value: null, offset };
+      if (additional === 23) return { value: undefined, offset };
+      throw new Error('Unsupported CBOR simple value');
+
+    default:
+      throw new Error('Unsupported CBOR major type');
+  }
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ * @param data - CBOR bytes
+ * @returns Decoded value (maps are returned as Map instances)
+ */
+export function decodeCbor(data: Uint8Array): any {
+  const { value, offset } = decodeCborItem(data);
+  if (offset !== data.length) {
+    throw new Error('Trailing bytes after CBOR item');
+  }
+  return value;
+}
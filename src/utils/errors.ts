@@ -65,6 +65,19 @@ export class BadRequestError extends AppError {
   }
 }
 
+/**
+ * Error returned by the OAuth 2.0 / OpenID Connect provider endpoints
+ *
+ * The code is the RFC 6749 error code (e.g. 'invalid_grant'), and the error is rendered in the
+ * standard `{ error, error_description }` shape instead of the usual API envelope.
+ */
+export class OAuthError extends AppError {
+  constructor(code: string, message: string, statusCode = 400) {
+    super(statusCode, message, code);
+    this.name = 'OAuthError';
+  }
+}
+
 /**
  * Format error for API response
  */
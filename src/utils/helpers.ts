@@ -45,6 +45,19 @@ export function safeJsonParse<T>(json: string | null, defaultValue: T): T {
   }
 }
 
+/**
+ * Render a template with data using Mustache-like syntax {{key}}
+ * @param template - Template string
+ * @param data - Values by key; unknown keys are left as they are
+ * @returns Rendered string
+ */
+export function renderTemplate(template: string, data: Record<string, any>): string {
+  return template.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
+    const trimmedKey = key.trim();
+    return data[trimmedKey] !== undefined ? String(data[trimmedKey]) : match;
+  });
+}
+
 /**
  * Stringify JSON safely
  * @param obj - Object to stringify
@@ -79,6 +92,102 @@ export function getUserAgent(request: Request): string {
   return request.headers.get('user-agent') || 'unknown';
 }
 
+/**
+ * Read a cookie from a request
+ * @param request - Request object
+ * @param name - Cookie name
+ * @returns Cookie value, or undefined if the cookie is not set
+ */
+export function getCookie(request: Request, name: string): string | undefined {
+  const cookieHeader = request.headers.get('Cookie');
+  if (!cookieHeader) return undefined;
+
+  const cookies = cookieHeader.split(';').map(c => c.trim());
+  for (const cookie of cookies) {
+    const [key, value] = cookie.split('=');
+    if (key === name) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a URL matches a wildcard allowlist entry (one ending in `*`)
+ *
+ * The origin must match exactly and the path must fall under the entry's path at a `/`
+ * boundary, so `https://app.example.com/cb*` covers `/cb` and `/cb/...` but not `/cb.evil`,
+ * and `https://app.example.com*` does not cover `https://app.example.com.evil.com`.
+ *
+ * @param url - Parsed redirect URL
+ * @param entry - Allowlist entry
+ * @returns True if the URL falls under the entry
+ */
+function matchesWildcardRedirectUrl(url: URL, entry: string): boolean {
+  let pattern: URL;
+  try {
+    pattern = new URL(entry.slice(0, -1));
+  } catch {
+    return false;
+  }
+
+  if (pattern.origin !== url.origin) {
+    return false;
+  }
+
+  const path = pattern.pathname;
+  return path.endsWith('/')
+    ? url.pathname.startsWith(path)
+    : url.pathname === path || url.pathname.startsWith(`${path}/`);
+}
+
+/**
+ * Check whether a redirect URL is allowed for a project
+ *
+ * A URL is allowed when it shares the origin of the project's site URL or matches
+ * an entry of the redirect URL allowlist. Allowlist entries ending in `*` match the
+ * same origin and any path under theirs.
+ *
+ * @param url - Redirect URL to check
+ * @param siteUrl - Project site URL
+ * @param redirectUrls - Allowed redirect URLs (array or JSON array string)
+ * @returns True if the URL may be used as a redirect target
+ */
+export function isAllowedRedirectUrl(
+  url: string,
+  siteUrl: string | null,
+  redirectUrls: string[] | string | null
+): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return false;
+  }
+
+  if (siteUrl) {
+    try {
+      if (new URL(siteUrl).origin === parsed.origin) {
+        return true;
+      }
+    } catch {
+      // Ignore malformed site URL and fall through to the allowlist
+    }
+  }
+
+  const allowed = Array.isArray(redirectUrls)
+    ? redirectUrls
+    : safeJsonParse<string[]>(redirectUrls, []);
+
+  return allowed.some(entry =>
+    entry.endsWith('*') ? matchesWildcardRedirectUrl(parsed, entry) : url === entry
+  );
+}
+
 /**
  * Create pagination info
  * @param total - Total items
@@ -34,6 +34,16 @@ CREATE TABLE IF NOT EXISTS projects (
     site_url TEXT,
     redirect_urls TEXT, -- JSON array string
 
+    -- Security notifications
+    notify_refresh_token_reuse INTEGER DEFAULT 0,
+    auto_link_oauth_accounts INTEGER DEFAULT 0,
+
+    -- Email sender identity (NULL uses the system default provider)
+    email_provider_id TEXT REFERENCES email_providers(id) ON DELETE SET NULL,
+    email_from_name TEXT,
+    email_from_address TEXT,
+    email_reply_to TEXT,
+
     -- Timestamps
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
     updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
@@ -71,7 +81,7 @@ CREATE TABLE IF NOT EXISTS project_oauth_providers (
     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
 
     -- Provider configuration
-    provider_name TEXT NOT NULL CHECK (provider_name IN ('google', 'github', 'microsoft', 'apple', 'custom')),
+    provider_name TEXT NOT NULL CHECK (provider_name IN ('google', 'github', 'microsoft', 'apple', 'discord', 'gitlab', 'facebook', 'linkedin', 'slack', 'x', 'oidc', 'custom')),
     enabled INTEGER DEFAULT 1,
 
     -- OAuth credentials
@@ -110,6 +120,13 @@ CREATE TABLE IF NOT EXISTS refresh_tokens (
     -- Token data
     token_hash TEXT UNIQUE NOT NULL,
 
+    -- Rotation family (every token rotated from the same sign-in shares it)
+    family_id TEXT NOT NULL,
+
+    -- Access token issued alongside (JWT ID and Unix expiry), denylisted when the session is revoked
+    access_token_jti TEXT,
+    access_token_expires_at INTEGER,
+
     -- Token metadata
     device_name TEXT,
     user_agent TEXT,
@@ -132,6 +149,8 @@ CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token_hash
     ON refresh_tokens(token_hash) WHERE revoked = 0;
 CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at
     ON refresh_tokens(expires_at) WHERE revoked = 0;
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family
+    ON refresh_tokens(family_id);
 
 -- ============================================================
 -- PASSWORD RESET TOKENS TABLE
@@ -179,7 +198,7 @@ CREATE TABLE IF NOT EXISTS auth_attempts (
     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
 
     -- Attempt details
-    attempt_type TEXT NOT NULL CHECK (attempt_type IN ('login', 'register', 'password_reset', 'oauth', 'refresh')),
+    attempt_type TEXT NOT NULL CHECK (attempt_type IN ('login', 'register', 'password_reset', 'oauth', 'refresh', 'otp')),
     email TEXT,
     ip_address TEXT NOT NULL,
     user_agent TEXT,
@@ -248,9 +267,10 @@ CREATE TABLE IF NOT EXISTS audit_logs (
         'oauth_provider_added', 'oauth_provider_updated', 'oauth_provider_removed',
         'suspicious_activity', 'rate_limit_triggered', 'account_locked',
         'email_confirmation_requested', 'email_confirmed', 'email_confirmation_failed',
-        'password_reset_requested', 'password_reset_completed',
+        'password_reset_requested', 'password_reset_completed', 'password_reset_confirm',
         'supabase_import_started', 'supabase_import_completed',
-        'supabase_import_failed', 'supabase_import_batch_failed'
+        'supabase_import_failed', 'supabase_import_batch_failed',
+        'refresh_token_reuse', 'email_sent', 'email_failed'
     )),
     event_status TEXT DEFAULT 'success' CHECK (event_status IN ('success', 'failure', 'warning')),
 
@@ -299,6 +319,7 @@ CREATE TABLE IF NOT EXISTS admin_users (
     -- MFA
     mfa_enabled INTEGER DEFAULT 0,
     mfa_secret TEXT,
+    mfa_last_used_step INTEGER, -- TOTP time step of the last accepted code
 
     -- Timestamps
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
@@ -339,6 +360,31 @@ CREATE INDEX IF NOT EXISTS idx_admin_sessions_token
 CREATE INDEX IF NOT EXISTS idx_admin_sessions_expires
     ON admin_sessions(expires_at);
 
+-- ============================================================
+-- ADMIN MFA CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS admin_mfa_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    admin_user_id TEXT NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+
+    -- Challenge data (single use)
+    challenge_token_hash TEXT UNIQUE NOT NULL,
+    ip_address TEXT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Expiry
+    expires_at TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_challenges_ip
+    ON admin_mfa_challenges(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_challenges_created_at
+    ON admin_mfa_challenges(created_at);
+
 -- ============================================================
 -- TRIGGERS FOR AUTO-UPDATE
 -- ============================================================
@@ -414,6 +460,10 @@ CREATE TABLE IF NOT EXISTS email_providers (
     from_email TEXT NOT NULL,
     from_name TEXT,
     enabled INTEGER DEFAULT 1,
+    consecutive_failures INTEGER DEFAULT 0,
+    last_error TEXT,
+    last_failure_at TEXT,
+    circuit_open_until TEXT, -- Skipped until this time
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
     updated_at TEXT DEFAULT CURRENT_TIMESTAMP
 );
@@ -443,7 +493,7 @@ END;
 CREATE TABLE IF NOT EXISTS email_templates (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     project_id TEXT REFERENCES projects(id) ON DELETE CASCADE, -- NULL for system-wide
-    type TEXT NOT NULL CHECK (type IN ('welcome', 'confirmation', 'password_reset', 'magic_link', 'email_change', 'otp')),
+    type TEXT NOT NULL CHECK (type IN ('welcome', 'confirmation', 'password_reset', 'magic_link', 'email_change', 'otp', 'security_alert')),
     subject TEXT NOT NULL,
     body_html TEXT NOT NULL,
     body_text TEXT,
@@ -466,7 +516,371 @@ INSERT OR IGNORE INTO email_templates (type, subject, body_html, body_text) VALU
 ('password_reset', 'Reset your password', '<h1>Reset Password</h1><p>Click <a href="{{action_url}}">here</a> to reset.</p>', 'Reset Password: {{action_url}}'),
 ('magic_link', 'Login to {{app_name}}', '<h1>Login</h1><p>Click <a href="{{action_url}}">here</a> to login.</p>', 'Login: {{action_url}}'),
 ('email_change', 'Verify new email', '<h1>Verify Email</h1><p>Click <a href="{{action_url}}">here</a> to verify.</p>', 'Verify Email: {{action_url}}'),
-('otp', 'Your verification code', '<h1>Code: {{otp}}</h1>', 'Your code is: {{otp}}');
+('otp', 'Your verification code', '<h1>Code: {{otp}}</h1>', 'Your code is: {{otp}}'),
+('security_alert', 'Security alert for your {{app_name}} account', '<h1>Security Alert</h1><p>{{alert_message}}</p>', 'Security alert: {{alert_message}}');
+
+-- ============================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE, -- NULL for system emails
+    template_type TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body_html TEXT NOT NULL,
+    body_text TEXT,
+    provider TEXT, -- Provider that delivered the message, or last tried it
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TEXT,
+    sent_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+    ON email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created
+    ON email_outbox(created_at);
+
+-- ============================================================
+-- MAGIC LINK TOKENS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+    -- User identification
+    user_id TEXT NOT NULL,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+
+    -- Token data (SHA-256 hash of the actual token sent to user)
+    token_hash TEXT NOT NULL,
+
+    -- Validated redirect target for the link
+    redirect_to TEXT,
+
+    -- Token lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when token expires (typically 15 minutes)
+    used_at INTEGER,              -- Unix timestamp when token was used (NULL if unused)
+    created_at INTEGER NOT NULL,
+
+    UNIQUE(project_id, user_id, token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_hash
+    ON magic_link_tokens(token_hash)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_project_email
+    ON magic_link_tokens(project_id, email)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_expires
+    ON magic_link_tokens(expires_at)
+    WHERE used_at IS NULL;
+
+-- ============================================================
+-- EMAIL OTP CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_otp_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+    -- User identification
+    user_id TEXT NOT NULL,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+
+    -- What the code may be used for
+    purpose TEXT NOT NULL CHECK (purpose IN ('login', 'email_verification')),
+
+    -- Code data (SHA-256 hash of the 6-digit code bound to the email)
+    code_hash TEXT NOT NULL,
+
+    -- Number of wrong guesses against this code
+    attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 10 minutes)
+    used_at INTEGER,              -- Unix timestamp when code was used or invalidated
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_otp_codes_project_email
+    ON email_otp_codes(project_id, email, purpose)
+    WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_otp_codes_expires
+    ON email_otp_codes(expires_at)
+    WHERE used_at IS NULL;
+
+-- ============================================================
+-- WEBAUTHN CREDENTIALS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Credential data (base64url credential ID and CBOR encoded COSE public key)
+    credential_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT,
+
+    -- Display
+    name TEXT,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TEXT,
+
+    UNIQUE(project_id, credential_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_project_user
+    ON webauthn_credentials(project_id, user_id);
+
+-- ============================================================
+-- WEBAUTHN CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT,
+
+    -- Ceremony data
+    challenge TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL CHECK (type IN ('registration', 'authentication')),
+
+    -- Challenge lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when challenge expires (typically 5 minutes)
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires
+    ON webauthn_challenges(expires_at);
+
+-- ============================================================
+-- PROJECT SIGNING KEYS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS project_signing_keys (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Key identity (JWT "kid" header)
+    kid TEXT NOT NULL UNIQUE,
+    algorithm TEXT NOT NULL CHECK (algorithm IN ('HS256', 'RS256', 'ES256', 'EdDSA')),
+
+    -- Key material as JWK JSON (private key or HS256 secret encrypted with ENCRYPTION_KEY).
+    -- HS256 keys have no public key; the project's own jwt_secret has no stored material.
+    public_key TEXT,
+    private_key TEXT,
+
+    -- Key ring state: 'next' keys are published ahead of activation, the newest 'active'
+    -- key signs, and every non-retired key is accepted
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'next', 'retired')),
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    activated_at TEXT,
+    retired_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_signing_keys_project_status
+    ON project_signing_keys(project_id, status);
+
+-- ============================================================
+-- OAUTH CLIENTS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- Client credentials (SHA-256 hash of the secret; public clients have none)
+    client_id TEXT NOT NULL UNIQUE,
+    client_secret_hash TEXT,
+    client_type TEXT NOT NULL DEFAULT 'confidential' CHECK (client_type IN ('confidential', 'public', 'service')),
+
+    -- Registration
+    name TEXT NOT NULL,
+    redirect_uris TEXT NOT NULL,  -- JSON array
+    allowed_scopes TEXT NOT NULL DEFAULT '[]',  -- JSON array, scopes service clients may request
+    skip_consent INTEGER DEFAULT 0,
+    enabled INTEGER DEFAULT 1,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_clients_project_id
+    ON oauth_clients(project_id);
+
+-- ============================================================
+-- OAUTH AUTHORIZATION CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    client_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+
+    -- Code data
+    code_hash TEXT NOT NULL UNIQUE,
+
+    -- Authorization request
+    redirect_uri TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    nonce TEXT,
+    code_challenge TEXT,
+    auth_time INTEGER NOT NULL,
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 1 minute)
+    used_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_authorization_codes_expires
+    ON oauth_authorization_codes(expires_at);
+
+-- ============================================================
+-- OAUTH CONSENTS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_consents (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    client_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+
+    -- Granted scopes (space separated)
+    scope TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, client_id, user_id)
+);
+
+-- ============================================================
+-- REVOKED ACCESS TOKENS TABLE (JTI DENYLIST)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS revoked_access_tokens (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+    -- JWT ID of the revoked access token
+    jti TEXT NOT NULL,
+
+    -- When the token would have expired (Unix seconds); the entry is useless after that
+    expires_at INTEGER NOT NULL,
+
+    -- Revocation
+    reason TEXT,
+    revoked_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, jti)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_access_tokens_expires_at
+    ON revoked_access_tokens(expires_at);
+-- ============================================================
+-- USER IDENTITIES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS user_identities (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Provider account
+    provider TEXT NOT NULL,
+    provider_user_id TEXT NOT NULL,
+    email TEXT,
+    email_verified INTEGER DEFAULT 0,
+    raw_user_data TEXT, -- JSON profile from the provider's last sign-in
+
+    -- Upstream provider tokens, encrypted
+    access_token TEXT,
+    refresh_token TEXT,
+    token_expires_at INTEGER,  -- Unix timestamp, NULL if the provider gave no expiry
+    token_scope TEXT,
+
+    -- Timestamps
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_sign_in_at TEXT,
+
+    UNIQUE(project_id, provider, provider_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_project_user
+    ON user_identities(project_id, user_id);
+
+-- ============================================================
+-- OAUTH LOGIN CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS oauth_login_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+
+    -- Code data
+    code_hash TEXT NOT NULL UNIQUE,
+    browser_nonce_hash TEXT,  -- Hash of the browser nonce cookie the sign-in was bound to
+
+    -- Code lifecycle
+    expires_at INTEGER NOT NULL,  -- Unix timestamp when code expires (typically 1 minute)
+    used_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_login_codes_expires
+    ON oauth_login_codes(expires_at);
+
+-- ============================================================
+-- MFA CHALLENGES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+
+    -- Challenge data (single use)
+    challenge_token_hash TEXT UNIQUE NOT NULL,
+    method TEXT NOT NULL,  -- First factor the user signed in with
+    ip_address TEXT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+
+    -- Expiry
+    expires_at TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_ip
+    ON mfa_challenges(project_id, ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_created_at
+    ON mfa_challenges(created_at);
 `;
 
 export async function initializeDatabase(env: Env): Promise<void> {
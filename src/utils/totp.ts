@@ -0,0 +1,165 @@
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second steps)
+ * as used by Google Authenticator, 1Password, Authy and friends.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ * @param bytes - Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const output: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(output);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns 160-bit secret, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Get the time step for a timestamp
+ * @param timestampMs - Unix time in milliseconds
+ * @returns Time step counter
+ */
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generate the code for a given time step
+ * @param secret - Base32 secret
+ * @param step - Time step counter
+ * @returns Zero-padded code
+ */
+export async function generateTotp(secret: string, step: number = getTotpStep()): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  // 8-byte big-endian counter
+  const counter = new ArrayBuffer(8);
+  const view = new DataView(counter);
+  view.setUint32(0, Math.floor(step / 0x100000000));
+  view.setUint32(4, step >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verify a code, allowing for clock drift
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param window - Number of steps accepted either side of the current one
+ * @param timestampMs - Unix time in milliseconds
+ * @returns The matching time step, or null if the code is wrong
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  window: number = 1,
+  timestampMs: number = Date.now()
+): Promise<number | null> {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const current = getTotpStep(timestampMs);
+
+  for (let step = current - window; step <= current + window; step++) {
+    if ((await generateTotp(secret, step)) === code) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an otpauth:// provisioning URI for authenticator apps (rendered as a QR code by clients)
+ * @param issuer - Issuer shown in the authenticator app
+ * @param accountName - Account label, usually the email address
+ * @param secret - Base32 secret
+ * @returns Provisioning URI
+ */
+export function buildOtpauthUri(issuer: string, accountName: string, secret: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -32,6 +32,8 @@ export const updateProjectSchema = z.object({
     .optional(),
   description: z.string().optional(),
   enabled: z.boolean().optional(),
+  // Asymmetric algorithms sign with a per-project key pair published at /.well-known/jwks.json
+  jwtAlgorithm: z.enum(['HS256', 'RS256', 'ES256', 'EdDSA']).optional(),
   jwtExpirySeconds: z.number().int().min(60).max(86400).optional(),
   refreshTokenExpirySeconds: z.number().int().min(3600).max(2592000).optional(),
   // Site URL for generating email callback links
@@ -42,6 +44,15 @@ export const updateProjectSchema = z.object({
   redirectUrls: z.array(
     z.string().url('Each redirect URL must be a valid URL')
   ).optional(),
+  // Email users when a rotated refresh token is replayed
+  notifyRefreshTokenReuse: z.boolean().optional(),
+  // Link OAuth sign-ins to an existing account with the same provider-verified email
+  autoLinkOAuthAccounts: z.boolean().optional(),
+  // Email sender identity; null falls back to the system default provider
+  emailProviderId: z.string().nullable().optional(),
+  emailFromName: z.string().max(100).nullable().optional(),
+  emailFromAddress: z.string().email('Invalid sender email address').nullable().optional(),
+  emailReplyTo: z.string().email('Invalid reply-to email address').nullable().optional(),
 });
 
 // ============================================================
@@ -49,7 +60,7 @@ export const updateProjectSchema = z.object({
 // ============================================================
 
 export const createOAuthProviderSchema = z.object({
-  providerName: z.enum(["google", "github", "microsoft", "apple", "custom"]),
+  providerName: z.enum(["google", "github", "microsoft", "apple", "discord", "gitlab", "facebook", "linkedin", "slack", "x", "oidc", "custom"]),
   enabled: z.boolean().default(true),
   clientId: z.string().min(1, "Client ID is required"),
   clientSecret: z.string().min(1, "Client Secret is required"),
@@ -71,6 +82,46 @@ export const updateOAuthProviderSchema = z.object({
   additionalConfig: z.record(z.string(), z.any()).optional(),
 });
 
+// Link a provider account to the signed-in user with a code from the provider's consent screen
+export const linkIdentitySchema = z.object({
+  redirectUri: z.string().url('Invalid redirect URI'),
+});
+
+export const oauthExchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+// ============================================================
+// OAUTH CLIENT VALIDATION
+// ============================================================
+
+// Scope token as defined by RFC 6749 section 3.3; the OpenID Connect scopes are reserved for users
+const serviceScopeSchema = z.string()
+  .regex(/^[\x21\x23-\x5B\x5D-\x7E]{1,100}$/, 'Invalid scope')
+  .refine((scope) => !['openid', 'profile', 'email'].includes(scope), 'OpenID Connect scopes cannot be granted to service clients');
+
+export const createOAuthClientSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  // Public clients (SPAs, mobile apps) have no secret and must use PKCE; service clients
+  // use the client_credentials grant and have allowed scopes instead of redirect URIs
+  clientType: z.enum(['confidential', 'public', 'service']).default('confidential'),
+  redirectUris: z.array(
+    z.string().url('Each redirect URI must be a valid URL')
+  ).default([]),
+  allowedScopes: z.array(serviceScopeSchema).max(50, 'Too many scopes').optional(),
+  skipConsent: z.boolean().default(false),
+});
+
+export const updateOAuthClientSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  redirectUris: z.array(
+    z.string().url('Each redirect URI must be a valid URL')
+  ).optional(),
+  allowedScopes: z.array(serviceScopeSchema).max(50, 'Too many scopes').optional(),
+  skipConsent: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+
 // ============================================================
 // AUTH VALIDATION
 // ============================================================
@@ -109,6 +160,96 @@ export const resetPasswordSchema = z.object({
     .regex(/[0-9]/, 'Password must contain at least one number'),
 });
 
+export const magicLinkSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  // Must be allowed by the project's siteUrl / redirectUrls allowlist
+  redirectTo: z.string().url('Redirect URL must be a valid URL').optional(),
+});
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Magic link token is required'),
+});
+
+export const mfaEnrollSchema = z.object({
+  friendlyName: z.string().max(100, 'Name too long').optional(),
+});
+
+export const mfaConfirmSchema = z.object({
+  factorId: z.string().min(1, 'Factor ID is required'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const mfaRemoveSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+});
+
+export const mfaVerifySchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const requestOtpSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  purpose: z.enum(['login', 'email_verification']).default('login'),
+});
+
+export const verifyOtpSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  purpose: z.enum(['login', 'email_verification']).default('login'),
+});
+
+// Binary WebAuthn fields are base64url strings, as produced by the browser's toJSON()
+const webauthnRegistrationCredentialSchema = z.object({
+  id: z.string().min(1, 'Credential ID is required'),
+  rawId: z.string().optional(),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: z.string().min(1, 'clientDataJSON is required'),
+    attestationObject: z.string().min(1, 'attestationObject is required'),
+    transports: z.array(z.string()).optional(),
+  }),
+});
+
+const webauthnAuthenticationCredentialSchema = z.object({
+  id: z.string().min(1, 'Credential ID is required'),
+  rawId: z.string().optional(),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: z.string().min(1, 'clientDataJSON is required'),
+    authenticatorData: z.string().min(1, 'authenticatorData is required'),
+    signature: z.string().min(1, 'signature is required'),
+    userHandle: z.string().nullable().optional(),
+  }),
+});
+
+export const webauthnRegisterVerifySchema = z.object({
+  credential: webauthnRegistrationCredentialSchema,
+  name: z.string().max(100, 'Name too long').optional(),
+});
+
+export const webauthnLoginOptionsSchema = z.object({
+  email: z.string().email('Invalid email address').optional(),
+});
+
+export const webauthnLoginVerifySchema = z.object({
+  credential: webauthnAuthenticationCredentialSchema,
+});
+
+// Authorization request forwarded by the project's sign-in page to POST /oauth2/authorize
+export const oidcAuthorizeSchema = z.object({
+  responseType: z.string().min(1, 'responseType is required'),
+  clientId: z.string().min(1, 'clientId is required'),
+  redirectUri: z.string().min(1, 'redirectUri is required'),
+  scope: z.string().default(''),
+  state: z.string().optional(),
+  nonce: z.string().max(255, 'Nonce too long').optional(),
+  codeChallenge: z.string().optional(),
+  codeChallengeMethod: z.string().optional(),
+  prompt: z.string().optional(),
+  consent: z.enum(['approve', 'deny']).optional(),
+});
+
 // ============================================================
 // ADMIN VALIDATION
 // ============================================================
@@ -118,6 +259,15 @@ export const adminLoginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const adminMfaLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const adminMfaCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
 export const createAdminUserSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string()
@@ -0,0 +1,261 @@
+import { decodeCbor, decodeCborItem } from './cbor';
+
+/**
+ * COSE algorithm identifiers supported for passkeys
+ */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+
+export const SUPPORTED_COSE_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+/**
+ * Authenticator data flags (WebAuthn section 6.1)
+ */
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+export interface ParsedAuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  credentialId?: Uint8Array;
+  credentialPublicKey?: Uint8Array;
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ * @param bytes - Bytes to encode
+ * @returns Base64url string
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url (or base64) string
+ * @param input - Base64url string
+ * @returns Decoded bytes
+ */
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Compute SHA-256 of bytes
+ * @param data - Data to hash
+ * @returns Digest bytes
+ */
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Parse and decode clientDataJSON
+ * @param clientDataJSON - Base64url encoded client data
+ * @returns Parsed client data
+ */
+export function parseClientData(clientDataJSON: string): ClientData {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(clientDataJSON)));
+}
+
+/**
+ * Parse authenticator data
+ * @param authData - Raw authenticator data
+ * @returns Parsed fields, including the attested credential when present
+ */
+export function parseAuthenticatorData(authData: Uint8Array): ParsedAuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = authData[32];
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength);
+
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: authData.slice(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // 16-byte AAGUID, 2-byte credential ID length, credential ID, COSE public key
+    let offset = 37 + 16;
+    const credentialIdLength = view.getUint16(offset);
+    offset += 2;
+
+    parsed.credentialId = authData.slice(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+
+    const { offset: keyEnd } = decodeCborItem(authData, offset);
+    parsed.credentialPublicKey = authData.slice(offset, keyEnd);
+  }
+
+  return parsed;
+}
+
+/**
+ * Decode an attestation object
+ * @param attestationObject - Base64url encoded attestation object
+ * @returns Attestation format and raw authenticator data
+ */
+export function parseAttestationObject(attestationObject: string): { fmt: string; authData: Uint8Array } {
+  const decoded = decodeCbor(base64UrlDecode(attestationObject));
+  if (!(decoded instanceof Map)) {
+    throw new Error('Invalid attestation object');
+  }
+
+  const fmt = decoded.get('fmt');
+  const authData = decoded.get('authData');
+  if (typeof fmt !== 'string' || !(authData instanceof Uint8Array)) {
+    throw new Error('Invalid attestation object');
+  }
+
+  return { fmt, authData };
+}
+
+/**
+ * Import a COSE public key for signature verification
+ * @param coseKey - CBOR encoded COSE_Key
+ * @returns WebCrypto key and its COSE algorithm
+ */
+export async function importCosePublicKey(coseKey: Uint8Array): Promise<{ key: CryptoKey; algorithm: number }> {
+  const map = decodeCbor(coseKey);
+  if (!(map instanceof Map)) {
+    throw new Error('Invalid COSE key');
+  }
+
+  const kty = map.get(1);
+  const alg = map.get(3);
+
+  if (kty === 2 && alg === COSE_ALG_ES256 && map.get(-1) === 1) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'EC', crv: 'P-256', x: base64UrlEncode(map.get(-2)), y: base64UrlEncode(map.get(-3)) },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return { key, algorithm: alg };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'RSA', n: base64UrlEncode(map.get(-1)), e: base64UrlEncode(map.get(-2)) },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    return { key, algorithm: alg };
+  }
+
+  if (kty === 1 && alg === COSE_ALG_EDDSA && map.get(-1) === 6) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(map.get(-2)) },
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+    return { key, algorithm: alg };
+  }
+
+  throw new Error('Unsupported public key algorithm');
+}
+
+/**
+ * Convert a DER encoded ECDSA signature to the raw r||s form WebCrypto expects
+ * @param der - DER signature
+ * @returns 64-byte raw signature
+ */
+export function derToRawEcdsaSignature(der: Uint8Array): Uint8Array {
+  // SEQUENCE { INTEGER r, INTEGER s }
+  if (der[0] !== 0x30) {
+    throw new Error('Invalid ECDSA signature');
+  }
+
+  const raw = new Uint8Array(64);
+  let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) {
+      throw new Error('Invalid ECDSA signature');
+    }
+    const length = der[offset + 1];
+    offset += 2;
+
+    let value = der.slice(offset, offset + length);
+    offset += length;
+
+    // Strip the sign padding byte and left-pad to 32 bytes
+    while (value.length > 32 && value[0] === 0) {
+      value = value.slice(1);
+    }
+    if (value.length > 32) {
+      throw new Error('Invalid ECDSA signature');
+    }
+    raw.set(value, part * 32 + (32 - value.length));
+  }
+
+  return raw;
+}
+
+/**
+ * Verify an assertion signature over authenticatorData || SHA-256(clientDataJSON)
+ * @param coseKey - CBOR encoded COSE_Key
+ * @param signature - Signature from the authenticator
+ * @param signedData - Signed bytes
+ * @returns True if the signature is valid
+ */
+export async function verifyCoseSignature(
+  coseKey: Uint8Array,
+  signature: Uint8Array,
+  signedData: Uint8Array
+): Promise<boolean> {
+  const { key, algorithm } = await importCosePublicKey(coseKey);
+
+  switch (algorithm) {
+    case COSE_ALG_ES256:
+      return crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        derToRawEcdsaSignature(signature),
+        signedData
+      );
+    case COSE_ALG_RS256:
+      return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData);
+    case COSE_ALG_EDDSA:
+      return crypto.subtle.verify('Ed25519', key, signature, signedData);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compare two byte arrays
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
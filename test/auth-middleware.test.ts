@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../src/index';
+import { projectService } from '../src/services/project-service';
+import { signingKeyService } from '../src/services/signing-key-service';
+import { userService } from '../src/services/user-service';
+import type { Env, JWTPayload, Project, User } from '../src/types';
+
+/**
+ * Route tests for the user auth middleware: user tokens issued to OAuth clients
+ * must not reach the account management routes
+ */
+
+const createTestEnv = (): Env => {
+  const mockDB = {
+    exec: vi.fn().mockResolvedValue(undefined),
+    prepare: vi.fn().mockReturnThis(),
+    bind: vi.fn().mockReturnThis(),
+    run: vi.fn().mockResolvedValue({ success: true }),
+    all: vi.fn().mockResolvedValue({ results: [] }),
+    first: vi.fn().mockResolvedValue(null),
+    batch: vi.fn().mockResolvedValue([]),
+  };
+
+  return {
+    DB: mockDB as any,
+    ASSETS: {} as any,
+    ADMIN_SESSION_SECRET: 'test-session-secret',
+    ENCRYPTION_KEY: 'test-encryption-key-32-characters',
+    ADMIN_DOMAIN: 'admin.example.com',
+    SENDGRID_API_KEY: 'test-sendgrid-key',
+    SENDGRID_FROM_EMAIL: 'noreply@example.com',
+    PASSWORD_RESET_BASE_URL: 'https://example.com/reset',
+    EMAIL_CONFIRMATION_BASE_URL: 'https://example.com/confirm',
+  };
+};
+
+const project = {
+  id: 'test_project',
+  userTableName: 'users_test_project',
+  jwtAlgorithm: 'HS256',
+} as Project;
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  emailVerified: true,
+  displayName: 'Test User',
+} as unknown as User;
+
+const sessionPayload: JWTPayload = {
+  sub: 'user-1',
+  subType: 'user',
+  email: 'user@example.com',
+  projectId: 'test_project',
+  iat: 1700000000,
+  exp: 4100000000,
+  jti: 'token-1',
+};
+
+const clientPayload: JWTPayload = {
+  ...sessionPayload,
+  scope: 'openid email',
+  clientId: 'third-party-app',
+};
+
+const request = (method: string, path: string, body?: unknown) =>
+  app.fetch(
+    new Request(`http://localhost/api/auth/test_project${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+      body: body ? JSON.stringify(body) : undefined,
+    }),
+    createTestEnv()
+  );
+
+describe('Auth middleware', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(projectService, 'getProject').mockResolvedValue(project);
+    vi.spyOn(userService, 'getUserById').mockResolvedValue(user);
+  });
+
+  describe('tokens issued to OAuth clients', () => {
+    beforeEach(() => {
+      vi.spyOn(signingKeyService, 'verifyAccessToken').mockResolvedValue(clientPayload);
+    });
+
+    it.each([
+      ['GET', '/me'],
+      ['GET', '/mfa/factors'],
+      ['POST', '/mfa/totp/enroll'],
+      ['DELETE', '/mfa/factors/factor-1'],
+      ['GET', '/sessions'],
+      ['DELETE', '/sessions'],
+      ['DELETE', '/sessions/session-1'],
+      ['POST', '/webauthn/register/options'],
+      ['POST', '/webauthn/register/verify'],
+      ['GET', '/webauthn/credentials'],
+      ['GET', '/identities'],
+      ['POST', '/identities/github'],
+      ['GET', '/identities/github/token'],
+      ['DELETE', '/identities/identity-1'],
+      ['POST', '/oauth2/authorize'],
+    ])('should be refused on %s %s', async (method, path) => {
+      const response = await request(method, path, method === 'GET' ? undefined : {});
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ error: 'This endpoint requires a first-party session' });
+    });
+
+    it('should be accepted by userinfo', async () => {
+      const response = await request('GET', '/oauth2/userinfo');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ sub: 'user-1', email: 'user@example.com' });
+    });
+  });
+
+  describe('first-party sessions', () => {
+    beforeEach(() => {
+      vi.spyOn(signingKeyService, 'verifyAccessToken').mockResolvedValue(sessionPayload);
+    });
+
+    it('should be accepted', async () => {
+      const response = await request('GET', '/me');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ data: { id: 'user-1' } });
+    });
+  });
+});
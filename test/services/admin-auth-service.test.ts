@@ -1,4 +1,30 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AdminAuthService } from '../../src/services/admin-auth-service';
+import { hashPassword, hashToken, encrypt } from '../../src/utils/crypto';
+import { generateTotp } from '../../src/utils/totp';
+import type { Env } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
 
 describe('Admin Auth Integration Tests', () => {
   beforeEach(() => {
@@ -96,4 +122,159 @@ describe('Admin Auth Integration Tests', () => {
       expect(updates.displayName).toBe('Updated Name');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('AdminAuthService MFA', () => {
+  const SECRET = 'JBSWY3DPEHPK3PXP';
+  const env = { DB: {}, ENCRYPTION_KEY: 'test-encryption-key' } as unknown as Env;
+  let service: AdminAuthService;
+  let passwordHash: string;
+
+  const mfaAdmin = async () => ({
+    id: 'admin-1',
+    email: 'admin@test.com',
+    passwordHash,
+    enabled: true,
+    mfaEnabled: true,
+    mfaSecret: await encrypt(SECRET, 'test-encryption-key'),
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    service = new AdminAuthService();
+    passwordHash ??= await hashPassword('correct-password');
+  });
+
+  const challengeRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'challenge-1',
+    adminUserId: 'admin-1',
+    failedAttempts: 0,
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  });
+
+  it('should return a single-use challenge instead of a session when MFA is enabled', async () => {
+    mockQuery.get.mockResolvedValueOnce(await mfaAdmin());
+
+    const result = await service.adminLogin(env, 'admin@test.com', 'correct-password', '203.0.113.7');
+
+    expect(result).toHaveProperty('mfaRequired', true);
+    expect(result).not.toHaveProperty('sessionToken');
+    const stored = mockQuery.values.mock.calls[0][0];
+    expect(stored).not.toHaveProperty('sessionTokenHash');
+    expect(stored).toMatchObject({
+      adminUserId: 'admin-1',
+      challengeTokenHash: await hashToken((result as { mfaToken: string }).mfaToken),
+      ipAddress: '203.0.113.7',
+    });
+  });
+
+  it('should create a session once the MFA code is verified', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce(challengeRow())
+      .mockResolvedValueOnce(await mfaAdmin())
+      .mockResolvedValueOnce({ id: 'admin-1' })
+      .mockResolvedValueOnce({ id: 'challenge-1' });
+
+    const result = await service.verifyAdminMfa(env, 'mfa-token', await generateTotp(SECRET));
+
+    expect(result.sessionToken).toBeTruthy();
+    expect(mockQuery.set).toHaveBeenCalledWith({ mfaLastUsedStep: expect.any(Number) });
+    expect(mockQuery.delete).toHaveBeenCalled();
+    expect(mockQuery.insert).toHaveBeenCalled();
+  });
+
+  it('should count a wrong MFA code against the challenge', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce(challengeRow())
+      .mockResolvedValueOnce(await mfaAdmin());
+
+    await expect(service.verifyAdminMfa(env, 'mfa-token', '000000')).rejects.toThrow('Invalid MFA code');
+    expect(mockQuery.set).toHaveBeenCalledWith({ failedAttempts: expect.anything() });
+    expect(mockQuery.insert).not.toHaveBeenCalled();
+  });
+
+  it('should reject a replayed MFA code', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce(challengeRow())
+      .mockResolvedValueOnce(await mfaAdmin())
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.verifyAdminMfa(env, 'mfa-token', await generateTotp(SECRET)))
+      .rejects.toThrow('Invalid MFA code');
+    expect(mockQuery.insert).not.toHaveBeenCalled();
+  });
+
+  it('should reject a challenge that was already used', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce(challengeRow())
+      .mockResolvedValueOnce(await mfaAdmin())
+      .mockResolvedValueOnce({ id: 'admin-1' })
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.verifyAdminMfa(env, 'mfa-token', await generateTotp(SECRET)))
+      .rejects.toThrow('Invalid or expired MFA challenge');
+    expect(mockQuery.insert).not.toHaveBeenCalled();
+  });
+
+  it('should reject a challenge after too many wrong codes', async () => {
+    mockQuery.get.mockResolvedValueOnce(challengeRow({ failedAttempts: 5 }));
+
+    await expect(service.verifyAdminMfa(env, 'mfa-token', await generateTotp(SECRET)))
+      .rejects.toThrow('Invalid or expired MFA challenge');
+  });
+
+  it('should reject an unknown or expired challenge', async () => {
+    mockQuery.get.mockResolvedValueOnce(undefined);
+    await expect(service.verifyAdminMfa(env, 'bm90LWEtY2hhbGxlbmdl', '123456'))
+      .rejects.toThrow('Invalid or expired MFA challenge');
+
+    mockQuery.get.mockResolvedValueOnce(challengeRow({ expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    await expect(service.verifyAdminMfa(env, 'mfa-token', '123456'))
+      .rejects.toThrow('Invalid or expired MFA challenge');
+  });
+
+  it('should block an IP address after too many wrong codes', async () => {
+    mockQuery.get.mockResolvedValueOnce({ count: 10 });
+
+    await expect(service.verifyAdminMfa(env, 'mfa-token', '123456', '203.0.113.7'))
+      .rejects.toThrow('Too many failed MFA attempts');
+  });
+
+  it('should reject a replayed code when confirming enrolment', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce({ ...(await mfaAdmin()), mfaEnabled: false })
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.verifyAdminMfaEnrollment(env, 'admin-1', await generateTotp(SECRET)))
+      .rejects.toThrow('Invalid MFA code');
+  });
+
+  it('should reject a replayed code when disabling MFA', async () => {
+    mockQuery.get
+      .mockResolvedValueOnce(await mfaAdmin())
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.disableAdminMfa(env, 'admin-1', await generateTotp(SECRET)))
+      .rejects.toThrow('Invalid MFA code');
+    expect(mockQuery.set).not.toHaveBeenCalledWith(expect.objectContaining({ mfaEnabled: false }));
+  });
+
+  it('should store the enrolment secret encrypted', async () => {
+    mockQuery.get.mockResolvedValueOnce({ id: 'admin-1', email: 'admin@test.com', mfaEnabled: false });
+
+    const result = await service.enrollAdminMfa(env, 'admin-1');
+
+    const stored = mockQuery.set.mock.calls[0][0].mfaSecret;
+    expect(stored).toBeTruthy();
+    expect(stored).not.toBe(result.secret);
+    expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+  });
+
+  it('should require ENCRYPTION_KEY', async () => {
+    mockQuery.get.mockResolvedValueOnce({ id: 'admin-1', email: 'admin@test.com', mfaEnabled: false });
+
+    await expect(service.enrollAdminMfa({ DB: {} } as unknown as Env, 'admin-1'))
+      .rejects.toThrow('ENCRYPTION_KEY must be configured');
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { AuthService } from '../../src/services/auth-service';
+import { projectService } from '../../src/services/project-service';
+import { userService } from '../../src/services/user-service';
+import { auditService } from '../../src/services/audit-service';
+import { emailService } from '../../src/services/email-service';
+import { signingKeyService } from '../../src/services/signing-key-service';
+import { tokenDenylistService } from '../../src/services/token-denylist-service';
+import type { Env } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  orderBy: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  all: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn() },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: { getUserById: vi.fn() },
+}));
+
+vi.mock('../../src/services/signing-key-service', () => ({
+  signingKeyService: { signAccessToken: vi.fn().mockResolvedValue('access') },
+}));
+
+vi.mock('../../src/services/token-denylist-service', () => ({
+  tokenDenylistService: { revoke: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/email-service', () => ({
+  emailService: { sendSecurityAlertEmail: vi.fn().mockResolvedValue(undefined) },
+}));
+
+const env = { DB: {} } as unknown as Env;
+const request = new Request('http://localhost/api/auth/test_project/refresh', {
+  method: 'POST',
+  headers: { 'CF-Connecting-IP': '203.0.113.7' },
+});
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  userTableName: 'test_project_users',
+  refreshTokenExpirySeconds: 604800,
+  notifyRefreshTokenReuse: false,
+};
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  status: 'active',
+};
+
+const storedToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  projectId: 'test_project',
+  userId: 'user-1',
+  tokenHash: 'hash',
+  familyId: 'family-1',
+  deviceName: null,
+  userAgent: 'Mozilla/5.0',
+  ipAddress: '203.0.113.7',
+  expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  revoked: false,
+  revokedAt: null,
+  revokedReason: null,
+  createdAt: '2026-01-01',
+  lastUsedAt: null,
+  ...overrides,
+});
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AuthService();
+    vi.mocked(projectService.getProject).mockResolvedValue(project as any);
+    vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+    mockQuery.returning.mockResolvedValue([{ id: 'token-1' }]);
+  });
+
+  describe('refreshToken', () => {
+    it('should rotate the token within its family', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedToken());
+
+      const result = await service.refreshToken(env, 'test_project', 'refresh', request);
+
+      expect(result.accessToken).toBe('access');
+      expect(result.refreshToken).toBeTruthy();
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({
+        revoked: true,
+        revokedReason: 'rotated',
+      }));
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        familyId: 'family-1',
+      }));
+      expect(auditService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should remember the access token issued with the new refresh token', async () => {
+      const accessToken = new jose.UnsecuredJWT({}).setJti('jti-2').setExpirationTime(1900000000).encode();
+      vi.mocked(signingKeyService.signAccessToken).mockResolvedValueOnce(accessToken);
+      mockQuery.get.mockResolvedValueOnce(storedToken());
+
+      await service.refreshToken(env, 'test_project', 'refresh', request);
+
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        accessTokenJti: 'jti-2',
+        accessTokenExpiresAt: 1900000000,
+      }));
+    });
+
+    it('should revoke the family when a rotated token is replayed', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedToken({ revoked: true, revokedReason: 'rotated' }));
+      mockQuery.returning.mockResolvedValueOnce([{ id: 'token-2' }]);
+
+      await expect(service.refreshToken(env, 'test_project', 'refresh', request))
+        .rejects.toThrow('Invalid refresh token');
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({
+        revoked: true,
+        revokedReason: 'reuse_detected',
+      }));
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'refresh_token_reuse',
+        eventStatus: 'warning',
+        userId: 'user-1',
+        ipAddress: '203.0.113.7',
+        eventData: expect.objectContaining({ familyId: 'family-1', revokedTokens: 1 }),
+      }));
+      expect(emailService.sendSecurityAlertEmail).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedToken());
+      mockQuery.returning.mockResolvedValueOnce([]);
+
+      await expect(service.refreshToken(env, 'test_project', 'refresh'))
+        .rejects.toThrow('Invalid refresh token');
+
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'refresh_token_reuse',
+      }));
+    });
+
+    it('should email the user when the project opted in', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValue({ ...project, notifyRefreshTokenReuse: true } as any);
+      vi.mocked(emailService.sendSecurityAlertEmail).mockRejectedValueOnce(new Error('SMTP down'));
+      mockQuery.get.mockResolvedValueOnce(storedToken({ revoked: true, revokedReason: 'rotated' }));
+
+      await expect(service.refreshToken(env, 'test_project', 'refresh'))
+        .rejects.toThrow('Invalid refresh token');
+
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        env,
+        'user@example.com',
+        'Test Project',
+        expect.any(String),
+        'test_project'
+      );
+    });
+
+    it('should not flag tokens revoked for other reasons', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedToken({ revoked: true, revokedReason: 'user_logout' }));
+
+      await expect(service.refreshToken(env, 'test_project', 'refresh'))
+        .rejects.toThrow('Invalid refresh token');
+
+      expect(mockQuery.update).not.toHaveBeenCalled();
+      expect(auditService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(storedToken({ expiresAt: new Date(Date.now() - 1000).toISOString() }));
+
+      await expect(service.refreshToken(env, 'test_project', 'refresh'))
+        .rejects.toThrow('Invalid refresh token');
+      await expect(service.refreshToken(env, 'test_project', 'refresh'))
+        .rejects.toThrow('Refresh token expired');
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should describe each live token by its family', async () => {
+      mockQuery.all.mockResolvedValueOnce([
+        storedToken({ createdAt: '2026-01-02' }),
+        storedToken({ familyId: 'family-2', lastUsedAt: '2026-01-03', deviceName: 'Phone' }),
+      ]);
+
+      const sessions = await service.listSessions(env, 'test_project', 'user-1');
+
+      expect(sessions).toEqual([
+        expect.objectContaining({ id: 'family-1', lastUsedAt: '2026-01-02', userAgent: 'Mozilla/5.0' }),
+        expect.objectContaining({ id: 'family-2', lastUsedAt: '2026-01-03', deviceName: 'Phone' }),
+      ]);
+      expect(sessions[0]).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the session family', async () => {
+      mockQuery.all.mockResolvedValueOnce([]);
+
+      await service.revokeSession(env, 'test_project', 'user-1', 'family-1');
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({
+        revoked: true,
+        revokedReason: 'session_revoked',
+      }));
+    });
+
+    it('should denylist the access tokens the session was issued', async () => {
+      mockQuery.all.mockResolvedValueOnce([
+        { jti: 'jti-1', expiresAt: 1900000000 },
+        { jti: 'jti-2', expiresAt: 1900000600 },
+      ]);
+
+      await service.revokeSession(env, 'test_project', 'user-1', 'family-1');
+
+      expect(tokenDenylistService.revoke).toHaveBeenCalledTimes(2);
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(env, 'test_project', 'jti-1', 1900000000, 'session_revoked');
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(env, 'test_project', 'jti-2', 1900000600, 'session_revoked');
+    });
+
+    it('should throw for sessions the user does not have', async () => {
+      mockQuery.returning.mockResolvedValueOnce([]);
+
+      await expect(service.revokeSession(env, 'test_project', 'user-1', 'someone-elses'))
+        .rejects.toThrow('Session not found');
+      expect(tokenDenylistService.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllUserTokens', () => {
+    it('should denylist the access tokens of every session', async () => {
+      mockQuery.all.mockResolvedValueOnce([{ jti: 'jti-1', expiresAt: 1900000000 }]);
+
+      await service.revokeAllUserTokens(env, 'test_project', 'user-1');
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({ revokedReason: 'all_tokens_revoked' }));
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(env, 'test_project', 'jti-1', 1900000000, 'all_tokens_revoked');
+    });
+  });
+});
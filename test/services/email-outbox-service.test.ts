@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EmailOutboxService } from '../../src/services/email-outbox-service';
+
+// Mock D1 Database
+const createMockDB = () => {
+  return {
+    prepare: vi.fn().mockReturnThis(),
+    bind: vi.fn().mockReturnThis(),
+    run: vi.fn().mockResolvedValue({ success: true, meta: { changes: 1 } }),
+    all: vi.fn().mockResolvedValue({ results: [] }),
+    first: vi.fn().mockResolvedValue(null),
+  } as any;
+};
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'email-1',
+  project_id: 'test_project',
+  template_type: 'otp',
+  recipient: 'user@example.com',
+  subject: 'Your verification code',
+  body_html: '<h1>Code: 123456</h1>',
+  body_text: null,
+  provider: null,
+  status: 'pending',
+  attempts: 1,
+  last_error: null,
+  next_attempt_at: '2026-10-19T12:01:00.000Z',
+  sent_at: null,
+  created_at: '2026-10-19 12:00:00',
+  updated_at: '2026-10-19 12:00:00',
+  ...overrides,
+});
+
+const secondsFromNow = (timestamp: string) => Math.round((new Date(timestamp).getTime() - Date.now()) / 1000);
+
+describe('EmailOutboxService', () => {
+  let service: EmailOutboxService;
+  let mockDB: any;
+
+  beforeEach(() => {
+    mockDB = createMockDB();
+    service = new EmailOutboxService(mockDB);
+  });
+
+  describe('enqueue', () => {
+    it('should store the message claimed for its first attempt', async () => {
+      mockDB.first.mockResolvedValueOnce(row());
+
+      const entry = await service.enqueue({
+        projectId: 'test_project',
+        templateType: 'otp',
+        recipient: 'user@example.com',
+        subject: 'Your verification code',
+        bodyHtml: '<h1>Code: 123456</h1>',
+      });
+
+      expect(mockDB.prepare.mock.calls[0][0]).toContain("'pending', 1, ?");
+      const params = mockDB.bind.mock.calls[0];
+      expect(params.slice(1, 7)).toEqual([
+        'test_project',
+        'otp',
+        'user@example.com',
+        'Your verification code',
+        '<h1>Code: 123456</h1>',
+        null,
+      ]);
+      expect(secondsFromNow(params[7])).toBe(60);
+      expect(entry).toMatchObject({ id: 'email-1', status: 'pending', bodyHtml: '<h1>Code: 123456</h1>' });
+    });
+  });
+
+  describe('listEntries', () => {
+    it('should filter and leave out the bodies', async () => {
+      const { body_html, body_text, ...summary } = row();
+      mockDB.all.mockResolvedValueOnce({ results: [summary] });
+
+      const entries = await service.listEntries({ status: 'failed', limit: 20, offset: 40 });
+
+      expect(mockDB.prepare.mock.calls[0][0]).not.toContain('SELECT *');
+      expect(mockDB.prepare.mock.calls[0][0]).toContain('WHERE status = ?');
+      expect(mockDB.bind).toHaveBeenCalledWith('failed', 20, 40);
+      expect(entries[0]).not.toHaveProperty('bodyHtml');
+    });
+  });
+
+  describe('claim', () => {
+    it('should count the attempt and push the next one back', async () => {
+      const attempt = await service.claim(service['mapRowToEntry'](row({ attempts: 2 })));
+
+      expect(attempt).toBe(3);
+      const [attempts, nextAttemptAt, id, seenAttempts] = mockDB.bind.mock.calls[0];
+      expect(attempts).toBe(3);
+      expect(secondsFromNow(nextAttemptAt)).toBe(240);
+      expect(id).toBe('email-1');
+      expect(seenAttempts).toBe(2);
+    });
+
+    it('should lose to a concurrent claim', async () => {
+      mockDB.run.mockResolvedValueOnce({ success: true, meta: { changes: 0 } });
+
+      expect(await service.claim(service['mapRowToEntry'](row()))).toBeNull();
+    });
+  });
+
+  describe('markFailed', () => {
+    it('should schedule the next attempt with exponential backoff', async () => {
+      await service.markFailed('email-1', 3, 'Primary: timeout', 'Primary');
+
+      const [status, provider, error, nextAttemptAt] = mockDB.bind.mock.calls[0];
+      expect(status).toBe('pending');
+      expect(provider).toBe('Primary');
+      expect(error).toBe('Primary: timeout');
+      expect(secondsFromNow(nextAttemptAt)).toBe(240);
+    });
+
+    it('should give up after the last attempt', async () => {
+      await service.markFailed('email-1', 5, 'Primary: timeout', 'Primary');
+
+      const [status, , , nextAttemptAt] = mockDB.bind.mock.calls[0];
+      expect(status).toBe('failed');
+      expect(nextAttemptAt).toBeNull();
+    });
+  });
+
+  describe('purge', () => {
+    it('should only delete finished messages past the retention period', async () => {
+      await service.purge();
+
+      expect(mockDB.prepare.mock.calls[0][0]).toContain("status != 'pending'");
+      expect(mockDB.bind).toHaveBeenCalledWith('-7 days');
+    });
+  });
+});
@@ -80,4 +80,33 @@ describe('EmailProviderService', () => {
       expect(JSON.parse(storedConfig)).toEqual(smtpConfig);
     });
   });
+
+  describe('provider health', () => {
+    it('should count failures and open the circuit at the threshold', async () => {
+      await service.recordFailure('mock-id', 'SendGrid Error: Unauthorized');
+
+      const sql = mockDB.prepare.mock.calls[0][0];
+      expect(sql).toContain('consecutive_failures = consecutive_failures + 1');
+      expect(sql).toContain('circuit_open_until = CASE WHEN consecutive_failures + 1 >= ?');
+
+      const [error, failedAt, threshold, openUntil, id] = mockDB.bind.mock.calls[0];
+      expect(error).toBe('SendGrid Error: Unauthorized');
+      expect(threshold).toBe(3);
+      expect(new Date(openUntil).getTime() - new Date(failedAt).getTime()).toBe(300_000);
+      expect(id).toBe('mock-id');
+    });
+
+    it('should reset the failure count on success', async () => {
+      await service.recordSuccess('mock-id');
+
+      expect(mockDB.prepare.mock.calls[0][0]).toContain('consecutive_failures = 0, circuit_open_until = NULL');
+      expect(mockDB.bind).toHaveBeenCalledWith('mock-id');
+    });
+
+    it('should reset health when the configuration changes', async () => {
+      await service.updateProvider('mock-id', { config: { apiKey: 'new-key' } });
+
+      expect(mockDB.prepare.mock.calls[0][0]).toContain('consecutive_failures = 0');
+    });
+  });
 });
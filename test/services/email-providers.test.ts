@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  ProviderFactory,
+  BrevoProvider,
+  MailerSendProvider,
+  MailjetProvider,
+  Smtp2GoProvider,
+  MailtrapProvider,
+  MandrillProvider,
+  CustomHttpProvider,
+  type EmailMessage,
+} from '../../src/services/email/providers';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+// Local stub of the provider APIs: records each request and replies with the queued response
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let reply: { status: number; body: unknown };
+
+const message: EmailMessage = {
+  to: 'user@example.com',
+  from: 'noreply@example.com',
+  fromName: 'Example',
+  subject: 'Welcome',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+};
+
+const respondWith = (status: number, body: unknown = {}) => {
+  reply = { status, body };
+};
+
+describe('Email providers', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({
+          method: req.method!,
+          path: req.url!,
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : null,
+        });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respondWith(200);
+  });
+
+  describe('ProviderFactory', () => {
+    it.each([
+      ['brevo', BrevoProvider],
+      ['mailersend', MailerSendProvider],
+      ['mailjet', MailjetProvider],
+      ['smtp2go', Smtp2GoProvider],
+      ['mailtrap', MailtrapProvider],
+      ['mailchimp', MandrillProvider],
+      ['custom', CustomHttpProvider],
+    ] as const)('should create the %s provider', (type, providerClass) => {
+      expect(ProviderFactory.create(type, { apiKey: 'key' })).toBeInstanceOf(providerClass);
+    });
+  });
+
+  describe('BrevoProvider', () => {
+    it('should send with the api-key header', async () => {
+      respondWith(201, { messageId: '<id@smtp-relay.brevo.com>' });
+
+      await new BrevoProvider({ apiKey: 'xkeysib-1', baseUrl }).send(message);
+
+      expect(requests[0]).toMatchObject({ method: 'POST', path: '/v3/smtp/email' });
+      expect(requests[0].headers['api-key']).toBe('xkeysib-1');
+      expect(requests[0].body).toEqual({
+        sender: { email: 'noreply@example.com', name: 'Example' },
+        to: [{ email: 'user@example.com' }],
+        subject: 'Welcome',
+        htmlContent: '<p>Hello</p>',
+        textContent: 'Hello',
+      });
+    });
+
+    it('should set the reply-to address', async () => {
+      await new BrevoProvider({ apiKey: 'key', baseUrl }).send({ ...message, replyTo: 'support@example.com' });
+
+      expect(requests[0].body.replyTo).toEqual({ email: 'support@example.com' });
+    });
+
+    it('should report the error message', async () => {
+      respondWith(400, { code: 'invalid_parameter', message: 'sender is missing' });
+
+      await expect(new BrevoProvider({ apiKey: 'key', baseUrl }).send(message))
+        .rejects.toThrow('Brevo Error: sender is missing');
+    });
+  });
+
+  describe('MailerSendProvider', () => {
+    it('should send with a bearer token', async () => {
+      respondWith(202, '');
+
+      await new MailerSendProvider({ apiKey: 'mlsn.1', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/v1/email');
+      expect(requests[0].headers.authorization).toBe('Bearer mlsn.1');
+      expect(requests[0].body).toMatchObject({
+        from: { email: 'noreply@example.com', name: 'Example' },
+        to: [{ email: 'user@example.com' }],
+        html: '<p>Hello</p>',
+        text: 'Hello',
+      });
+    });
+
+    it('should report field validation errors', async () => {
+      respondWith(422, {
+        message: 'The given data was invalid.',
+        errors: { 'from.email': ['The from.email domain must be verified in your account.'] },
+      });
+
+      await expect(new MailerSendProvider({ apiKey: 'key', baseUrl }).send(message))
+        .rejects.toThrow('MailerSend Error: The from.email domain must be verified in your account.');
+    });
+  });
+
+  describe('MailjetProvider', () => {
+    it('should send with basic auth from the API and secret keys', async () => {
+      respondWith(200, { Messages: [{ Status: 'success' }] });
+
+      await new MailjetProvider({ apiKey: 'public', secretKey: 'private', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/v3.1/send');
+      expect(requests[0].headers.authorization).toBe(`Basic ${btoa('public:private')}`);
+      expect(requests[0].body.Messages[0]).toEqual({
+        From: { Email: 'noreply@example.com', Name: 'Example' },
+        To: [{ Email: 'user@example.com' }],
+        Subject: 'Welcome',
+        HTMLPart: '<p>Hello</p>',
+        TextPart: 'Hello',
+      });
+    });
+
+    it('should set the reply-to address', async () => {
+      await new MailjetProvider({ apiKey: 'public', secretKey: 'private', baseUrl })
+        .send({ ...message, replyTo: 'support@example.com' });
+
+      expect(requests[0].body.Messages[0].ReplyTo).toEqual({ Email: 'support@example.com' });
+    });
+
+    it('should report per-message errors', async () => {
+      respondWith(400, {
+        Messages: [{ Status: 'error', Errors: [{ ErrorMessage: 'Invalid email address' }] }],
+      });
+
+      await expect(new MailjetProvider({ apiKey: 'public', secretKey: 'private', baseUrl }).send(message))
+        .rejects.toThrow('Mailjet Error: Invalid email address');
+    });
+
+    it('should report authentication errors', async () => {
+      respondWith(401, { ErrorMessage: 'API key authentication/authorization failure' });
+
+      await expect(new MailjetProvider({ apiKey: 'public', secretKey: 'wrong', baseUrl }).send(message))
+        .rejects.toThrow('Mailjet Error: API key authentication/authorization failure');
+    });
+  });
+
+  describe('Smtp2GoProvider', () => {
+    it('should send with the API key header', async () => {
+      respondWith(200, { data: { succeeded: 1, failed: 0, failures: [] } });
+
+      await new Smtp2GoProvider({ apiKey: 'api-1', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/v3/email/send');
+      expect(requests[0].headers['x-smtp2go-api-key']).toBe('api-1');
+      expect(requests[0].body).toMatchObject({
+        sender: 'Example <noreply@example.com>',
+        to: ['user@example.com'],
+        html_body: '<p>Hello</p>',
+        text_body: 'Hello',
+      });
+    });
+
+    it('should report API errors', async () => {
+      respondWith(400, { data: { error_code: 'E_ApiResponseCodes.API_EXCEPTION', error: 'Invalid API key' } });
+
+      await expect(new Smtp2GoProvider({ apiKey: 'key', baseUrl }).send(message))
+        .rejects.toThrow('SMTP2GO Error: Invalid API key');
+    });
+
+    it('should treat failed recipients as an error', async () => {
+      respondWith(200, { data: { succeeded: 0, failed: 1, failures: ['user@example.com: blocked'] } });
+
+      await expect(new Smtp2GoProvider({ apiKey: 'key', baseUrl }).send(message))
+        .rejects.toThrow('SMTP2GO Error: user@example.com: blocked');
+    });
+  });
+
+  describe('MailtrapProvider', () => {
+    it('should send with a bearer token', async () => {
+      respondWith(200, { success: true, message_ids: ['1'] });
+
+      await new MailtrapProvider({ apiKey: 'token', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/api/send');
+      expect(requests[0].headers.authorization).toBe('Bearer token');
+      expect(requests[0].body).toMatchObject({
+        from: { email: 'noreply@example.com', name: 'Example' },
+        to: [{ email: 'user@example.com' }],
+      });
+    });
+
+    it('should send to a sandbox inbox', async () => {
+      await new MailtrapProvider({ apiKey: 'token', inboxId: '42', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/api/send/42');
+    });
+
+    it('should report the errors list', async () => {
+      respondWith(401, { success: false, errors: ['Unauthorized'] });
+
+      await expect(new MailtrapProvider({ apiKey: 'wrong', baseUrl }).send(message))
+        .rejects.toThrow('Mailtrap Error: Unauthorized');
+    });
+  });
+
+  describe('MandrillProvider', () => {
+    it('should send with the key in the body', async () => {
+      respondWith(200, [{ email: 'user@example.com', status: 'sent', _id: 'abc' }]);
+
+      await new MandrillProvider({ apiKey: 'md-1', baseUrl }).send(message);
+
+      expect(requests[0].path).toBe('/api/1.0/messages/send.json');
+      expect(requests[0].body).toEqual({
+        key: 'md-1',
+        message: {
+          from_email: 'noreply@example.com',
+          from_name: 'Example',
+          to: [{ email: 'user@example.com', type: 'to' }],
+          subject: 'Welcome',
+          html: '<p>Hello</p>',
+          text: 'Hello',
+        },
+      });
+    });
+
+    it('should set the reply-to header', async () => {
+      respondWith(200, [{ email: 'user@example.com', status: 'sent', _id: 'abc' }]);
+
+      await new MandrillProvider({ apiKey: 'md-1', baseUrl }).send({ ...message, replyTo: 'support@example.com' });
+
+      expect(requests[0].body.message.headers).toEqual({ 'Reply-To': 'support@example.com' });
+    });
+
+    it('should report API errors', async () => {
+      respondWith(500, { status: 'error', code: -1, name: 'Invalid_Key', message: 'Invalid API key' });
+
+      await expect(new MandrillProvider({ apiKey: 'wrong', baseUrl }).send(message))
+        .rejects.toThrow('Mandrill Error: Invalid API key');
+    });
+
+    it('should treat rejected recipients as an error', async () => {
+      respondWith(200, [{ email: 'user@example.com', status: 'rejected', reject_reason: 'hard-bounce' }]);
+
+      await expect(new MandrillProvider({ apiKey: 'md-1', baseUrl }).send(message))
+        .rejects.toThrow('Mandrill Error: user@example.com rejected (hard-bounce)');
+    });
+  });
+
+  describe('CustomHttpProvider', () => {
+    const bodyTemplate = JSON.stringify({
+      recipient: '{{to}}',
+      sender: { address: '{{from}}', name: '{{fromName}}' },
+      content: { subject: '{{subject}}', parts: ['{{html}}', '{{text}}'] },
+      priority: 1,
+    });
+
+    it('should send the rendered body template with the configured method and headers', async () => {
+      await new CustomHttpProvider({
+        url: `${baseUrl}/relay/send`,
+        method: 'PUT',
+        headers: { 'X-Relay-Token': 'secret' },
+        bodyTemplate,
+      }).send({ ...message, subject: 'Say "hi"' });
+
+      expect(requests[0]).toMatchObject({ method: 'PUT', path: '/relay/send' });
+      expect(requests[0].headers['x-relay-token']).toBe('secret');
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(requests[0].body).toEqual({
+        recipient: 'user@example.com',
+        sender: { address: 'noreply@example.com', name: 'Example' },
+        content: { subject: 'Say "hi"', parts: ['<p>Hello</p>', 'Hello'] },
+        priority: 1,
+      });
+    });
+
+    it('should default to POST and empty optional fields', async () => {
+      await new CustomHttpProvider({ url: baseUrl, bodyTemplate })
+        .send({ ...message, fromName: undefined, text: undefined });
+
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].body.sender.name).toBe('');
+      expect(requests[0].body.content.parts[1]).toBe('');
+    });
+
+    it('should report the relay error', async () => {
+      respondWith(503, { error: 'Relay unavailable' });
+
+      await expect(new CustomHttpProvider({ url: baseUrl, bodyTemplate }).send(message))
+        .rejects.toThrow('Custom Provider Error: Relay unavailable');
+    });
+
+    it('should reject body templates that are not JSON', async () => {
+      await expect(new CustomHttpProvider({ url: baseUrl, bodyTemplate: '{"to": {{to}}}' }).send(message))
+        .rejects.toThrow('Custom Provider Error: Body template is not valid JSON');
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  it('should fall back to the raw body when the error is not JSON', async () => {
+    respondWith(502, 'Bad Gateway');
+
+    await expect(new BrevoProvider({ apiKey: 'key', baseUrl }).send(message))
+      .rejects.toThrow('Brevo Error: Bad Gateway');
+  });
+});
@@ -1,4 +1,59 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EmailService } from '../../src/services/email-service';
+import { auditService } from '../../src/services/audit-service';
+import { projectService } from '../../src/services/project-service';
+import { ProviderFactory } from '../../src/services/email/providers';
+import type { Env } from '../../src/types';
+
+const providerService = vi.hoisted(() => ({
+  getProvider: vi.fn(),
+  getDefaultProvider: vi.fn(),
+  getFallbackProvider: vi.fn(),
+  recordSuccess: vi.fn().mockResolvedValue(undefined),
+  recordFailure: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/services/email-provider-service', () => ({
+  EmailProviderService: vi.fn(function () { return providerService; }),
+}));
+
+const outboxService = vi.hoisted(() => ({
+  enqueue: vi.fn(async (data: Record<string, unknown>) => ({ id: 'email-1', attempts: 1, ...data })),
+  getEntry: vi.fn(),
+  getDueEntries: vi.fn(),
+  claim: vi.fn(),
+  markSent: vi.fn().mockResolvedValue(undefined),
+  markFailed: vi.fn().mockResolvedValue(undefined),
+  purge: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/services/email-outbox-service', () => ({
+  EmailOutboxService: vi.fn(function () { return outboxService; }),
+}));
+
+vi.mock('../../src/services/email-template-service', () => ({
+  EmailTemplateService: vi.fn(function () {
+    return {
+      getTemplate: vi.fn().mockResolvedValue({
+        subject: 'Security alert for {{project_name}}',
+        bodyHtml: '<p>{{alert_message}}</p>',
+        bodyText: null,
+      }),
+    };
+  }),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn().mockResolvedValue(null) },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/email/providers', () => ({
+  ProviderFactory: { create: vi.fn() },
+}));
 
 describe('Email Service Integration Tests', () => {
   beforeEach(() => {
@@ -107,4 +162,365 @@ describe('Email Service Integration Tests', () => {
       expect(fallbackProvider).toBeTruthy();
     });
   });
-});
\ No newline at end of file
+
+  describe('Provider failover', () => {
+    const env = { DB: {} } as unknown as Env;
+    let service: EmailService;
+
+    const provider = (overrides: Record<string, unknown> = {}) => ({
+      id: 'primary',
+      name: 'Primary',
+      provider: 'sendgrid',
+      config: { apiKey: 'key' },
+      fromEmail: 'noreply@example.com',
+      fromName: 'Example',
+      enabled: true,
+      consecutiveFailures: 0,
+      circuitOpenUntil: null,
+      ...overrides,
+    });
+    const fallback = provider({ id: 'backup', name: 'Backup', provider: 'postmark' });
+
+    const sendThrough = (...results: Array<Error | undefined>) => {
+      const sends = results.map((result) => vi.fn(() => (result ? Promise.reject(result) : Promise.resolve())));
+      sends.forEach((send) => vi.mocked(ProviderFactory.create).mockReturnValueOnce({ send }));
+      return sends;
+    };
+
+    const sendAlert = () => service.sendSecurityAlertEmail(env, 'user@example.com', 'Acme', 'New sign-in', 'test_project');
+
+    beforeEach(() => {
+      service = new EmailService();
+      providerService.getDefaultProvider.mockResolvedValue(provider());
+      providerService.getFallbackProvider.mockResolvedValue(fallback);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send through the default provider', async () => {
+      const [send] = sendThrough(undefined);
+
+      await sendAlert();
+
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'user@example.com',
+        from: 'noreply@example.com',
+        subject: 'Security alert for Acme',
+        html: '<p>New sign-in</p>',
+      }));
+      expect(providerService.recordSuccess).not.toHaveBeenCalled();
+      expect(outboxService.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'test_project',
+        templateType: 'security_alert',
+        recipient: 'user@example.com',
+        bodyHtml: '<p>New sign-in</p>',
+      }));
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Primary');
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'email_sent',
+        eventStatus: 'success',
+        eventData: expect.objectContaining({ emailId: 'email-1', provider: 'Primary', failures: [] }),
+      }));
+    });
+
+    it('should fail over to the fallback provider when the default fails', async () => {
+      const [primarySend, backupSend] = sendThrough(new Error('SendGrid Error: Unauthorized'), undefined);
+
+      await sendAlert();
+
+      expect(primarySend).toHaveBeenCalled();
+      expect(backupSend).toHaveBeenCalled();
+      expect(providerService.recordFailure).toHaveBeenCalledWith('primary', 'SendGrid Error: Unauthorized');
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        projectId: 'test_project',
+        eventType: 'email_sent',
+        eventStatus: 'warning',
+        eventData: expect.objectContaining({
+          provider: 'Backup',
+          providerType: 'postmark',
+          failures: [{ provider: 'Primary', error: 'SendGrid Error: Unauthorized' }],
+        }),
+      }));
+    });
+
+    it('should fail over when the default provider times out', async () => {
+      vi.useFakeTimers();
+      const hanging = vi.fn(() => new Promise<void>(() => {}));
+      vi.mocked(ProviderFactory.create).mockReturnValueOnce({ send: hanging });
+      const [backupSend] = sendThrough(undefined);
+
+      const sending = sendAlert();
+      await vi.advanceTimersByTimeAsync(10_000);
+      await sending;
+
+      expect(backupSend).toHaveBeenCalled();
+      expect(providerService.recordFailure).toHaveBeenCalledWith('primary', 'Timed out after 10000ms');
+    });
+
+    it('should skip a provider whose circuit is open', async () => {
+      providerService.getDefaultProvider.mockResolvedValue(provider({
+        consecutiveFailures: 3,
+        circuitOpenUntil: new Date(Date.now() + 60_000).toISOString(),
+      }));
+      const [backupSend] = sendThrough(undefined);
+
+      await sendAlert();
+
+      expect(ProviderFactory.create).toHaveBeenCalledTimes(1);
+      expect(ProviderFactory.create).toHaveBeenCalledWith('postmark', fallback.config);
+      expect(backupSend).toHaveBeenCalled();
+    });
+
+    it('should close the circuit after a successful trial send', async () => {
+      providerService.getDefaultProvider.mockResolvedValue(provider({
+        consecutiveFailures: 3,
+        circuitOpenUntil: new Date(Date.now() - 1000).toISOString(),
+      }));
+      sendThrough(undefined);
+
+      await sendAlert();
+
+      expect(providerService.recordSuccess).toHaveBeenCalledWith('primary');
+    });
+
+    it('should still try providers when every circuit is open', async () => {
+      const open = { consecutiveFailures: 3, circuitOpenUntil: new Date(Date.now() + 60_000).toISOString() };
+      providerService.getDefaultProvider.mockResolvedValue(provider(open));
+      providerService.getFallbackProvider.mockResolvedValue({ ...fallback, ...open });
+      const [primarySend] = sendThrough(undefined);
+
+      await sendAlert();
+
+      expect(primarySend).toHaveBeenCalled();
+    });
+
+    it('should queue the email for retry when every provider fails', async () => {
+      sendThrough(new Error('SendGrid Error: Unauthorized'), new Error('Postmark Error: Inactive'));
+
+      await sendAlert();
+
+      expect(providerService.recordFailure).toHaveBeenCalledTimes(2);
+      expect(outboxService.markFailed).toHaveBeenCalledWith(
+        'email-1',
+        1,
+        'Primary: SendGrid Error: Unauthorized; Backup: Postmark Error: Inactive',
+        'Backup'
+      );
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'email_failed',
+        eventStatus: 'failure',
+        eventData: expect.objectContaining({ failures: expect.arrayContaining([
+          { provider: 'Backup', error: 'Postmark Error: Inactive' },
+        ]) }),
+      }));
+    });
+
+    it('should ignore a disabled fallback provider', async () => {
+      providerService.getFallbackProvider.mockResolvedValue({ ...fallback, enabled: false });
+      sendThrough(new Error('SendGrid Error: Unauthorized'));
+
+      await sendAlert();
+
+      expect(ProviderFactory.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not queue anything without a provider', async () => {
+      providerService.getDefaultProvider.mockResolvedValue(null);
+      providerService.getFallbackProvider.mockResolvedValue(null);
+
+      await expect(sendAlert()).rejects.toThrow('Email service not configured');
+      expect(outboxService.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Project sender', () => {
+    const env = { DB: {} } as unknown as Env;
+    let service: EmailService;
+    let send: ReturnType<typeof vi.fn>;
+
+    const provider = (overrides: Record<string, unknown> = {}) => ({
+      id: 'primary',
+      name: 'Primary',
+      provider: 'sendgrid',
+      config: { apiKey: 'key' },
+      fromEmail: 'noreply@example.com',
+      fromName: 'Example',
+      enabled: true,
+      ...overrides,
+    });
+    const brandProvider = provider({ id: 'brand', name: 'Brand', provider: 'postmark', fromEmail: 'hello@brand.example' });
+
+    const brandProject = (overrides: Record<string, unknown> = {}) => ({
+      id: 'test_project',
+      emailProviderId: 'brand',
+      emailFromName: null,
+      emailFromAddress: null,
+      emailReplyTo: null,
+      ...overrides,
+    });
+
+    const sendAlert = () => service.sendSecurityAlertEmail(env, 'user@example.com', 'Acme', 'New sign-in', 'test_project');
+
+    beforeEach(() => {
+      service = new EmailService();
+      send = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(ProviderFactory.create).mockReturnValue({ send });
+      providerService.getProvider.mockResolvedValue(brandProvider);
+      providerService.getDefaultProvider.mockResolvedValue(provider());
+      providerService.getFallbackProvider.mockResolvedValue(null);
+    });
+
+    it('should send through the project provider', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValueOnce(brandProject() as any);
+
+      await sendAlert();
+
+      expect(providerService.getProvider).toHaveBeenCalledWith('brand');
+      expect(ProviderFactory.create).toHaveBeenCalledWith('postmark', brandProvider.config);
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ from: 'hello@brand.example' }));
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Brand');
+    });
+
+    it('should use the project sender identity over the provider one', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValueOnce(brandProject({
+        emailProviderId: null,
+        emailFromName: 'Acme',
+        emailFromAddress: 'security@acme.example',
+        emailReplyTo: 'support@acme.example',
+      }) as any);
+
+      await sendAlert();
+
+      expect(providerService.getProvider).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({
+        from: 'security@acme.example',
+        fromName: 'Acme',
+        replyTo: 'support@acme.example',
+      }));
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Primary');
+    });
+
+    it('should fall back to the default provider when the project provider is disabled', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValueOnce(brandProject() as any);
+      providerService.getProvider.mockResolvedValueOnce({ ...brandProvider, enabled: false });
+
+      await sendAlert();
+
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ from: 'noreply@example.com', fromName: 'Example' }));
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Primary');
+    });
+
+    it('should try a project provider that is also the fallback only once', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValueOnce(brandProject() as any);
+      providerService.getFallbackProvider.mockResolvedValue(brandProvider);
+      send.mockRejectedValue(new Error('Postmark Error: Inactive'));
+
+      await sendAlert();
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry each project through its own provider', async () => {
+      outboxService.getDueEntries.mockResolvedValue([
+        { id: 'email-1', projectId: 'test_project', recipient: 'a@example.com', attempts: 1 },
+        { id: 'email-2', projectId: 'test_project', recipient: 'b@example.com', attempts: 1 },
+        { id: 'email-3', projectId: null, recipient: 'admin@example.com', attempts: 1 },
+      ]);
+      outboxService.claim.mockResolvedValue(2);
+      vi.mocked(projectService.getProject).mockResolvedValueOnce(brandProject() as any);
+
+      await service.processOutbox(env);
+
+      expect(projectService.getProject).toHaveBeenCalledTimes(1);
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Brand');
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-2', 'Brand');
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-3', 'Primary');
+    });
+  });
+
+  describe('Outbox', () => {
+    const env = { DB: {} } as unknown as Env;
+    let service: EmailService;
+
+    const queued = (overrides: Record<string, unknown> = {}) => ({
+      id: 'email-1',
+      projectId: 'test_project',
+      templateType: 'otp',
+      recipient: 'user@example.com',
+      subject: 'Your verification code',
+      bodyHtml: '<h1>Code: 123456</h1>',
+      bodyText: null,
+      status: 'pending',
+      attempts: 1,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      service = new EmailService();
+      providerService.getDefaultProvider.mockResolvedValue({
+        id: 'primary',
+        name: 'Primary',
+        provider: 'sendgrid',
+        config: {},
+        fromEmail: 'noreply@example.com',
+        enabled: true,
+      });
+      providerService.getFallbackProvider.mockResolvedValue(null);
+    });
+
+    it('should retry due emails it can claim', async () => {
+      outboxService.getDueEntries.mockResolvedValue([queued(), queued({ id: 'email-2' })]);
+      outboxService.claim.mockResolvedValueOnce(2).mockResolvedValueOnce(null);
+      const send = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(ProviderFactory.create).mockReturnValue({ send });
+
+      await service.processOutbox(env);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'user@example.com',
+        subject: 'Your verification code',
+        html: '<h1>Code: 123456</h1>',
+      }));
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Primary');
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'email_sent',
+        eventData: expect.objectContaining({ attempt: 2 }),
+      }));
+      expect(outboxService.purge).toHaveBeenCalled();
+    });
+
+    it('should record a failed retry', async () => {
+      outboxService.getDueEntries.mockResolvedValue([queued()]);
+      outboxService.claim.mockResolvedValueOnce(2);
+      vi.mocked(ProviderFactory.create).mockReturnValue({
+        send: vi.fn().mockRejectedValue(new Error('SendGrid Error: Unauthorized')),
+      });
+
+      await service.processOutbox(env);
+
+      expect(outboxService.markFailed).toHaveBeenCalledWith('email-1', 2, 'Primary: SendGrid Error: Unauthorized', 'Primary');
+    });
+
+    it('should resend an email on request', async () => {
+      outboxService.getEntry
+        .mockResolvedValueOnce(queued({ status: 'failed', attempts: 5 }))
+        .mockResolvedValueOnce(queued({ status: 'sent', attempts: 6 }));
+      outboxService.claim.mockResolvedValueOnce(6);
+      vi.mocked(ProviderFactory.create).mockReturnValue({ send: vi.fn().mockResolvedValue(undefined) });
+
+      const entry = await service.resendOutboxEntry(env, 'email-1');
+
+      expect(entry.status).toBe('sent');
+      expect(outboxService.markSent).toHaveBeenCalledWith('email-1', 'Primary');
+    });
+
+    it('should throw when resending an unknown email', async () => {
+      outboxService.getEntry.mockResolvedValueOnce(null);
+
+      await expect(service.resendOutboxEntry(env, 'missing')).rejects.toThrow('Email not found');
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IdentityService } from '../../src/services/identity-service';
+import { webauthnService } from '../../src/services/webauthn-service';
+import { auditService } from '../../src/services/audit-service';
+import { userService } from '../../src/services/user-service';
+import { decrypt, encrypt } from '../../src/utils/crypto';
+import type { Env, OAuthProfile, Project, User } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  all: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/webauthn-service', () => ({
+  webauthnService: { listCredentials: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+// Row of a user created before identities existed, with the provider account on the row
+const userRow = vi.hoisted(() => ({
+  id: 'user-1',
+  oauth_provider: 'github' as string | null,
+  oauth_provider_user_id: '583231' as string | null,
+}));
+
+// Project user table: the legacy provider lookup and the statement that clears it
+const usersTable = {
+  prepare: vi.fn((query: string) => ({
+    bind: (...params: unknown[]) => ({
+      first: async () => {
+        const [provider, providerUserId] = params;
+        return userRow.oauth_provider === provider && userRow.oauth_provider_user_id === providerUserId
+          ? userRow
+          : null;
+      },
+      run: async () => {
+        const [id, provider, providerUserId] = params;
+        if (query.includes('oauth_provider = NULL') && userRow.id === id
+          && userRow.oauth_provider === provider && userRow.oauth_provider_user_id === providerUserId) {
+          userRow.oauth_provider = null;
+          userRow.oauth_provider_user_id = null;
+        }
+        return { success: true };
+      },
+    }),
+  })),
+};
+
+const env = { DB: usersTable } as unknown as Env;
+
+const project = { id: 'test_project', userTableName: 'users_test_project' } as Project;
+
+const profile: OAuthProfile = {
+  providerUserId: '583231',
+  email: 'user@example.com',
+  emailVerified: true,
+  displayName: 'Test User',
+  rawUserData: { id: 583231, login: 'testuser' },
+};
+
+const storedIdentity = (overrides: Record<string, unknown> = {}) => ({
+  id: 'identity-1',
+  projectId: 'test_project',
+  userId: 'user-1',
+  provider: 'github',
+  providerUserId: '583231',
+  email: 'user@example.com',
+  emailVerified: true,
+  rawUserData: '{}',
+  createdAt: '2026-01-01',
+  lastSignInAt: null,
+  ...overrides,
+});
+
+describe('IdentityService', () => {
+  let service: IdentityService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.get.mockReset();
+    service = new IdentityService();
+  });
+
+  describe('linkIdentity', () => {
+    it('should store a new identity and audit the link', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(storedIdentity());
+
+      const identity = await service.linkIdentity(env, 'test_project', 'user-1', 'github', profile);
+
+      expect(identity).not.toHaveProperty('rawUserData');
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        provider: 'github',
+        providerUserId: '583231',
+        rawUserData: JSON.stringify(profile.rawUserData),
+      }));
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'oauth_linked',
+        userId: 'user-1',
+      }));
+    });
+
+    it('should refuse provider accounts linked to someone else', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedIdentity({ userId: 'user-2' }));
+
+      await expect(service.linkIdentity(env, 'test_project', 'user-1', 'github', profile))
+        .rejects.toThrow('This account is already linked to another user');
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should only refresh an identity the user already has', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedIdentity());
+
+      await service.linkIdentity(env, 'test_project', 'user-1', 'github', profile);
+
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({ email: 'user@example.com' }));
+    });
+  });
+
+  describe('storeTokens', () => {
+    const keyedEnv = { DB: {}, ENCRYPTION_KEY: 'test-encryption-key' } as unknown as Env;
+
+    it('should encrypt the tokens', async () => {
+      await service.storeTokens(keyedEnv, 'test_project', 'github', '583231', {
+        accessToken: 'gho_access',
+        refreshToken: 'ghr_refresh',
+        expiresAt: 1900000000,
+        scope: 'repo',
+      });
+
+      const stored = mockQuery.set.mock.calls[0][0];
+      expect(stored.accessToken).not.toBe('gho_access');
+      expect(await decrypt(stored.accessToken, 'test-encryption-key')).toBe('gho_access');
+      expect(await decrypt(stored.refreshToken, 'test-encryption-key')).toBe('ghr_refresh');
+      expect(stored).toMatchObject({ tokenExpiresAt: 1900000000, tokenScope: 'repo' });
+    });
+
+    it('should keep the stored refresh token when none is sent', async () => {
+      await service.storeTokens(keyedEnv, 'test_project', 'google', 'g-1', {
+        accessToken: 'ya29.access',
+        refreshToken: null,
+        expiresAt: null,
+        scope: null,
+      });
+
+      expect(mockQuery.set.mock.calls[0][0]).not.toHaveProperty('refreshToken');
+    });
+
+    it('should refuse to store tokens without an encryption key', async () => {
+      await expect(service.storeTokens(env, 'test_project', 'github', '583231', {
+        accessToken: 'gho_access',
+        refreshToken: null,
+        expiresAt: null,
+        scope: null,
+      })).rejects.toThrow('Storing provider tokens requires ENCRYPTION_KEY');
+    });
+
+    it('should decrypt stored tokens', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedIdentity({
+        accessToken: await encrypt('gho_access', 'test-encryption-key'),
+        refreshToken: null,
+        tokenExpiresAt: null,
+        tokenScope: 'repo',
+      }));
+
+      const stored = await service.getTokens(keyedEnv, 'test_project', 'user-1', 'github');
+
+      expect(stored).toEqual({
+        providerUserId: '583231',
+        tokens: { accessToken: 'gho_access', refreshToken: null, expiresAt: null, scope: 'repo' },
+      });
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    const oauthOnlyUser = { id: 'user-1', email: 'user@example.com', password_hash: null } as unknown as User;
+
+    beforeEach(() => {
+      userRow.oauth_provider = 'github';
+      userRow.oauth_provider_user_id = '583231';
+    });
+
+    it('should not be found by the legacy sign-in lookup after unlinking', async () => {
+      const lookup = () => userService.getUserByOAuth(env, project.userTableName, 'github', '583231');
+      expect(await lookup()).toMatchObject({ id: 'user-1' });
+      mockQuery.get
+        .mockResolvedValueOnce(storedIdentity())
+        .mockResolvedValueOnce({ id: 'identity-2' });
+
+      await service.unlinkIdentity(env, project, oauthOnlyUser, 'identity-1');
+
+      expect(await lookup()).toBeNull();
+    });
+
+    it('should keep a legacy provider account that was not unlinked', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(storedIdentity({ provider: 'google', providerUserId: 'g-1' }))
+        .mockResolvedValueOnce({ id: 'identity-2' });
+
+      await service.unlinkIdentity(env, project, oauthOnlyUser, 'identity-1');
+
+      expect(userRow.oauth_provider_user_id).toBe('583231');
+    });
+
+    it('should unlink when another identity remains', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(storedIdentity())
+        .mockResolvedValueOnce({ id: 'identity-2' });
+
+      await service.unlinkIdentity(env, project, oauthOnlyUser, 'identity-1');
+
+      expect(mockQuery.delete).toHaveBeenCalled();
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'oauth_unlinked',
+      }));
+    });
+
+    it('should unlink the last identity of users with a password', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(storedIdentity())
+        .mockResolvedValueOnce(undefined);
+
+      await service.unlinkIdentity(env, project, { ...oauthOnlyUser, password_hash: 'hash' } as any, 'identity-1');
+
+      expect(mockQuery.delete).toHaveBeenCalled();
+    });
+
+    it('should keep the only sign-in method', async () => {
+      mockQuery.get
+        .mockResolvedValueOnce(storedIdentity())
+        .mockResolvedValueOnce(undefined);
+
+      await expect(service.unlinkIdentity(env, project, oauthOnlyUser, 'identity-1'))
+        .rejects.toThrow('Cannot unlink the only sign-in method for this account');
+      expect(webauthnService.listCredentials).toHaveBeenCalledWith(env, 'test_project', 'user-1');
+      expect(mockQuery.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw for identities the user does not have', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+
+      await expect(service.unlinkIdentity(env, project, oauthOnlyUser, 'identity-9'))
+        .rejects.toThrow('Identity not found');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as jose from 'jose';
 import { jwtService, JWTService } from '../../src/services/jwt-service';
 import type { Project } from '../../src/types';
 
@@ -82,6 +83,18 @@ describe('JWTService', () => {
   });
 
   describe('verifyAccessToken', () => {
+    it('should return the scope and client of tokens issued to OAuth clients', async () => {
+      const project = createMockProject();
+      const token = await service.generateAccessToken(project, 'user123', 'test@example.com', undefined, {
+        scope: 'openid email',
+        client_id: 'client-1',
+      });
+
+      const payload = await service.verifyAccessToken(token, project.jwtSecret);
+
+      expect(payload).toMatchObject({ sub: 'user123', scope: 'openid email', clientId: 'client-1' });
+    });
+
     it('should verify a valid token', async () => {
       const project = createMockProject();
       
@@ -89,6 +102,8 @@ describe('JWTService', () => {
       const result = await service.verifyAccessToken(token, project.jwtSecret, project.jwtAlgorithm);
       
       expect(result.sub).toBe('user123');
+      expect(result.subType).toBe('user');
+      expect(result.jti).toEqual(expect.any(String));
       expect(result.email).toBe('test@example.com');
       expect(result.projectId).toBe('test_project');
     });
@@ -131,6 +146,149 @@ describe('JWTService', () => {
     });
   });
 
+  describe('asymmetric signing', () => {
+    it('should sign with the given key and set the kid header', async () => {
+      const project = createMockProject({ jwtAlgorithm: 'ES256' });
+      const { publicKey, privateKey } = await jose.generateKeyPair('ES256');
+
+      const token = await service.generateAccessToken(project, 'user123', 'test@example.com', {
+        kid: 'key-1',
+        key: privateKey,
+      });
+
+      expect(jose.decodeProtectedHeader(token)).toEqual({ alg: 'ES256', kid: 'key-1' });
+
+      const result = await service.verifyAccessToken(token, async () => publicKey, 'ES256');
+      expect(result.sub).toBe('user123');
+    });
+
+    it('should reject tokens whose key cannot be resolved', async () => {
+      const project = createMockProject({ jwtAlgorithm: 'ES256' });
+      const { privateKey } = await jose.generateKeyPair('ES256');
+
+      const token = await service.generateAccessToken(project, 'user123', 'test@example.com', {
+        kid: 'key-1',
+        key: privateKey,
+      });
+
+      await expect(
+        service.verifyAccessToken(token, async () => { throw new Error('Unknown key'); }, 'ES256')
+      ).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should not accept an HS256 token when a key pair algorithm is expected', async () => {
+      const project = createMockProject();
+      const { publicKey } = await jose.generateKeyPair('ES256');
+
+      const token = await service.generateAccessToken(project, 'user123', 'test@example.com');
+
+      await expect(
+        service.verifyAccessToken(token, async () => publicKey, 'ES256')
+      ).rejects.toThrow('Invalid or expired token');
+    });
+  });
+
+  describe('OAuth state tokens', () => {
+    const state = {
+      projectId: 'test_project',
+      provider: 'google',
+      redirectUri: 'https://app.example.com/auth/callback',
+      callbackUri: 'https://auth.example.com/api/auth/test_project/oauth/google/callback',
+      codeVerifier: 'verifier',
+      nonce: 'nonce',
+      browserNonce: 'browser-nonce',
+    };
+
+    it('should round-trip the bound values without exposing them', async () => {
+      const project = createMockProject();
+
+      const token = await service.generateOAuthStateToken(project, state);
+
+      expect(token).not.toContain(jose.base64url.encode('verifier'));
+      expect(() => jose.decodeJwt(token)).toThrow();
+      await expect(service.verifyOAuthStateToken(token, project, 'google')).resolves.toEqual(state);
+    });
+
+    it('should reject state for another provider or project', async () => {
+      const token = await service.generateOAuthStateToken(createMockProject(), state);
+
+      await expect(service.verifyOAuthStateToken(token, createMockProject(), 'github'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+      await expect(service.verifyOAuthStateToken(token, createMockProject({ id: 'other_project' }), 'google'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+    });
+
+    it('should reject tampered and expired state', async () => {
+      const project = createMockProject();
+      const token = await service.generateOAuthStateToken(project, state);
+
+      await expect(service.verifyOAuthStateToken(`${token.slice(0, -2)}AA`, project, 'google'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+      try {
+        await expect(service.verifyOAuthStateToken(token, project, 'google'))
+          .rejects.toThrow('Invalid or expired OAuth state');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('service tokens', () => {
+    it('should mark the client as the subject', async () => {
+      const project = createMockProject();
+
+      const token = await service.generateClientToken(project, 'client-1', 'users:read');
+      const payload = await service.verifyAccessToken(token, project.jwtSecret);
+
+      expect(payload).toMatchObject({
+        sub: 'client-1',
+        subType: 'client',
+        email: '',
+        projectId: 'test_project',
+        scope: 'users:read',
+        clientId: 'client-1',
+      });
+    });
+  });
+
+  describe('ID tokens', () => {
+    const claims = {
+      issuer: 'https://auth.example.com/api/auth/test_project',
+      audience: 'client-1',
+      subject: 'user123',
+      auth_time: 1700000000,
+      nonce: 'n-0S6',
+    };
+
+    it('should set the issuer, audience and nonce', async () => {
+      const project = createMockProject({ jwtAlgorithm: 'ES256' });
+      const { publicKey, privateKey } = await jose.generateKeyPair('ES256');
+
+      const token = await service.generateIdToken(project, claims, { kid: 'key-1', key: privateKey });
+
+      const { payload, protectedHeader } = await jose.jwtVerify(token, publicKey, {
+        issuer: claims.issuer,
+        audience: 'client-1',
+      });
+      expect(protectedHeader).toEqual({ alg: 'ES256', kid: 'key-1', typ: 'JWT' });
+      expect(payload).toMatchObject({ sub: 'user123', nonce: 'n-0S6', auth_time: 1700000000 });
+    });
+
+    it('should not be accepted as access tokens', async () => {
+      const project = createMockProject({ jwtAlgorithm: 'ES256' });
+      const { publicKey, privateKey } = await jose.generateKeyPair('ES256');
+
+      const token = await service.generateIdToken(project, claims, { kid: 'key-1', key: privateKey });
+
+      await expect(
+        service.verifyAccessToken(token, async () => publicKey, project.jwtAlgorithm)
+      ).rejects.toThrow('Invalid or expired token');
+    });
+  });
+
   describe('decodeToken', () => {
     it('should decode a valid token without verification', async () => {
       const project = createMockProject();
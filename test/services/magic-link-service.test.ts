@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MagicLinkService } from '../../src/services/magic-link-service';
+import { projectService } from '../../src/services/project-service';
+import { userService } from '../../src/services/user-service';
+import { authService } from '../../src/services/auth-service';
+import { mfaService } from '../../src/services/mfa-service';
+import { hashToken } from '../../src/utils/crypto';
+import type { Env } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn() },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: {
+    getUserByEmail: vi.fn(),
+    getUserById: vi.fn(),
+    updateUser: vi.fn(),
+    updateLastLogin: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// The real signIn, so the MFA gate is exercised; only token issuing is stubbed
+vi.mock('../../src/services/auth-service', async () => {
+  const { AuthService } = await vi.importActual<typeof import('../../src/services/auth-service')>('../../src/services/auth-service');
+  const authService = new AuthService();
+  authService.issueTokens = vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+  return { authService };
+});
+
+vi.mock('../../src/services/mfa-service', () => ({
+  mfaService: {
+    hasVerifiedFactor: vi.fn().mockResolvedValue(false),
+    createChallenge: vi.fn().mockResolvedValue('mfa-challenge'),
+  },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/rate-limit-service', () => ({
+  rateLimitService: {
+    checkRateLimit: vi.fn().mockResolvedValue(undefined),
+    recordAttempt: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const env = { DB: {} } as unknown as Env;
+const request = new Request('http://localhost/api/auth/test_project/magic-link/verify', { method: 'POST' });
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  enabled: true,
+  userTableName: 'test_project_users',
+  siteUrl: 'https://app.example.com',
+  redirectUrls: ['https://other.example.com/callback'],
+};
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  email_verified: 1,
+  status: 'active',
+};
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new MagicLinkService();
+    vi.mocked(projectService.getProject).mockResolvedValue(project as any);
+    vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+    mockQuery.returning.mockResolvedValue([{ id: 'token-1' }]);
+  });
+
+  describe('requestMagicLink', () => {
+    it('should build the link on the project site URL', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      const result = await service.requestMagicLink(env, 'test_project', 'user@example.com');
+
+      expect(result).not.toBeNull();
+      const url = new URL(result!.magicLinkUrl);
+      expect(url.origin + url.pathname).toBe('https://app.example.com/magic-link');
+      expect(url.searchParams.get('token')).toHaveLength(32);
+    });
+
+    it('should store only the hash of the token', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      const result = await service.requestMagicLink(env, 'test_project', 'user@example.com');
+      const token = new URL(result!.magicLinkUrl).searchParams.get('token')!;
+
+      const stored = mockQuery.values.mock.calls[0][0];
+      expect(stored.tokenHash).toBe(await hashToken(token));
+      expect(stored.tokenHash).not.toBe(token);
+    });
+
+    it('should use an allowlisted redirect URL as the link target', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      const result = await service.requestMagicLink(
+        env,
+        'test_project',
+        'user@example.com',
+        'https://other.example.com/callback'
+      );
+
+      expect(result!.magicLinkUrl.startsWith('https://other.example.com/callback?token=')).toBe(true);
+    });
+
+    it('should reject redirect URLs outside the allowlist', async () => {
+      await expect(
+        service.requestMagicLink(env, 'test_project', 'user@example.com', 'https://evil.example.net/')
+      ).rejects.toThrow('Redirect URL is not allowed for this project');
+    });
+
+    it('should return null for unknown users', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(null);
+
+      const result = await service.requestMagicLink(env, 'test_project', 'nobody@example.com');
+
+      expect(result).toBeNull();
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    const validRecord = () => ({
+      id: 'token-1',
+      userId: 'user-1',
+      email: 'user@example.com',
+      redirectTo: null,
+      usedAt: null,
+      expiresAt: Math.floor(Date.now() / 1000) + 600,
+    });
+
+    it('should issue tokens for a valid link', async () => {
+      mockQuery.get.mockResolvedValue(validRecord());
+
+      const result = await service.verifyMagicLink(env, 'test_project', 'token', request);
+
+      expect(result).toMatchObject({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(authService.issueTokens).toHaveBeenCalledWith(
+        env,
+        project,
+        user,
+        expect.any(Object)
+      );
+    });
+
+    it('should require the second factor from users with MFA', async () => {
+      mockQuery.get.mockResolvedValue({ ...validRecord(), redirectTo: 'https://app.example.com/home' });
+      vi.mocked(mfaService.hasVerifiedFactor).mockResolvedValueOnce(true);
+
+      const result = await service.verifyMagicLink(env, 'test_project', 'token', request);
+
+      expect(result).toEqual({
+        user,
+        redirectTo: 'https://app.example.com/home',
+        mfaRequired: true,
+        mfaToken: 'mfa-challenge',
+      });
+      expect(mfaService.createChallenge).toHaveBeenCalledWith(env, project, 'user-1', 'magic_link', 'unknown');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+      expect(userService.updateLastLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject used links', async () => {
+      mockQuery.get.mockResolvedValue({ ...validRecord(), usedAt: 123 });
+
+      await expect(service.verifyMagicLink(env, 'test_project', 'token', request))
+        .rejects.toThrow('Magic link has already been used');
+    });
+
+    it('should reject expired links', async () => {
+      mockQuery.get.mockResolvedValue({ ...validRecord(), expiresAt: 1 });
+
+      await expect(service.verifyMagicLink(env, 'test_project', 'token', request))
+        .rejects.toThrow('Magic link has expired');
+    });
+
+    it('should reject a link consumed concurrently', async () => {
+      mockQuery.get.mockResolvedValue(validRecord());
+      mockQuery.returning.mockResolvedValue([]);
+
+      await expect(service.verifyMagicLink(env, 'test_project', 'token', request))
+        .rejects.toThrow('Magic link has already been used');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should mark the email as verified', async () => {
+      mockQuery.get.mockResolvedValue(validRecord());
+      vi.mocked(userService.getUserById).mockResolvedValue({ ...user, email_verified: 0 } as any);
+      vi.mocked(userService.updateUser).mockResolvedValue(user as any);
+
+      await service.verifyMagicLink(env, 'test_project', 'token', request);
+
+      expect(userService.updateUser).toHaveBeenCalledWith(
+        env,
+        'test_project_users',
+        'user-1',
+        { emailVerified: true }
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MfaService } from '../../src/services/mfa-service';
+import { projectService } from '../../src/services/project-service';
+import { generateTotp, getTotpStep } from '../../src/utils/totp';
+import { encrypt, hashToken } from '../../src/utils/crypto';
+import type { Env, Project, User } from '../../src/types';
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { createProjectMfaFactorTable: vi.fn().mockResolvedValue(undefined) },
+}));
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+const createMockDB = () => {
+  const statement = {
+    bind: vi.fn().mockReturnThis(),
+    first: vi.fn().mockResolvedValue(null),
+    all: vi.fn().mockResolvedValue({ results: [] }),
+    run: vi.fn().mockResolvedValue({ success: true }),
+  };
+  return {
+    statement,
+    prepare: vi.fn(() => statement),
+  };
+};
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  userTableName: 'test_project_users',
+} as Project;
+
+const user = { id: 'user-1', email: 'user@example.com' } as User;
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let env: Env;
+  let db: ReturnType<typeof createMockDB>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new MfaService();
+    db = createMockDB();
+    env = { DB: db as any, ENCRYPTION_KEY: 'test-encryption-key' } as unknown as Env;
+  });
+
+  it('should create the factor table once per isolate', async () => {
+    await service.hasVerifiedFactor(env, project, 'user-1');
+    await service.hasVerifiedFactor(env, project, 'user-1');
+
+    expect(projectService.createProjectMfaFactorTable).toHaveBeenCalledTimes(1);
+    expect(db.prepare.mock.calls[0][0]).toContain('test_project_users_mfa_factors');
+  });
+
+  describe('enrollTotp', () => {
+    it('should store the secret encrypted and return a provisioning URI', async () => {
+      const result = await service.enrollTotp(env, project, user);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+
+      const insertBind = db.statement.bind.mock.calls.find((call) => call[0] === result.factorId)!;
+      expect(insertBind[3]).not.toBe(result.secret);
+    });
+
+    it('should refuse a second authenticator', async () => {
+      db.statement.first.mockResolvedValueOnce({ id: 'factor-1' });
+
+      await expect(service.enrollTotp(env, project, user)).rejects.toThrow('already enrolled');
+    });
+  });
+
+  describe('confirmTotp', () => {
+    it('should reject a wrong code', async () => {
+      db.statement.first.mockResolvedValueOnce({
+        id: 'factor-1',
+        secret: await encrypt(SECRET, 'test-encryption-key'),
+        status: 'unverified',
+      });
+
+      await expect(service.confirmTotp(env, project, 'user-1', 'factor-1', '000000'))
+        .rejects.toThrow('Invalid MFA code');
+    });
+
+    it('should verify the factor with a current code', async () => {
+      db.statement.first
+        .mockResolvedValueOnce({
+          id: 'factor-1',
+          secret: await encrypt(SECRET, 'test-encryption-key'),
+          status: 'unverified',
+        })
+        .mockResolvedValueOnce({ id: 'factor-1', user_id: 'user-1', factor_type: 'totp', status: 'verified' });
+
+      const factor = await service.confirmTotp(env, project, 'user-1', 'factor-1', await generateTotp(SECRET));
+
+      expect(factor.status).toBe('verified');
+      expect(factor).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('verifyCode', () => {
+    const verifiedFactor = async () => ({
+      id: 'factor-1',
+      secret: await encrypt(SECRET, 'test-encryption-key'),
+      status: 'verified',
+    });
+
+    it('should accept a current code and remember its step', async () => {
+      db.statement.all.mockResolvedValueOnce({ results: [await verifiedFactor()] });
+      db.statement.first.mockResolvedValueOnce({ id: 'factor-1' });
+
+      const factorId = await service.verifyCode(env, project, 'user-1', await generateTotp(SECRET));
+
+      expect(factorId).toBe('factor-1');
+      expect(db.statement.bind).toHaveBeenLastCalledWith(getTotpStep(), 'factor-1', getTotpStep());
+    });
+
+    it('should reject a replayed code', async () => {
+      db.statement.all.mockResolvedValueOnce({ results: [await verifiedFactor()] });
+      // Conditional update matches nothing because the step was already used
+      db.statement.first.mockResolvedValueOnce(null);
+
+      await expect(service.verifyCode(env, project, 'user-1', await generateTotp(SECRET)))
+        .rejects.toThrow('Invalid MFA code');
+    });
+  });
+
+  describe('MFA challenges', () => {
+    const challenge = (overrides: Record<string, unknown> = {}) => ({
+      id: 'challenge-1',
+      user_id: 'user-1',
+      method: 'magic_link',
+      failed_attempts: 0,
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      ...overrides,
+    });
+
+    const verifiedFactor = async () => ({
+      id: 'factor-1',
+      secret: await encrypt(SECRET, 'test-encryption-key'),
+      status: 'verified',
+    });
+
+    const sql = () => db.prepare.mock.calls.map((call) => call[0] as string);
+
+    it('should store only the hash of the challenge token', async () => {
+      const mfaToken = await service.createChallenge(env, project, 'user-1', 'password', '203.0.113.7');
+
+      const insertBind = db.statement.bind.mock.calls.find((call) => call[1] === 'user-1')!;
+      expect(insertBind).toEqual(expect.arrayContaining(['test_project', await hashToken(mfaToken), 'password', '203.0.113.7']));
+      expect(insertBind).not.toContain(mfaToken);
+    });
+
+    it('should complete the sign-in once with a current code', async () => {
+      db.statement.first
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce({ id: 'factor-1' })
+        .mockResolvedValueOnce({ id: 'challenge-1' });
+      db.statement.all.mockResolvedValueOnce({ results: [await verifiedFactor()] });
+
+      const result = await service.verifyChallenge(env, project, 'token', await generateTotp(SECRET), '203.0.113.7');
+
+      expect(result).toEqual({ userId: 'user-1', method: 'magic_link' });
+      expect(sql().at(-1)).toContain('DELETE FROM mfa_challenges WHERE id = ?');
+    });
+
+    it('should count wrong codes against the challenge', async () => {
+      db.statement.first
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(challenge());
+      db.statement.all.mockResolvedValueOnce({ results: [await verifiedFactor()] });
+
+      await expect(service.verifyChallenge(env, project, 'token', '000000', '203.0.113.7'))
+        .rejects.toThrow('Invalid MFA code');
+      expect(sql().at(-1)).toContain('failed_attempts = failed_attempts + 1');
+      expect(db.statement.bind).toHaveBeenLastCalledWith('challenge-1');
+    });
+
+    it('should refuse spent, exhausted and expired challenges without checking the code', async () => {
+      db.statement.first
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(challenge({ failed_attempts: 5 }))
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(challenge({ expires_at: new Date(Date.now() - 1000).toISOString() }));
+
+      for (let i = 0; i < 3; i++) {
+        await expect(service.verifyChallenge(env, project, 'token', await generateTotp(SECRET), '203.0.113.7'))
+          .rejects.toThrow('Invalid or expired MFA challenge');
+      }
+      expect(db.statement.all).not.toHaveBeenCalled();
+    });
+
+    it('should block an IP address that sent too many wrong codes', async () => {
+      db.statement.first.mockResolvedValueOnce({ count: 10 });
+
+      await expect(service.verifyChallenge(env, project, 'token', await generateTotp(SECRET), '203.0.113.7'))
+        .rejects.toMatchObject({ statusCode: 429 });
+    });
+
+    it('should not complete a challenge spent by a concurrent request', async () => {
+      db.statement.first
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce({ id: 'factor-1' })
+        .mockResolvedValueOnce(null);
+      db.statement.all.mockResolvedValueOnce({ results: [await verifiedFactor()] });
+
+      await expect(service.verifyChallenge(env, project, 'token', await generateTotp(SECRET), '203.0.113.7'))
+        .rejects.toThrow('Invalid or expired MFA challenge');
+    });
+  });
+
+  describe('removeFactor', () => {
+    it('should require a code to remove a verified factor', async () => {
+      db.statement.first.mockResolvedValueOnce({ id: 'factor-1', status: 'verified' });
+
+      await expect(service.removeFactor(env, project, 'user-1', 'factor-1'))
+        .rejects.toThrow('MFA code required');
+      expect(db.statement.run).not.toHaveBeenCalled();
+    });
+
+    it('should remove an unfinished enrolment without a code', async () => {
+      db.statement.first.mockResolvedValueOnce({ id: 'factor-1', status: 'unverified' });
+
+      await service.removeFactor(env, project, 'user-1', 'factor-1');
+
+      expect(db.statement.run).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuthClientService } from '../../src/services/oauth-client-service';
+import { auditService } from '../../src/services/audit-service';
+import { hashToken } from '../../src/utils/crypto';
+import type { Env, Project } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  orderBy: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  all: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+const env = { DB: {} } as unknown as Env;
+
+const project = {
+  id: 'test_project',
+  jwtAlgorithm: 'ES256',
+  siteUrl: 'https://app.example.com',
+  redirectUrls: JSON.stringify(['https://partner.example.com/callback']),
+} as Project;
+
+const storedClient = (overrides: Record<string, unknown> = {}) => ({
+  id: 'row-1',
+  projectId: 'test_project',
+  clientId: 'client-1',
+  clientSecretHash: null,
+  clientType: 'confidential',
+  name: 'Partner App',
+  redirectUris: JSON.stringify(['https://partner.example.com/callback']),
+  allowedScopes: '[]',
+  skipConsent: false,
+  enabled: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+  createdBy: null,
+  ...overrides,
+});
+
+describe('OAuthClientService', () => {
+  let service: OAuthClientService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.get.mockReset();
+    service = new OAuthClientService();
+    // Echo inserted and updated rows back
+    mockQuery.get.mockImplementation(async () => storedClient(
+      mockQuery.values.mock.calls.at(-1)?.[0] ?? mockQuery.set.mock.calls.at(-1)?.[0]
+    ));
+  });
+
+  describe('createClient', () => {
+    it('should return the secret once and store only its hash', async () => {
+      const { client, clientSecret } = await service.createClient(env, project, {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: ['https://partner.example.com/callback'],
+      }, 'admin-1');
+
+      const stored = mockQuery.values.mock.calls[0][0];
+      expect(clientSecret).toBeTruthy();
+      expect(stored.clientSecretHash).toBe(await hashToken(clientSecret!));
+      expect(client).not.toHaveProperty('clientSecretHash');
+      expect(client.redirectUris).toEqual(['https://partner.example.com/callback']);
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        adminUserId: 'admin-1',
+        eventData: expect.objectContaining({ action: 'oauth_client_created' }),
+      }));
+    });
+
+    it('should not generate a secret for public clients', async () => {
+      const { clientSecret } = await service.createClient(env, project, {
+        name: 'Mobile App',
+        clientType: 'public',
+        redirectUris: ['https://app.example.com/oauth/callback'],
+      });
+
+      expect(clientSecret).toBeNull();
+      expect(mockQuery.values.mock.calls[0][0].clientSecretHash).toBeNull();
+    });
+
+    it('should reject redirect URIs outside the project allowlist', async () => {
+      await expect(service.createClient(env, project, {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: ['https://evil.example.com/callback'],
+      })).rejects.toThrow('Redirect URI is not allowed for this project');
+
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should create service clients with a secret and allowed scopes', async () => {
+      const { client, clientSecret } = await service.createClient(env, project, {
+        name: 'Nightly Sync',
+        clientType: 'service',
+        redirectUris: [],
+        allowedScopes: ['users:read'],
+      });
+
+      expect(clientSecret).toBeTruthy();
+      expect(client.allowedScopes).toEqual(['users:read']);
+      expect(client.redirectUris).toEqual([]);
+    });
+
+    it('should only register OpenID Connect clients for projects with an asymmetric signing key', async () => {
+      const hs256Project = { ...project, jwtAlgorithm: 'HS256' };
+
+      await expect(service.createClient(env, hs256Project, {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: ['https://partner.example.com/callback'],
+      })).rejects.toThrow('OpenID Connect clients require an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+
+      await expect(service.createClient(env, hs256Project, {
+        name: 'Nightly Sync',
+        clientType: 'service',
+        redirectUris: [],
+        allowedScopes: ['users:read'],
+      })).resolves.toHaveProperty('clientSecret');
+    });
+
+    it('should check the registration fits the client type', async () => {
+      await expect(service.createClient(env, project, {
+        name: 'Nightly Sync',
+        clientType: 'service',
+        redirectUris: [],
+      })).rejects.toThrow('At least one allowed scope is required');
+      await expect(service.createClient(env, project, {
+        name: 'Nightly Sync',
+        clientType: 'service',
+        redirectUris: ['https://partner.example.com/callback'],
+        allowedScopes: ['users:read'],
+      })).rejects.toThrow('Service clients do not use redirect URIs');
+      await expect(service.createClient(env, project, {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: [],
+      })).rejects.toThrow('At least one redirect URI is required');
+      await expect(service.createClient(env, project, {
+        name: 'Partner App',
+        clientType: 'confidential',
+        redirectUris: ['https://partner.example.com/callback'],
+        allowedScopes: ['users:read'],
+      })).rejects.toThrow('Only service clients have allowed scopes');
+
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateClient', () => {
+    it('should check new redirect URIs against the allowlist', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient());
+
+      await expect(service.updateClient(env, project, 'client-1', {
+        redirectUris: ['https://evil.example.com/callback'],
+      })).rejects.toThrow('Redirect URI is not allowed for this project');
+    });
+
+    it('should update the allowed scopes of service clients', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({
+        clientType: 'service',
+        redirectUris: '[]',
+        allowedScopes: JSON.stringify(['users:read']),
+      }));
+
+      await service.updateClient(env, project, 'client-1', { allowedScopes: ['users:read', 'users:write'] });
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({
+        allowedScopes: JSON.stringify(['users:read', 'users:write']),
+      }));
+    });
+
+    it('should throw for unknown clients', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+
+      await expect(service.updateClient(env, project, 'missing', { enabled: false }))
+        .rejects.toThrow('OAuth client not found');
+    });
+  });
+
+  describe('regenerateSecret', () => {
+    it('should replace the stored hash', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({ clientSecretHash: 'old' }));
+
+      const { clientSecret } = await service.regenerateSecret(env, project, 'client-1');
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({
+        clientSecretHash: await hashToken(clientSecret),
+      }));
+    });
+
+    it('should refuse public clients', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({ clientType: 'public' }));
+
+      await expect(service.regenerateSecret(env, project, 'client-1'))
+        .rejects.toThrow('Public clients do not have a secret');
+    });
+  });
+
+  describe('deleteClient', () => {
+    it('should delete the client with its consents and codes', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient());
+
+      await service.deleteClient(env, project, 'client-1');
+
+      expect(mockQuery.delete).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('authenticateClient', () => {
+    it('should accept the right secret', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({ clientSecretHash: await hashToken('s3cret') }));
+
+      const client = await service.authenticateClient(env, 'test_project', 'client-1', 's3cret');
+
+      expect(client.clientId).toBe('client-1');
+    });
+
+    it('should reject a wrong or missing secret', async () => {
+      const hash = await hashToken('s3cret');
+      mockQuery.get.mockResolvedValue(storedClient({ clientSecretHash: hash }));
+
+      await expect(service.authenticateClient(env, 'test_project', 'client-1', 'wrong'))
+        .rejects.toMatchObject({ code: 'invalid_client', statusCode: 401 });
+      await expect(service.authenticateClient(env, 'test_project', 'client-1'))
+        .rejects.toMatchObject({ code: 'invalid_client' });
+    });
+
+    it('should reject disabled and unknown clients', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({ enabled: false })).mockResolvedValueOnce(undefined);
+
+      await expect(service.authenticateClient(env, 'test_project', 'client-1', 's3cret'))
+        .rejects.toMatchObject({ code: 'invalid_client' });
+      await expect(service.authenticateClient(env, 'test_project', 'missing', 's3cret'))
+        .rejects.toMatchObject({ code: 'invalid_client' });
+    });
+
+    it('should require a secret from service clients', async () => {
+      mockQuery.get.mockResolvedValue(storedClient({ clientType: 'service', clientSecretHash: await hashToken('s3cret') }));
+
+      await expect(service.authenticateClient(env, 'test_project', 'client-1'))
+        .rejects.toMatchObject({ code: 'invalid_client' });
+      await expect(service.authenticateClient(env, 'test_project', 'client-1', 's3cret')).resolves.toBeDefined();
+    });
+
+    it('should accept public clients without a secret', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedClient({ clientType: 'public' }));
+
+      await expect(service.authenticateClient(env, 'test_project', 'client-1')).resolves.toBeDefined();
+    });
+  });
+});
@@ -1,6 +1,944 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { OAuthService } from '../../src/services/oauth-service';
+import { projectService } from '../../src/services/project-service';
+import { userService } from '../../src/services/user-service';
+import { identityService } from '../../src/services/identity-service';
+import { authService } from '../../src/services/auth-service';
+import { mfaService } from '../../src/services/mfa-service';
+import { auditService } from '../../src/services/audit-service';
+import { rateLimitService } from '../../src/services/rate-limit-service';
+import { oidcDiscoveryService } from '../../src/services/oidc-discovery-service';
+import { hashToken } from '../../src/utils/crypto';
 import type { Env } from '../../src/types';
 
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockResolvedValue(undefined),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn() },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: {
+    getUserById: vi.fn(),
+    getUserByOAuth: vi.fn(),
+    getUserByEmail: vi.fn(),
+    createUser: vi.fn(),
+    updateUser: vi.fn(),
+    updateLastLogin: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/identity-service', () => ({
+  identityService: {
+    findIdentity: vi.fn(),
+    linkIdentity: vi.fn().mockResolvedValue({ id: 'identity-1' }),
+    recordSignIn: vi.fn().mockResolvedValue(undefined),
+    storeTokens: vi.fn().mockResolvedValue(undefined),
+    getTokens: vi.fn(),
+  },
+}));
+
+// The real signIn, so the MFA gate is exercised; only token issuing is stubbed
+vi.mock('../../src/services/auth-service', async () => {
+  const { AuthService } = await vi.importActual<typeof import('../../src/services/auth-service')>('../../src/services/auth-service');
+  const authService = new AuthService();
+  authService.issueTokens = vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+  return { authService };
+});
+
+vi.mock('../../src/services/mfa-service', () => ({
+  mfaService: {
+    hasVerifiedFactor: vi.fn().mockResolvedValue(false),
+    createChallenge: vi.fn().mockResolvedValue('mfa-challenge'),
+  },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/rate-limit-service', () => ({
+  rateLimitService: {
+    checkRateLimit: vi.fn().mockResolvedValue(undefined),
+    recordAttempt: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/oidc-discovery-service', () => ({
+  oidcDiscoveryService: { discover: vi.fn(), verifyIdToken: vi.fn() },
+}));
+
+const env = { DB: {} } as unknown as Env;
+
+const project = {
+  id: 'test_project',
+  enabled: true,
+  userTableName: 'test_project_users',
+  jwtSecret: 'test-jwt-secret-key-256-bits-long!!!',
+  siteUrl: 'https://app.example.com',
+  redirectUrls: null,
+  autoLinkOAuthAccounts: false,
+};
+
+const redirectUri = 'https://app.example.com/auth/callback';
+const callbackUri = 'https://auth.example.com/api/auth/test_project/oauth/google/callback';
+const request = new Request(callbackUri, { headers: { 'CF-Connecting-IP': '203.0.113.7' } });
+
+const user = { id: 'user-1', email: 'user@example.com', status: 'active' };
+
+describe('OAuthService', () => {
+  let service: OAuthService;
+  let browserNonce: string | undefined;
+
+  const mockProvider = (userInfo: Record<string, unknown>, tokenData: Record<string, unknown> = {}) => {
+    return vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'provider-token', ...tokenData })))
+      .mockResolvedValueOnce(new Response(JSON.stringify(userInfo)));
+  };
+
+  // The browser nonce cookie of the last sign-in started, as the browser would hold it
+  const startSignIn = async (provider = 'google', linkUserId?: string) => {
+    const result = await service.getAuthUrl(
+      env,
+      'test_project',
+      provider,
+      redirectUri,
+      callbackUri,
+      linkUserId
+    );
+    browserNonce = result.browserNonce;
+    return { params: new URL(result.authUrl).searchParams, state: result.state };
+  };
+
+  const browserRequest = (nonce = browserNonce) => new Request(request, {
+    headers: { 'CF-Connecting-IP': '203.0.113.7', Cookie: `oauth_browser_nonce=${nonce}` },
+  });
+
+  const callback = async (query: Record<string, string>, provider = 'google') => {
+    return new URL(await service.handleCallback(env, 'test_project', provider, query, browserRequest()));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new OAuthService();
+    browserNonce = undefined;
+    vi.mocked(projectService.getProject).mockResolvedValue(project as any);
+    vi.mocked(identityService.findIdentity).mockResolvedValue(null);
+    vi.mocked(userService.getUserByOAuth).mockResolvedValue(null);
+    vi.mocked(userService.getUserByEmail).mockResolvedValue(null);
+    mockQuery.get.mockResolvedValue({
+      providerName: 'google',
+      enabled: true,
+      authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      userInfoUrl: 'https://www.googleapis.com/oauth2/v2/userinfo',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getCallbackUrl', () => {
+    it('should point at the provider callback route on this origin', () => {
+      expect(service.getCallbackUrl('https://auth.example.com/api/auth/test_project/oauth/google?x=1', 'test_project', 'google'))
+        .toBe(callbackUri);
+    });
+  });
+
+  describe('getAuthUrl', () => {
+    it('should use PKCE and bind the sign-in to an encrypted state', async () => {
+      const { params, state } = await startSignIn();
+
+      expect(params.get('state')).toBe(state);
+      expect(params.get('redirect_uri')).toBe(callbackUri);
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(params.get('nonce')).toBeTruthy();
+    });
+
+    it('should bind the state to a browser nonce cookie scoped to the OAuth routes', async () => {
+      const { state } = await startSignIn();
+
+      expect(state).not.toContain(browserNonce);
+      expect(service.getBrowserNonceCookie('test_project', browserNonce!)).toBe(
+        `oauth_browser_nonce=${browserNonce}; Path=/api/auth/test_project/oauth; Max-Age=900; HttpOnly; Secure; SameSite=None`
+      );
+    });
+
+    it('should reject redirect URIs the project does not allow', async () => {
+      await expect(service.getAuthUrl(env, 'test_project', 'google', 'https://evil.example.com/callback', callbackUri))
+        .rejects.toThrow('Redirect URI is not allowed for this project');
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('should exchange the code with the values bound to the state', async () => {
+      const { params, state } = await startSignIn();
+      const fetchSpy = mockProvider({ id: 'g-1', email: 'new@example.com' });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+
+      await callback({ code: 'code', state });
+
+      const body = fetchSpy.mock.calls[0][1]!.body as URLSearchParams;
+      const verifier = body.get('code_verifier')!;
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+      expect(body.get('redirect_uri')).toBe(callbackUri);
+      expect(jose.base64url.encode(new Uint8Array(digest))).toBe(params.get('code_challenge'));
+    });
+
+    it('should reject missing, forged and cross-provider state', async () => {
+      const { state } = await startSignIn();
+
+      await expect(callback({ code: 'code' })).rejects.toThrow('State is required');
+      await expect(callback({ code: 'code', state: 'forged' }))
+        .rejects.toThrow('Invalid or expired OAuth state');
+      await expect(callback({ code: 'code', state }, 'github'))
+        .rejects.toThrow('Invalid or expired OAuth state');
+    });
+
+    it('should redirect to the app with a one-time code and audit the sign-in', async () => {
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: true });
+      vi.mocked(identityService.findIdentity).mockResolvedValue({ id: 'identity-1', userId: 'user-1' } as any);
+      vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+
+      const url = await callback({ code: 'code', state });
+
+      expect(`${url.origin}${url.pathname}`).toBe(redirectUri);
+      expect(url.searchParams.get('code')).toBeTruthy();
+      expect(url.searchParams.has('error')).toBe(false);
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        provider: 'google',
+        codeHash: expect.not.stringMatching(url.searchParams.get('code')!),
+        browserNonceHash: await hashToken(browserNonce!),
+      }));
+      expect(rateLimitService.recordAttempt).toHaveBeenCalledWith(
+        env, 'test_project', 'oauth', '203.0.113.7', 'user@example.com', true, 'user-1'
+      );
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'user_login',
+        userId: 'user-1',
+        eventData: expect.objectContaining({ method: 'oauth', provider: 'google' }),
+      }));
+      expect(identityService.recordSignIn).toHaveBeenCalled();
+      expect(userService.createUser).not.toHaveBeenCalled();
+    });
+
+    it('should not sign in a browser with a state minted for a different browser', async () => {
+      const { state } = await startSignIn();
+      await startSignIn();
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      const url = await callback({ code: 'code', state });
+
+      expect(url.searchParams.has('code')).toBe(false);
+      expect(url.searchParams.get('error')).toBe('access_denied');
+      expect(url.searchParams.get('error_description')).toBe('Sign-in was started in a different browser');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(mockQuery.values).not.toHaveBeenCalled();
+      expect(auditService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should redirect provider errors back to the app', async () => {
+      const { state } = await startSignIn();
+
+      const url = await callback({ state, error: 'access_denied', error_description: 'User cancelled' });
+
+      expect(url.searchParams.get('error')).toBe('access_denied');
+      expect(url.searchParams.get('error_description')).toBe('User cancelled');
+      expect(rateLimitService.recordAttempt).toHaveBeenCalledWith(
+        env, 'test_project', 'oauth', '203.0.113.7', undefined, false, undefined, 'User cancelled'
+      );
+    });
+
+    it('should reject ID tokens with another nonce', async () => {
+      const { state } = await startSignIn();
+      const idToken = await new jose.SignJWT({ nonce: 'replayed' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .sign(new TextEncoder().encode('provider-secret'));
+      mockProvider({ id: 'g-1', email: 'user@example.com' }, { id_token: idToken });
+
+      const url = await callback({ code: 'code', state });
+
+      expect(url.searchParams.get('error_description')).toBe('ID token nonce mismatch');
+      expect(url.searchParams.has('code')).toBe(false);
+    });
+
+    it('should create a user and identity for new accounts', async () => {
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'new@example.com', verified_email: true });
+      vi.mocked(userService.createUser).mockResolvedValue({ ...user, id: 'user-2' } as any);
+
+      await callback({ code: 'code', state });
+
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(
+        env,
+        'test_project',
+        'user-2',
+        'google',
+        expect.objectContaining({ providerUserId: 'g-1', emailVerified: true })
+      );
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({ eventType: 'user_created' }));
+    });
+
+    it('should move legacy OAuth users to an identity', async () => {
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'user@example.com' });
+      vi.mocked(userService.getUserByOAuth).mockResolvedValue(user as any);
+
+      await callback({ code: 'code', state });
+
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(env, 'test_project', 'user-1', 'google', expect.any(Object));
+    });
+
+    it('should not link to an existing email unless the project allows it', async () => {
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: true });
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      const url = await callback({ code: 'code', state });
+
+      expect(url.searchParams.get('error_description')).toMatch(/^Email already registered/);
+      expect(identityService.linkIdentity).not.toHaveBeenCalled();
+    });
+
+    it('should link to an existing email only when the provider verified it', async () => {
+      vi.mocked(projectService.getProject).mockResolvedValue({ ...project, autoLinkOAuthAccounts: true } as any);
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+      const { state } = await startSignIn();
+
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: false });
+      expect((await callback({ code: 'code', state })).searchParams.has('error')).toBe(true);
+
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: true });
+      expect((await callback({ code: 'code', state })).searchParams.has('code')).toBe(true);
+      expect(identityService.linkIdentity).toHaveBeenCalledTimes(1);
+    });
+
+    it('should link the provider account to the user who started linking', async () => {
+      const { state } = await startSignIn('google', 'user-1');
+      mockProvider({ id: 'g-1', email: 'other@example.com', verified_email: true });
+
+      const url = await callback({ code: 'code', state });
+
+      expect(url.toString()).toBe(redirectUri);
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(
+        env, 'test_project', 'user-1', 'google', expect.objectContaining({ providerUserId: 'g-1' })
+      );
+      expect(identityService.findIdentity).not.toHaveBeenCalled();
+    });
+
+    it('should not link a provider account from a browser that did not start linking', async () => {
+      const { state } = await startSignIn('google', 'attacker-1');
+      await startSignIn('google', 'user-1');
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      const url = await callback({ code: 'code', state });
+
+      expect(url.searchParams.get('error')).toBe('access_denied');
+      expect(url.searchParams.get('error_description')).toBe('Sign-in was started in a different browser');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(identityService.linkIdentity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exchangeLoginCode', () => {
+    it('should issue tokens for an unused code', async () => {
+      mockQuery.returning.mockResolvedValueOnce([{ userId: 'user-1' }]);
+      vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+
+      const result = await service.exchangeLoginCode(env, 'test_project', 'login-code', browserRequest('browser-nonce'));
+
+      expect(result).toEqual({ user, accessToken: 'access', refreshToken: 'refresh' });
+      expect(mockQuery.set).toHaveBeenCalledWith({ usedAt: expect.any(Number) });
+      expect(authService.issueTokens).toHaveBeenCalledWith(env, project, user, expect.objectContaining({
+        ipAddress: '203.0.113.7',
+      }));
+    });
+
+    it('should require the second factor from users with MFA', async () => {
+      mockQuery.returning.mockResolvedValueOnce([{ userId: 'user-1' }]);
+      vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+      vi.mocked(mfaService.hasVerifiedFactor).mockResolvedValueOnce(true);
+
+      const result = await service.exchangeLoginCode(env, 'test_project', 'login-code', browserRequest('browser-nonce'));
+
+      expect(result).toEqual({ user, mfaRequired: true, mfaToken: 'mfa-challenge' });
+      expect(mfaService.createChallenge).toHaveBeenCalledWith(env, project, 'user-1', 'oauth', '203.0.113.7');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject used, expired and unknown codes', async () => {
+      mockQuery.returning.mockResolvedValueOnce([]);
+
+      await expect(service.exchangeLoginCode(env, 'test_project', 'login-code', browserRequest('browser-nonce')))
+        .rejects.toThrow('Invalid or expired code');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes sent from a browser without the nonce cookie', async () => {
+      await expect(service.exchangeLoginCode(env, 'test_project', 'login-code', request))
+        .rejects.toThrow('Sign-in was started in a different browser');
+      expect(mockQuery.update).not.toHaveBeenCalled();
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('provider tokens', () => {
+    beforeEach(() => {
+      mockQuery.get.mockResolvedValue({
+        providerName: 'google',
+        enabled: true,
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        userInfoUrl: 'https://www.googleapis.com/oauth2/v2/userinfo',
+        additionalConfig: JSON.stringify({ storeTokens: true }),
+      });
+    });
+
+    const stored = (overrides: Record<string, unknown> = {}) => ({
+      providerUserId: 'g-1',
+      tokens: {
+        accessToken: 'ya29.current',
+        refreshToken: '1//refresh',
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+        scope: 'email',
+        ...overrides,
+      },
+    });
+
+    it('should store the provider tokens after sign-in', async () => {
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+      const { state } = await startSignIn();
+      mockProvider(
+        { id: 'g-1', email: 'new@example.com' },
+        { refresh_token: '1//refresh', expires_in: 3599, scope: 'email profile' }
+      );
+
+      await callback({ code: 'code', state });
+
+      expect(identityService.storeTokens).toHaveBeenCalledWith(env, 'test_project', 'google', 'g-1', {
+        accessToken: 'provider-token',
+        refreshToken: '1//refresh',
+        expiresAt: expect.any(Number),
+        scope: 'email profile',
+      });
+    });
+
+    it('should not store tokens unless the provider is configured to', async () => {
+      mockQuery.get.mockResolvedValue({
+        providerName: 'google',
+        enabled: true,
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        userInfoUrl: 'https://www.googleapis.com/oauth2/v2/userinfo',
+      });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'new@example.com' });
+
+      await callback({ code: 'code', state });
+      await expect(service.getProviderToken(env, project as any, 'user-1', 'google'))
+        .rejects.toThrow('This provider does not store tokens');
+
+      expect(identityService.storeTokens).not.toHaveBeenCalled();
+    });
+
+    it('should hand out a stored token that is still fresh', async () => {
+      vi.mocked(identityService.getTokens).mockResolvedValue(stored());
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      const token = await service.getProviderToken(env, project as any, 'user-1', 'google');
+
+      expect(token.accessToken).toBe('ya29.current');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should refresh a token about to expire', async () => {
+      vi.mocked(identityService.getTokens).mockResolvedValue(stored({ expiresAt: Math.floor(Date.now() / 1000) + 30 }));
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        new Response(JSON.stringify({ access_token: 'ya29.refreshed', expires_in: 3599, scope: 'email' }))
+      );
+
+      const token = await service.getProviderToken(env, project as any, 'user-1', 'google');
+
+      const body = fetchSpy.mock.calls[0][1]!.body as URLSearchParams;
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('1//refresh');
+      expect(token.accessToken).toBe('ya29.refreshed');
+      expect(identityService.storeTokens).toHaveBeenCalledWith(env, 'test_project', 'google', 'g-1', expect.objectContaining({
+        accessToken: 'ya29.refreshed',
+        refreshToken: '1//refresh',
+      }));
+    });
+
+    it('should ask for a new sign-in when an expired token cannot be refreshed', async () => {
+      vi.mocked(identityService.getTokens)
+        .mockResolvedValueOnce(stored({ expiresAt: 1, refreshToken: null }))
+        .mockResolvedValueOnce(null);
+
+      await expect(service.getProviderToken(env, project as any, 'user-1', 'google'))
+        .rejects.toThrow('Provider token expired. Sign in with the provider again.');
+      await expect(service.getProviderToken(env, project as any, 'user-1', 'google'))
+        .rejects.toThrow('No provider token stored for this account');
+    });
+  });
+
+  describe('attribute mapping', () => {
+    const useConfig = (additionalConfig: Record<string, unknown>) => {
+      mockQuery.get.mockResolvedValue({
+        providerName: 'google',
+        enabled: true,
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        userInfoUrl: 'https://www.googleapis.com/oauth2/v2/userinfo',
+        additionalConfig: JSON.stringify(additionalConfig),
+      });
+      vi.mocked(userService.updateUser).mockImplementation(async (_env, _table, id, updates) => ({
+        ...user,
+        id,
+        ...updates,
+      }) as any);
+    };
+
+    it('should fill new users from the mapped profile paths', async () => {
+      useConfig({
+        attributeMapping: {
+          displayName: '$.given_name',
+          avatarUrl: 'photos.0.url',
+          phone: 'phone_number',
+          metadata: { locale: 'locale', company: 'org.name' },
+        },
+      });
+      vi.mocked(userService.createUser).mockResolvedValue({ ...user, metadata: '{"plan":"free"}' } as any);
+      const { state } = await startSignIn();
+      mockProvider({
+        id: 'g-1',
+        email: 'new@example.com',
+        given_name: 'Ada',
+        photos: [{ url: 'https://cdn.example.com/ada.png' }],
+        phone_number: '+15551234567',
+        locale: 'en-GB',
+        org: { name: 'Analytical Engines' },
+      });
+
+      await callback({ code: 'code', state });
+
+      expect(userService.updateUser).toHaveBeenCalledWith(env, 'test_project_users', 'user-1', {
+        displayName: 'Ada',
+        avatarUrl: 'https://cdn.example.com/ada.png',
+        phone: '+15551234567',
+        metadata: JSON.stringify({ plan: 'free', locale: 'en-GB', company: 'Analytical Engines' }),
+      });
+    });
+
+    it('should leave existing users untouched', async () => {
+      useConfig({ attributeMapping: { displayName: 'given_name' } });
+      vi.mocked(identityService.findIdentity).mockResolvedValue({ id: 'identity-1', userId: 'user-1' } as any);
+      vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'user@example.com', given_name: 'Ada' });
+
+      await callback({ code: 'code', state });
+
+      expect(userService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should verify the email when the project trusts the provider', async () => {
+      useConfig({ trustEmailVerification: true });
+      vi.mocked(identityService.findIdentity).mockResolvedValue({ id: 'identity-1', userId: 'user-1' } as any);
+      vi.mocked(userService.getUserById).mockResolvedValue({ ...user, email_verified: 0 } as any);
+      const { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'USER@example.com', verified_email: true });
+
+      await callback({ code: 'code', state });
+
+      expect(userService.updateUser).toHaveBeenCalledWith(env, 'test_project_users', 'user-1', { emailVerified: true });
+    });
+
+    it('should not trust unverified or untrusted provider emails', async () => {
+      vi.mocked(identityService.findIdentity).mockResolvedValue({ id: 'identity-1', userId: 'user-1' } as any);
+      vi.mocked(userService.getUserById).mockResolvedValue({ ...user, email_verified: 0 } as any);
+
+      useConfig({ trustEmailVerification: true });
+      let { state } = await startSignIn();
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: false });
+      await callback({ code: 'code', state });
+
+      useConfig({});
+      ({ state } = await startSignIn());
+      mockProvider({ id: 'g-1', email: 'user@example.com', verified_email: true });
+      await callback({ code: 'code', state });
+
+      expect(userService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject mappings to other user fields', async () => {
+      await expect(service.configureProvider(env, {
+        projectId: 'test_project',
+        providerName: 'google',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        additionalConfig: { attributeMapping: { passwordHash: 'id' } },
+      })).rejects.toThrow('Unknown attribute mapping target: passwordHash');
+    });
+  });
+
+  describe('social provider presets', () => {
+    const useProvider = (providerName: string, userInfoUrl: string) => {
+      mockQuery.get.mockResolvedValue({
+        providerName,
+        enabled: true,
+        authorizationUrl: `https://${providerName}.example.com/authorize`,
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        tokenUrl: `https://${providerName}.example.com/token`,
+        userInfoUrl,
+        scopes: null,
+      });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+    };
+
+    it('should fill in preset endpoints and scopes', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+      mockQuery.values.mockReturnValueOnce(mockQuery);
+      mockQuery.returning.mockReturnValueOnce(mockQuery);
+
+      await service.configureProvider(env, {
+        projectId: 'test_project',
+        providerName: 'discord',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+      });
+
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        authorizationUrl: 'https://discord.com/oauth2/authorize',
+        tokenUrl: 'https://discord.com/api/oauth2/token',
+        userInfoUrl: 'https://discord.com/api/users/@me',
+        scopes: JSON.stringify(['identify', 'email']),
+      }));
+    });
+
+    it('should fetch the verified primary email GitHub leaves out of the profile', async () => {
+      useProvider('github', 'https://api.github.com/user');
+      const { state } = await startSignIn('github');
+      const fetchSpy = mockProvider({ id: 583231, login: 'octocat', email: null, avatar_url: 'https://avatars.example.com/1' });
+      fetchSpy.mockResolvedValueOnce(new Response(JSON.stringify([
+        { email: 'old@example.com', primary: false, verified: true },
+        { email: 'unverified@example.com', primary: true, verified: false },
+        { email: 'octocat@example.com', primary: true, verified: true },
+      ])));
+
+      await callback({ code: 'code', state }, 'github');
+
+      expect(fetchSpy.mock.calls[2][0]).toBe('https://api.github.com/user/emails');
+      expect((fetchSpy.mock.calls[1][1]!.headers as Record<string, string>)['User-Agent']).toBeTruthy();
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(env, 'test_project', 'user-1', 'github', expect.objectContaining({
+        providerUserId: '583231',
+        email: 'octocat@example.com',
+        emailVerified: true,
+        displayName: 'octocat',
+        avatarUrl: 'https://avatars.example.com/1',
+      }));
+    });
+
+    it('should parse Discord profiles', async () => {
+      useProvider('discord', 'https://discord.com/api/users/@me');
+      const { state } = await startSignIn('discord');
+      const fetchSpy = mockProvider({
+        id: '80351110224678912',
+        username: 'nelly',
+        global_name: 'Nelly',
+        email: 'nelly@example.com',
+        verified: true,
+        avatar: 'abc123',
+      });
+
+      await callback({ code: 'code', state }, 'discord');
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(env, 'test_project', 'user-1', 'discord', expect.objectContaining({
+        email: 'nelly@example.com',
+        emailVerified: true,
+        displayName: 'Nelly',
+        avatarUrl: 'https://cdn.discordapp.com/avatars/80351110224678912/abc123.png',
+      }));
+    });
+
+    it('should send X credentials as Basic auth and read its nested profile', async () => {
+      useProvider('x', 'https://api.x.com/2/users/me?user.fields=profile_image_url,confirmed_email');
+      const { state } = await startSignIn('x');
+      const fetchSpy = mockProvider({
+        data: { id: '2244994945', name: 'X Dev', username: 'xdevelopers', confirmed_email: 'dev@example.com' },
+      });
+
+      await callback({ code: 'code', state }, 'x');
+
+      const [, init] = fetchSpy.mock.calls[0];
+      expect((init!.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('client-id:client-secret')}`);
+      expect((init!.body as URLSearchParams).has('client_secret')).toBe(false);
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(env, 'test_project', 'user-1', 'x', expect.objectContaining({
+        providerUserId: '2244994945',
+        email: 'dev@example.com',
+        emailVerified: true,
+        displayName: 'X Dev',
+      }));
+    });
+
+    it('should treat token responses without an access token as failures', async () => {
+      useProvider('slack', 'https://slack.com/api/openid.connect.userInfo');
+      const { state } = await startSignIn('slack');
+      vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        new Response(JSON.stringify({ ok: false, error: 'invalid_code' }))
+      );
+
+      const url = await callback({ code: 'code', state }, 'slack');
+
+      expect(url.searchParams.get('error_description')).toBe('Failed to exchange authorization code');
+    });
+  });
+
+  describe('OpenID Connect providers', () => {
+    beforeEach(() => {
+      mockQuery.get.mockResolvedValue({
+        providerName: 'oidc',
+        enabled: true,
+        authorizationUrl: 'https://id.example.com/authorize',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        tokenUrl: 'https://id.example.com/token',
+        userInfoUrl: 'https://id.example.com/userinfo',
+        scopes: JSON.stringify(['openid', 'email', 'profile']),
+        additionalConfig: JSON.stringify({
+          issuer: 'https://id.example.com',
+          claimMappings: { name: 'preferred_username', avatar: 'profile.avatar' },
+        }),
+      });
+      vi.mocked(oidcDiscoveryService.verifyIdToken).mockResolvedValue({
+        sub: 'oidc-1',
+        email: 'user@example.com',
+        email_verified: true,
+      });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+    });
+
+    it('should configure endpoints from the discovery document', async () => {
+      vi.mocked(oidcDiscoveryService.discover).mockResolvedValue({
+        issuer: 'https://id.example.com',
+        authorization_endpoint: 'https://id.example.com/authorize',
+        token_endpoint: 'https://id.example.com/token',
+        userinfo_endpoint: 'https://id.example.com/userinfo',
+        jwks_uri: 'https://id.example.com/jwks',
+      });
+      mockQuery.get.mockResolvedValueOnce(undefined);
+      mockQuery.values.mockReturnValueOnce(mockQuery);
+      mockQuery.returning.mockReturnValueOnce(mockQuery);
+
+      await service.configureProvider(env, {
+        projectId: 'test_project',
+        providerName: 'oidc',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        additionalConfig: { issuer: 'https://id.example.com' },
+      });
+
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        authorizationUrl: 'https://id.example.com/authorize',
+        tokenUrl: 'https://id.example.com/token',
+        userInfoUrl: 'https://id.example.com/userinfo',
+        scopes: JSON.stringify(['openid', 'email', 'profile']),
+      }));
+    });
+
+    it('should require an issuer', async () => {
+      await expect(service.configureProvider(env, {
+        projectId: 'test_project',
+        providerName: 'oidc',
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+      })).rejects.toThrow('OpenID Connect providers require an issuer in additionalConfig');
+    });
+
+    it('should verify the ID token and apply claim mappings', async () => {
+      const { params, state } = await startSignIn('oidc');
+      mockProvider(
+        { sub: 'oidc-1', preferred_username: 'jdoe', profile: { avatar: 'https://cdn.example.com/jdoe.png' } },
+        { id_token: 'signed-id-token' }
+      );
+
+      await callback({ code: 'code', state }, 'oidc');
+
+      expect(oidcDiscoveryService.verifyIdToken).toHaveBeenCalledWith(
+        'https://id.example.com',
+        'signed-id-token',
+        'client-id',
+        expect.any(String)
+      );
+      expect(params.get('nonce')).toBeTruthy();
+      expect(userService.createUser).toHaveBeenCalledWith(env, 'test_project_users', expect.objectContaining({
+        email: 'user@example.com',
+        displayName: 'jdoe',
+        avatarUrl: 'https://cdn.example.com/jdoe.png',
+        oauthProviderUserId: 'oidc-1',
+      }));
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(
+        env, 'test_project', 'user-1', 'oidc', expect.objectContaining({ emailVerified: true })
+      );
+    });
+
+    it('should reject userinfo for another subject', async () => {
+      const { state } = await startSignIn('oidc');
+      mockProvider({ sub: 'someone-else' }, { id_token: 'signed-id-token' });
+
+      const url = await callback({ code: 'code', state }, 'oidc');
+
+      expect(url.searchParams.get('error_description')).toBe('User info does not match the ID token');
+      expect(userService.createUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sign in with Apple', () => {
+    const appleKeys = { privateKey: '', publicKey: null as unknown as CryptoKey };
+
+    beforeEach(async () => {
+      if (!appleKeys.privateKey) {
+        const { privateKey, publicKey } = await jose.generateKeyPair('ES256', { extractable: true });
+        appleKeys.privateKey = await jose.exportPKCS8(privateKey);
+        appleKeys.publicKey = publicKey as CryptoKey;
+      }
+
+      mockQuery.get.mockResolvedValue({
+        providerName: 'apple',
+        enabled: true,
+        authorizationUrl: 'https://appleid.apple.com/auth/authorize',
+        clientId: 'com.example.web',
+        clientSecret: appleKeys.privateKey,
+        tokenUrl: 'https://appleid.apple.com/auth/token',
+        userInfoUrl: '',
+        scopes: JSON.stringify(['name', 'email']),
+        additionalConfig: JSON.stringify({ teamId: 'TEAM123456', keyId: 'KEY1234567' }),
+      });
+    });
+
+    const mockApple = async (claims: Record<string, unknown>) => {
+      const idToken = await new jose.SignJWT(claims)
+        .setProtectedHeader({ alg: 'HS256' })
+        .sign(new TextEncoder().encode('apple-secret'));
+      return vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'apple-token', id_token: idToken })));
+    };
+
+    it('should ask Apple to post the callback', async () => {
+      const { params } = await startSignIn('apple');
+
+      expect(params.get('response_mode')).toBe('form_post');
+      expect(params.get('nonce')).toBeTruthy();
+      expect(params.get('scope')).toBe('name email');
+    });
+
+    it('should sign the client secret with the team key', async () => {
+      const { params, state } = await startSignIn('apple');
+      const fetchSpy = await mockApple({ sub: 'apple-1', email: 'user@example.com', nonce: params.get('nonce') });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+
+      await callback({ code: 'code', state }, 'apple');
+
+      const body = fetchSpy.mock.calls[0][1]!.body as URLSearchParams;
+      const { payload, protectedHeader } = await jose.jwtVerify(body.get('client_secret')!, appleKeys.publicKey, {
+        issuer: 'TEAM123456',
+        audience: 'https://appleid.apple.com',
+        subject: 'com.example.web',
+      });
+      expect(protectedHeader).toEqual({ alg: 'ES256', kid: 'KEY1234567' });
+      expect(payload.exp! - payload.iat!).toBe(300);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read the profile from the ID token and the first-login name', async () => {
+      const { params, state } = await startSignIn('apple');
+      await mockApple({
+        sub: 'apple-1',
+        email: 'abc123@privaterelay.appleid.com',
+        email_verified: 'true',
+        is_private_email: 'true',
+        nonce: params.get('nonce'),
+      });
+      vi.mocked(userService.createUser).mockResolvedValue(user as any);
+
+      await callback({
+        code: 'code',
+        state,
+        user: JSON.stringify({ name: { firstName: 'Jane', lastName: 'Appleseed' }, email: 'abc123@privaterelay.appleid.com' }),
+      }, 'apple');
+
+      expect(userService.createUser).toHaveBeenCalledWith(env, 'test_project_users', expect.objectContaining({
+        email: 'abc123@privaterelay.appleid.com',
+        displayName: 'Jane Appleseed',
+        oauthProviderUserId: 'apple-1',
+      }));
+      expect(identityService.linkIdentity).toHaveBeenCalledWith(
+        env,
+        'test_project',
+        'user-1',
+        'apple',
+        expect.objectContaining({
+          emailVerified: true,
+          rawUserData: expect.objectContaining({ isPrivateEmail: true }),
+        })
+      );
+    });
+
+    it('should sign in linked users whose ID token has no email', async () => {
+      const { params, state } = await startSignIn('apple');
+      await mockApple({ sub: 'apple-1', nonce: params.get('nonce') });
+      vi.mocked(identityService.findIdentity).mockResolvedValue({ id: 'identity-1', userId: 'user-1' } as any);
+      vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+
+      const url = await callback({ code: 'code', state }, 'apple');
+
+      expect(url.searchParams.get('code')).toBeTruthy();
+    });
+
+    it('should require the team and key IDs and a .p8 key', async () => {
+      const data = { projectId: 'test_project', providerName: 'apple' as const, clientId: 'com.example.web' };
+
+      await expect(service.configureProvider(env, { ...data, clientSecret: appleKeys.privateKey }))
+        .rejects.toThrow('Apple requires teamId and keyId in additionalConfig');
+      await expect(service.configureProvider(env, {
+        ...data,
+        clientSecret: 'not-a-key',
+        additionalConfig: { teamId: 'TEAM123456', keyId: 'KEY1234567' },
+      })).rejects.toThrow('Apple client secret must be the contents of a .p8 private key');
+    });
+  });
+});
+
 describe('OAuth Integration Tests (Mocked)', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { OidcDiscoveryService } from '../../src/services/oidc-discovery-service';
+
+const issuer = 'https://id.example.com';
+
+const metadata = {
+  issuer,
+  authorization_endpoint: `${issuer}/authorize`,
+  token_endpoint: `${issuer}/token`,
+  userinfo_endpoint: `${issuer}/userinfo`,
+  jwks_uri: `${issuer}/jwks`,
+};
+
+describe('OidcDiscoveryService', () => {
+  let service: OidcDiscoveryService;
+  let signingKey: CryptoKey;
+  let jwks: jose.JSONWebKeySet;
+
+  const idToken = (claims: Record<string, unknown> = {}, kid = 'key-1', key = signingKey) => {
+    return new jose.SignJWT({ nonce: 'nonce-1', ...claims })
+      .setProtectedHeader({ alg: 'ES256', kid })
+      .setIssuer(issuer)
+      .setAudience('client-id')
+      .setSubject('subject-1')
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(key);
+  };
+
+  const mockFetch = () => {
+    return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      const url = String(input);
+      if (url === `${issuer}/.well-known/openid-configuration`) {
+        return new Response(JSON.stringify(metadata));
+      }
+      if (url === metadata.jwks_uri) {
+        return new Response(JSON.stringify(jwks));
+      }
+      return new Response('Not found', { status: 404 });
+    });
+  };
+
+  beforeEach(async () => {
+    service = new OidcDiscoveryService();
+    const { privateKey, publicKey } = await jose.generateKeyPair('ES256');
+    signingKey = privateKey as CryptoKey;
+    jwks = { keys: [{ ...(await jose.exportJWK(publicKey)), kid: 'key-1', alg: 'ES256' }] };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('discover', () => {
+    it('should fetch and cache the discovery document', async () => {
+      const fetchSpy = mockFetch();
+
+      expect(await service.discover(`${issuer}/`)).toEqual(metadata);
+      await service.discover(issuer);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject documents for another issuer', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ ...metadata, issuer: 'https://evil.example.com' }))
+      );
+
+      await expect(service.discover(issuer)).rejects.toThrow('Discovery document issuer does not match');
+    });
+
+    it('should reject unreachable issuers', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 500 }));
+
+      await expect(service.discover(issuer))
+        .rejects.toThrow('Failed to fetch OpenID Connect discovery document');
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    it('should verify tokens against the cached JWKS', async () => {
+      const fetchSpy = mockFetch();
+
+      const claims = await service.verifyIdToken(issuer, await idToken({ email: 'user@example.com' }), 'client-id', 'nonce-1');
+      await service.verifyIdToken(issuer, await idToken(), 'client-id', 'nonce-1');
+
+      expect(claims).toMatchObject({ sub: 'subject-1', email: 'user@example.com' });
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch the JWKS when the provider rotated keys', async () => {
+      const fetchSpy = mockFetch();
+      await service.verifyIdToken(issuer, await idToken(), 'client-id', 'nonce-1');
+
+      const { privateKey, publicKey } = await jose.generateKeyPair('ES256');
+      jwks = { keys: [{ ...(await jose.exportJWK(publicKey)), kid: 'key-2', alg: 'ES256' }] };
+
+      const claims = await service.verifyIdToken(
+        issuer,
+        await idToken({}, 'key-2', privateKey as CryptoKey),
+        'client-id',
+        'nonce-1'
+      );
+
+      expect(claims.sub).toBe('subject-1');
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject forged tokens, other audiences and other nonces', async () => {
+      mockFetch();
+      const { privateKey } = await jose.generateKeyPair('ES256');
+
+      await expect(service.verifyIdToken(issuer, await idToken({}, 'key-1', privateKey as CryptoKey), 'client-id', 'nonce-1'))
+        .rejects.toThrow('Invalid ID token from OAuth provider');
+      await expect(service.verifyIdToken(issuer, await idToken(), 'other-client', 'nonce-1'))
+        .rejects.toThrow('Invalid ID token from OAuth provider');
+      await expect(service.verifyIdToken(issuer, await idToken(), 'client-id', 'nonce-2'))
+        .rejects.toThrow('ID token nonce mismatch');
+    });
+  });
+});
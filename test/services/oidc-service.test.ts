@@ -0,0 +1,613 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { OidcService } from '../../src/services/oidc-service';
+import { authService } from '../../src/services/auth-service';
+import { jwtService } from '../../src/services/jwt-service';
+import { oauthClientService } from '../../src/services/oauth-client-service';
+import { tokenDenylistService } from '../../src/services/token-denylist-service';
+import { userService } from '../../src/services/user-service';
+import { hashToken } from '../../src/utils/crypto';
+import type { AuthorizationRequest, Env, JWTPayload, Project, User } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/oauth-client-service', () => ({
+  oauthClientService: {
+    getClient: vi.fn(),
+    authenticateClient: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: { getUserById: vi.fn() },
+}));
+
+vi.mock('../../src/services/auth-service', () => ({
+  authService: {
+    findActiveRefreshToken: vi.fn(),
+    revokeRefreshToken: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/token-denylist-service', () => ({
+  tokenDenylistService: { revoke: vi.fn().mockResolvedValue(undefined) },
+}));
+
+// A single ES256 key stands in for the project's key ring
+const keyPair = await vi.hoisted(async () => {
+  const { generateKeyPair } = await import('jose');
+  return generateKeyPair('ES256');
+});
+
+vi.mock('../../src/services/signing-key-service', async () => {
+  const { jwtService } = await import('../../src/services/jwt-service');
+  const actual = await vi.importActual<typeof import('../../src/services/signing-key-service')>('../../src/services/signing-key-service');
+  const signingKey = { kid: 'key-1', key: keyPair.privateKey };
+  return {
+    signingKeyService: {
+      isAsymmetric: actual.signingKeyService.isAsymmetric,
+      signAccessToken: vi.fn((env, project, userId, email, claims) =>
+        jwtService.generateAccessToken(project, userId, email, signingKey, claims)),
+      signIdToken: vi.fn((env, project, claims) => jwtService.generateIdToken(project, claims, signingKey)),
+      signClientToken: vi.fn((env, project, clientId, scope) =>
+        jwtService.generateClientToken(project, clientId, scope, signingKey)),
+      verifyAccessToken: vi.fn((env, project, token) =>
+        jwtService.verifyAccessToken(token, async () => keyPair.publicKey, project.jwtAlgorithm)),
+    },
+  };
+});
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+const env = { DB: {} } as unknown as Env;
+const signingKey = { kid: 'key-1', key: keyPair.privateKey };
+const issuer = 'https://auth.example.com/api/auth/test_project';
+const redirectUri = 'https://partner.example.com/callback';
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  enabled: true,
+  jwtSecret: 'test-jwt-secret-key-256-bits-long!!!',
+  jwtAlgorithm: 'ES256',
+  jwtExpirySeconds: 3600,
+  userTableName: 'test_project_users',
+  siteUrl: 'https://app.example.com',
+  redirectUrls: JSON.stringify([redirectUri]),
+} as Project;
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  email_verified: 1,
+  display_name: 'Test User',
+  status: 'active',
+} as unknown as User;
+
+const session = { sub: 'user-1', subType: 'user', email: 'user@example.com', projectId: 'test_project', iat: 1700000000, exp: 1700003600 } as JWTPayload;
+
+const client = (overrides: Record<string, unknown> = {}) => ({
+  id: 'row-1',
+  projectId: 'test_project',
+  clientId: 'client-1',
+  clientSecretHash: 'hash',
+  clientType: 'confidential',
+  name: 'Partner App',
+  redirectUris: JSON.stringify([redirectUri]),
+  allowedScopes: '[]',
+  skipConsent: false,
+  enabled: true,
+  ...overrides,
+}) as any;
+
+const authorizationRequest = (overrides: Partial<AuthorizationRequest> = {}): AuthorizationRequest => ({
+  responseType: 'code',
+  clientId: 'client-1',
+  redirectUri,
+  scope: 'openid email profile',
+  state: 'xyz',
+  nonce: 'n-0S6',
+  ...overrides,
+});
+
+const tokenRequest = (headers: Record<string, string> = {}) =>
+  new Request(`${issuer}/oauth2/token`, { method: 'POST', headers });
+
+describe('OidcService', () => {
+  let service: OidcService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.get.mockReset();
+    mockQuery.returning.mockReset();
+    service = new OidcService();
+    vi.mocked(oauthClientService.getClient).mockResolvedValue(client());
+    vi.mocked(oauthClientService.authenticateClient).mockResolvedValue(client());
+    vi.mocked(userService.getUserById).mockResolvedValue(user);
+  });
+
+  describe('getDiscoveryDocument', () => {
+    it('should describe the project endpoints', () => {
+      const issuerUrl = service.getIssuer('https://auth.example.com/api/auth/test_project/.well-known/openid-configuration', 'test_project');
+      const document = service.getDiscoveryDocument(project, issuerUrl);
+
+      expect(issuerUrl).toBe(issuer);
+      expect(document).toMatchObject({
+        issuer,
+        authorization_endpoint: `${issuer}/oauth2/authorize`,
+        token_endpoint: `${issuer}/oauth2/token`,
+        userinfo_endpoint: `${issuer}/oauth2/userinfo`,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        id_token_signing_alg_values_supported: ['ES256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    });
+
+    it('should not advertise ID token algorithms for projects signing with a shared secret', () => {
+      const document = service.getDiscoveryDocument({ ...project, jwtAlgorithm: 'HS256' }, issuer);
+
+      expect(document.id_token_signing_alg_values_supported).toEqual([]);
+    });
+  });
+
+  describe('startAuthorization', () => {
+    it('should send the browser to the project sign-in page', async () => {
+      const target = new URL(await service.startAuthorization(env, project, authorizationRequest()));
+
+      expect(target.origin + target.pathname).toBe('https://app.example.com/oauth/authorize');
+      expect(target.searchParams.get('client_id')).toBe('client-1');
+      expect(target.searchParams.get('redirect_uri')).toBe(redirectUri);
+      expect(target.searchParams.get('state')).toBe('xyz');
+    });
+
+    it('should not redirect to unregistered redirect URIs', async () => {
+      await expect(service.startAuthorization(env, project, authorizationRequest({
+        redirectUri: 'https://evil.example.com/callback',
+      }))).rejects.toThrow('Redirect URI is not registered for this client');
+    });
+
+    it('should not redirect for unknown clients', async () => {
+      vi.mocked(oauthClientService.getClient).mockResolvedValueOnce(null);
+
+      await expect(service.startAuthorization(env, project, authorizationRequest()))
+        .rejects.toThrow('Unknown OAuth client');
+    });
+
+    it('should not start authorization for projects signing with a shared secret', async () => {
+      await expect(service.startAuthorization(env, { ...project, jwtAlgorithm: 'HS256' }, authorizationRequest()))
+        .rejects.toThrow('OpenID Connect requires an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+      expect(oauthClientService.getClient).not.toHaveBeenCalled();
+    });
+
+    it('should not start authorization for service clients', async () => {
+      vi.mocked(oauthClientService.getClient).mockResolvedValueOnce(client({ clientType: 'service' }));
+
+      await expect(service.startAuthorization(env, project, authorizationRequest()))
+        .rejects.toThrow('Service clients cannot use the authorization code flow');
+    });
+
+    it('should report request errors to the client', async () => {
+      const target = new URL(await service.startAuthorization(env, project, authorizationRequest({ scope: 'email' })));
+
+      expect(target.origin + target.pathname).toBe(redirectUri);
+      expect(target.searchParams.get('error')).toBe('invalid_scope');
+      expect(target.searchParams.get('state')).toBe('xyz');
+    });
+
+    it('should require PKCE for public clients', async () => {
+      vi.mocked(oauthClientService.getClient).mockResolvedValueOnce(client({ clientType: 'public' }));
+
+      const target = new URL(await service.startAuthorization(env, project, authorizationRequest()));
+
+      expect(target.searchParams.get('error')).toBe('invalid_request');
+    });
+  });
+
+  describe('authorize', () => {
+    it('should ask for consent the first time', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+
+      const result = await service.authorize(env, project, user, session, authorizationRequest());
+
+      expect(result).toEqual({
+        consentRequired: true,
+        client: { clientId: 'client-1', name: 'Partner App' },
+        scopes: ['openid', 'profile', 'email'],
+      });
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should issue a code once consent is approved', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+
+      const result = await service.authorize(env, project, user, session, authorizationRequest(), 'approve');
+
+      expect(result.consentRequired).toBe(false);
+      const target = new URL((result as { redirectTo: string }).redirectTo);
+      expect(target.searchParams.get('code')).toBeTruthy();
+      expect(target.searchParams.get('state')).toBe('xyz');
+
+      // Consent and code are both stored
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({ scope: 'openid profile email', userId: 'user-1' }));
+      expect(mockQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+        codeHash: await hashToken(target.searchParams.get('code')!),
+        nonce: 'n-0S6',
+        authTime: session.iat,
+      }));
+    });
+
+    it('should skip the consent screen when consent was already given', async () => {
+      mockQuery.get.mockResolvedValueOnce({ scope: 'openid profile email' });
+
+      const result = await service.authorize(env, project, user, session, authorizationRequest());
+
+      expect(result.consentRequired).toBe(false);
+    });
+
+    it('should skip the consent screen for first-party clients', async () => {
+      vi.mocked(oauthClientService.getClient).mockResolvedValueOnce(client({ skipConsent: true }));
+
+      const result = await service.authorize(env, project, user, session, authorizationRequest());
+
+      expect(result.consentRequired).toBe(false);
+      expect(mockQuery.get).not.toHaveBeenCalled();
+    });
+
+    it('should report a denied request to the client', async () => {
+      const result = await service.authorize(env, project, user, session, authorizationRequest(), 'deny');
+
+      const target = new URL((result as { redirectTo: string }).redirectTo);
+      expect(target.searchParams.get('error')).toBe('access_denied');
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not prompt when prompt=none', async () => {
+      mockQuery.get.mockResolvedValueOnce(undefined);
+
+      const result = await service.authorize(env, project, user, session, authorizationRequest({ prompt: 'none' }));
+
+      const target = new URL((result as { redirectTo: string }).redirectTo);
+      expect(target.searchParams.get('error')).toBe('consent_required');
+    });
+
+    it('should refuse sessions issued to another OAuth client', async () => {
+      await expect(service.authorize(env, project, user, { ...session, clientId: 'other' }, authorizationRequest()))
+        .rejects.toThrow('Authorization requires a first-party session');
+    });
+  });
+
+  describe('token', () => {
+    // Example from RFC 7636 appendix B
+    const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+    const challenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+    const storedCode = (overrides: Record<string, unknown> = {}) => ({
+      id: 'code-1',
+      projectId: 'test_project',
+      clientId: 'client-1',
+      userId: 'user-1',
+      redirectUri,
+      scope: 'openid email',
+      nonce: 'n-0S6',
+      codeChallenge: null,
+      authTime: 1700000000,
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+      usedAt: null,
+      ...overrides,
+    });
+
+    it('should exchange a code for an access token and ID token', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedCode());
+      mockQuery.returning.mockResolvedValueOnce([{ id: 'code-1' }]);
+
+      const tokens = await service.token(env, project, issuer, {
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: redirectUri,
+      }, tokenRequest({ Authorization: `Basic ${btoa('client-1:s3cret')}` }));
+
+      expect(oauthClientService.authenticateClient).toHaveBeenCalledWith(env, 'test_project', 'client-1', 's3cret');
+      expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'openid email' });
+
+      const { payload: idToken, protectedHeader } = await jose.jwtVerify(tokens.id_token!, keyPair.publicKey, { issuer, audience: 'client-1' });
+      expect(protectedHeader).toMatchObject({ alg: 'ES256', kid: 'key-1' });
+      expect(idToken).toMatchObject({
+        sub: 'user-1',
+        nonce: 'n-0S6',
+        auth_time: 1700000000,
+        email: 'user@example.com',
+        email_verified: true,
+      });
+      expect(idToken).not.toHaveProperty('name');
+
+      const { payload: accessToken } = await jose.jwtVerify(tokens.access_token, keyPair.publicKey);
+      expect(accessToken).toMatchObject({ sub: 'user-1', scope: 'openid email', client_id: 'client-1' });
+    });
+
+    it('should not exchange codes once the project signs with a shared secret', async () => {
+      await expect(service.token(env, { ...project, jwtAlgorithm: 'HS256' }, issuer, {
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: redirectUri,
+        client_id: 'client-1',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'unauthorized_client' });
+      expect(mockQuery.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported grants', async () => {
+      await expect(service.token(env, project, issuer, { grant_type: 'password' }, tokenRequest()))
+        .rejects.toMatchObject({ code: 'unsupported_grant_type' });
+    });
+
+    it('should not let user-facing clients use the client_credentials grant', async () => {
+      await expect(service.token(env, project, issuer, {
+        grant_type: 'client_credentials',
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'unauthorized_client' });
+    });
+
+    it('should reject codes issued for another redirect URI', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedCode({ redirectUri: 'https://partner.example.com/other' }));
+
+      await expect(service.token(env, project, issuer, {
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: redirectUri,
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('should reject used and expired codes', async () => {
+      const form = { grant_type: 'authorization_code', code: 'the-code', redirect_uri: redirectUri, client_id: 'client-1' };
+      mockQuery.get
+        .mockResolvedValueOnce(storedCode({ usedAt: 1700000000 }))
+        .mockResolvedValueOnce(storedCode({ expiresAt: 1700000000 }));
+
+      await expect(service.token(env, project, issuer, form, tokenRequest())).rejects.toMatchObject({ code: 'invalid_grant' });
+      await expect(service.token(env, project, issuer, form, tokenRequest())).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('should verify the PKCE code verifier', async () => {
+      const form = { grant_type: 'authorization_code', code: 'the-code', redirect_uri: redirectUri, client_id: 'client-1' };
+      mockQuery.get.mockResolvedValue(storedCode({ codeChallenge: challenge }));
+      mockQuery.returning.mockResolvedValue([{ id: 'code-1' }]);
+
+      await expect(service.token(env, project, issuer, form, tokenRequest()))
+        .rejects.toThrow('A valid code_verifier is required');
+      await expect(service.token(env, project, issuer, { ...form, code_verifier: verifier.replace('d', 'e') }, tokenRequest()))
+        .rejects.toThrow('PKCE verification failed');
+      await expect(service.token(env, project, issuer, { ...form, code_verifier: verifier }, tokenRequest()))
+        .resolves.toHaveProperty('id_token');
+    });
+
+    it('should not issue tokens twice for a code exchanged concurrently', async () => {
+      mockQuery.get.mockResolvedValueOnce(storedCode());
+      mockQuery.returning.mockResolvedValueOnce([]);
+
+      await expect(service.token(env, project, issuer, {
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: redirectUri,
+        client_id: 'client-1',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+  });
+
+  describe('token (client_credentials)', () => {
+    const serviceClient = client({
+      clientType: 'service',
+      redirectUris: '[]',
+      allowedScopes: JSON.stringify(['users:read', 'reports:write']),
+    });
+
+    beforeEach(() => {
+      vi.mocked(oauthClientService.authenticateClient).mockResolvedValue(serviceClient);
+    });
+
+    it('should issue a service token without an ID token', async () => {
+      const tokens = await service.token(env, project, issuer, {
+        grant_type: 'client_credentials',
+        scope: 'users:read',
+      }, tokenRequest({ Authorization: `Basic ${btoa('client-1:s3cret')}` }));
+
+      expect(oauthClientService.authenticateClient).toHaveBeenCalledWith(env, 'test_project', 'client-1', 's3cret');
+      expect(tokens).toEqual({ access_token: expect.any(String), token_type: 'Bearer', expires_in: 3600, scope: 'users:read' });
+
+      const { payload } = await jose.jwtVerify(tokens.access_token, keyPair.publicKey);
+      expect(payload).toMatchObject({ sub: 'client-1', sub_type: 'client', client_id: 'client-1', scope: 'users:read' });
+      expect(payload).not.toHaveProperty('email');
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should grant every allowed scope when none is requested', async () => {
+      const tokens = await service.token(env, project, issuer, {
+        grant_type: 'client_credentials',
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest());
+
+      expect(tokens.scope).toBe('users:read reports:write');
+    });
+
+    it('should reject scopes the client is not allowed', async () => {
+      await expect(service.token(env, project, issuer, {
+        grant_type: 'client_credentials',
+        client_id: 'client-1',
+        client_secret: 's3cret',
+        scope: 'users:read users:write',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'invalid_scope', message: 'Scope not allowed for this client: users:write' });
+    });
+
+    it('should not let service clients exchange authorization codes', async () => {
+      await expect(service.token(env, project, issuer, {
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: redirectUri,
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'unauthorized_client' });
+    });
+  });
+
+  describe('introspect', () => {
+    const refreshRecord = {
+      id: 'refresh-1',
+      userId: 'user-1',
+      expiresAt: '2030-01-01T00:00:00.000Z',
+    } as any;
+
+    beforeEach(() => {
+      vi.mocked(authService.findActiveRefreshToken).mockResolvedValue(null);
+    });
+
+    it('should describe an active access token', async () => {
+      const token = await jwtService.generateClientToken(project, 'service-1', 'users:read', signingKey);
+
+      const result = await service.introspect(env, project, issuer, {
+        token,
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest());
+
+      expect(result).toMatchObject({
+        active: true,
+        token_type: 'Bearer',
+        scope: 'users:read',
+        client_id: 'service-1',
+        sub: 'service-1',
+        sub_type: 'client',
+        iss: issuer,
+        jti: expect.any(String),
+      });
+      expect(authService.findActiveRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should describe an active refresh token', async () => {
+      vi.mocked(authService.findActiveRefreshToken).mockResolvedValueOnce(refreshRecord);
+
+      const result = await service.introspect(env, project, issuer, {
+        token: 'refresh-token',
+        token_type_hint: 'refresh_token',
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest());
+
+      expect(result).toEqual({
+        active: true,
+        token_type: 'refresh_token',
+        sub: 'user-1',
+        sub_type: 'user',
+        exp: 1893456000,
+        iss: issuer,
+      });
+    });
+
+    it('should report unknown tokens as inactive', async () => {
+      await expect(service.introspect(env, project, issuer, {
+        token: 'not-a-token',
+        client_id: 'client-1',
+        client_secret: 's3cret',
+      }, tokenRequest())).resolves.toEqual({ active: false });
+    });
+
+    it('should not let public clients introspect', async () => {
+      vi.mocked(oauthClientService.authenticateClient).mockResolvedValueOnce(client({ clientType: 'public' }));
+
+      await expect(service.introspect(env, project, issuer, {
+        token: 'not-a-token',
+        client_id: 'client-1',
+      }, tokenRequest())).rejects.toMatchObject({ code: 'unauthorized_client' });
+    });
+
+    it('should require client authentication', async () => {
+      await expect(service.introspect(env, project, issuer, { token: 'not-a-token' }, tokenRequest()))
+        .rejects.toMatchObject({ code: 'invalid_request' });
+    });
+  });
+
+  describe('revoke', () => {
+    beforeEach(() => {
+      vi.mocked(authService.findActiveRefreshToken).mockResolvedValue(null);
+    });
+
+    it('should add access tokens to the denylist', async () => {
+      const token = await jwtService.generateAccessToken(project, 'user-1', 'user@example.com', signingKey);
+      const { jti, exp } = jose.decodeJwt(token);
+
+      await service.revoke(env, project, { token }, tokenRequest());
+
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(env, 'test_project', jti, exp, 'revoked');
+      expect(oauthClientService.authenticateClient).not.toHaveBeenCalled();
+    });
+
+    it('should revoke refresh tokens', async () => {
+      vi.mocked(authService.findActiveRefreshToken).mockResolvedValueOnce({ id: 'refresh-1' } as any);
+
+      await service.revoke(env, project, { token: 'refresh-token', token_type_hint: 'refresh_token' }, tokenRequest());
+
+      expect(authService.revokeRefreshToken).toHaveBeenCalledWith(env, 'refresh-1', 'revoked');
+      expect(tokenDenylistService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a wrong hint', async () => {
+      const token = await jwtService.generateAccessToken(project, 'user-1', 'user@example.com', signingKey);
+
+      await service.revoke(env, project, { token, token_type_hint: 'refresh_token' }, tokenRequest());
+
+      expect(tokenDenylistService.revoke).toHaveBeenCalled();
+    });
+
+    it('should ignore unknown tokens', async () => {
+      await expect(service.revoke(env, project, { token: 'not-a-token' }, tokenRequest())).resolves.toBeUndefined();
+      expect(authService.revokeRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should only let the client a token was issued to revoke it', async () => {
+      const token = await jwtService.generateAccessToken(project, 'user-1', 'user@example.com', signingKey, {
+        scope: 'openid',
+        client_id: 'client-2',
+      });
+
+      await expect(service.revoke(env, project, { token }, tokenRequest()))
+        .rejects.toMatchObject({ code: 'unauthorized_client' });
+      await expect(service.revoke(env, project, { token, client_id: 'client-1', client_secret: 's3cret' }, tokenRequest()))
+        .rejects.toMatchObject({ code: 'unauthorized_client' });
+
+      vi.mocked(oauthClientService.authenticateClient).mockResolvedValueOnce(client({ clientId: 'client-2' }));
+      await service.revoke(env, project, { token, client_id: 'client-2', client_secret: 's3cret' }, tokenRequest());
+
+      expect(tokenDenylistService.revoke).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should release the claims of the granted scopes', () => {
+      const claims = service.getUserInfo(user, { ...session, scope: 'openid profile', clientId: 'client-1' });
+
+      expect(claims).toEqual({ sub: 'user-1', name: 'Test User' });
+    });
+
+    it('should require the openid scope', () => {
+      expect(() => service.getUserInfo(user, session)).toThrow('The access token was not issued for the openid scope');
+    });
+  });
+});
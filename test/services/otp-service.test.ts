@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OtpService } from '../../src/services/otp-service';
+import { projectService } from '../../src/services/project-service';
+import { userService } from '../../src/services/user-service';
+import { authService } from '../../src/services/auth-service';
+import { mfaService } from '../../src/services/mfa-service';
+import { auditService } from '../../src/services/audit-service';
+import { rateLimitService } from '../../src/services/rate-limit-service';
+import { hashToken } from '../../src/utils/crypto';
+import type { Env } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  orderBy: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn() },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: {
+    getUserByEmail: vi.fn(),
+    getUserById: vi.fn(),
+    updateUser: vi.fn(),
+    updateLastLogin: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// The real signIn, so the MFA gate is exercised; only token issuing is stubbed
+vi.mock('../../src/services/auth-service', async () => {
+  const { AuthService } = await vi.importActual<typeof import('../../src/services/auth-service')>('../../src/services/auth-service');
+  const authService = new AuthService();
+  authService.issueTokens = vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+  return { authService };
+});
+
+vi.mock('../../src/services/mfa-service', () => ({
+  mfaService: {
+    hasVerifiedFactor: vi.fn().mockResolvedValue(false),
+    createChallenge: vi.fn().mockResolvedValue('mfa-challenge'),
+  },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/rate-limit-service', () => ({
+  rateLimitService: {
+    checkRateLimit: vi.fn().mockResolvedValue(undefined),
+    recordAttempt: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const env = { DB: {} } as unknown as Env;
+const request = new Request('http://localhost/api/auth/test_project/otp/verify', { method: 'POST' });
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  enabled: true,
+  userTableName: 'test_project_users',
+};
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  email_verified: 1,
+  status: 'active',
+};
+
+describe('OtpService', () => {
+  let service: OtpService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new OtpService();
+    vi.mocked(projectService.getProject).mockResolvedValue(project as any);
+    vi.mocked(userService.getUserById).mockResolvedValue(user as any);
+    mockQuery.returning.mockResolvedValue([{ id: 'code-1' }]);
+  });
+
+  describe('generateCode', () => {
+    it('should generate 6-digit codes', () => {
+      for (let i = 0; i < 50; i++) {
+        expect(service.generateCode()).toMatch(/^\d{6}$/);
+      }
+    });
+  });
+
+  describe('requestOtp', () => {
+    it('should store only a hash of the code', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      const result = await service.requestOtp(env, 'test_project', 'user@example.com', 'login');
+
+      expect(result!.code).toMatch(/^\d{6}$/);
+      const stored = mockQuery.values.mock.calls[0][0];
+      expect(stored.codeHash).toBe(await hashToken(`user@example.com:${result!.code}`));
+      expect(stored.purpose).toBe('login');
+      expect(stored.attempts).toBe(0);
+    });
+
+    it('should invalidate earlier codes', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(user as any);
+
+      await service.requestOtp(env, 'test_project', 'user@example.com', 'login');
+
+      expect(mockQuery.update).toHaveBeenCalled();
+      expect(mockQuery.set).toHaveBeenCalledWith({ usedAt: expect.any(Number) });
+    });
+
+    it('should return null for unknown users', async () => {
+      vi.mocked(userService.getUserByEmail).mockResolvedValue(null);
+
+      const result = await service.requestOtp(env, 'test_project', 'nobody@example.com', 'login');
+
+      expect(result).toBeNull();
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyOtp', () => {
+    const recordFor = async (code: string, overrides: Record<string, any> = {}) => ({
+      id: 'code-1',
+      userId: 'user-1',
+      email: 'user@example.com',
+      codeHash: await hashToken(`user@example.com:${code}`),
+      attempts: 0,
+      usedAt: null,
+      expiresAt: Math.floor(Date.now() / 1000) + 600,
+      ...overrides,
+    });
+
+    it('should issue tokens for a valid login code', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456'));
+
+      const result = await service.verifyOtp(env, 'test_project', 'user@example.com', '123456', 'login', request);
+
+      expect(result).toMatchObject({ accessToken: 'access', refreshToken: 'refresh' });
+      expect(authService.issueTokens).toHaveBeenCalledWith(env, project, user, expect.any(Object));
+      expect(rateLimitService.recordAttempt).toHaveBeenCalledWith(
+        env, 'test_project', 'otp', expect.any(String), 'user@example.com', true, 'user-1'
+      );
+    });
+
+    it('should require the second factor from users with MFA', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456'));
+      vi.mocked(mfaService.hasVerifiedFactor).mockResolvedValueOnce(true);
+
+      const result = await service.verifyOtp(env, 'test_project', 'user@example.com', '123456', 'login', request);
+
+      expect(result).toEqual({ user, mfaRequired: true, mfaToken: 'mfa-challenge' });
+      expect(mfaService.createChallenge).toHaveBeenCalledWith(env, project, 'user-1', 'otp', 'unknown');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+      expect(auditService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong guess and record a failed attempt', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456', { attempts: 2 }));
+
+      await expect(
+        service.verifyOtp(env, 'test_project', 'user@example.com', '654321', 'login', request)
+      ).rejects.toThrow('Invalid code');
+
+      expect(mockQuery.set).toHaveBeenCalledWith({ attempts: 3, usedAt: null });
+      expect(rateLimitService.recordAttempt).toHaveBeenCalledWith(
+        env, 'test_project', 'otp', expect.any(String), 'user@example.com', false, undefined, 'Invalid code'
+      );
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should burn the code on the last allowed wrong guess', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456', { attempts: 4 }));
+
+      await expect(
+        service.verifyOtp(env, 'test_project', 'user@example.com', '654321', 'login', request)
+      ).rejects.toThrow('Invalid code');
+
+      expect(mockQuery.set).toHaveBeenCalledWith({ attempts: 5, usedAt: expect.any(Number) });
+    });
+
+    it('should reject codes with no attempts left', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456', { attempts: 5 }));
+
+      await expect(
+        service.verifyOtp(env, 'test_project', 'user@example.com', '123456', 'login', request)
+      ).rejects.toThrow('Too many attempts');
+    });
+
+    it('should reject expired codes', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456', { expiresAt: 1 }));
+
+      await expect(
+        service.verifyOtp(env, 'test_project', 'user@example.com', '123456', 'login', request)
+      ).rejects.toThrow('Code has expired');
+    });
+
+    it('should verify the email without issuing tokens', async () => {
+      mockQuery.get.mockResolvedValue(await recordFor('123456'));
+      vi.mocked(userService.getUserById).mockResolvedValue({ ...user, email_verified: 0 } as any);
+      vi.mocked(userService.updateUser).mockResolvedValue(user as any);
+
+      const result = await service.verifyOtp(
+        env, 'test_project', 'user@example.com', '123456', 'email_verification', request
+      );
+
+      expect(result.accessToken).toBeUndefined();
+      expect(userService.updateUser).toHaveBeenCalledWith(
+        env,
+        'test_project_users',
+        'user-1',
+        { emailVerified: true }
+      );
+      expect(auditService.logEvent).toHaveBeenCalledWith(
+        env,
+        expect.objectContaining({ eventType: 'email_confirmed' })
+      );
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+});
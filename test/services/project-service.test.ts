@@ -221,6 +221,22 @@ describe('ProjectService - createProject', () => {
 
       expect(triggerCall).toBeDefined();
     });
+
+    it('should create MFA factor table alongside the user table', async () => {
+      const projectId = 'test_app';
+      const tableName = 'test_app_users';
+
+      await projectService.createProjectUserTable(env.DB, projectId, tableName);
+
+      const execCalls = (env.DB.exec as any).mock.calls;
+
+      const factorTableCall = execCalls.find((call: any[]) =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS test_app_users_mfa_factors')
+      );
+
+      expect(factorTableCall).toBeDefined();
+      expect(factorTableCall[0]).toContain('REFERENCES test_app_users(id) ON DELETE CASCADE');
+    });
   });
 
   describe('project data integrity', () => {
@@ -0,0 +1,370 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { SigningKeyService } from '../../src/services/signing-key-service';
+import { auditService } from '../../src/services/audit-service';
+import { tokenDenylistService } from '../../src/services/token-denylist-service';
+import { decrypt } from '../../src/utils/crypto';
+import type { ProjectSigningKey } from '../../src/db/schema';
+import type { Env, Project } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  orderBy: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  all: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/token-denylist-service', () => ({
+  tokenDenylistService: { isRevoked: vi.fn().mockResolvedValue(false) },
+}));
+
+const ENCRYPTION_KEY = 'test-encryption-key';
+
+const createProject = (overrides: Partial<Project> = {}): Project => ({
+  id: 'test_project',
+  name: 'Test Project',
+  userTableName: 'test_project_users',
+  jwtSecret: 'test-jwt-secret-key-256-bits-long!!!',
+  jwtAlgorithm: 'ES256',
+  jwtExpirySeconds: 3600,
+  refreshTokenExpirySeconds: 604800,
+  enabled: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+  ...overrides,
+});
+
+const projectSecretKey = (status: 'active' | 'retired' = 'active') => ({
+  id: 'secret-row',
+  projectId: 'test_project',
+  kid: 'test_project:jwt-secret',
+  algorithm: 'HS256',
+  publicKey: null,
+  privateKey: null,
+  status,
+  createdAt: '2024-01-01',
+  activatedAt: '2024-01-01',
+  retiredAt: null,
+}) as ProjectSigningKey;
+
+describe('SigningKeyService', () => {
+  let service: SigningKeyService;
+  let env: Env;
+
+  // Generate a stored key by running createSigningKey against the mock
+  const makeKey = async (
+    algorithm: 'HS256' | 'RS256' | 'ES256' | 'EdDSA',
+    status: 'active' | 'next' = 'active'
+  ): Promise<ProjectSigningKey> => {
+    mockQuery.get.mockImplementationOnce(async () => ({
+      id: `key-${algorithm}-${status}`,
+      createdAt: '2024-01-01',
+      retiredAt: null,
+      ...mockQuery.values.mock.calls.at(-1)![0],
+    }));
+    return service.createSigningKey(env, 'test_project', algorithm, status);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.get.mockReset();
+    mockQuery.all.mockReset();
+    service = new SigningKeyService();
+    env = { DB: {} as any, ENCRYPTION_KEY } as unknown as Env;
+  });
+
+  describe('createSigningKey', () => {
+    it('should store the private key encrypted and use the JWK thumbprint as kid', async () => {
+      const key = await makeKey('ES256');
+
+      const publicJwk = JSON.parse(key.publicKey!);
+      expect(publicJwk).not.toHaveProperty('d');
+      expect(key.kid).toBe(await jose.calculateJwkThumbprint(publicJwk));
+      expect(key.status).toBe('active');
+      expect(key.activatedAt).toBeTruthy();
+
+      const privateJwk = JSON.parse(await decrypt(key.privateKey!, ENCRYPTION_KEY));
+      expect(privateJwk).toHaveProperty('d');
+    });
+
+    it('should store HS256 secrets encrypted and never publish them', async () => {
+      const key = await makeKey('HS256');
+
+      expect(key.publicKey).toBeNull();
+      const jwk = JSON.parse(await decrypt(key.privateKey!, ENCRYPTION_KEY));
+      expect(jwk).toMatchObject({ kty: 'oct' });
+    });
+
+    it('should not activate scheduled keys', async () => {
+      const key = await makeKey('ES256', 'next');
+
+      expect(key.status).toBe('next');
+      expect(key.activatedAt).toBeNull();
+    });
+
+    it('should require ENCRYPTION_KEY', async () => {
+      await expect(
+        service.createSigningKey({ DB: {} } as unknown as Env, 'test_project', 'ES256')
+      ).rejects.toThrow('ENCRYPTION_KEY must be configured');
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish public keys that are not retired', async () => {
+      const active = await makeKey('ES256');
+      const next = await makeKey('EdDSA', 'next');
+      mockQuery.all.mockResolvedValueOnce([next, active, projectSecretKey()]);
+
+      const jwks = await service.getJwks(env, createProject());
+
+      expect(jwks.keys.map((key) => key.kid)).toEqual([next.kid, active.kid]);
+      expect(jwks.keys[1]).toMatchObject({ alg: 'ES256', use: 'sig', kty: 'EC' });
+      expect(jwks.keys[1]).not.toHaveProperty('d');
+    });
+  });
+
+  describe('signAccessToken / verifyAccessToken', () => {
+    it.each(['RS256', 'ES256', 'EdDSA'] as const)('should round-trip %s tokens by kid', async (algorithm) => {
+      const project = createProject({ jwtAlgorithm: algorithm });
+      const key = await makeKey(algorithm);
+      mockQuery.get.mockResolvedValue(key);
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      expect(jose.decodeProtectedHeader(token)).toEqual({ alg: algorithm, kid: key.kid });
+
+      // Anyone holding the JWKS can verify the token
+      const jwks = jose.createLocalJWKSet({ keys: [{ ...JSON.parse(key.publicKey!), kid: key.kid, alg: algorithm }] });
+      await expect(jose.jwtVerify(token, jwks)).resolves.toBeDefined();
+
+      const payload = await service.verifyAccessToken(env, project, token);
+      expect(payload.sub).toBe('user123');
+    });
+
+    it('should create a key on first use for key pair algorithms', async () => {
+      mockQuery.get.mockResolvedValueOnce(null);
+      mockQuery.get.mockImplementationOnce(async () => ({ id: 'new', ...mockQuery.values.mock.calls.at(-1)![0] }));
+
+      const token = await service.signAccessToken(env, createProject(), 'user123', 'test@example.com');
+
+      expect(mockQuery.insert).toHaveBeenCalled();
+      expect(jose.decodeProtectedHeader(token).kid).toBeDefined();
+    });
+
+    it('should sign with the project secret without a kid while it is the active HS256 key', async () => {
+      const project = createProject({ jwtAlgorithm: 'HS256' });
+      mockQuery.get.mockResolvedValue(projectSecretKey());
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      expect(jose.decodeProtectedHeader(token)).toEqual({ alg: 'HS256' });
+      await expect(service.verifyAccessToken(env, project, token)).resolves.toMatchObject({ sub: 'user123' });
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should keep accepting the project secret for projects that predate the key ring', async () => {
+      const project = createProject({ jwtAlgorithm: 'HS256' });
+      mockQuery.get.mockResolvedValue(null);
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      await expect(service.verifyAccessToken(env, project, token)).resolves.toMatchObject({ sub: 'user123' });
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it('should sign with a rotated HS256 key and its kid', async () => {
+      const project = createProject({ jwtAlgorithm: 'HS256' });
+      const key = await makeKey('HS256');
+      mockQuery.get.mockResolvedValue(key);
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      expect(jose.decodeProtectedHeader(token)).toEqual({ alg: 'HS256', kid: key.kid });
+      await expect(jose.jwtVerify(token, new TextEncoder().encode(project.jwtSecret))).rejects.toThrow();
+      await expect(service.verifyAccessToken(env, project, token)).resolves.toMatchObject({ sub: 'user123' });
+    });
+
+    it('should reject tokens signed with a retired key', async () => {
+      const project = createProject();
+      const key = await makeKey('ES256');
+      mockQuery.get.mockResolvedValueOnce(key).mockResolvedValueOnce({ ...key, status: 'retired' });
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      await expect(service.verifyAccessToken(env, project, token)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const project = createProject();
+      const key = await makeKey('ES256');
+      mockQuery.get.mockResolvedValueOnce(key).mockResolvedValueOnce(null);
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      await expect(service.verifyAccessToken(env, project, token)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should reject project secret tokens once the secret is retired', async () => {
+      const project = createProject({ jwtAlgorithm: 'HS256' });
+      mockQuery.get.mockResolvedValueOnce(projectSecretKey()).mockResolvedValueOnce(projectSecretKey('retired'));
+
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      await expect(service.verifyAccessToken(env, project, token)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should accept tokens from the previous active key after rotation', async () => {
+      const project = createProject();
+      const previous = await makeKey('ES256');
+      const current = await makeKey('ES256');
+
+      mockQuery.get.mockResolvedValueOnce(previous);
+      const oldToken = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      mockQuery.get.mockResolvedValueOnce(current);
+      const newToken = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+
+      mockQuery.get.mockResolvedValueOnce(previous).mockResolvedValueOnce(current);
+      await expect(service.verifyAccessToken(env, project, oldToken)).resolves.toMatchObject({ sub: 'user123' });
+      await expect(service.verifyAccessToken(env, project, newToken)).resolves.toMatchObject({ sub: 'user123' });
+      expect(jose.decodeProtectedHeader(oldToken).kid).not.toBe(jose.decodeProtectedHeader(newToken).kid);
+    });
+
+    it('should reject revoked tokens', async () => {
+      const project = createProject({ jwtAlgorithm: 'HS256' });
+      mockQuery.get.mockResolvedValue(null);
+      const token = await service.signAccessToken(env, project, 'user123', 'test@example.com');
+      vi.mocked(tokenDenylistService.isRevoked).mockResolvedValueOnce(true);
+
+      await expect(service.verifyAccessToken(env, project, token)).rejects.toThrow('Token has been revoked');
+      expect(tokenDenylistService.isRevoked).toHaveBeenCalledWith(env, 'test_project', jose.decodeJwt(token).jti);
+    });
+  });
+
+  describe('signIdToken', () => {
+    const claims = { issuer: 'https://auth.example.com/api/auth/test_project', audience: 'client-1', subject: 'user123' };
+
+    it('should sign with the key pair published in the JWKS', async () => {
+      const key = await makeKey('ES256');
+      mockQuery.get.mockResolvedValue(key);
+
+      const token = await service.signIdToken(env, createProject(), claims);
+
+      const jwks = jose.createLocalJWKSet({ keys: [{ ...JSON.parse(key.publicKey!), kid: key.kid, alg: 'ES256' }] });
+      await expect(jose.jwtVerify(token, jwks, { audience: 'client-1' })).resolves.toBeDefined();
+    });
+
+    it('should refuse to sign with a shared secret', async () => {
+      const key = await makeKey('HS256');
+      mockQuery.get.mockResolvedValue(key);
+
+      await expect(service.signIdToken(env, createProject({ jwtAlgorithm: 'HS256' }), claims))
+        .rejects.toThrow('OpenID Connect requires an asymmetric JWT algorithm (RS256, ES256 or EdDSA)');
+    });
+  });
+
+  describe('scheduleRotation', () => {
+    it('should create a next key for the project algorithm', async () => {
+      mockQuery.get.mockResolvedValueOnce(null);
+      mockQuery.get.mockImplementationOnce(async () => ({ id: 'next-key', ...mockQuery.values.mock.calls.at(-1)![0] }));
+
+      const key = await service.scheduleRotation(env, createProject({ jwtAlgorithm: 'RS256' }), 'admin-1');
+
+      expect(key).toMatchObject({ algorithm: 'RS256', status: 'next' });
+      expect(auditService.logEvent).toHaveBeenCalledWith(env, expect.objectContaining({
+        eventType: 'admin_action',
+        adminUserId: 'admin-1',
+        eventData: expect.objectContaining({ action: 'signing_key_scheduled' }),
+      }));
+    });
+
+    it('should refuse a second scheduled key', async () => {
+      mockQuery.get.mockResolvedValueOnce({ id: 'next-key' });
+
+      await expect(service.scheduleRotation(env, createProject())).rejects.toThrow('already scheduled');
+      expect(mockQuery.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('activateKey', () => {
+    it('should activate a scheduled key', async () => {
+      const next = await makeKey('ES256', 'next');
+      mockQuery.get.mockResolvedValueOnce(next);
+
+      await service.activateKey(env, createProject(), next.id);
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'active' }));
+    });
+
+    it('should only activate scheduled keys', async () => {
+      mockQuery.get.mockResolvedValueOnce(projectSecretKey('retired'));
+
+      await expect(service.activateKey(env, createProject({ jwtAlgorithm: 'HS256' }), 'secret-row'))
+        .rejects.toThrow('Only a scheduled key can be activated');
+    });
+
+    it('should refuse keys for another algorithm', async () => {
+      const next = await makeKey('RS256', 'next');
+      mockQuery.get.mockResolvedValueOnce(next);
+
+      await expect(service.activateKey(env, createProject(), next.id))
+        .rejects.toThrow('does not match the project algorithm');
+    });
+
+    it('should throw for unknown keys', async () => {
+      mockQuery.get.mockResolvedValueOnce(null);
+
+      await expect(service.activateKey(env, createProject(), 'missing')).rejects.toThrow('Signing key not found');
+    });
+  });
+
+  describe('retireKey', () => {
+    it('should retire a key that no longer signs', async () => {
+      const current = await makeKey('ES256');
+      mockQuery.get.mockResolvedValueOnce(projectSecretKey()).mockResolvedValueOnce(current);
+
+      await service.retireKey(env, createProject(), 'secret-row');
+
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'retired' }));
+    });
+
+    it('should refuse to retire the signing key', async () => {
+      const current = await makeKey('ES256');
+      mockQuery.get.mockResolvedValueOnce(current).mockResolvedValueOnce(current);
+
+      await expect(service.retireKey(env, createProject(), current.id))
+        .rejects.toThrow('Cannot retire the key that is signing new tokens');
+      expect(mockQuery.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listKeys', () => {
+    it('should flag the signing key and the project secret without exposing key material', async () => {
+      const current = await makeKey('ES256');
+      mockQuery.all.mockResolvedValueOnce([current, projectSecretKey()]);
+      mockQuery.get.mockResolvedValueOnce(current);
+
+      const keys = await service.listKeys(env, createProject());
+
+      expect(keys[0]).toMatchObject({ kid: current.kid, signing: true, projectSecret: false });
+      expect(keys[1]).toMatchObject({ signing: false, projectSecret: true });
+      expect(keys[0]).not.toHaveProperty('privateKey');
+    });
+  });
+});
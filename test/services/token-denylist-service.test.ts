@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TokenDenylistService } from '../../src/services/token-denylist-service';
+import type { Env } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  onConflictDoNothing: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+const env = { DB: {} } as unknown as Env;
+
+describe('TokenDenylistService', () => {
+  let service: TokenDenylistService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.get.mockReset();
+    service = new TokenDenylistService();
+  });
+
+  describe('revoke', () => {
+    it('should store the jti until the token expires and prune expired entries', async () => {
+      await service.revoke(env, 'test_project', 'jti-1', 1700003600, 'revoked');
+
+      expect(mockQuery.values).toHaveBeenCalledWith({
+        projectId: 'test_project',
+        jti: 'jti-1',
+        expiresAt: 1700003600,
+        reason: 'revoked',
+      });
+      expect(mockQuery.onConflictDoNothing).toHaveBeenCalled();
+      expect(mockQuery.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('isRevoked', () => {
+    it('should report whether the jti is on the denylist', async () => {
+      mockQuery.get.mockResolvedValueOnce({ id: 'entry-1' }).mockResolvedValueOnce(undefined);
+
+      await expect(service.isRevoked(env, 'test_project', 'jti-1')).resolves.toBe(true);
+      await expect(service.isRevoked(env, 'test_project', 'jti-2')).resolves.toBe(false);
+    });
+  });
+});
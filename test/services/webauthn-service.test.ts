@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebAuthnService } from '../../src/services/webauthn-service';
+import { projectService } from '../../src/services/project-service';
+import { userService } from '../../src/services/user-service';
+import { authService } from '../../src/services/auth-service';
+import { rateLimitService } from '../../src/services/rate-limit-service';
+import { base64UrlDecode, base64UrlEncode, sha256 } from '../../src/utils/webauthn';
+import type { Env, Project, User } from '../../src/types';
+
+// Shared drizzle query builder mock
+const mockQuery = vi.hoisted(() => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  all: vi.fn().mockResolvedValue([]),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+}));
+
+vi.mock('drizzle-orm/d1', () => ({
+  drizzle: vi.fn(() => mockQuery),
+}));
+
+vi.mock('../../src/services/project-service', () => ({
+  projectService: { getProject: vi.fn() },
+}));
+
+vi.mock('../../src/services/user-service', () => ({
+  userService: {
+    getUserByEmail: vi.fn(),
+    getUserById: vi.fn(),
+    updateLastLogin: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/auth-service', () => ({
+  authService: {
+    issueTokens: vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }),
+  },
+}));
+
+vi.mock('../../src/services/audit-service', () => ({
+  auditService: { logEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../src/services/rate-limit-service', () => ({
+  rateLimitService: {
+    checkRateLimit: vi.fn().mockResolvedValue(undefined),
+    recordAttempt: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// Minimal CBOR encoder for building authenticator responses
+const cborHead = (major: number, value: number): number[] => {
+  if (value < 24) return [(major << 5) | value];
+  if (value < 256) return [(major << 5) | 24, value];
+  return [(major << 5) | 25, value >> 8, value & 0xff];
+};
+const cborInt = (value: number) => (value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value));
+const cborBytes = (value: Uint8Array) => [...cborHead(2, value.length), ...value];
+const cborText = (value: string) => {
+  const encoded = new TextEncoder().encode(value);
+  return [...cborHead(3, encoded.length), ...encoded];
+};
+const cborMap = (entries: number[][][]) => [...cborHead(5, entries.length), ...entries.flat(2)];
+
+// Raw r||s signature to the DER form authenticators produce
+const rawToDer = (raw: Uint8Array): Uint8Array => {
+  const integer = (value: Uint8Array) => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    const trimmed = [...value.slice(start)];
+    if (trimmed[0] & 0x80) trimmed.unshift(0);
+    return [0x02, trimmed.length, ...trimmed];
+  };
+  const body = [...integer(raw.slice(0, 32)), ...integer(raw.slice(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+};
+
+const ORIGIN = 'https://app.example.com';
+const RP_ID = 'app.example.com';
+
+const env = { DB: {} } as unknown as Env;
+const request = new Request('http://localhost/api/auth/test_project/webauthn/login/verify', { method: 'POST' });
+
+const project = {
+  id: 'test_project',
+  name: 'Test Project',
+  enabled: true,
+  userTableName: 'test_project_users',
+  siteUrl: `${ORIGIN}/app`,
+} as Project;
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  status: 'active',
+} as User;
+
+const credentialIdBytes = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+const credentialId = base64UrlEncode(credentialIdBytes);
+
+let keyPair: CryptoKeyPair;
+let coseKey: Uint8Array;
+
+const encodeClientData = (type: string, challenge: string, origin = ORIGIN) =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify({ type, challenge, origin })));
+
+const buildAuthData = async (flags: number, signCount: number, attested?: Uint8Array) => {
+  const rpIdHash = await sha256(new TextEncoder().encode(RP_ID));
+  const counter = [(signCount >>> 24) & 0xff, (signCount >> 16) & 0xff, (signCount >> 8) & 0xff, signCount & 0xff];
+  return new Uint8Array([...rpIdHash, flags, ...counter, ...(attested || [])]);
+};
+
+const buildRegistration = async (challenge: string, options: { fmt?: string; origin?: string } = {}) => {
+  const attested = new Uint8Array([
+    ...new Uint8Array(16),
+    0,
+    credentialIdBytes.length,
+    ...credentialIdBytes,
+    ...coseKey,
+  ]);
+  const authData = await buildAuthData(0x41, 0, attested);
+  const attestationObject = new Uint8Array(
+    cborMap([
+      [cborText('fmt'), cborText(options.fmt || 'none')],
+      [cborText('attStmt'), cborMap([])],
+      [cborText('authData'), cborBytes(authData)],
+    ])
+  );
+
+  return {
+    id: credentialId,
+    type: 'public-key' as const,
+    response: {
+      clientDataJSON: encodeClientData('webauthn.create', challenge, options.origin),
+      attestationObject: base64UrlEncode(attestationObject),
+      transports: ['internal'],
+    },
+  };
+};
+
+const buildAssertion = async (challenge: string, signCount: number) => {
+  const authData = await buildAuthData(0x05, signCount);
+  const clientDataJSON = encodeClientData('webauthn.get', challenge);
+  const clientDataHash = await sha256(base64UrlDecode(clientDataJSON));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keyPair.privateKey,
+      new Uint8Array([...authData, ...clientDataHash])
+    )
+  );
+
+  return {
+    id: credentialId,
+    type: 'public-key' as const,
+    response: {
+      clientDataJSON,
+      authenticatorData: base64UrlEncode(authData),
+      signature: base64UrlEncode(rawToDer(signature)),
+      userHandle: base64UrlEncode(new TextEncoder().encode(user.id)),
+    },
+  };
+};
+
+const storedChallenge = (type: 'registration' | 'authentication', userId: string | null) => ({
+  id: 'challenge-1',
+  projectId: project.id,
+  userId,
+  challenge: 'challenge-value',
+  type,
+  expiresAt: Math.floor(Date.now() / 1000) + 300,
+  createdAt: Math.floor(Date.now() / 1000),
+});
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    service = new WebAuthnService();
+
+    keyPair = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    coseKey = new Uint8Array(
+      cborMap([
+        [cborInt(1), cborInt(2)],
+        [cborInt(3), cborInt(-7)],
+        [cborInt(-1), cborInt(1)],
+        [cborInt(-2), cborBytes(base64UrlDecode(jwk.x!))],
+        [cborInt(-3), cborBytes(base64UrlDecode(jwk.y!))],
+      ])
+    );
+  });
+
+  describe('getRelyingParty', () => {
+    it('should use the site URL hostname as RP ID', () => {
+      expect(service.getRelyingParty(project)).toEqual({ rpId: RP_ID, origin: ORIGIN });
+    });
+
+    it('should require a site URL', () => {
+      expect(() => service.getRelyingParty({ ...project, siteUrl: null } as Project))
+        .toThrow('No siteUrl configured');
+    });
+  });
+
+  describe('generateRegistrationOptions', () => {
+    it('should store a challenge and exclude existing passkeys', async () => {
+      mockQuery.all.mockResolvedValueOnce([
+        { id: 'passkey-1', credentialId: 'existing', transports: '["usb"]', name: null },
+      ]);
+
+      const options = await service.generateRegistrationOptions(env, project, user);
+
+      expect(options.rp).toEqual({ id: RP_ID, name: 'Test Project' });
+      expect(options.attestation).toBe('none');
+      expect(options.excludeCredentials).toEqual([{ type: 'public-key', id: 'existing', transports: ['usb'] }]);
+      expect(mockQuery.values).toHaveBeenCalledWith(
+        expect.objectContaining({ challenge: options.challenge, type: 'registration', userId: 'user-1' })
+      );
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it('should store a passkey with "none" attestation', async () => {
+      mockQuery.returning.mockResolvedValueOnce([storedChallenge('registration', 'user-1')]);
+      mockQuery.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          id: 'passkey-1',
+          credentialId,
+          transports: '["internal"]',
+          name: 'Laptop',
+          createdAt: '2024-01-01T00:00:00Z',
+          lastUsedAt: null,
+        });
+
+      const credential = await buildRegistration('challenge-value');
+      const result = await service.verifyRegistration(env, project, user, credential, 'Laptop');
+
+      expect(result).toMatchObject({ id: 'passkey-1', credentialId, transports: ['internal'] });
+      expect(mockQuery.values).toHaveBeenCalledWith(
+        expect.objectContaining({ credentialId, algorithm: -7, signCount: 0, userId: 'user-1' })
+      );
+    });
+
+    it('should reject a response from another origin', async () => {
+      const credential = await buildRegistration('challenge-value', { origin: 'https://evil.example.com' });
+
+      await expect(service.verifyRegistration(env, project, user, credential))
+        .rejects.toThrow('Origin does not match');
+    });
+
+    it('should reject an unknown or expired challenge', async () => {
+      mockQuery.returning.mockResolvedValueOnce([]);
+
+      const credential = await buildRegistration('challenge-value');
+
+      await expect(service.verifyRegistration(env, project, user, credential))
+        .rejects.toThrow('Invalid or expired challenge');
+    });
+
+    it('should reject other attestation formats', async () => {
+      mockQuery.returning.mockResolvedValueOnce([storedChallenge('registration', 'user-1')]);
+
+      const credential = await buildRegistration('challenge-value', { fmt: 'packed' });
+
+      await expect(service.verifyRegistration(env, project, user, credential))
+        .rejects.toThrow('Only "none" attestation');
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    const storedCredential = () => ({
+      id: 'passkey-1',
+      projectId: project.id,
+      userId: 'user-1',
+      credentialId,
+      publicKey: base64UrlEncode(coseKey),
+      algorithm: -7,
+      signCount: 1,
+    });
+
+    beforeEach(() => {
+      vi.mocked(projectService.getProject).mockResolvedValue(project);
+      vi.mocked(userService.getUserById).mockResolvedValue(user);
+    });
+
+    it('should sign the user in with a valid assertion', async () => {
+      mockQuery.returning
+        .mockResolvedValueOnce([storedChallenge('authentication', null)])
+        .mockResolvedValueOnce([storedCredential()]);
+      mockQuery.get.mockResolvedValueOnce(storedCredential());
+
+      const credential = await buildAssertion('challenge-value', 2);
+      const result = await service.verifyAuthentication(env, project.id, credential, request);
+
+      expect(result).toEqual({ user, accessToken: 'access', refreshToken: 'refresh' });
+      expect(authService.issueTokens).toHaveBeenCalledWith(env, project, user, expect.any(Object));
+      expect(mockQuery.set).toHaveBeenCalledWith(expect.objectContaining({ signCount: 2 }));
+    });
+
+    it('should reject an invalid signature', async () => {
+      mockQuery.returning.mockResolvedValueOnce([storedChallenge('authentication', null)]);
+      mockQuery.get.mockResolvedValueOnce(storedCredential());
+
+      const credential = await buildAssertion('challenge-value', 2);
+      credential.response.authenticatorData = base64UrlEncode(await buildAuthData(0x05, 3));
+
+      await expect(service.verifyAuthentication(env, project.id, credential, request))
+        .rejects.toThrow('Invalid passkey signature');
+      expect(rateLimitService.recordAttempt).toHaveBeenCalledWith(
+        env, project.id, 'login', expect.any(String), undefined, false, undefined, 'Invalid passkey signature'
+      );
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject a sign count that did not increase', async () => {
+      mockQuery.returning.mockResolvedValueOnce([storedChallenge('authentication', null)]);
+      mockQuery.get.mockResolvedValueOnce({ ...storedCredential(), signCount: 5 });
+
+      const credential = await buildAssertion('challenge-value', 5);
+
+      await expect(service.verifyAuthentication(env, project.id, credential, request))
+        .rejects.toThrow('sign count');
+    });
+
+    it('should reject an assertion whose counter a concurrent one already used', async () => {
+      mockQuery.returning
+        .mockResolvedValueOnce([storedChallenge('authentication', null)])
+        .mockResolvedValueOnce([]);
+      mockQuery.get.mockResolvedValueOnce(storedCredential());
+
+      const credential = await buildAssertion('challenge-value', 2);
+
+      await expect(service.verifyAuthentication(env, project.id, credential, request))
+        .rejects.toThrow('Passkey sign count did not increase');
+      expect(authService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject a passkey belonging to another user than the challenge', async () => {
+      mockQuery.returning.mockResolvedValueOnce([storedChallenge('authentication', 'user-2')]);
+      mockQuery.get.mockResolvedValueOnce(storedCredential());
+
+      const credential = await buildAssertion('challenge-value', 2);
+
+      await expect(service.verifyAuthentication(env, project.id, credential, request))
+        .rejects.toThrow('Unknown passkey');
+    });
+  });
+});
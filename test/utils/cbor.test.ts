@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCbor, decodeCborItem } from '../../src/utils/cbor';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('CBOR Utils', () => {
+  describe('decodeCbor', () => {
+    it('should decode unsigned and negative integers', () => {
+      expect(decodeCbor(bytes(0x17))).toBe(23);
+      expect(decodeCbor(bytes(0x18, 0xff))).toBe(255);
+      expect(decodeCbor(bytes(0x19, 0x01, 0x00))).toBe(256);
+      expect(decodeCbor(bytes(0x1a, 0xff, 0xff, 0xff, 0xff))).toBe(4294967295);
+      expect(decodeCbor(bytes(0x26))).toBe(-7);
+      expect(decodeCbor(bytes(0x39, 0x01, 0x00))).toBe(-257);
+    });
+
+    it('should decode byte and text strings', () => {
+      expect(decodeCbor(bytes(0x43, 1, 2, 3))).toEqual(bytes(1, 2, 3));
+      expect(decodeCbor(bytes(0x64, 0x6e, 0x6f, 0x6e, 0x65))).toBe('none');
+    });
+
+    it('should decode arrays, maps and simple values', () => {
+      expect(decodeCbor(bytes(0x83, 0x01, 0xf5, 0xf6))).toEqual([1, true, null]);
+
+      // { 1: 2, "a": -1 }
+      const map = decodeCbor(bytes(0xa2, 0x01, 0x02, 0x61, 0x61, 0x20));
+      expect(map).toBeInstanceOf(Map);
+      expect(map.get(1)).toBe(2);
+      expect(map.get('a')).toBe(-1);
+    });
+
+    it('should reject trailing bytes', () => {
+      expect(() => decodeCbor(bytes(0x01, 0x02))).toThrow('Trailing bytes');
+    });
+
+    it('should reject truncated data', () => {
+      expect(() => decodeCbor(bytes(0x43, 1, 2))).toThrow('Unexpected end');
+      expect(() => decodeCbor(bytes(0x82, 0x01))).toThrow('Unexpected end');
+    });
+
+    it('should reject unsupported items', () => {
+      expect(() => decodeCbor(bytes(0x5f))).toThrow('Unsupported CBOR length encoding');
+      expect(() => decodeCbor(bytes(0xc0, 0x01))).toThrow('Unsupported CBOR major type');
+    });
+  });
+
+  describe('decodeCborItem', () => {
+    it('should return the offset after the item', () => {
+      const result = decodeCborItem(bytes(0xff, 0x42, 0xaa, 0xbb, 0x01), 1);
+
+      expect(result.value).toEqual(bytes(0xaa, 0xbb));
+      expect(result.offset).toBe(4);
+    });
+  });
+});
@@ -8,6 +8,7 @@ import {
   RateLimitError,
   ConflictError,
   BadRequestError,
+  OAuthError,
   formatError,
 } from '../../src/utils/errors';
 
@@ -146,6 +147,23 @@ describe('Error Utils', () => {
     });
   });
 
+  describe('OAuthError', () => {
+    it('should use the OAuth error code', () => {
+      const error = new OAuthError('invalid_grant', 'Authorization code has expired');
+
+      expect(error.statusCode).toBe(400);
+      expect(error.name).toBe('OAuthError');
+      expect(error.code).toBe('invalid_grant');
+      expect(error.message).toBe('Authorization code has expired');
+    });
+
+    it('should accept a custom status code', () => {
+      const error = new OAuthError('invalid_client', 'Client authentication failed', 401);
+
+      expect(error.statusCode).toBe(401);
+    });
+  });
+
   describe('formatError', () => {
     it('should format AppError correctly', () => {
       const error = new NotFoundError('User not found');
@@ -8,10 +8,12 @@ import {
   isExpired,
   safeJsonParse,
   safeJsonStringify,
+  renderTemplate,
   createPaginationInfo,
   maskSensitiveData,
   formatBytes,
   randomHex,
+  isAllowedRedirectUrl,
 } from '../../src/utils/helpers';
 
 describe('generateProjectIdFromName', () => {
@@ -413,6 +415,17 @@ describe('safeJsonStringify', () => {
   });
 });
 
+describe('renderTemplate', () => {
+  it('should substitute known keys', () => {
+    expect(renderTemplate('Hi {{ name }}, welcome to {{project}}', { name: 'Ana', project: 'Acme' }))
+      .toBe('Hi Ana, welcome to Acme');
+  });
+
+  it('should leave unknown keys as they are', () => {
+    expect(renderTemplate('Code: {{otp}}', {})).toBe('Code: {{otp}}');
+  });
+});
+
 describe('createPaginationInfo', () => {
   it('should create correct pagination info', () => {
     const info = createPaginationInfo(100, 1, 10);
@@ -463,4 +476,54 @@ describe('randomHex', () => {
     const hex2 = randomHex(16);
     expect(hex1).not.toBe(hex2);
   });
-});
\ No newline at end of file
+});
+
+describe('isAllowedRedirectUrl', () => {
+  const siteUrl = 'https://app.example.com';
+
+  it('should allow URLs on the site URL origin', () => {
+    expect(isAllowedRedirectUrl('https://app.example.com/auth/callback', siteUrl, null)).toBe(true);
+  });
+
+  it('should allow exact allowlist matches', () => {
+    const allowlist = ['https://other.example.com/callback'];
+    expect(isAllowedRedirectUrl('https://other.example.com/callback', siteUrl, allowlist)).toBe(true);
+    expect(isAllowedRedirectUrl('https://other.example.com/callback2', siteUrl, allowlist)).toBe(false);
+  });
+
+  it('should allow wildcard allowlist prefixes', () => {
+    const allowlist = ['https://preview.example.com/*'];
+    expect(isAllowedRedirectUrl('https://preview.example.com/pr-1/cb', null, allowlist)).toBe(true);
+  });
+
+  it('should only match wildcard paths at a / boundary', () => {
+    const allowlist = ['https://other.example.com/cb*'];
+    expect(isAllowedRedirectUrl('https://other.example.com/cb', null, allowlist)).toBe(true);
+    expect(isAllowedRedirectUrl('https://other.example.com/cb/done?x=1', null, allowlist)).toBe(true);
+    expect(isAllowedRedirectUrl('https://other.example.com/cb.evil/steal', null, allowlist)).toBe(false);
+    expect(isAllowedRedirectUrl('https://other.example.com/cbx', null, allowlist)).toBe(false);
+    expect(isAllowedRedirectUrl('https://other.example.com/cb/../admin', null, allowlist)).toBe(false);
+  });
+
+  it('should compare wildcard origins exactly', () => {
+    const allowlist = ['https://other.example.com*'];
+    expect(isAllowedRedirectUrl('https://other.example.com/any/path', null, allowlist)).toBe(true);
+    expect(isAllowedRedirectUrl('https://other.example.com.evil.com/cb', null, allowlist)).toBe(false);
+    expect(isAllowedRedirectUrl('https://other.example.com:8443/cb', null, allowlist)).toBe(false);
+    expect(isAllowedRedirectUrl('https://other.example.com@evil.com/cb', null, allowlist)).toBe(false);
+  });
+
+  it('should accept the allowlist as a JSON string', () => {
+    const allowlist = JSON.stringify(['https://other.example.com/callback']);
+    expect(isAllowedRedirectUrl('https://other.example.com/callback', null, allowlist)).toBe(true);
+  });
+
+  it('should reject unknown origins', () => {
+    expect(isAllowedRedirectUrl('https://evil.example.net/cb', siteUrl, [])).toBe(false);
+  });
+
+  it('should reject non-http schemes and malformed URLs', () => {
+    expect(isAllowedRedirectUrl('javascript:alert(1)', siteUrl, ['javascript:*'])).toBe(false);
+    expect(isAllowedRedirectUrl('not a url', siteUrl, null)).toBe(false);
+  });
+});
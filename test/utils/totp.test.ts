@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+} from '../../src/utils/totp';
+
+// RFC 6238 Appendix B SHA-1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('TOTP Utils', () => {
+  describe('base32', () => {
+    it('should encode RFC 4648 test vectors', () => {
+      const encode = (s: string) => base32Encode(new TextEncoder().encode(s));
+
+      expect(encode('f')).toBe('MY');
+      expect(encode('foob')).toBe('MZXW6YQ');
+      expect(encode('foobar')).toBe('MZXW6YTBOI');
+    });
+
+    it('should round-trip bytes', () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(20));
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(new TextDecoder().decode(base32Decode('mzxw 6ytb oi======'))).toBe('foobar');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate 160-bit secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match RFC 6238 test vectors', async () => {
+      // Last 6 digits of the 8-digit reference values
+      expect(await generateTotp(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+      expect(await generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(await generateTotp(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924');
+      expect(await generateTotp(RFC_SECRET, Math.floor(20000000000 / 30))).toBe('353130');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should return the matching step', async () => {
+      expect(await verifyTotp(RFC_SECRET, '081804', 1, now)).toBe(Math.floor(1111111109 / 30));
+    });
+
+    it('should accept codes from adjacent steps', async () => {
+      const previous = await generateTotp(RFC_SECRET, Math.floor(1111111109 / 30) - 1);
+
+      expect(await verifyTotp(RFC_SECRET, previous, 1, now)).not.toBeNull();
+      expect(await verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+    });
+
+    it('should reject wrong and malformed codes', async () => {
+      expect(await verifyTotp(RFC_SECRET, '000000', 1, now)).toBeNull();
+      expect(await verifyTotp(RFC_SECRET, '81804', 1, now)).toBeNull();
+      expect(await verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a provisioning URI', () => {
+      const uri = buildOtpauthUri('My App', 'user@example.com', 'JBSWY3DPEHPK3PXP');
+      const url = new URL(uri);
+
+      expect(url.protocol).toBe('otpauth:');
+      expect(uri.startsWith('otpauth://totp/My%20App:user%40example.com?')).toBe(true);
+      expect(url.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+      expect(url.searchParams.get('issuer')).toBe('My App');
+      expect(url.searchParams.get('digits')).toBe('6');
+    });
+  });
+});